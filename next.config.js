@@ -3,6 +3,19 @@ await import("./src/lib/env.js");
 
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    serverActions: {
+      // Car images are uploaded through a server action, see `src/lib/car-images.ts`
+      bodySizeLimit: "6mb",
+    },
+  },
+  // PDFKit reads its own files at run time, and invoices embed the fonts, see `src/lib/pdf.ts`
+  serverExternalPackages: ["pdfkit"],
+  outputFileTracingIncludes: {
+    "/account/reservations/[id]/invoices/[invoiceId]": [
+      "./node_modules/@fontsource/noto-sans/files/noto-sans-{latin,latin-ext,devanagari}-{400,700}-normal.woff",
+    ],
+  },
   images: {
     formats: ["image/avif", "image/webp"],
     remotePatterns: [
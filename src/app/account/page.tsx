@@ -0,0 +1,96 @@
+import Link from "next/link";
+import { CalendarX } from "lucide-react";
+
+import type { Metadata } from "next";
+
+import { Button } from "@/components/ui/button";
+import { checkAuth } from "@/lib/auth";
+import { fetchReservationsByUser } from "@/lib/db/queries";
+import { ReservationStatus } from "@/lib/enums";
+import { getTranslations } from "@/lib/i18n/server";
+import { ReservationCard } from "./reservation-card";
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getTranslations();
+
+  return { title: t("account.title") };
+}
+
+export default async function AccountPage() {
+  const user = await checkAuth();
+  const [reservations, { locale, t }] = await Promise.all([
+    fetchReservationsByUser(user.id),
+    getTranslations(),
+  ]);
+
+  const active = reservations.filter(
+    ({ reservation }) => reservation.status === ReservationStatus.ACTIVE
+  );
+  // Closest trip first
+  const upcoming = reservations
+    .filter(
+      ({ reservation }) =>
+        reservation.status === ReservationStatus.PENDING ||
+        reservation.status === ReservationStatus.CONFIRMED
+    )
+    .reverse();
+  const past = reservations.filter(
+    (entry) => !active.includes(entry) && !upcoming.includes(entry)
+  );
+
+  const sections = [
+    { title: t("account.sections.active"), reservations: active },
+    { title: t("account.sections.upcoming"), reservations: upcoming },
+    { title: t("account.sections.past"), reservations: past },
+  ].filter((section) => section.reservations.length > 0);
+
+  return (
+    <main className="mx-auto w-full max-w-none px-5 md:max-w-[90%] md:px-0 lg:mt-4 xl:max-w-6xl">
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">{t("account.title")}</h1>
+        <p className="text-muted-foreground mt-1">
+          {user.name} · {user.email}
+        </p>
+      </div>
+
+      {sections.length === 0 ?
+        <div className="flex h-96 flex-col items-center justify-center rounded-md border-2 border-dashed">
+          <CalendarX size={44} />
+          <div className="text-center">
+            <h2 className="text-xl font-semibold">
+              {t("account.empty.title")}
+            </h2>
+            <p className="text-muted-foreground mt-3">
+              {t("account.empty.description")}
+            </p>
+            <Button className="mt-4" asChild>
+              <Link href="/cars">{t("account.empty.button")}</Link>
+            </Button>
+          </div>
+        </div>
+      : <div className="mb-16 space-y-10">
+          {sections.map((section) => (
+            <section key={section.title}>
+              <h2 className="text-xl font-semibold">{section.title}</h2>
+
+              <div className="mt-4 grid grid-cols-1 gap-3 md:grid-cols-2">
+                {section.reservations.map(
+                  ({ reservation, car, location, returnLocation }) => (
+                    <ReservationCard
+                      key={reservation.id}
+                      reservation={reservation}
+                      car={car}
+                      location={location}
+                      returnLocation={returnLocation}
+                      locale={locale}
+                    />
+                  )
+                )}
+              </div>
+            </section>
+          ))}
+        </div>
+      }
+    </main>
+  );
+}
@@ -0,0 +1,86 @@
+import Image from "next/image";
+import Link from "next/link";
+import { ChevronRight } from "lucide-react";
+
+import type { Car, Location, RentalReservation } from "@/lib/db/definitions";
+import type { Locale } from "@/lib/i18n/config";
+
+import { ReservationStatusBadge } from "@/components/reservation-status-badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { getCarImageUrl } from "@/lib/car-images";
+import { fromMinorUnits } from "@/lib/currency";
+import { ReservationStatus } from "@/lib/enums";
+import { formatCurrency, formatDateRange } from "@/lib/utils";
+
+type ReservationCardProps = {
+  reservation: RentalReservation;
+  car: Car;
+  location: Location;
+  returnLocation: Location;
+  locale: Locale;
+};
+
+export function ReservationCard(props: ReservationCardProps) {
+  const { reservation, car, location, returnLocation, locale } = props;
+  const { currency, total_amount } = reservation;
+
+  return (
+    <Link
+      href={`/account/reservations/${reservation.id}`}
+      className="group rounded-xl"
+    >
+      <Card className="transition-shadow duration-300 group-hover:shadow-md">
+        <CardContent className="flex items-center gap-4 p-4">
+          <div className="relative h-16 w-24 shrink-0">
+            <Image
+              src={getCarImageUrl(car, "thumbnail")}
+              alt={car.name}
+              fill
+              sizes="96px"
+              className="object-contain object-center"
+            />
+          </div>
+
+          <div className="min-w-0 flex-1 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <p className="truncate font-semibold">{car.name}</p>
+              <ReservationStatusBadge
+                status={reservation.status ?? ReservationStatus.PENDING}
+                locale={locale}
+              />
+            </div>
+
+            <p className="text-muted-foreground truncate text-sm">
+              {location.name}
+              {returnLocation.id !== location.id && ` → ${returnLocation.name}`}
+            </p>
+
+            <div className="text-muted-foreground flex items-center justify-between text-sm">
+              <span>
+                {formatDateRange(
+                  reservation.check_in,
+                  reservation.check_out,
+                  location.timezone,
+                  locale
+                )}
+              </span>
+              {currency &&
+                total_amount !== null &&
+                total_amount !== undefined && (
+                  <span className="text-foreground font-medium">
+                    {formatCurrency(
+                      fromMinorUnits(total_amount, currency),
+                      currency,
+                      locale
+                    )}
+                  </span>
+                )}
+            </div>
+          </div>
+
+          <ChevronRight className="text-muted-foreground size-4 shrink-0 duration-200 group-hover:translate-x-1" />
+        </CardContent>
+      </Card>
+    </Link>
+  );
+}
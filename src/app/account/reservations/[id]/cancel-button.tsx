@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { cancelReservation } from "@/lib/actions/reservation";
+import { useTranslations } from "@/lib/i18n/client";
+import { formatCurrency } from "@/lib/utils";
+
+type CancelButtonProps = {
+  reservationId: string;
+  /** What the customer gets back if they cancel now, unknown for older reservations */
+  refund?: { amount: number; currency: string };
+};
+
+export function CancelButton({ reservationId, refund }: CancelButtonProps) {
+  const router = useRouter();
+  const { locale, t } = useTranslations();
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleCancel = async () => {
+    setIsLoading(true);
+
+    try {
+      const result = await cancelReservation(reservationId);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(t("account.reservation.cancel.cancelled"), {
+        description:
+          result.refund &&
+          t("account.reservation.refund.description", {
+            amount: formatCurrency(
+              result.refund.amount,
+              result.refund.currency,
+              locale
+            ),
+          }),
+      });
+      setOpen(false);
+      router.refresh();
+    } catch {
+      toast.error(t("errors.generic"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          {t("account.reservation.cancel.button")}
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("account.reservation.cancel.title")}</DialogTitle>
+          <DialogDescription>
+            {refund ?
+              `${
+                refund.amount > 0 ?
+                  t("account.reservation.cancel.refund", {
+                    amount: formatCurrency(
+                      refund.amount,
+                      refund.currency,
+                      locale
+                    ),
+                  })
+                : t("account.reservation.cancel.notRefundable")
+              } `
+            : null}
+            {t("account.reservation.cancel.warning")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogFooter className="gap-2">
+          <DialogClose asChild>
+            <Button variant="outline" disabled={isLoading}>
+              {t("account.reservation.cancel.keep")}
+            </Button>
+          </DialogClose>
+
+          <Button
+            variant="destructive"
+            onClick={handleCancel}
+            disabled={isLoading}
+          >
+            {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+            {t("account.reservation.cancel.button")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
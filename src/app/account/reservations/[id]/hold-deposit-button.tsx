@@ -0,0 +1,51 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { holdDeposit } from "@/lib/actions/deposits";
+import { useTranslations } from "@/lib/i18n/client";
+
+type HoldDepositButtonProps = {
+  reservationId: string;
+};
+
+export function HoldDepositButton({ reservationId }: HoldDepositButtonProps) {
+  const { t } = useTranslations();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleHold = async () => {
+    setIsLoading(true);
+
+    try {
+      const result = await holdDeposit(reservationId);
+
+      if (result.error) {
+        toast.error(result.error);
+        setIsLoading(false);
+        return;
+      }
+
+      if (result.checkoutUrl) {
+        window.location.assign(result.checkoutUrl);
+      }
+    } catch {
+      toast.error(t("errors.generic"));
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      className="mt-2 w-full"
+      onClick={handleHold}
+      disabled={isLoading}
+    >
+      {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+      {t("account.reservation.holdDeposit")}
+    </Button>
+  );
+}
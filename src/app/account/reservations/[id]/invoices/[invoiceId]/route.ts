@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import type { NextRequest } from "next/server";
+
+import { getUserAuth, isStaff } from "@/lib/auth";
+import { fetchInvoiceById, fetchReservationById } from "@/lib/db/queries";
+import { getInvoiceSeller, getSeller } from "@/lib/invoices";
+import { getInvoiceFileName, renderInvoicePdf } from "@/lib/invoices/pdf";
+
+/**
+ * Downloads an invoice or credit note of a reservation of the signed in customer, or of any
+ * reservation for the staff
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string; invoiceId: string }> }
+) {
+  const { id, invoiceId } = await params;
+  const user = await getUserAuth();
+
+  if (!user) {
+    return new NextResponse(null, { status: 401 });
+  }
+
+  const [data, invoice] = await Promise.all([
+    fetchReservationById(id),
+    fetchInvoiceById(invoiceId),
+  ]);
+
+  // Don't reveal other customers' invoices
+  if (
+    !data ||
+    !invoice ||
+    invoice.reservation_id !== id ||
+    (data.reservation.user_id !== user.id && !(await isStaff()))
+  ) {
+    return new NextResponse(null, { status: 404 });
+  }
+
+  // Invoices issued before the seller was stored on them are printed with the current one
+  const seller = getInvoiceSeller(invoice) ?? getSeller();
+
+  if (!seller) {
+    return new NextResponse("Invoicing is not configured", { status: 503 });
+  }
+
+  // Credit notes refer to the invoice they correct
+  const original =
+    invoice.invoice_id ? await fetchInvoiceById(invoice.invoice_id) : null;
+  const pdf = await renderInvoicePdf(invoice, seller, original);
+
+  return new NextResponse(new Uint8Array(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${getInvoiceFileName(invoice)}"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
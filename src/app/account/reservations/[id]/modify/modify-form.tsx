@@ -0,0 +1,806 @@
+"use client";
+
+import React from "react";
+import { useRouter } from "next/navigation";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { differenceInDays, format, isAfter, isBefore } from "date-fns";
+import { Check, Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import type { ReservationData } from "@/lib/actions/reservation";
+import type { Car, Location, OneWayFee } from "@/lib/db/definitions";
+import type { Translate } from "@/lib/i18n/translator";
+import type { PriceQuote } from "@/lib/pricing";
+
+import { NightlyBreakdown } from "@/components/nightly-breakdown";
+import { TimeSelect } from "@/components/time-select";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+} from "@/components/ui/form";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  getModificationQuote,
+  modifyReservation,
+} from "@/lib/actions/reservation";
+import { useTranslations } from "@/lib/i18n/client";
+import { findOneWayFee } from "@/lib/one-way-rentals";
+import {
+  fromHandoverTime,
+  getClosureReason,
+  getOutsideHoursReason,
+  getTimeSlots,
+  toHandoverTime,
+} from "@/lib/opening-hours";
+import {
+  formatRatePeriod,
+  isRateLineItem,
+  MAX_LONG_TERM_RENTAL_DAYS,
+} from "@/lib/rental-duration";
+import { cn, formatCurrency } from "@/lib/utils";
+
+/**
+ * Builds the form schema with its messages in the language of the page
+ */
+const createFormSchema = (t: Translate) =>
+  z
+    .object({
+      locationId: z.string({
+        required_error: t("reservationForm.errors.locationRequired"),
+      }),
+      returnLocationId: z.string({
+        required_error: t("reservationForm.errors.locationRequired"),
+      }),
+      carId: z.string({ required_error: t("account.modify.carRequired") }),
+      checkin: z.date({
+        required_error: t("reservationForm.errors.checkInRequired"),
+      }),
+      checkout: z.date({
+        required_error: t("reservationForm.errors.checkOutRequired"),
+      }),
+      /** Pickup time on the clocks of the pickup location */
+      checkinTime: z
+        .string()
+        .min(1, t("reservationForm.errors.pickUpTimeRequired")),
+      /** Return time on the clocks of the drop-off location */
+      checkoutTime: z
+        .string()
+        .min(1, t("reservationForm.errors.returnTimeRequired")),
+    })
+    // Cars can be returned on the day they are picked up, the times are compared on submit
+    .refine((schema) => !isBefore(schema.checkout, schema.checkin), {
+      message: t("reservationForm.errors.checkOutBeforeCheckIn"),
+      path: ["checkout"],
+    })
+    .refine(
+      ({ checkin, checkout }) =>
+        differenceInDays(checkout, checkin) <= MAX_LONG_TERM_RENTAL_DAYS,
+      {
+        message: t("reservationForm.errors.maxDays", {
+          days: MAX_LONG_TERM_RENTAL_DAYS,
+        }),
+        path: ["checkout"],
+      }
+    );
+
+type FormData = z.infer<ReturnType<typeof createFormSchema>>;
+
+/**
+ * Combines the days and times picked in the form into pickup and return instants, read on the
+ * clocks of the pickup and drop-off locations
+ */
+function getTripTimes(
+  locations: Location[],
+  values: Pick<
+    FormData,
+    | "locationId"
+    | "returnLocationId"
+    | "checkin"
+    | "checkout"
+    | "checkinTime"
+    | "checkoutTime"
+  >
+) {
+  const pickup = locations.find(({ id }) => id === values.locationId) ?? {};
+  const dropOff =
+    locations.find(({ id }) => id === values.returnLocationId) ?? {};
+
+  return {
+    checkIn: toHandoverTime(pickup, values.checkin, values.checkinTime),
+    checkOut: toHandoverTime(dropOff, values.checkout, values.checkoutTime),
+  };
+}
+
+type ModifyFormProps = {
+  reservationId: string;
+  current: ReservationData;
+  /** Total agreed at booking time, unknown for older reservations */
+  currentTotal?: number;
+  cars: Car[];
+  locations: Location[];
+  /** Routes cars can be returned along to another location */
+  oneWayFees: OneWayFee[];
+};
+
+export function ModifyForm(props: ModifyFormProps) {
+  const { reservationId, current, currentTotal, cars, locations, oneWayFees } =
+    props;
+
+  const router = useRouter();
+  const { locale, t } = useTranslations();
+  const formSchema = React.useMemo(() => createFormSchema(t), [t]);
+
+  const [quote, setQuote] = React.useState<PriceQuote>();
+  const [difference, setDifference] = React.useState<number | null>(null);
+  const [quoteError, setQuoteError] = React.useState<string>();
+  const [locationOpen, setLocationOpen] = React.useState(false);
+  const [returnLocationOpen, setReturnLocationOpen] = React.useState(false);
+  const [carOpen, setCarOpen] = React.useState(false);
+  const [checkinOpen, setCheckinOpen] = React.useState(false);
+  const [checkoutOpen, setCheckoutOpen] = React.useState(false);
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  // Current times as shown on the clocks of the current locations
+  const currentCheckin = fromHandoverTime(
+    locations.find(({ id }) => id === current.locationId) ?? {},
+    current.checkIn
+  );
+  const currentCheckout = fromHandoverTime(
+    locations.find(({ id }) => id === current.returnLocationId) ?? {},
+    current.checkOut
+  );
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      locationId: current.locationId,
+      returnLocationId: current.returnLocationId,
+      carId: current.carId,
+      checkin: currentCheckin.day,
+      checkout: currentCheckout.day,
+      checkinTime: currentCheckin.time,
+      checkoutTime: currentCheckout.time,
+    },
+  });
+
+  const locationId = form.watch("locationId");
+
+  // The current car stays selectable even if it is based somewhere else
+  const availableCars = cars.filter(
+    (car) => car.location_id === locationId || car.id === current.carId
+  );
+
+  const returnLocationId = form.watch("returnLocationId");
+
+  const selectedLocation = locations.find(({ id }) => id === locationId);
+  const selectedReturnLocation = locations.find(
+    ({ id }) => id === returnLocationId
+  );
+
+  // The car can be returned where it was picked up, or along any route offered from there
+  const dropOffOptions = locations.flatMap(
+    (location): { location: Location; fee?: OneWayFee }[] => {
+      if (location.id === locationId) {
+        return [{ location }];
+      }
+
+      const fee = findOneWayFee(oneWayFees, locationId, location.id!);
+      return fee ? [{ location, fee }] : [];
+    }
+  );
+
+  const isClosed = (location: Location | undefined, date: Date) =>
+    !!location && !!getClosureReason(location, date);
+
+  // Keeps track of the latest quote request so that stale responses are ignored
+  const quoteRequestRef = React.useRef(0);
+
+  const updateQuote = React.useCallback(
+    async (values: Partial<FormData>) => {
+      const requestId = ++quoteRequestRef.current;
+      const {
+        locationId,
+        returnLocationId,
+        carId,
+        checkin,
+        checkout,
+        checkinTime,
+        checkoutTime,
+      } = values;
+
+      if (
+        !locationId ||
+        !returnLocationId ||
+        !carId ||
+        !checkin ||
+        !checkout ||
+        !checkinTime ||
+        !checkoutTime
+      ) {
+        setQuote(undefined);
+        return;
+      }
+
+      const { checkIn, checkOut } = getTripTimes(locations, {
+        locationId,
+        returnLocationId,
+        checkin,
+        checkout,
+        checkinTime,
+        checkoutTime,
+      });
+
+      if (!isAfter(checkOut, checkIn)) {
+        setQuote(undefined);
+        return;
+      }
+
+      const result = await getModificationQuote(reservationId, {
+        carId,
+        locationId,
+        returnLocationId,
+        checkIn,
+        checkOut,
+      });
+
+      if (requestId !== quoteRequestRef.current) return;
+
+      setQuote(result.quote);
+      setDifference(result.difference ?? null);
+      setQuoteError(result.error);
+    },
+    [reservationId, locations]
+  );
+
+  // Reprice whenever something changes
+  React.useEffect(() => {
+    updateQuote(form.getValues());
+
+    const subscription = form.watch((values) => {
+      updateQuote(values as Partial<FormData>);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [form, updateQuote]);
+
+  async function onSubmit(values: FormData) {
+    const { checkIn, checkOut } = getTripTimes(locations, values);
+
+    const checkinClosure =
+      selectedLocation &&
+      getOutsideHoursReason(selectedLocation, checkIn, t, locale);
+    const checkoutClosure =
+      selectedReturnLocation &&
+      getOutsideHoursReason(selectedReturnLocation, checkOut, t, locale);
+
+    if (checkinClosure || checkoutClosure) {
+      form.setError(checkinClosure ? "checkinTime" : "checkoutTime", {
+        message: (checkinClosure || checkoutClosure)!,
+      });
+      return;
+    }
+
+    if (!isAfter(checkOut, checkIn)) {
+      form.setError("checkoutTime", {
+        message: t("reservationForm.errors.checkOutNotAfterCheckIn"),
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const result = await modifyReservation(reservationId, {
+        carId: values.carId,
+        locationId: values.locationId,
+        returnLocationId: values.returnLocationId,
+        checkIn,
+        checkOut,
+      });
+
+      if (result.unavailable) {
+        form.setError("checkout", { message: result.error });
+        toast.error(result.error);
+        return;
+      }
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(t("account.modify.modified"));
+      router.push(`/account/reservations/${reservationId}`);
+      router.refresh();
+    } catch {
+      toast.error(t("errors.generic"));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const checkinDay = form.watch("checkin");
+  const checkoutDay = form.watch("checkout");
+
+  const isUnchanged =
+    form.watch("carId") === current.carId &&
+    locationId === current.locationId &&
+    returnLocationId === current.returnLocationId &&
+    +checkinDay === +currentCheckin.day &&
+    +checkoutDay === +currentCheckout.day &&
+    form.watch("checkinTime") === currentCheckin.time &&
+    form.watch("checkoutTime") === currentCheckout.time;
+
+  return (
+    <>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <div className="w-full rounded-xl border">
+            <FormField
+              control={form.control}
+              name="locationId"
+              render={({ field }) => (
+                <FormItem className="relative space-y-0">
+                  <FormLabel className="absolute left-2.5 top-2.5 text-xs font-bold">
+                    {dropOffOptions.length > 1 ?
+                      t("reservationForm.pickUp")
+                    : t("reservationForm.pickUpAndDropOff")}
+                  </FormLabel>
+
+                  <Popover open={locationOpen} onOpenChange={setLocationOpen}>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <button
+                          type="button"
+                          aria-label={t("reservationForm.selectLocation")}
+                          className="text-muted-foreground hover:text-foreground flex h-[58px] w-full flex-col justify-end truncate border-b p-2.5 text-left text-sm duration-200"
+                        >
+                          {locations.find(({ id }) => id === field.value)
+                            ?.name ?? t("reservationForm.selectLocation")}
+                        </button>
+                      </FormControl>
+                    </PopoverTrigger>
+
+                    <PopoverContent className="p-0">
+                      <Command>
+                        <CommandInput
+                          placeholder={t("reservationForm.searchLocation")}
+                        />
+                        <CommandList>
+                          <CommandEmpty>
+                            {t("reservationForm.noPlaceFound")}
+                          </CommandEmpty>
+                          <CommandGroup>
+                            {locations.map(({ id, name }) => (
+                              <CommandItem
+                                key={id}
+                                value={name}
+                                onSelect={() => {
+                                  form.setValue("locationId", id!);
+                                  // Routes differ from one pickup location to another
+                                  form.setValue("returnLocationId", id!);
+                                  setLocationOpen(false);
+                                }}
+                              >
+                                <Check
+                                  className={cn(
+                                    "mr-2 size-4 shrink-0",
+                                    id === field.value ?
+                                      "opacity-100"
+                                    : "opacity-0"
+                                  )}
+                                />
+                                {name}
+                              </CommandItem>
+                            ))}
+                          </CommandGroup>
+                        </CommandList>
+                      </Command>
+                    </PopoverContent>
+                  </Popover>
+                </FormItem>
+              )}
+            />
+
+            {dropOffOptions.length > 1 && (
+              <FormField
+                control={form.control}
+                name="returnLocationId"
+                render={({ field }) => (
+                  <FormItem className="relative space-y-0">
+                    <FormLabel className="absolute left-2.5 top-2.5 text-xs font-bold">
+                      {t("reservationForm.dropOff")}
+                    </FormLabel>
+
+                    <Popover
+                      open={returnLocationOpen}
+                      onOpenChange={setReturnLocationOpen}
+                    >
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <button
+                            type="button"
+                            aria-label={t("account.modify.selectDropOff")}
+                            className="text-muted-foreground hover:text-foreground flex h-[58px] w-full flex-col justify-end truncate border-b p-2.5 text-left text-sm duration-200"
+                          >
+                            {field.value === locationId ?
+                              t("reservationForm.sameAsPickUp")
+                            : selectedReturnLocation?.name}
+                          </button>
+                        </FormControl>
+                      </PopoverTrigger>
+
+                      <PopoverContent className="p-0">
+                        <Command>
+                          <CommandInput
+                            placeholder={t("reservationForm.searchLocation")}
+                          />
+                          <CommandList>
+                            <CommandEmpty>
+                              {t("reservationForm.noPlaceFound")}
+                            </CommandEmpty>
+                            <CommandGroup>
+                              {dropOffOptions.map(({ location, fee }) => (
+                                <CommandItem
+                                  key={location.id}
+                                  value={location.name}
+                                  onSelect={() => {
+                                    field.onChange(location.id);
+                                    setReturnLocationOpen(false);
+                                  }}
+                                >
+                                  <Check
+                                    className={cn(
+                                      "mr-2 size-4 shrink-0",
+                                      location.id === field.value ?
+                                        "opacity-100"
+                                      : "opacity-0"
+                                    )}
+                                  />
+                                  <span className="grow">{location.name}</span>
+                                  {fee && (
+                                    <span className="text-muted-foreground ml-2 text-xs">
+                                      +
+                                      {formatCurrency(
+                                        fee.amount,
+                                        fee.currency,
+                                        locale
+                                      )}
+                                    </span>
+                                  )}
+                                </CommandItem>
+                              ))}
+                            </CommandGroup>
+                          </CommandList>
+                        </Command>
+                      </PopoverContent>
+                    </Popover>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="carId"
+              render={({ field }) => (
+                <FormItem className="relative space-y-0">
+                  <FormLabel className="absolute left-2.5 top-2.5 text-xs font-bold">
+                    {t("account.modify.car")}
+                  </FormLabel>
+
+                  <Popover open={carOpen} onOpenChange={setCarOpen}>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <button
+                          type="button"
+                          aria-label={t("account.modify.selectCar")}
+                          className="text-muted-foreground hover:text-foreground flex h-[58px] w-full flex-col justify-end truncate border-b p-2.5 text-left text-sm duration-200"
+                        >
+                          {cars.find(({ id }) => id === field.value)?.name ??
+                            t("account.modify.selectCar")}
+                        </button>
+                      </FormControl>
+                    </PopoverTrigger>
+
+                    <PopoverContent className="p-0">
+                      <Command>
+                        <CommandInput
+                          placeholder={t("account.modify.searchCar")}
+                        />
+                        <CommandList>
+                          <CommandEmpty>
+                            {t("account.modify.noCarFound")}
+                          </CommandEmpty>
+                          <CommandGroup>
+                            {availableCars.map(({ id, name }) => (
+                              <CommandItem
+                                key={id}
+                                value={name}
+                                onSelect={() => {
+                                  form.setValue("carId", id!);
+                                  setCarOpen(false);
+                                }}
+                              >
+                                <Check
+                                  className={cn(
+                                    "mr-2 size-4 shrink-0",
+                                    id === field.value ?
+                                      "opacity-100"
+                                    : "opacity-0"
+                                  )}
+                                />
+                                {name}
+                              </CommandItem>
+                            ))}
+                          </CommandGroup>
+                        </CommandList>
+                      </Command>
+                    </PopoverContent>
+                  </Popover>
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2">
+              <FormField
+                control={form.control}
+                name="checkin"
+                render={({ field }) => (
+                  <FormItem className="relative space-y-0 border-r">
+                    <FormLabel className="absolute left-2.5 top-2.5 text-xs font-bold leading-none">
+                      {t("reservationForm.checkIn")}
+                    </FormLabel>
+
+                    <Popover open={checkinOpen} onOpenChange={setCheckinOpen}>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <button
+                            type="button"
+                            className="text-muted-foreground hover:text-foreground flex h-14 w-full flex-col justify-end truncate p-2.5 text-left text-sm duration-200"
+                          >
+                            {field.value ?
+                              format(field.value, "dd/MM/yyyy")
+                            : <span>{t("reservationForm.pickDate")}</span>}
+                          </button>
+                        </FormControl>
+                      </PopoverTrigger>
+
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          autoFocus
+                          mode="single"
+                          selected={field.value}
+                          onSelect={(date) => {
+                            field.onChange(date);
+                            setCheckinOpen(false);
+                          }}
+                          disabled={(date) =>
+                            date <= new Date() ||
+                            isClosed(selectedLocation, date)
+                          }
+                        />
+                      </PopoverContent>
+                    </Popover>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="checkout"
+                render={({ field }) => (
+                  <FormItem className="relative space-y-0">
+                    <FormLabel className="absolute left-2.5 top-2.5 text-xs font-bold leading-none">
+                      {t("reservationForm.checkOut")}
+                    </FormLabel>
+
+                    <Popover open={checkoutOpen} onOpenChange={setCheckoutOpen}>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <button
+                            type="button"
+                            className="text-muted-foreground hover:text-foreground flex h-14 w-full flex-col justify-end truncate p-2.5 text-left text-sm duration-200"
+                          >
+                            {field.value ?
+                              format(field.value, "dd/MM/yyyy")
+                            : <span>{t("reservationForm.pickDate")}</span>}
+                          </button>
+                        </FormControl>
+                      </PopoverTrigger>
+
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          autoFocus
+                          mode="single"
+                          selected={field.value}
+                          onSelect={(date) => {
+                            field.onChange(date);
+                            setCheckoutOpen(false);
+                          }}
+                          disabled={(date) =>
+                            date <= new Date() ||
+                            isClosed(selectedReturnLocation, date)
+                          }
+                        />
+                      </PopoverContent>
+                    </Popover>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 border-t">
+              <FormField
+                control={form.control}
+                name="checkinTime"
+                render={({ field }) => (
+                  <FormItem className="relative space-y-0 border-r">
+                    <FormLabel className="absolute left-2.5 top-2.5 text-xs font-bold leading-none">
+                      {t("reservationForm.pickUpTime")}
+                    </FormLabel>
+                    <FormControl>
+                      <TimeSelect
+                        slots={
+                          checkinDay && selectedLocation ?
+                            getTimeSlots(
+                              selectedLocation,
+                              format(checkinDay, "yyyy-MM-dd")
+                            )
+                          : []
+                        }
+                        className="h-14 px-2.5 pt-6"
+                        {...field}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="checkoutTime"
+                render={({ field }) => (
+                  <FormItem className="relative space-y-0">
+                    <FormLabel className="absolute left-2.5 top-2.5 text-xs font-bold leading-none">
+                      {t("reservationForm.returnTime")}
+                    </FormLabel>
+                    <FormControl>
+                      <TimeSelect
+                        slots={
+                          checkoutDay && selectedReturnLocation ?
+                            getTimeSlots(
+                              selectedReturnLocation,
+                              format(checkoutDay, "yyyy-MM-dd")
+                            )
+                          : []
+                        }
+                        className="h-14 px-2.5 pt-6"
+                        {...field}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+          </div>
+
+          <div
+            aria-live="polite"
+            className="mx-auto mt-2 flex w-full flex-wrap items-center justify-between space-y-1 text-xs font-medium text-red-500"
+          >
+            {form.formState.errors.locationId && (
+              <p>{form.formState.errors.locationId.message}</p>
+            )}
+            {form.formState.errors.carId && (
+              <p>{form.formState.errors.carId.message}</p>
+            )}
+            {form.formState.errors.checkin && (
+              <p>{form.formState.errors.checkin.message}</p>
+            )}
+            {form.formState.errors.checkout && (
+              <p>{form.formState.errors.checkout.message}</p>
+            )}
+            {form.formState.errors.checkinTime && (
+              <p>{form.formState.errors.checkinTime.message}</p>
+            )}
+            {form.formState.errors.checkoutTime && (
+              <p>{form.formState.errors.checkoutTime.message}</p>
+            )}
+            {quoteError && <p>{quoteError}</p>}
+          </div>
+
+          <Button
+            type="submit"
+            size="lg"
+            className="mt-4 w-full text-base"
+            disabled={isLoading || isUnchanged || !quote}
+          >
+            {isLoading ?
+              <>
+                <Loader2 className="mr-2 size-4 animate-spin" />
+                {t("reservationForm.processing")}
+              </>
+            : t("account.modify.confirm")}
+          </Button>
+        </form>
+      </Form>
+
+      <hr className="my-4" />
+
+      <div className="text-muted-foreground mt-4">
+        {quote?.lineItems.map((item) => (
+          <div
+            key={`${item.type}-${item.label}`}
+            className="mt-1 flex items-center justify-between first:mt-0"
+          >
+            <p>
+              {isRateLineItem(item.type) ?
+                `${formatCurrency(item.unitAmount, quote.currency, locale)} x ${formatRatePeriod(item.type, item.quantity, t)}`
+              : item.label}
+            </p>
+            <p>{formatCurrency(item.amount, quote.currency, locale)}</p>
+          </div>
+        ))}
+
+        {quote && (
+          <NightlyBreakdown
+            nights={quote.nights}
+            currency={quote.currency}
+            locale={locale}
+            className="mt-2"
+          />
+        )}
+
+        <hr className="my-4" />
+
+        {quote && currentTotal !== undefined && (
+          <div className="flex items-center justify-between">
+            <p>{t("account.modify.currentTotal")}</p>
+            <p>{formatCurrency(currentTotal, quote.currency, locale)}</p>
+          </div>
+        )}
+
+        <div className="text-foreground mt-1 flex items-center justify-between font-semibold">
+          <p>{t("account.modify.newTotal")}</p>
+          <p>
+            {quote ? formatCurrency(quote.total, quote.currency, locale) : "—"}
+          </p>
+        </div>
+
+        {quote && difference !== null && (
+          <div className="text-foreground mt-1 flex items-center justify-between">
+            <p>
+              {difference < 0 ?
+                t("account.modify.youSave")
+              : t("account.modify.priceDifference")}
+            </p>
+            <p>
+              {difference < 0 ? "" : "+"}
+              {formatCurrency(Math.abs(difference), quote.currency, locale)}
+            </p>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
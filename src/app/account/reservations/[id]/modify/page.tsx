@@ -0,0 +1,95 @@
+import { notFound } from "next/navigation";
+
+import type { Metadata } from "next";
+
+import { checkAuth } from "@/lib/auth";
+import { fromMinorUnits } from "@/lib/currency";
+import {
+  fetchCars,
+  fetchLocations,
+  fetchOneWayFees,
+  fetchReservationById,
+} from "@/lib/db/queries";
+import { getTranslations } from "@/lib/i18n/server";
+import { MODIFIABLE_RESERVATION_STATUSES } from "@/lib/reservation-status";
+import { ModifyForm } from "./modify-form";
+
+type ModifyReservationPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getTranslations();
+
+  return { title: t("account.modify.title") };
+}
+
+export default async function ModifyReservationPage({
+  params,
+}: ModifyReservationPageProps) {
+  const user = await checkAuth();
+  const { id } = await params;
+
+  const data = await fetchReservationById(id);
+
+  if (!data || data.reservation.user_id !== user.id) {
+    notFound();
+  }
+
+  const { reservation, car, location, returnLocation } = data;
+
+  const isModifiable =
+    MODIFIABLE_RESERVATION_STATUSES.includes(reservation.status!) &&
+    reservation.check_in > new Date();
+
+  if (!isModifiable) {
+    notFound();
+  }
+
+  const [cars, locations, oneWayFees, { t }] = await Promise.all([
+    fetchCars(),
+    fetchLocations(),
+    fetchOneWayFees(),
+    getTranslations(),
+  ]);
+
+  // The current car stays selectable even after it was retired
+  if (!cars.some(({ id }) => id === car.id)) {
+    cars.push(car);
+  }
+
+  const { currency, total_amount } = reservation;
+
+  return (
+    <main className="mx-auto w-full max-w-none px-5 md:max-w-[90%] md:px-0 lg:mt-4 xl:max-w-6xl">
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">{t("account.modify.title")}</h1>
+        <p className="text-muted-foreground mt-1">
+          {car.name} · {location.name}
+          {returnLocation.id !== location.id && ` → ${returnLocation.name}`}
+        </p>
+      </div>
+
+      <div className="mb-16 w-full max-w-lg">
+        <ModifyForm
+          reservationId={reservation.id!}
+          current={{
+            carId: reservation.car_id,
+            locationId: reservation.location_id,
+            returnLocationId: reservation.return_location_id,
+            checkIn: reservation.check_in,
+            checkOut: reservation.check_out,
+          }}
+          currentTotal={
+            currency && total_amount !== null && total_amount !== undefined ?
+              fromMinorUnits(total_amount, currency)
+            : undefined
+          }
+          cars={cars}
+          locations={locations}
+          oneWayFees={oneWayFees}
+        />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,575 @@
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { format } from "date-fns";
+import { ChevronLeft } from "lucide-react";
+
+import type { Metadata } from "next";
+import type { Payment } from "@/lib/db/definitions";
+import type { Locale } from "@/lib/i18n/config";
+import type { Translate } from "@/lib/i18n/translator";
+
+import { LedgerStatement } from "@/components/ledger-statement";
+import { ReservationStatusBadge } from "@/components/reservation-status-badge";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { checkAuth } from "@/lib/auth";
+import {
+  calculateRefund,
+  describeCancellationPolicy,
+  resolveCancellationPolicy,
+} from "@/lib/cancellation-policy";
+import { fromMinorUnits } from "@/lib/currency";
+import {
+  fetchBillingCharges,
+  fetchInvoices,
+  fetchLedgerEntries,
+  fetchPayments,
+  fetchReservationById,
+  fetchReservationLineItems,
+  fetchReservationModifications,
+} from "@/lib/db/queries";
+import {
+  ChargeStatus,
+  InvoiceType,
+  PaymentPurpose,
+  PaymentStatus,
+  ReservationStatus,
+} from "@/lib/enums";
+import { getTranslations } from "@/lib/i18n/server";
+import { buildStatement } from "@/lib/ledger";
+import { formatRatePeriod, isRateLineItem } from "@/lib/rental-duration";
+import {
+  MODIFIABLE_RESERVATION_STATUSES,
+  PAYABLE_RESERVATION_STATUSES,
+  PAYMENT_HOLD_MINUTES,
+} from "@/lib/reservation-status";
+import {
+  cn,
+  formatCurrency,
+  formatDateRange,
+  formatDateTime,
+} from "@/lib/utils";
+import { CancelButton } from "./cancel-button";
+import { HoldDepositButton } from "./hold-deposit-button";
+import { PayNowButton } from "./pay-now-button";
+
+type ReservationDetailsPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getTranslations();
+
+  return { title: t("account.reservation.metaTitle") };
+}
+
+/**
+ * Deposits that went through, as opposed to abandoned or declined authorizations
+ */
+const SETTLED_DEPOSIT_STATUSES = [
+  PaymentStatus.AUTHORIZED,
+  PaymentStatus.SUCCEEDED,
+  PaymentStatus.RELEASED,
+];
+
+export default async function ReservationDetailsPage({
+  params,
+}: ReservationDetailsPageProps) {
+  const user = await checkAuth();
+  const { id } = await params;
+
+  const data = await fetchReservationById(id);
+
+  // Don't reveal other customers' reservations
+  if (!data || data.reservation.user_id !== user.id) {
+    notFound();
+  }
+
+  const { reservation, car, location, returnLocation } = data;
+  const [
+    lineItems,
+    modifications,
+    charges,
+    allPayments,
+    ledger,
+    invoices,
+    { locale, t },
+  ] = await Promise.all([
+    fetchReservationLineItems(id),
+    fetchReservationModifications(id),
+    fetchBillingCharges(id),
+    fetchPayments(id),
+    fetchLedgerEntries(id),
+    fetchInvoices(id),
+    getTranslations(),
+  ]);
+
+  const formatAmount = (amount: number, currency: string) =>
+    formatCurrency(fromMinorUnits(amount, currency), currency, locale);
+
+  const payments = allPayments.filter(
+    (payment) => payment.purpose !== PaymentPurpose.DEPOSIT
+  );
+  const deposit = allPayments.find(
+    (payment) =>
+      payment.purpose === PaymentPurpose.DEPOSIT &&
+      SETTLED_DEPOSIT_STATUSES.includes(payment.status)
+  );
+
+  const installments = charges.filter(
+    (charge) => charge.status !== ChargeStatus.VOID
+  );
+
+  const status = reservation.status ?? ReservationStatus.PENDING;
+  const currency = reservation.currency;
+
+  const timeline = [
+    {
+      label: t("account.reservation.timeline.reserved"),
+      date: reservation.created_at,
+    },
+    {
+      label: t("account.reservation.timeline.confirmed"),
+      date: reservation.confirmed_at,
+    },
+    {
+      label: t("account.reservation.timeline.pickedUp"),
+      date: reservation.activated_at,
+    },
+    {
+      label: t("account.reservation.timeline.returned"),
+      date: reservation.completed_at,
+    },
+    {
+      label: t("account.reservation.timeline.cancelled"),
+      date: reservation.cancelled_at,
+    },
+    {
+      label: t("account.reservation.timeline.noShow"),
+      date: reservation.no_show_at,
+    },
+    ...modifications.map((modification) => ({
+      label: `${t("account.reservation.timeline.changedFrom", {
+        dates: formatDateRange(
+          modification.previous_check_in,
+          modification.previous_check_out,
+          location.timezone,
+          locale
+        ),
+      })}${
+        currency && modification.price_difference_amount ?
+          ` (${modification.price_difference_amount > 0 ? "+" : "-"}${formatAmount(
+            Math.abs(modification.price_difference_amount),
+            currency
+          )})`
+        : ""
+      }`,
+      date: modification.created_at,
+    })),
+  ]
+    .filter((event): event is { label: string; date: Date } => !!event.date)
+    .sort((a, b) => +a.date - +b.date);
+
+  const canCancel = MODIFIABLE_RESERVATION_STATUSES.includes(status);
+  const canModify = canCancel && reservation.check_in > new Date();
+  const canHoldDeposit =
+    !!reservation.deposit_amount &&
+    !deposit &&
+    (status === ReservationStatus.CONFIRMED ||
+      status === ReservationStatus.ACTIVE);
+
+  // Reservations made before policies were stored fall back to the current policy
+  const cancellationPolicy =
+    reservation.cancellation_policy ??
+    (await resolveCancellationPolicy(car, location));
+
+  // What the policy refunds is credited, less what is still left to pay. Nothing is refunded
+  // before anything was paid.
+  const totalAmount = reservation.total_amount;
+  const balance = buildStatement(ledger).at(-1)?.balance ?? 0;
+
+  // Installments that aren't billed yet aren't due
+  const amountDue = Math.max(
+    balance -
+      installments
+        .filter((charge) => charge.status === ChargeStatus.SCHEDULED)
+        .reduce((sum, charge) => sum + charge.amount, 0),
+    0
+  );
+  // Reservations made before prices were stored are settled outside the app
+  const canPay =
+    reservation.total_amount !== null &&
+    (status === ReservationStatus.PENDING ?
+      !payments.some((payment) => payment.status === PaymentStatus.SUCCEEDED)
+    : PAYABLE_RESERVATION_STATUSES.includes(status) && amountDue > 0);
+  const refundIfCancelledNow =
+    (
+      canCancel &&
+      currency &&
+      totalAmount !== null &&
+      totalAmount !== undefined &&
+      balance < totalAmount
+    ) ?
+      {
+        amount: fromMinorUnits(
+          Math.max(
+            calculateRefund(
+              cancellationPolicy,
+              reservation.check_in,
+              totalAmount
+            ).refundAmount - balance,
+            0
+          ),
+          currency
+        ),
+        currency,
+      }
+    : undefined;
+
+  return (
+    <main className="mx-auto w-full max-w-none px-5 md:max-w-[90%] md:px-0 lg:mt-4 xl:max-w-6xl">
+      <div className="flex h-40 items-center">
+        <div className="flex gap-2 md:-ml-12">
+          <Link
+            href="/account"
+            aria-label={t("account.reservation.back")}
+            className={cn(buttonVariants({ variant: "ghost", size: "icon" }))}
+          >
+            <ChevronLeft className="size-5" />
+          </Link>
+          <h1 className="text-3xl font-semibold">
+            {t("account.reservation.title")}
+          </h1>
+        </div>
+      </div>
+
+      <div className="mb-16 flex w-full flex-col justify-between gap-10 md:flex-row">
+        <div className="mx-auto w-full max-w-lg md:mx-0">
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="text-xl font-semibold">{car.name}</h2>
+            <ReservationStatusBadge status={status} locale={locale} />
+          </div>
+          <p className="text-muted-foreground mt-1 text-xs">
+            {t("account.reservation.reference", { id: reservation.id! })}
+          </p>
+
+          <div className="mt-4 space-y-1">
+            <h3 className="font-semibold">{t("reservationSummary.dates")}</h3>
+            <p className="text-muted-foreground">
+              {formatDateTime(reservation.check_in, location.timezone, locale)}{" "}
+              –{" "}
+              {formatDateTime(
+                reservation.check_out,
+                returnLocation.timezone,
+                locale
+              )}
+            </p>
+          </div>
+
+          {returnLocation.id === location.id ?
+            <div className="mt-4 space-y-1">
+              <h3 className="font-semibold">{t("reservationSummary.place")}</h3>
+              <p className="text-muted-foreground">{location.name}</p>
+            </div>
+          : <>
+              <div className="mt-4 space-y-1">
+                <h3 className="font-semibold">
+                  {t("reservationSummary.pickUp")}
+                </h3>
+                <p className="text-muted-foreground">{location.name}</p>
+              </div>
+
+              <div className="mt-4 space-y-1">
+                <h3 className="font-semibold">
+                  {t("reservationSummary.dropOff")}
+                </h3>
+                <p className="text-muted-foreground">{returnLocation.name}</p>
+              </div>
+            </>
+          }
+
+          <div className="mt-4 space-y-1">
+            <h3 className="font-semibold">
+              {t("account.reservation.history")}
+            </h3>
+            <ul className="text-muted-foreground space-y-0.5">
+              {timeline.map((event) => (
+                <li
+                  key={`${event.label}-${+event.date}`}
+                  className="flex justify-between gap-4"
+                >
+                  <span>{event.label}</span>
+                  <span>{format(event.date, "dd/MM/yyyy, HH:mm")}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="mt-4 space-y-1">
+            <h3 className="font-semibold">
+              {t("reservationSummary.cancellationPolicy", {
+                name: cancellationPolicy.name,
+              })}
+            </h3>
+            {describeCancellationPolicy(cancellationPolicy, t).map(
+              (sentence) => (
+                <p key={sentence} className="text-muted-foreground">
+                  {sentence}
+                </p>
+              )
+            )}
+          </div>
+
+          {installments.length > 0 && (
+            <div className="mt-4 space-y-1">
+              <h3 className="font-semibold">
+                {t("account.reservation.billing.title")}
+              </h3>
+              <p className="text-muted-foreground">
+                {t("account.reservation.billing.description")}
+              </p>
+              <ul className="text-muted-foreground space-y-0.5">
+                {installments.map((charge) => (
+                  <li key={charge.id} className="flex justify-between gap-4">
+                    <span>
+                      {formatDateRange(
+                        charge.period_start,
+                        charge.period_end,
+                        location.timezone,
+                        locale
+                      )}
+                      {charge.status === ChargeStatus.BILLED &&
+                        ` ${t("account.reservation.billing.billed")}`}
+                    </span>
+                    <span>{formatAmount(charge.amount, charge.currency)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {(payments.length > 0 || canPay) && (
+            <div className="mt-4 space-y-1">
+              <h3 className="font-semibold">
+                {t("account.reservation.payment.title")}
+              </h3>
+              {canPay &&
+                (status === ReservationStatus.PENDING ?
+                  <p className="text-muted-foreground">
+                    {t("account.reservation.payment.holdNotice", {
+                      minutes: PAYMENT_HOLD_MINUTES,
+                    })}
+                  </p>
+                : currency && (
+                    <p className="text-muted-foreground">
+                      {t("account.reservation.payment.leftToPay", {
+                        amount: formatAmount(amountDue, currency),
+                      })}
+                    </p>
+                  ))}
+              <ul className="text-muted-foreground space-y-0.5">
+                {payments.map((payment) => (
+                  <li key={payment.id} className="flex justify-between gap-4">
+                    <span>
+                      {format(payment.created_at, "dd/MM/yyyy, HH:mm")} (
+                      {t(
+                        `account.reservation.payment.statuses.${payment.status!}`
+                      )}
+                      )
+                    </span>
+                    <span>
+                      {formatAmount(payment.amount, payment.currency)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {currency && ledger.length > 0 && (
+            <div className="mt-4 space-y-1">
+              <h3 className="font-semibold">
+                {t("account.reservation.statement")}
+              </h3>
+              <LedgerStatement
+                entries={ledger}
+                currency={currency}
+                locale={locale}
+              />
+            </div>
+          )}
+
+          {invoices.length > 0 && (
+            <div className="mt-4 space-y-1">
+              <h3 className="font-semibold">
+                {t("account.reservation.invoices.title")}
+              </h3>
+              <ul className="text-muted-foreground space-y-0.5">
+                {invoices.map((invoice) => (
+                  <li key={invoice.id} className="flex justify-between gap-4">
+                    <a
+                      href={`/account/reservations/${reservation.id}/invoices/${invoice.id}`}
+                      className="underline"
+                      download
+                    >
+                      {invoice.type === InvoiceType.CREDIT_NOTE ?
+                        t("account.reservation.invoices.creditNote", {
+                          number: invoice.number,
+                        })
+                      : t("account.reservation.invoices.invoice", {
+                          number: invoice.number,
+                        })
+                      }
+                    </a>
+                    <span>
+                      {invoice.type === InvoiceType.CREDIT_NOTE && "-"}
+                      {formatAmount(invoice.total_amount, invoice.currency)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {currency && !!reservation.deposit_amount && (
+            <div className="mt-4 space-y-1">
+              <h3 className="font-semibold">
+                {t("reservationSummary.deposit")}
+              </h3>
+              <p className="text-muted-foreground">
+                {describeDeposit(
+                  formatAmount(reservation.deposit_amount, currency),
+                  deposit,
+                  { locale, t }
+                )}
+              </p>
+              {canHoldDeposit && (
+                <HoldDepositButton reservationId={reservation.id!} />
+              )}
+            </div>
+          )}
+
+          {status === ReservationStatus.CANCELLED &&
+            currency &&
+            reservation.refundable_amount !== null &&
+            reservation.refundable_amount !== undefined && (
+              <div className="mt-4 space-y-1">
+                <h3 className="font-semibold">
+                  {t("account.reservation.refund.title")}
+                </h3>
+                <p className="text-muted-foreground">
+                  {t("account.reservation.refund.description", {
+                    amount: formatAmount(
+                      reservation.refundable_amount,
+                      currency
+                    ),
+                  })}
+                </p>
+              </div>
+            )}
+
+          {(canCancel || canPay) && <Separator decorative className="my-8" />}
+          {canPay && <PayNowButton reservationId={reservation.id!} />}
+          {canCancel && (
+            <>
+              {canModify && (
+                <Button className="mb-3 w-full" asChild>
+                  <Link href={`/account/reservations/${reservation.id}/modify`}>
+                    {t("account.reservation.modify")}
+                  </Link>
+                </Button>
+              )}
+              <CancelButton
+                reservationId={reservation.id!}
+                refund={refundIfCancelledNow}
+              />
+            </>
+          )}
+        </div>
+
+        <div className="mx-auto w-full max-w-lg rounded-xl border p-6 md:mx-0">
+          <div className="flex justify-between">
+            <div className="space-y-1">
+              <p className="text-muted-foreground text-xs">{car.body_style}</p>
+              <p className="text-sm">{car.name}</p>
+            </div>
+
+            <Image
+              src={car.image_url}
+              alt={car.name}
+              width={100}
+              height={100}
+            />
+          </div>
+
+          <Separator decorative className="my-6" />
+
+          <div className="space-y-6">
+            <h2 className="text-xl font-semibold">
+              {t("reservationSummary.priceDetails")}
+            </h2>
+
+            {currency && lineItems.length > 0 ?
+              <div className="text-muted-foreground flex flex-col gap-2">
+                {lineItems.map((item) => (
+                  <div key={item.id} className="flex justify-between">
+                    <span className="underline">
+                      {isRateLineItem(item.type) ?
+                        `${formatAmount(item.unit_amount, currency)} x ${formatRatePeriod(item.type, item.quantity, t)}`
+                      : item.label}
+                    </span>
+                    <span>{formatAmount(item.amount, currency)}</span>
+                  </div>
+                ))}
+              </div>
+            : <p className="text-muted-foreground">
+                {t("account.reservation.noPriceBreakdown")}
+              </p>
+            }
+          </div>
+
+          {currency &&
+            reservation.total_amount !== null &&
+            reservation.total_amount !== undefined && (
+              <>
+                <Separator decorative className="my-6" />
+
+                <div className="flex justify-between font-semibold">
+                  <span>{t("reservationSummary.total", { currency })}</span>
+                  <span>
+                    {formatAmount(reservation.total_amount, currency)}
+                  </span>
+                </div>
+              </>
+            )}
+        </div>
+      </div>
+    </main>
+  );
+}
+
+function describeDeposit(
+  amount: string,
+  deposit: Payment | undefined,
+  { locale, t }: { locale: Locale; t: Translate }
+) {
+  switch (deposit?.status) {
+    case PaymentStatus.AUTHORIZED:
+      return t("account.reservation.deposit.held", { amount });
+    case PaymentStatus.RELEASED:
+      return t("account.reservation.deposit.released", { amount });
+    case PaymentStatus.SUCCEEDED:
+      return t("account.reservation.deposit.kept", {
+        amount,
+        kept: formatCurrency(
+          fromMinorUnits(deposit.captured_amount ?? 0, deposit.currency),
+          deposit.currency,
+          locale
+        ),
+        reason: deposit.capture_reason ?? "",
+      });
+    default:
+      return t("account.reservation.deposit.pending", { amount });
+  }
+}
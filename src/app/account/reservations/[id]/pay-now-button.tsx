@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { payReservation } from "@/lib/actions/payments";
+import { useTranslations } from "@/lib/i18n/client";
+
+type PayNowButtonProps = {
+  reservationId: string;
+};
+
+export function PayNowButton({ reservationId }: PayNowButtonProps) {
+  const { t } = useTranslations();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handlePay = async () => {
+    setIsLoading(true);
+
+    try {
+      const result = await payReservation(reservationId);
+
+      if (result.error) {
+        toast.error(result.error);
+        setIsLoading(false);
+        return;
+      }
+
+      if (result.checkoutUrl) {
+        window.location.assign(result.checkoutUrl);
+      }
+    } catch {
+      toast.error(t("errors.generic"));
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Button className="mb-3 w-full" onClick={handlePay} disabled={isLoading}>
+      {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+      {t("account.reservation.payNow")}
+    </Button>
+  );
+}
@@ -0,0 +1,42 @@
+import { notFound } from "next/navigation";
+
+import type { Metadata } from "next";
+
+import {
+  fetchAddOnById,
+  fetchAddOnStock,
+  fetchLocations,
+} from "@/lib/db/queries";
+import { AddOnForm } from "../add-on-form";
+
+type EditAddOnPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export const metadata: Metadata = {
+  title: "Edit add-on",
+};
+
+export default async function EditAddOnPage({ params }: EditAddOnPageProps) {
+  const { id } = await params;
+
+  const [addOn, stock, locations] = await Promise.all([
+    fetchAddOnById(id),
+    fetchAddOnStock(id),
+    fetchLocations(),
+  ]);
+
+  if (!addOn) {
+    notFound();
+  }
+
+  return (
+    <>
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">{addOn.name}</h1>
+      </div>
+
+      <AddOnForm addOn={addOn} stock={stock} locations={locations} />
+    </>
+  );
+}
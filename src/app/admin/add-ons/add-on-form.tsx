@@ -0,0 +1,273 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+import type { z } from "zod";
+import type { AddOn, AddOnStock, Location } from "@/lib/db/definitions";
+import type { AddOnFormValues } from "@/lib/validations/add-on";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Textarea } from "@/components/ui/textarea";
+import { createAddOn, updateAddOn } from "@/lib/actions/add-ons";
+import { ADD_ON_PRICING_LABELS, getAddOnStock } from "@/lib/add-ons";
+import { AddOnPricing } from "@/lib/enums";
+import { AddOnFormSchema } from "@/lib/validations/add-on";
+
+type AddOnFormProps = {
+  /** The add-on being edited, a new add-on is created when omitted */
+  addOn?: AddOn;
+  stock: AddOnStock[];
+  locations: Location[];
+};
+
+export function AddOnForm({ addOn, stock, locations }: AddOnFormProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<
+    AddOnFormValues,
+    unknown,
+    z.output<typeof AddOnFormSchema>
+  >({
+    resolver: zodResolver(AddOnFormSchema),
+    defaultValues: {
+      name: addOn?.name ?? "",
+      description: addOn?.description ?? "",
+      pricing: addOn?.pricing ?? AddOnPricing.PER_DAY,
+      price: addOn?.price ?? 0,
+      currency: addOn?.currency ?? "INR",
+      max_quantity: addOn?.max_quantity ?? 1,
+      retired: !!addOn?.retired_at,
+      stock: locations.map((location) => ({
+        location_id: location.id!,
+        quantity:
+          addOn ? getAddOnStock(stock, addOn.id!, location.id!) || "" : "",
+      })),
+    },
+  });
+
+  async function onSubmit(values: z.output<typeof AddOnFormSchema>) {
+    setIsLoading(true);
+
+    try {
+      const result =
+        addOn ?
+          await updateAddOn(addOn.id!, values)
+        : await createAddOn(values);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(addOn ? "Add-on updated" : "Add-on added");
+      router.push("/admin/add-ons");
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="mb-16 grid max-w-3xl grid-cols-1 gap-6 md:grid-cols-2"
+      >
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Child seat" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="pricing"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Pricing</FormLabel>
+              <FormControl>
+                <NativeSelect {...field}>
+                  {Object.values(AddOnPricing).map((pricing) => (
+                    <option key={pricing} value={pricing}>
+                      {ADD_ON_PRICING_LABELS[pricing]}
+                    </option>
+                  ))}
+                </NativeSelect>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea
+                  rows={2}
+                  {...field}
+                  value={String(field.value ?? "")}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="price"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Price</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={0}
+                  {...field}
+                  value={String(field.value ?? "")}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="currency"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Currency</FormLabel>
+              <FormControl>
+                <Input maxLength={3} {...field} />
+              </FormControl>
+              <FormDescription>
+                Only cars priced in the same currency offer the add-on.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="max_quantity"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Maximum per reservation</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={1}
+                  max={10}
+                  {...field}
+                  value={String(field.value ?? "")}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="retired"
+          render={({ field }) => (
+            <FormItem className="flex items-center gap-2 space-y-0 self-center">
+              <FormControl>
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={(checked) =>
+                    field.onChange(checked === true)
+                  }
+                />
+              </FormControl>
+              <FormLabel>Retired, no longer offered</FormLabel>
+            </FormItem>
+          )}
+        />
+
+        <section className="space-y-3 md:col-span-2">
+          <div>
+            <h2 className="text-lg font-semibold">Stock</h2>
+            <p className="text-muted-foreground text-sm">
+              Units owned by each branch. Leave empty where the add-on
+              isn&apos;t offered.
+            </p>
+          </div>
+
+          {locations.map((location, index) => (
+            <FormField
+              key={location.id}
+              control={form.control}
+              name={`stock.${index}.quantity`}
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <div className="grid grid-cols-[1fr_8rem] items-center gap-3">
+                    <FormLabel>{location.name}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        {...field}
+                        value={String(field.value ?? "")}
+                      />
+                    </FormControl>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </section>
+
+        <div className="flex gap-2 md:col-span-2">
+          <Button type="submit" disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+            {addOn ? "Save changes" : "Add add-on"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isLoading}
+            onClick={() => router.push("/admin/add-ons")}
+          >
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,22 @@
+import type { Metadata } from "next";
+
+import { fetchLocations } from "@/lib/db/queries";
+import { AddOnForm } from "../add-on-form";
+
+export const metadata: Metadata = {
+  title: "Add add-on",
+};
+
+export default async function NewAddOnPage() {
+  const locations = await fetchLocations();
+
+  return (
+    <>
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">Add add-on</h1>
+      </div>
+
+      <AddOnForm stock={[]} locations={locations} />
+    </>
+  );
+}
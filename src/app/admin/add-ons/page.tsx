@@ -0,0 +1,94 @@
+import Link from "next/link";
+import { Plus } from "lucide-react";
+
+import type { Metadata } from "next";
+
+import { Button } from "@/components/ui/button";
+import { ADD_ON_PRICING_LABELS } from "@/lib/add-ons";
+import { fetchAddOns, fetchAddOnStock } from "@/lib/db/queries";
+import { cn, formatCurrency } from "@/lib/utils";
+
+export const metadata: Metadata = {
+  title: "Add-ons",
+};
+
+export default async function AddOnsPage() {
+  const [addOns, stock] = await Promise.all([fetchAddOns(), fetchAddOnStock()]);
+
+  const retired = addOns.filter((addOn) => addOn.retired_at).length;
+
+  return (
+    <>
+      <div className="flex h-40 items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Add-ons</h1>
+          <p className="text-muted-foreground mt-1">
+            {addOns.length - retired} offered · {retired} retired
+          </p>
+        </div>
+
+        <Button asChild>
+          <Link href="/admin/add-ons/new">
+            <Plus className="mr-2 size-4" />
+            Add add-on
+          </Link>
+        </Button>
+      </div>
+
+      <div className="mb-16 overflow-x-auto rounded-xl border">
+        <table className="w-full text-sm">
+          <thead className="text-muted-foreground border-b text-left">
+            <tr>
+              <th className="p-4 font-medium">Add-on</th>
+              <th className="p-4 text-right font-medium">Price</th>
+              <th className="p-4 text-right font-medium">Units</th>
+              <th className="p-4 text-right font-medium">Branches</th>
+              <th className="p-4 font-medium">Status</th>
+            </tr>
+          </thead>
+
+          <tbody>
+            {addOns.map((addOn) => {
+              const locations = stock.filter(
+                (item) => item.add_on_id === addOn.id
+              );
+
+              return (
+                <tr
+                  key={addOn.id}
+                  className={cn(
+                    "border-b last:border-0",
+                    addOn.retired_at && "text-muted-foreground"
+                  )}
+                >
+                  <td className="p-4">
+                    <Link
+                      href={`/admin/add-ons/${addOn.id}`}
+                      className="font-medium hover:underline"
+                    >
+                      {addOn.name}
+                    </Link>
+                    <p className="text-muted-foreground text-xs">
+                      Up to {addOn.max_quantity} per reservation
+                    </p>
+                  </td>
+                  <td className="p-4 text-right">
+                    {formatCurrency(addOn.price, addOn.currency)}{" "}
+                    {ADD_ON_PRICING_LABELS[addOn.pricing]}
+                  </td>
+                  <td className="p-4 text-right">
+                    {locations.reduce((sum, item) => sum + item.quantity, 0)}
+                  </td>
+                  <td className="p-4 text-right">{locations.length}</td>
+                  <td className="p-4">
+                    {addOn.retired_at ? "Retired" : "Offered"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+
+import { cn } from "@/lib/utils";
+
+const sections = [
+  { title: "Fleet", href: "/admin/cars" },
+  { title: "Locations", href: "/admin/locations" },
+  { title: "One-way fees", href: "/admin/one-way-fees" },
+  { title: "Add-ons", href: "/admin/add-ons" },
+  { title: "Promo codes", href: "/admin/promo-codes" },
+  { title: "Pricing rules", href: "/admin/pricing-rules" },
+  { title: "Exchange rates", href: "/admin/exchange-rates" },
+  { title: "Billing", href: "/admin/billing" },
+  { title: "Deposits", href: "/admin/deposits" },
+  { title: "Ledger", href: "/admin/ledger" },
+  { title: "Emails", href: "/admin/emails" },
+];
+
+export function AdminNav() {
+  const pathname = usePathname();
+
+  return (
+    <nav className="flex items-center gap-4 border-b pt-6 text-sm">
+      <span className="pb-3 pt-1 font-semibold">Back office</span>
+
+      {sections.map(({ title, href }) => (
+        <Link
+          key={href}
+          href={href}
+          className={cn(
+            "-mb-px border-b-2 border-transparent pb-3 pt-1 transition-colors",
+            pathname.startsWith(href) ?
+              "border-primary font-medium"
+            : "text-muted-foreground hover:text-foreground"
+          )}
+        >
+          {title}
+        </Link>
+      ))}
+    </nav>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { billDueCharges } from "@/lib/actions/billing";
+
+type BillDueButtonProps = {
+  /** Number of scheduled installments that are due */
+  due: number;
+};
+
+export function BillDueButton({ due }: BillDueButtonProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleClick = async () => {
+    setIsLoading(true);
+
+    try {
+      const result = await billDueCharges();
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(
+        result.count === 1 ?
+          "1 charge billed"
+        : `${result.count} charges billed`
+      );
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Button onClick={handleClick} disabled={isLoading || due === 0}>
+      {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+      Bill due charges
+    </Button>
+  );
+}
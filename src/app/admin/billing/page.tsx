@@ -0,0 +1,101 @@
+import type { Metadata } from "next";
+
+import { fromMinorUnits } from "@/lib/currency";
+import { fetchOpenBillingCharges } from "@/lib/db/queries";
+import { ChargeStatus } from "@/lib/enums";
+import { RESERVATION_STATUS_LABELS } from "@/lib/reservation-status";
+import {
+  cn,
+  formatCurrency,
+  formatDateRange,
+  formatDateTime,
+} from "@/lib/utils";
+import { BillDueButton } from "./bill-due-button";
+
+export const metadata: Metadata = {
+  title: "Billing",
+};
+
+export default async function BillingPage() {
+  const charges = await fetchOpenBillingCharges();
+
+  const now = new Date();
+  const due = charges.filter(
+    ({ charge }) =>
+      charge.status === ChargeStatus.SCHEDULED && charge.due_at <= now
+  ).length;
+
+  return (
+    <>
+      <div className="flex h-40 items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Billing</h1>
+          <p className="text-muted-foreground mt-1">
+            Monthly installments of long-term rentals · {due} due
+          </p>
+        </div>
+
+        <BillDueButton due={due} />
+      </div>
+
+      <div className="mb-16 overflow-x-auto rounded-xl border">
+        <table className="w-full text-sm">
+          <thead className="text-muted-foreground border-b text-left">
+            <tr>
+              <th className="p-4 font-medium">Reservation</th>
+              <th className="p-4 font-medium">Period</th>
+              <th className="p-4 font-medium">Due</th>
+              <th className="p-4 text-right font-medium">Amount</th>
+              <th className="p-4 font-medium">Status</th>
+            </tr>
+          </thead>
+
+          <tbody>
+            {charges.length === 0 && (
+              <tr>
+                <td colSpan={5} className="text-muted-foreground p-4">
+                  No long-term rentals are being billed.
+                </td>
+              </tr>
+            )}
+
+            {charges.map(({ charge, reservation, car }) => (
+              <tr
+                key={charge.id}
+                className={cn(
+                  "border-b last:border-0",
+                  charge.status === ChargeStatus.BILLED &&
+                    "text-muted-foreground"
+                )}
+              >
+                <td className="p-4">
+                  <p className="font-medium">{car.name}</p>
+                  <p className="text-muted-foreground truncate text-xs">
+                    {reservation.id} ·{" "}
+                    {RESERVATION_STATUS_LABELS[reservation.status]}
+                  </p>
+                </td>
+                <td className="p-4">
+                  {charge.sequence}.{" "}
+                  {formatDateRange(charge.period_start, charge.period_end)}
+                </td>
+                <td className="p-4">{formatDateTime(charge.due_at)}</td>
+                <td className="p-4 text-right">
+                  {formatCurrency(
+                    fromMinorUnits(charge.amount, charge.currency),
+                    charge.currency
+                  )}
+                </td>
+                <td className="p-4">
+                  {charge.status === ChargeStatus.BILLED ?
+                    `Billed ${formatDateTime(charge.billed_at!)}`
+                  : "Scheduled"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
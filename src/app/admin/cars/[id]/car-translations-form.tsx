@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+import type { z } from "zod";
+import type { CarTranslation } from "@/lib/db/definitions";
+import type { CarTranslationsValues } from "@/lib/validations/car";
+
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Textarea } from "@/components/ui/textarea";
+import { updateCarTranslations } from "@/lib/actions/fleet";
+import { DEFAULT_LOCALE, LOCALE_NAMES, LOCALES } from "@/lib/i18n/config";
+import { CarTranslationsSchema } from "@/lib/validations/car";
+
+type CarTranslationsFormProps = {
+  carId: string;
+  translations: CarTranslation[];
+};
+
+export function CarTranslationsForm({
+  carId,
+  translations,
+}: CarTranslationsFormProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<
+    CarTranslationsValues,
+    unknown,
+    z.output<typeof CarTranslationsSchema>
+  >({
+    resolver: zodResolver(CarTranslationsSchema),
+    defaultValues: {
+      // English is the content of the car itself
+      translations: LOCALES.filter((locale) => locale !== DEFAULT_LOCALE).map(
+        (locale) => {
+          const translation = translations.find(
+            (translation) => translation.locale === locale
+          );
+
+          return {
+            locale,
+            descriptions: translation?.descriptions ?? [],
+            features: translation?.features ?? [],
+          };
+        }
+      ),
+    },
+  });
+
+  async function onSubmit(values: z.output<typeof CarTranslationsSchema>) {
+    setIsLoading(true);
+
+    try {
+      const result = await updateCarTranslations(carId, values);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success("Translations saved");
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <section className="mb-16 max-w-3xl">
+      <h2 className="text-xl font-semibold">Translations</h2>
+      <p className="text-muted-foreground mt-1 text-sm">
+        Descriptions and features left empty are shown in English.
+      </p>
+
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit(onSubmit)}
+          className="mt-4 grid grid-cols-1 gap-6 md:grid-cols-2"
+        >
+          {form.getValues("translations").map(({ locale }, index) => (
+            <div key={locale} className="contents">
+              <FormField
+                control={form.control}
+                name={`translations.${index}.descriptions`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Descriptions ({LOCALE_NAMES[locale]})</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        rows={6}
+                        value={field.value.join("\n")}
+                        onChange={(event) =>
+                          field.onChange(event.target.value.split("\n"))
+                        }
+                        onBlur={field.onBlur}
+                      />
+                    </FormControl>
+                    <FormDescription>One paragraph per line.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name={`translations.${index}.features`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Features ({LOCALE_NAMES[locale]})</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        rows={6}
+                        value={field.value.join("\n")}
+                        onChange={(event) =>
+                          field.onChange(event.target.value.split("\n"))
+                        }
+                        onBlur={field.onBlur}
+                      />
+                    </FormControl>
+                    <FormDescription>One feature per line.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          ))}
+
+          <div className="md:col-span-2">
+            <Button type="submit" disabled={isLoading}>
+              {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+              Save translations
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </section>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { ArrowDown, ArrowUp, Star, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  addCarImage,
+  removeCarImage,
+  reorderCarImages,
+  setPrimaryCarImage,
+  updateCarImageAltText,
+} from "@/lib/actions/car-gallery";
+import { cn } from "@/lib/utils";
+import { ImageUpload } from "../image-upload";
+
+type GalleryManagerProps = {
+  car: { id: string; name: string };
+  images: {
+    id: string;
+    altText: string;
+    isPrimary: boolean;
+    thumbnail: string;
+  }[];
+};
+
+export function GalleryManager({ car, images }: GalleryManagerProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const run = async (action: () => Promise<{ error?: string }>) => {
+    setIsLoading(true);
+
+    try {
+      const result = await action();
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const move = (index: number, step: number) => {
+    const ids = images.map(({ id }) => id);
+    [ids[index], ids[index + step]] = [ids[index + step], ids[index]];
+
+    return run(() => reorderCarImages(car.id, ids));
+  };
+
+  return (
+    <section className="mb-16 max-w-3xl">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Gallery</h2>
+          <p className="text-muted-foreground mt-1 text-sm">
+            The primary image is shown on cards and listings.
+          </p>
+        </div>
+
+        <ImageUpload
+          disabled={isLoading}
+          onUpload={({ url, path }) =>
+            run(() => addCarImage(car.id, { url, path, alt_text: car.name }))
+          }
+        />
+      </div>
+
+      <ul className="mt-4 divide-y rounded-xl border">
+        {images.map((image, index) => (
+          <li key={image.id} className="flex items-center gap-3 p-3">
+            <div className="bg-muted relative h-14 w-20 shrink-0 rounded-md">
+              <Image
+                src={image.thumbnail}
+                alt={image.altText}
+                fill
+                sizes="80px"
+                // Linked images may come from any host
+                unoptimized
+                className="object-contain object-center p-1"
+              />
+            </div>
+
+            <Input
+              aria-label="Alt text"
+              defaultValue={image.altText}
+              disabled={isLoading}
+              onBlur={(event) => {
+                const altText = event.target.value.trim();
+
+                if (altText !== image.altText) {
+                  run(() => updateCarImageAltText(image.id, altText));
+                }
+              }}
+            />
+
+            <div className="flex shrink-0">
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={image.isPrimary ? "Primary image" : "Make primary"}
+                disabled={isLoading || image.isPrimary}
+                onClick={() => run(() => setPrimaryCarImage(image.id))}
+              >
+                <Star
+                  className={cn("size-4", image.isPrimary && "fill-current")}
+                />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Move up"
+                disabled={isLoading || index === 0}
+                onClick={() => move(index, -1)}
+              >
+                <ArrowUp className="size-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Move down"
+                disabled={isLoading || index === images.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ArrowDown className="size-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Remove"
+                disabled={isLoading || images.length === 1}
+                onClick={() => run(() => removeCarImage(image.id))}
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,69 @@
+import { notFound } from "next/navigation";
+
+import type { Metadata } from "next";
+
+import { getGalleryImageUrl } from "@/lib/car-images";
+import {
+  fetchCancellationPolicies,
+  fetchCarById,
+  fetchCarImages,
+  fetchCarTranslations,
+  fetchLocations,
+} from "@/lib/db/queries";
+import { CarForm } from "../car-form";
+import { CarTranslationsForm } from "./car-translations-form";
+import { GalleryManager } from "./gallery-manager";
+
+type EditCarPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export const metadata: Metadata = {
+  title: "Edit car",
+};
+
+export default async function EditCarPage({ params }: EditCarPageProps) {
+  const { id } = await params;
+
+  const [car, images, translations, locations, cancellationPolicies] =
+    await Promise.all([
+      fetchCarById(id),
+      fetchCarImages(id),
+      fetchCarTranslations(id),
+      fetchLocations(),
+      fetchCancellationPolicies(),
+    ]);
+
+  if (!car) {
+    notFound();
+  }
+
+  return (
+    <>
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">{car.name}</h1>
+        <p className="text-muted-foreground mt-1">
+          {car.retired_at ? "Retired" : `/car/${car.slug}`}
+        </p>
+      </div>
+
+      <CarForm
+        car={car}
+        locations={locations}
+        cancellationPolicies={cancellationPolicies}
+      />
+
+      <CarTranslationsForm carId={car.id!} translations={translations} />
+
+      <GalleryManager
+        car={{ id: car.id!, name: car.name }}
+        images={images.map((image) => ({
+          id: image.id!,
+          altText: image.alt_text,
+          isPrimary: !!image.is_primary,
+          thumbnail: getGalleryImageUrl(image, "thumbnail"),
+        }))}
+      />
+    </>
+  );
+}
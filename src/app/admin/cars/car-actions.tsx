@@ -0,0 +1,207 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  Archive,
+  ArchiveRestore,
+  Loader2,
+  MapPin,
+  MoreHorizontal,
+  Pencil,
+} from "lucide-react";
+import { toast } from "sonner";
+
+import type { Location } from "@/lib/db/definitions";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Label } from "@/components/ui/label";
+import { NativeSelect } from "@/components/ui/native-select";
+import { reinstateCar, relocateCar, retireCar } from "@/lib/actions/fleet";
+
+type CarActionsProps = {
+  car: { id: string; name: string; locationId: string; retired: boolean };
+  locations: Location[];
+};
+
+export function CarActions({ car, locations }: CarActionsProps) {
+  const router = useRouter();
+  const [dialog, setDialog] = useState<"relocate" | "retire">();
+  const [locationId, setLocationId] = useState(car.locationId);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const run = async (
+    action: () => Promise<{ error?: string }>,
+    message: string
+  ) => {
+    setIsLoading(true);
+
+    try {
+      const result = await action();
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(message);
+      setDialog(undefined);
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRelocate = () => {
+    const location = locations.find(({ id }) => id === locationId);
+
+    return run(
+      () => relocateCar(car.id, locationId),
+      `${car.name} moved to ${location?.name}`
+    );
+  };
+
+  const handleRetire = () =>
+    car.retired ?
+      run(() => reinstateCar(car.id), `${car.name} is back in service`)
+    : run(() => retireCar(car.id), `${car.name} retired`);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" aria-label="Car actions">
+            <MoreHorizontal className="size-4" />
+          </Button>
+        </DropdownMenuTrigger>
+
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem asChild>
+            <Link href={`/admin/cars/${car.id}`}>
+              <Pencil className="mr-2 size-4" />
+              Edit
+            </Link>
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            disabled={car.retired}
+            onSelect={() => {
+              setLocationId(car.locationId);
+              setDialog("relocate");
+            }}
+          >
+            <MapPin className="mr-2 size-4" />
+            Relocate
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setDialog("retire")}>
+            {car.retired ?
+              <ArchiveRestore className="mr-2 size-4" />
+            : <Archive className="mr-2 size-4" />}
+            {car.retired ? "Reinstate" : "Retire"}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={dialog === "relocate"}
+        onOpenChange={(open) => !open && setDialog(undefined)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Relocate {car.name}</DialogTitle>
+            <DialogDescription>
+              The car will be rented from its new location. Cars with upcoming
+              reservations can&apos;t be moved.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor={`relocate-${car.id}`}>Location</Label>
+            <NativeSelect
+              id={`relocate-${car.id}`}
+              value={locationId}
+              onChange={(event) => setLocationId(event.target.value)}
+            >
+              {locations.map((location) => (
+                <option key={location.id} value={location.id}>
+                  {location.name}
+                </option>
+              ))}
+            </NativeSelect>
+          </div>
+
+          <DialogFooter className="gap-2">
+            <DialogClose asChild>
+              <Button variant="outline" disabled={isLoading}>
+                Cancel
+              </Button>
+            </DialogClose>
+
+            <Button
+              onClick={handleRelocate}
+              disabled={isLoading || locationId === car.locationId}
+            >
+              {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+              Relocate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={dialog === "retire"}
+        onOpenChange={(open) => !open && setDialog(undefined)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {car.retired ? "Reinstate" : "Retire"} {car.name}?
+            </DialogTitle>
+            <DialogDescription>
+              {car.retired ?
+                "The car will be listed and bookable again."
+              : "The car will no longer be listed or bookable. Past reservations keep referring to it, and it can be reinstated later."
+              }
+            </DialogDescription>
+          </DialogHeader>
+
+          <DialogFooter className="gap-2">
+            <DialogClose asChild>
+              <Button variant="outline" disabled={isLoading}>
+                Cancel
+              </Button>
+            </DialogClose>
+
+            <Button
+              variant={car.retired ? "default" : "destructive"}
+              onClick={handleRetire}
+              disabled={isLoading}
+            >
+              {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+              {car.retired ? "Reinstate" : "Retire"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
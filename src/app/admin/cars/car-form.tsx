@@ -0,0 +1,591 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+import type { z } from "zod";
+import type { CancellationPolicy, Car, Location } from "@/lib/db/definitions";
+import type { CarFormValues } from "@/lib/validations/car";
+
+import { bodyStyles } from "@/app/cars/filters/body-styles";
+import { engineTypes } from "@/app/cars/filters/engine-types";
+import { transmissions } from "@/app/cars/filters/transmission-types";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Textarea } from "@/components/ui/textarea";
+import { createCar, updateCar } from "@/lib/actions/fleet";
+import {
+  DEFAULT_MIN_RENTAL_HOURS,
+  DEFAULT_MIN_RENTAL_MONTHS,
+  MAX_RENTAL_DAYS,
+  MAX_RENTAL_MONTHS,
+} from "@/lib/rental-duration";
+import { slugify } from "@/lib/utils";
+import { CarFormSchema, MAX_CAR_IMAGE_SIZE } from "@/lib/validations/car";
+import { ImageUpload } from "./image-upload";
+
+type CarFormProps = {
+  /** The car being edited, a new car is created when omitted */
+  car?: Car;
+  locations: Location[];
+  cancellationPolicies: CancellationPolicy[];
+};
+
+export function CarForm({
+  car,
+  locations,
+  cancellationPolicies,
+}: CarFormProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<CarFormValues, unknown, z.output<typeof CarFormSchema>>({
+    resolver: zodResolver(CarFormSchema),
+    defaultValues: {
+      name: car?.name ?? "",
+      slug: car?.slug ?? "",
+      location_id: car?.location_id ?? "",
+      body_style: car?.body_style ?? "",
+      engine_type: car?.engine_type ?? "",
+      transmission: car?.transmission ?? "",
+      seats: car?.seats ?? 5,
+      descriptions: car?.descriptions ?? [],
+      features: car?.features ?? [],
+      rating: car ? Number(car.rating) : 0,
+      reviews: car?.reviews ?? 0,
+      unlimited_mileage: car?.unlimited_mileage ?? false,
+      image_url: car?.image_url ?? "",
+      image_path: car?.image_path ?? "",
+      retail_price_per_day: car?.retail_price_per_day ?? 0,
+      retail_price_currency: car?.retail_price_currency ?? "INR",
+      discounted_price_per_day: car?.discounted_price_per_day ?? "",
+      price_per_hour: car?.price_per_hour ?? "",
+      min_rental_hours: car?.min_rental_hours ?? "",
+      price_per_week: car?.price_per_week ?? "",
+      price_per_month: car?.price_per_month ?? "",
+      min_rental_months: car?.min_rental_months ?? "",
+      cancellation_policy_id: car?.cancellation_policy_id ?? "",
+      deposit_amount: car?.deposit_amount ?? "",
+    },
+  });
+
+  async function onSubmit(values: z.output<typeof CarFormSchema>) {
+    setIsLoading(true);
+
+    try {
+      const result =
+        car ? await updateCar(car.id!, values) : await createCar(values);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(car ? "Car updated" : "Car added to the fleet");
+      router.push("/admin/cars");
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const name = form.watch("name");
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="mb-16 grid max-w-3xl grid-cols-1 gap-6 md:grid-cols-2"
+      >
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Eco Hatchback" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="slug"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Slug</FormLabel>
+              <FormControl>
+                <Input placeholder={slugify(name)} {...field} />
+              </FormControl>
+              <FormDescription>
+                Leave empty to generate it from the name.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="location_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Location</FormLabel>
+              <FormControl>
+                <NativeSelect {...field}>
+                  <option value="" disabled>
+                    Select a location
+                  </option>
+                  {locations.map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name}
+                    </option>
+                  ))}
+                </NativeSelect>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="seats"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Seats</FormLabel>
+              <FormControl>
+                <Input type="number" min={1} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {(
+          [
+            { name: "body_style", label: "Body style", options: bodyStyles },
+            { name: "engine_type", label: "Engine type", options: engineTypes },
+            {
+              name: "transmission",
+              label: "Transmission",
+              options: transmissions,
+            },
+          ] as const
+        ).map(({ name, label, options }) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{label}</FormLabel>
+                <FormControl>
+                  <NativeSelect {...field}>
+                    <option value="" disabled>
+                      Select {label.toLowerCase()}
+                    </option>
+                    {options.map((option) => (
+                      <option key={option.slug} value={option.name}>
+                        {option.name}
+                      </option>
+                    ))}
+                  </NativeSelect>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <FormField
+          control={form.control}
+          name="descriptions"
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel>Descriptions</FormLabel>
+              <FormControl>
+                <Textarea
+                  rows={6}
+                  value={field.value.join("\n")}
+                  onChange={(event) =>
+                    field.onChange(event.target.value.split("\n"))
+                  }
+                  onBlur={field.onBlur}
+                />
+              </FormControl>
+              <FormDescription>One paragraph per line.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="features"
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel>Features</FormLabel>
+              <FormControl>
+                <Textarea
+                  rows={6}
+                  placeholder={"Air Conditioning\nBluetooth"}
+                  value={field.value.join("\n")}
+                  onChange={(event) =>
+                    field.onChange(event.target.value.split("\n"))
+                  }
+                  onBlur={field.onBlur}
+                />
+              </FormControl>
+              <FormDescription>One feature per line.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* The image of an existing car is managed through its gallery */}
+        {!car && (
+          <FormField
+            control={form.control}
+            name="image_url"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Image</FormLabel>
+                {field.value && (
+                  <div className="bg-muted relative aspect-video w-full max-w-sm rounded-md">
+                    <Image
+                      src={field.value}
+                      alt={name}
+                      fill
+                      sizes="384px"
+                      // Linked images may come from any host
+                      unoptimized
+                      className="object-contain object-center"
+                    />
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <FormControl>
+                    <Input
+                      placeholder="https://"
+                      {...field}
+                      onChange={(event) => {
+                        // A linked image replaces the uploaded one
+                        form.setValue("image_path", "");
+                        field.onChange(event);
+                      }}
+                    />
+                  </FormControl>
+                  <ImageUpload
+                    disabled={isLoading}
+                    onUpload={({ url, path }) => {
+                      form.setValue("image_path", path);
+                      form.setValue("image_url", url, { shouldValidate: true });
+                    }}
+                  />
+                </div>
+                <FormDescription>
+                  Upload a JPEG, PNG, WebP or AVIF image of up to{" "}
+                  {MAX_CAR_IMAGE_SIZE / 1024 / 1024} MB, or link to one.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="retail_price_per_day"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Retail price per day</FormLabel>
+              <FormControl>
+                <Input type="number" min={1} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="retail_price_currency"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Currency</FormLabel>
+              <FormControl>
+                <Input maxLength={3} className="uppercase" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="discounted_price_per_day"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Discounted price per day</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={1}
+                  {...field}
+                  value={String(field.value ?? "")}
+                />
+              </FormControl>
+              <FormDescription>
+                Optional, charged in the same currency.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="price_per_hour"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Price per hour</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={1}
+                  {...field}
+                  value={String(field.value ?? "")}
+                />
+              </FormControl>
+              <FormDescription>
+                Leave empty to rent the car by the day only.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="min_rental_hours"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Minimum hours</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={1}
+                  max={23}
+                  placeholder={String(DEFAULT_MIN_RENTAL_HOURS)}
+                  {...field}
+                  value={String(field.value ?? "")}
+                />
+              </FormControl>
+              <FormDescription>
+                Shortest hourly rental, charged even for shorter trips.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="price_per_week"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Price per week</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={1}
+                  {...field}
+                  value={String(field.value ?? "")}
+                />
+              </FormControl>
+              <FormDescription>
+                Charged for every 7 days instead of the daily price.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="price_per_month"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Price per month</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={1}
+                  {...field}
+                  value={String(field.value ?? "")}
+                />
+              </FormControl>
+              <FormDescription>
+                Charged for every 30 days. Leave empty to limit rentals to{" "}
+                {MAX_RENTAL_DAYS} days.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="min_rental_months"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Minimum term (months)</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_RENTAL_MONTHS}
+                  placeholder={String(DEFAULT_MIN_RENTAL_MONTHS)}
+                  {...field}
+                  value={String(field.value ?? "")}
+                />
+              </FormControl>
+              <FormDescription>
+                Shortest rental longer than {MAX_RENTAL_DAYS} days, billed
+                monthly.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="cancellation_policy_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Cancellation policy</FormLabel>
+              <FormControl>
+                <NativeSelect {...field} value={String(field.value ?? "")}>
+                  <option value="">Same as location</option>
+                  {cancellationPolicies.map((policy) => (
+                    <option key={policy.id} value={policy.id}>
+                      {policy.name}
+                    </option>
+                  ))}
+                </NativeSelect>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="deposit_amount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Deposit</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={0}
+                  {...field}
+                  value={String(field.value ?? "")}
+                />
+              </FormControl>
+              <FormDescription>
+                Held during the rental. Leave empty to use the deposit of the
+                body style, or enter 0 to take none.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="rating"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Rating</FormLabel>
+              <FormControl>
+                <Input type="number" min={0} max={5} step={0.1} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="reviews"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Reviews</FormLabel>
+              <FormControl>
+                <Input type="number" min={0} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="unlimited_mileage"
+          render={({ field }) => (
+            <FormItem className="flex items-center gap-2 space-y-0 md:col-span-2">
+              <FormControl>
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={(checked) =>
+                    field.onChange(checked === true)
+                  }
+                />
+              </FormControl>
+              <FormLabel>Unlimited mileage</FormLabel>
+            </FormItem>
+          )}
+        />
+
+        <div className="flex gap-2 md:col-span-2">
+          <Button type="submit" disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+            {car ? "Save changes" : "Add car"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isLoading}
+            onClick={() => router.push("/admin/cars")}
+          >
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
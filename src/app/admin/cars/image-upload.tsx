@@ -0,0 +1,77 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { uploadCarImage } from "@/lib/actions/fleet";
+import { CAR_IMAGE_TYPES, CarImageFileSchema } from "@/lib/validations/car";
+
+type ImageUploadProps = {
+  onUpload: (image: { url: string; path: string }) => void;
+  disabled?: boolean;
+};
+
+export function ImageUpload({ onUpload, disabled }: ImageUploadProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const handleChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+
+    if (!file) return;
+
+    // Checked again on the server, this only saves a round trip
+    const parsed = CarImageFileSchema.safeParse(file);
+
+    if (!parsed.success) {
+      toast.error(parsed.error.errors[0].message);
+      return;
+    }
+
+    setIsUploading(true);
+
+    try {
+      const formData = new FormData();
+      formData.append("image", file);
+
+      const result = await uploadCarImage(formData);
+
+      if (result.error || !result.image) {
+        toast.error(result.error);
+        return;
+      }
+
+      onUpload(result.image);
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={CAR_IMAGE_TYPES.join(",")}
+        className="hidden"
+        onChange={handleChange}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        disabled={disabled || isUploading}
+        onClick={() => inputRef.current?.click()}
+      >
+        {isUploading ?
+          <Loader2 className="mr-2 size-4 animate-spin" />
+        : <Upload className="mr-2 size-4" />}
+        Upload
+      </Button>
+    </>
+  );
+}
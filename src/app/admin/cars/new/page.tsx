@@ -0,0 +1,28 @@
+import type { Metadata } from "next";
+
+import { fetchCancellationPolicies, fetchLocations } from "@/lib/db/queries";
+import { CarForm } from "../car-form";
+
+export const metadata: Metadata = {
+  title: "Add car",
+};
+
+export default async function NewCarPage() {
+  const [locations, cancellationPolicies] = await Promise.all([
+    fetchLocations(),
+    fetchCancellationPolicies(),
+  ]);
+
+  return (
+    <>
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">Add car</h1>
+      </div>
+
+      <CarForm
+        locations={locations}
+        cancellationPolicies={cancellationPolicies}
+      />
+    </>
+  );
+}
@@ -0,0 +1,140 @@
+import Image from "next/image";
+import Link from "next/link";
+import { Plus } from "lucide-react";
+
+import type { Metadata } from "next";
+
+import { Button } from "@/components/ui/button";
+import { getCarImageUrl } from "@/lib/car-images";
+import { fetchFleet, fetchLocations } from "@/lib/db/queries";
+import { cn, formatCurrency } from "@/lib/utils";
+import { CarActions } from "./car-actions";
+
+export const metadata: Metadata = {
+  title: "Fleet",
+};
+
+export default async function FleetPage() {
+  const [fleet, locations] = await Promise.all([
+    fetchFleet(),
+    fetchLocations(),
+  ]);
+
+  const retired = fleet.filter(({ car }) => car.retired_at).length;
+
+  return (
+    <>
+      <div className="flex h-40 items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Fleet</h1>
+          <p className="text-muted-foreground mt-1">
+            {fleet.length - retired} cars in service · {retired} retired
+          </p>
+        </div>
+
+        <Button asChild>
+          <Link href="/admin/cars/new">
+            <Plus className="mr-2 size-4" />
+            Add car
+          </Link>
+        </Button>
+      </div>
+
+      <div className="mb-16 overflow-x-auto rounded-xl border">
+        <table className="w-full text-sm">
+          <thead className="text-muted-foreground border-b text-left">
+            <tr>
+              <th className="p-4 font-medium">Car</th>
+              <th className="p-4 font-medium">Location</th>
+              <th className="p-4 font-medium">Type</th>
+              <th className="p-4 text-right font-medium">Price per day</th>
+              <th className="p-4 font-medium">Status</th>
+              <th className="p-4">
+                <span className="sr-only">Actions</span>
+              </th>
+            </tr>
+          </thead>
+
+          <tbody>
+            {fleet.map(({ car, location }) => (
+              <tr
+                key={car.id}
+                className={cn(
+                  "border-b last:border-0",
+                  car.retired_at && "text-muted-foreground"
+                )}
+              >
+                <td className="p-4">
+                  <div className="flex items-center gap-3">
+                    <div className="relative h-10 w-16 shrink-0">
+                      <Image
+                        src={getCarImageUrl(car, "thumbnail")}
+                        alt={car.name}
+                        fill
+                        sizes="64px"
+                        className={cn(
+                          "object-contain object-center",
+                          car.retired_at && "grayscale"
+                        )}
+                      />
+                    </div>
+                    <div className="min-w-0">
+                      <Link
+                        href={`/admin/cars/${car.id}`}
+                        className="font-medium hover:underline"
+                      >
+                        {car.name}
+                      </Link>
+                      <p className="text-muted-foreground truncate text-xs">
+                        /car/{car.slug}
+                      </p>
+                    </div>
+                  </div>
+                </td>
+                <td className="p-4">{location.name}</td>
+                <td className="p-4">
+                  {car.body_style} · {car.engine_type} · {car.transmission}
+                </td>
+                <td className="p-4 text-right">
+                  {car.discounted_price_per_day ?
+                    <>
+                      <span className="text-muted-foreground mr-1 text-xs line-through">
+                        {formatCurrency(
+                          car.retail_price_per_day,
+                          car.retail_price_currency
+                        )}
+                      </span>
+                      {formatCurrency(
+                        car.discounted_price_per_day,
+                        car.discounted_price_currency ??
+                          car.retail_price_currency
+                      )}
+                    </>
+                  : formatCurrency(
+                      car.retail_price_per_day,
+                      car.retail_price_currency
+                    )
+                  }
+                </td>
+                <td className="p-4">
+                  {car.retired_at ? "Retired" : "In service"}
+                </td>
+                <td className="p-4 text-right">
+                  <CarActions
+                    car={{
+                      id: car.id!,
+                      name: car.name,
+                      locationId: car.location_id,
+                      retired: !!car.retired_at,
+                    }}
+                    locations={locations}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import type { BodyStyleDeposit } from "@/lib/db/definitions";
+
+import { bodyStyles } from "@/app/cars/filters/body-styles";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { updateBodyStyleDeposits } from "@/lib/actions/deposits";
+
+type BodyStyleDepositsFormProps = {
+  deposits: BodyStyleDeposit[];
+};
+
+export function BodyStyleDepositsForm({
+  deposits,
+}: BodyStyleDepositsFormProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [currency, setCurrency] = useState(deposits[0]?.currency ?? "INR");
+
+  // Amounts as typed, keyed by body style, empty when cars of the style take no deposit
+  const [amounts, setAmounts] = useState(() =>
+    Object.fromEntries(
+      bodyStyles.map(({ slug }) => [
+        slug,
+        String(
+          deposits.find((deposit) => deposit.body_style === slug)?.amount ?? ""
+        ),
+      ])
+    )
+  );
+
+  const handleSave = async () => {
+    setIsLoading(true);
+
+    try {
+      const result = await updateBodyStyleDeposits({
+        currency,
+        deposits: bodyStyles.map(({ slug }) => ({
+          body_style: slug,
+          amount: amounts[slug].trim(),
+        })),
+      });
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success("Deposits updated");
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mb-16 mt-4 max-w-xl space-y-6">
+      <p className="text-muted-foreground text-sm">
+        Held on the customer&apos;s card around the rental of cars without a
+        deposit of their own, if they are priced in the same currency. Leave an
+        amount empty to take no deposit.
+      </p>
+
+      <div className="flex max-w-xs items-center gap-3">
+        <Label htmlFor="currency" className="shrink-0">
+          Currency
+        </Label>
+        <Input
+          id="currency"
+          value={currency}
+          maxLength={3}
+          onChange={(event) => setCurrency(event.target.value)}
+        />
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border">
+        <table className="w-full text-sm">
+          <tbody>
+            {bodyStyles.map(({ slug, name }) => (
+              <tr key={slug} className="border-b last:border-0">
+                <th className="p-4 text-left font-medium">{name}</th>
+                <td className="p-2">
+                  <Input
+                    inputMode="numeric"
+                    aria-label={`Deposit of ${name}`}
+                    value={amounts[slug]}
+                    disabled={isLoading}
+                    onChange={(event) =>
+                      setAmounts((amounts) => ({
+                        ...amounts,
+                        [slug]: event.target.value,
+                      }))
+                    }
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <Button disabled={isLoading} onClick={handleSave}>
+        {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+        Save deposits
+      </Button>
+    </div>
+  );
+}
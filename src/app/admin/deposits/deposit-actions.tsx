@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { captureDeposit, releaseDeposit } from "@/lib/actions/deposits";
+import { formatCurrency } from "@/lib/utils";
+
+type DepositActionsProps = {
+  depositId: string;
+  /** Held on the customer's card, in the currency's major unit */
+  amount: number;
+  currency: string;
+};
+
+export function DepositActions({
+  depositId,
+  amount,
+  currency,
+}: DepositActionsProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [captureAmount, setCaptureAmount] = useState(String(amount));
+  const [reason, setReason] = useState("");
+
+  const handleSettle = async (capture: boolean) => {
+    setIsLoading(true);
+
+    try {
+      const result =
+        capture ?
+          await captureDeposit(depositId, { amount: captureAmount, reason })
+        : await releaseDeposit(depositId);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(capture ? "Deposit captured" : "Deposit released");
+      setOpen(false);
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex justify-end gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={isLoading}
+        onClick={() => handleSettle(false)}
+      >
+        Release
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button variant="destructive" size="sm" disabled={isLoading}>
+            Capture
+          </Button>
+        </DialogTrigger>
+
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Capture this deposit?</DialogTitle>
+            <DialogDescription>
+              Up to {formatCurrency(amount, currency)} can be kept, the rest is
+              released to the customer. This can&apos;t be undone.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="capture-amount">Amount ({currency})</Label>
+              <Input
+                id="capture-amount"
+                inputMode="decimal"
+                value={captureAmount}
+                disabled={isLoading}
+                onChange={(event) => setCaptureAmount(event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="capture-reason">Reason</Label>
+              <Textarea
+                id="capture-reason"
+                placeholder="e.g. Scratched rear bumper"
+                value={reason}
+                disabled={isLoading}
+                onChange={(event) => setReason(event.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2">
+            <DialogClose asChild>
+              <Button variant="outline" disabled={isLoading}>
+                Keep holding
+              </Button>
+            </DialogClose>
+
+            <Button
+              variant="destructive"
+              onClick={() => handleSettle(true)}
+              disabled={isLoading}
+            >
+              {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+              Capture deposit
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
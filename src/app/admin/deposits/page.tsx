@@ -0,0 +1,90 @@
+import type { Metadata } from "next";
+
+import { fromMinorUnits } from "@/lib/currency";
+import { fetchBodyStyleDeposits, fetchHeldDeposits } from "@/lib/db/queries";
+import { RESERVATION_STATUS_LABELS } from "@/lib/reservation-status";
+import { formatCurrency, formatDateTime } from "@/lib/utils";
+import { BodyStyleDepositsForm } from "./body-style-deposits-form";
+import { DepositActions } from "./deposit-actions";
+
+export const metadata: Metadata = {
+  title: "Deposits",
+};
+
+export default async function DepositsPage() {
+  const [held, bodyStyleDeposits] = await Promise.all([
+    fetchHeldDeposits(),
+    fetchBodyStyleDeposits(),
+  ]);
+
+  return (
+    <>
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">Deposits</h1>
+        <p className="text-muted-foreground mt-1">
+          {held.length} deposits held on customers&apos; cards
+        </p>
+      </div>
+
+      <div className="mb-16 overflow-x-auto rounded-xl border">
+        <table className="w-full text-sm">
+          <thead className="text-muted-foreground border-b text-left">
+            <tr>
+              <th className="p-4 font-medium">Reservation</th>
+              <th className="p-4 font-medium">Rental</th>
+              <th className="p-4 font-medium">Held since</th>
+              <th className="p-4 text-right font-medium">Amount</th>
+              <th className="p-4" />
+            </tr>
+          </thead>
+
+          <tbody>
+            {held.length === 0 && (
+              <tr>
+                <td colSpan={5} className="text-muted-foreground p-4">
+                  No deposits are held.
+                </td>
+              </tr>
+            )}
+
+            {held.map(({ deposit, reservation, car }) => (
+              <tr key={deposit.id} className="border-b last:border-0">
+                <td className="p-4">
+                  <p className="font-medium">{car.name}</p>
+                  <p className="text-muted-foreground truncate text-xs">
+                    {reservation.id} ·{" "}
+                    {RESERVATION_STATUS_LABELS[reservation.status]}
+                  </p>
+                </td>
+                <td className="p-4">
+                  {formatDateTime(reservation.check_in)} –{" "}
+                  {formatDateTime(reservation.check_out)}
+                </td>
+                <td className="p-4">
+                  {deposit.authorized_at &&
+                    formatDateTime(deposit.authorized_at)}
+                </td>
+                <td className="p-4 text-right">
+                  {formatCurrency(
+                    fromMinorUnits(deposit.amount, deposit.currency),
+                    deposit.currency
+                  )}
+                </td>
+                <td className="p-4">
+                  <DepositActions
+                    depositId={deposit.id}
+                    amount={fromMinorUnits(deposit.amount, deposit.currency)}
+                    currency={deposit.currency}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <h2 className="text-xl font-semibold">Deposits by body style</h2>
+      <BodyStyleDepositsForm deposits={bodyStyleDeposits} />
+    </>
+  );
+}
@@ -0,0 +1,103 @@
+import type { Metadata } from "next";
+
+import { fetchOutboxEmails } from "@/lib/db/queries";
+import { emailTransport } from "@/lib/emails";
+import { EmailStatus } from "@/lib/enums";
+import { cn, formatDateTime } from "@/lib/utils";
+import { SendDueButton } from "./send-due-button";
+
+export const metadata: Metadata = {
+  title: "Emails",
+};
+
+const STATUS_LABELS: Record<EmailStatus, string> = {
+  [EmailStatus.PENDING]: "Queued",
+  [EmailStatus.SENT]: "Sent",
+  [EmailStatus.FAILED]: "Failed",
+};
+
+export default async function EmailsPage() {
+  const emails = await fetchOutboxEmails();
+
+  const queued = emails.filter(
+    ({ status }) => status === EmailStatus.PENDING
+  ).length;
+
+  return (
+    <>
+      <div className="flex h-40 items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Emails</h1>
+          <p className="text-muted-foreground mt-1">
+            Sent through {emailTransport.name} · {queued} queued
+          </p>
+        </div>
+
+        <SendDueButton />
+      </div>
+
+      <div className="mb-16 overflow-x-auto rounded-xl border">
+        <table className="w-full text-sm">
+          <thead className="text-muted-foreground border-b text-left">
+            <tr>
+              <th className="p-4 font-medium">Email</th>
+              <th className="p-4 font-medium">Recipient</th>
+              <th className="p-4 font-medium">Queued</th>
+              <th className="p-4 text-right font-medium">Attempts</th>
+              <th className="p-4 font-medium">Status</th>
+            </tr>
+          </thead>
+
+          <tbody>
+            {emails.length === 0 && (
+              <tr>
+                <td colSpan={5} className="text-muted-foreground p-4">
+                  No emails were sent yet.
+                </td>
+              </tr>
+            )}
+
+            {emails.map((email) => (
+              <tr
+                key={email.id}
+                className={cn(
+                  "border-b last:border-0",
+                  email.status === EmailStatus.SENT && "text-muted-foreground"
+                )}
+              >
+                <td className="p-4">
+                  <p className="font-medium">{email.subject}</p>
+                  <p className="text-muted-foreground truncate text-xs">
+                    {email.template}
+                    {email.reservation_id && ` · ${email.reservation_id}`}
+                  </p>
+                </td>
+                <td className="p-4">{email.recipient}</td>
+                <td className="p-4">{formatDateTime(email.created_at)}</td>
+                <td className="p-4 text-right">{email.attempts}</td>
+                <td className="p-4">
+                  <p>
+                    {email.status === EmailStatus.SENT ?
+                      `Sent ${formatDateTime(email.sent_at!)}`
+                    : STATUS_LABELS[email.status]}
+                  </p>
+                  {email.status === EmailStatus.PENDING &&
+                    email.attempts > 0 && (
+                      <p className="text-muted-foreground text-xs">
+                        Next attempt {formatDateTime(email.next_attempt_at)}
+                      </p>
+                    )}
+                  {email.last_error && email.status !== EmailStatus.SENT && (
+                    <p className="text-destructive text-xs">
+                      {email.last_error}
+                    </p>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
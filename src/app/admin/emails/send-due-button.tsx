@@ -0,0 +1,49 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { sendDueEmailsNow } from "@/lib/actions/emails";
+
+export function SendDueButton() {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleClick = async () => {
+    setIsLoading(true);
+
+    try {
+      const result = await sendDueEmailsNow();
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      if (result.failed) {
+        toast.warning(
+          `${result.sent} sent, ${result.failed} failed and will be retried`
+        );
+      } else {
+        toast.success(
+          result.sent === 1 ? "1 email sent" : `${result.sent} emails sent`
+        );
+      }
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Button onClick={handleClick} disabled={isLoading}>
+      {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+      Send due emails
+    </Button>
+  );
+}
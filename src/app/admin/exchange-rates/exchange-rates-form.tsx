@@ -0,0 +1,190 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Plus, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { updateExchangeRates } from "@/lib/actions/exchange-rates";
+import { BASE_CURRENCY } from "@/lib/currency";
+import { parseExchangeRatesFile } from "@/lib/validations/exchange-rate";
+
+type Rate = { currency: string; rate: string };
+
+type ExchangeRatesFormProps = {
+  rates: Rate[];
+};
+
+export function ExchangeRatesForm(props: ExchangeRatesFormProps) {
+  const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [rates, setRates] = useState(props.rates);
+
+  const updateRate = (index: number, changes: Partial<Rate>) => {
+    setRates((rates) =>
+      rates.map((rate, i) => (i === index ? { ...rate, ...changes } : rate))
+    );
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseExchangeRatesFile(await file.text());
+
+      if (imported.length === 0) {
+        toast.error("No rates found in the file");
+        return;
+      }
+
+      // Imported rates replace the ones of the same currency and keep the others
+      setRates((rates) => [
+        ...rates.filter(
+          ({ currency }) =>
+            !imported.some(
+              (rate) =>
+                rate.currency.toUpperCase() === currency.trim().toUpperCase()
+            )
+        ),
+        ...imported,
+      ]);
+
+      toast.success(`Imported ${imported.length} rates, save to apply them`);
+    } catch {
+      toast.error("The file must be JSON or CSV with a currency and a rate");
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  const handleSave = async () => {
+    setIsLoading(true);
+
+    try {
+      const result = await updateExchangeRates({ rates });
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success("Exchange rates updated");
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mb-16 max-w-xl space-y-6">
+      <p className="text-muted-foreground text-sm">
+        Visitors can see prices in any of these currencies. Prices are only
+        converted for display, reservations are charged in the currency of the
+        car. Import a JSON file like{" "}
+        <code className="text-foreground">{`{ "USD": 0.012 }`}</code> or a CSV
+        file with a currency and a rate per line.
+      </p>
+
+      <div className="overflow-x-auto rounded-xl border">
+        <table className="w-full text-sm">
+          <thead className="text-muted-foreground border-b text-left">
+            <tr>
+              <th className="p-4 font-medium">Currency</th>
+              <th className="p-4 font-medium">Per 1 {BASE_CURRENCY}</th>
+              <th className="p-4" />
+            </tr>
+          </thead>
+
+          <tbody>
+            {rates.map((rate, index) => (
+              <tr key={index} className="border-b last:border-0">
+                <td className="p-2">
+                  <Input
+                    aria-label="Currency"
+                    placeholder="USD"
+                    maxLength={3}
+                    className="uppercase"
+                    value={rate.currency}
+                    disabled={isLoading}
+                    onChange={(event) =>
+                      updateRate(index, { currency: event.target.value })
+                    }
+                  />
+                </td>
+                <td className="p-2">
+                  <Input
+                    aria-label={`Rate of ${rate.currency || "the currency"}`}
+                    inputMode="decimal"
+                    value={rate.rate}
+                    disabled={isLoading}
+                    onChange={(event) =>
+                      updateRate(index, { rate: event.target.value })
+                    }
+                  />
+                </td>
+                <td className="w-12 p-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove rate"
+                    disabled={isLoading}
+                    onClick={() =>
+                      setRates((rates) => rates.filter((_, i) => i !== index))
+                    }
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          disabled={isLoading}
+          onClick={() =>
+            setRates((rates) => [...rates, { currency: "", rate: "" }])
+          }
+        >
+          <Plus className="mr-2 size-4" />
+          Add currency
+        </Button>
+
+        <Button
+          type="button"
+          variant="outline"
+          disabled={isLoading}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="mr-2 size-4" />
+          Import file
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,.txt,application/json,text/csv"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) void handleImport(file);
+          }}
+        />
+
+        <Button disabled={isLoading} onClick={handleSave}>
+          {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+          Save rates
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import type { Metadata } from "next";
+
+import { BASE_CURRENCY } from "@/lib/currency";
+import { fetchExchangeRates } from "@/lib/db/queries";
+import { ExchangeRatesForm } from "./exchange-rates-form";
+
+export const metadata: Metadata = {
+  title: "Exchange rates",
+};
+
+export default async function ExchangeRatesPage() {
+  const rates = await fetchExchangeRates();
+
+  const updatedAt = rates.reduce<Date | null>(
+    (latest, { updated_at }) =>
+      updated_at && (!latest || updated_at > latest) ? updated_at : latest,
+    null
+  );
+
+  return (
+    <>
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">Exchange rates</h1>
+        <p className="text-muted-foreground mt-1">
+          {rates.length} currencies against {BASE_CURRENCY}
+          {updatedAt && ` · updated ${updatedAt.toLocaleDateString("en-IN")}`}
+        </p>
+      </div>
+
+      <ExchangeRatesForm
+        rates={rates.map(({ currency, rate }) => ({
+          currency,
+          rate: String(Number(rate)),
+        }))}
+      />
+    </>
+  );
+}
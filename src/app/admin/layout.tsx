@@ -0,0 +1,17 @@
+import { checkStaff } from "@/lib/auth";
+import { AdminNav } from "./admin-nav";
+
+export default async function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  await checkStaff();
+
+  return (
+    <main className="mx-auto w-full max-w-none px-5 md:max-w-[90%] md:px-0 lg:mt-4 xl:max-w-6xl">
+      <AdminNav />
+      {children}
+    </main>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  adjustReservationBalance,
+  refundReservation,
+} from "@/lib/actions/ledger";
+import { formatCurrency } from "@/lib/utils";
+
+type LedgerActionsProps = {
+  reservationId: string;
+  currency: string;
+  /** Owed back to the customer, in the currency's major unit */
+  owed: number;
+};
+
+export function LedgerActions({
+  reservationId,
+  currency,
+  owed,
+}: LedgerActionsProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  const handleRefund = async () => {
+    setIsLoading(true);
+
+    try {
+      const result = await refundReservation(reservationId);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(
+        result.refund &&
+          `${formatCurrency(result.refund.amount, result.refund.currency)} refunded`
+      );
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAdjust = async () => {
+    setIsLoading(true);
+
+    try {
+      const result = await adjustReservationBalance(reservationId, {
+        amount,
+        reason,
+      });
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success("Balance adjusted");
+      setOpen(false);
+      setAmount("");
+      setReason("");
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      {owed > 0 && (
+        <Button disabled={isLoading} onClick={handleRefund}>
+          {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+          Refund {formatCurrency(owed, currency)}
+        </Button>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" disabled={isLoading}>
+            Adjust balance
+          </Button>
+        </DialogTrigger>
+
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adjust the balance</DialogTitle>
+            <DialogDescription>
+              A positive amount is charged to the customer, a negative one is
+              credited back to them and can then be refunded.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-amount">Amount ({currency})</Label>
+              <Input
+                id="adjustment-amount"
+                inputMode="decimal"
+                value={amount}
+                disabled={isLoading}
+                onChange={(event) => setAmount(event.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-reason">Reason</Label>
+              <Textarea
+                id="adjustment-reason"
+                placeholder="e.g. Late return"
+                value={reason}
+                disabled={isLoading}
+                onChange={(event) => setReason(event.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2">
+            <DialogClose asChild>
+              <Button variant="outline" disabled={isLoading}>
+                Cancel
+              </Button>
+            </DialogClose>
+
+            <Button onClick={handleAdjust} disabled={isLoading}>
+              {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+              Post adjustment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { notFound } from "next/navigation";
+
+import type { Metadata } from "next";
+
+import { LedgerStatement } from "@/components/ledger-statement";
+import { fromMinorUnits } from "@/lib/currency";
+import {
+  fetchLedgerEntries,
+  fetchPayments,
+  fetchReservationById,
+} from "@/lib/db/queries";
+import { PaymentStatus } from "@/lib/enums";
+import { buildStatement } from "@/lib/ledger";
+import { paymentProvider } from "@/lib/payments";
+import { RESERVATION_STATUS_LABELS } from "@/lib/reservation-status";
+import { formatCurrency, formatDateTime } from "@/lib/utils";
+import { LedgerActions } from "./ledger-actions";
+import { ReceivePaymentButton } from "./receive-payment-button";
+
+type ReservationLedgerPageProps = {
+  params: Promise<{ reservationId: string }>;
+};
+
+export const metadata: Metadata = {
+  title: "Reservation ledger",
+};
+
+export default async function ReservationLedgerPage({
+  params,
+}: ReservationLedgerPageProps) {
+  const { reservationId } = await params;
+
+  const [data, entries, reservationPayments] = await Promise.all([
+    fetchReservationById(reservationId),
+    fetchLedgerEntries(reservationId),
+    fetchPayments(reservationId),
+  ]);
+
+  if (!data) {
+    notFound();
+  }
+
+  const { reservation, car } = data;
+  const currency = reservation.currency;
+  const balance = buildStatement(entries).at(-1)?.balance ?? 0;
+  // Manual payments are arranged with the customer over WhatsApp, and marked received here
+  const awaitingReceipt = reservationPayments.filter(
+    (payment) =>
+      paymentProvider.confirmedByStaff &&
+      payment.provider === paymentProvider.name &&
+      payment.status === PaymentStatus.PENDING
+  );
+
+  return (
+    <>
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">{car.name}</h1>
+        <p className="text-muted-foreground mt-1">
+          {reservation.id} · {RESERVATION_STATUS_LABELS[reservation.status!]}
+        </p>
+      </div>
+
+      {currency ?
+        <div className="mb-16 space-y-10">
+          <div className="max-w-2xl space-y-4">
+            <h2 className="text-xl font-semibold">Customer balance</h2>
+            <LedgerStatement entries={entries} currency={currency} />
+            <LedgerActions
+              reservationId={reservationId}
+              currency={currency}
+              owed={balance < 0 ? fromMinorUnits(-balance, currency) : 0}
+            />
+          </div>
+
+          {awaitingReceipt.length > 0 && (
+            <div className="max-w-2xl space-y-4">
+              <h2 className="text-xl font-semibold">Awaiting receipt</h2>
+
+              <ul className="divide-y rounded-xl border">
+                {awaitingReceipt.map((payment) => (
+                  <li
+                    key={payment.id}
+                    className="flex items-center justify-between gap-4 p-4"
+                  >
+                    <div>
+                      <p className="font-medium capitalize">
+                        {payment.purpose}:{" "}
+                        {formatCurrency(
+                          fromMinorUnits(payment.amount, payment.currency),
+                          payment.currency
+                        )}
+                      </p>
+                      <p className="text-muted-foreground text-sm">
+                        Requested {formatDateTime(payment.created_at)}
+                      </p>
+                    </div>
+                    <ReceivePaymentButton paymentId={payment.id} />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold">Journal</h2>
+
+            <div className="overflow-x-auto rounded-xl border">
+              <table className="w-full text-sm">
+                <thead className="text-muted-foreground border-b text-left">
+                  <tr>
+                    <th className="p-4 font-medium">Posted</th>
+                    <th className="p-4 font-medium">Type</th>
+                    <th className="p-4 font-medium">Description</th>
+                    <th className="p-4 font-medium">Account</th>
+                    <th className="p-4 text-right font-medium">Debit</th>
+                    <th className="p-4 text-right font-medium">Credit</th>
+                  </tr>
+                </thead>
+
+                <tbody>
+                  {entries.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="text-muted-foreground p-4">
+                        Nothing was posted for this reservation.
+                      </td>
+                    </tr>
+                  )}
+
+                  {entries.map((entry) => (
+                    <tr key={entry.id} className="border-b last:border-0">
+                      <td className="p-4">
+                        {formatDateTime(entry.created_at)}
+                      </td>
+                      <td className="p-4 capitalize">{entry.type}</td>
+                      <td className="p-4">{entry.description}</td>
+                      <td className="p-4">{entry.account}</td>
+                      <td className="p-4 text-right">
+                        {entry.amount > 0 &&
+                          formatCurrency(
+                            fromMinorUnits(entry.amount, entry.currency),
+                            entry.currency
+                          )}
+                      </td>
+                      <td className="p-4 text-right">
+                        {entry.amount < 0 &&
+                          formatCurrency(
+                            fromMinorUnits(-entry.amount, entry.currency),
+                            entry.currency
+                          )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      : <p className="text-muted-foreground mb-16">
+          This reservation was made before prices were stored and is settled
+          outside the app.
+        </p>
+      }
+    </>
+  );
+}
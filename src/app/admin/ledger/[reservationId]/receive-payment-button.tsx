@@ -0,0 +1,45 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { markPaymentReceived } from "@/lib/actions/payments";
+
+type ReceivePaymentButtonProps = {
+  paymentId: string;
+};
+
+export function ReceivePaymentButton({ paymentId }: ReceivePaymentButtonProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleReceive = async () => {
+    setIsLoading(true);
+
+    try {
+      const result = await markPaymentReceived(paymentId);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success("Payment received");
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Button size="sm" disabled={isLoading} onClick={handleReceive}>
+      {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+      Mark received
+    </Button>
+  );
+}
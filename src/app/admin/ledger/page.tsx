@@ -0,0 +1,82 @@
+import Link from "next/link";
+
+import type { Metadata } from "next";
+
+import { fromMinorUnits } from "@/lib/currency";
+import { fetchOpenLedgerBalances } from "@/lib/db/queries";
+import { RESERVATION_STATUS_LABELS } from "@/lib/reservation-status";
+import { formatCurrency, formatDateTime } from "@/lib/utils";
+
+export const metadata: Metadata = {
+  title: "Ledger",
+};
+
+export default async function LedgerPage() {
+  const balances = await fetchOpenLedgerBalances();
+
+  return (
+    <>
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">Ledger</h1>
+        <p className="text-muted-foreground mt-1">
+          {balances.length} reservations with money left to pay or to refund
+        </p>
+      </div>
+
+      <div className="mb-16 overflow-x-auto rounded-xl border">
+        <table className="w-full text-sm">
+          <thead className="text-muted-foreground border-b text-left">
+            <tr>
+              <th className="p-4 font-medium">Reservation</th>
+              <th className="p-4 font-medium">Rental</th>
+              <th className="p-4 text-right font-medium">Due</th>
+              <th className="p-4 text-right font-medium">To refund</th>
+            </tr>
+          </thead>
+
+          <tbody>
+            {balances.length === 0 && (
+              <tr>
+                <td colSpan={4} className="text-muted-foreground p-4">
+                  All reservations are settled.
+                </td>
+              </tr>
+            )}
+
+            {balances.map(({ reservation, car, currency, balance }) => (
+              <tr key={reservation.id} className="border-b last:border-0">
+                <td className="p-4">
+                  <Link
+                    href={`/admin/ledger/${reservation.id}`}
+                    className="font-medium hover:underline"
+                  >
+                    {car.name}
+                  </Link>
+                  <p className="text-muted-foreground truncate text-xs">
+                    {reservation.id} ·{" "}
+                    {RESERVATION_STATUS_LABELS[reservation.status]}
+                  </p>
+                </td>
+                <td className="p-4">
+                  {formatDateTime(reservation.check_in)} –{" "}
+                  {formatDateTime(reservation.check_out)}
+                </td>
+                <td className="p-4 text-right">
+                  {balance > 0 &&
+                    formatCurrency(fromMinorUnits(balance, currency), currency)}
+                </td>
+                <td className="p-4 text-right">
+                  {balance < 0 &&
+                    formatCurrency(
+                      fromMinorUnits(-balance, currency),
+                      currency
+                    )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,45 @@
+import { notFound } from "next/navigation";
+
+import type { Metadata } from "next";
+
+import { fetchCancellationPolicies, fetchLocationById } from "@/lib/db/queries";
+import { LocationForm } from "../location-form";
+
+type EditLocationPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export const metadata: Metadata = {
+  title: "Edit location",
+};
+
+export default async function EditLocationPage({
+  params,
+}: EditLocationPageProps) {
+  const { id } = await params;
+
+  const [location, cancellationPolicies] = await Promise.all([
+    fetchLocationById(id),
+    fetchCancellationPolicies(),
+  ]);
+
+  if (!location) {
+    notFound();
+  }
+
+  return (
+    <>
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">{location.name}</h1>
+        <p className="text-muted-foreground mt-1">
+          /cars?location={location.value}
+        </p>
+      </div>
+
+      <LocationForm
+        location={location}
+        cancellationPolicies={cancellationPolicies}
+      />
+    </>
+  );
+}
@@ -0,0 +1,455 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+import type { z } from "zod";
+import type { CancellationPolicy, Location } from "@/lib/db/definitions";
+import type { LocationFormValues } from "@/lib/validations/location";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { createLocation, updateLocation } from "@/lib/actions/locations";
+import { GST_STATES } from "@/lib/gst-states";
+import {
+  DEFAULT_OPENING_HOURS,
+  DEFAULT_TIMEZONE,
+  WEEKDAYS,
+} from "@/lib/opening-hours";
+import { slugify } from "@/lib/utils";
+import { LocationFormSchema } from "@/lib/validations/location";
+
+type LocationFormProps = {
+  /** The location being edited, a new location is created when omitted */
+  location?: Location;
+  cancellationPolicies: CancellationPolicy[];
+};
+
+export function LocationForm({
+  location,
+  cancellationPolicies,
+}: LocationFormProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<
+    LocationFormValues,
+    unknown,
+    z.output<typeof LocationFormSchema>
+  >({
+    resolver: zodResolver(LocationFormSchema),
+    defaultValues: {
+      name: location?.name ?? "",
+      value: location?.value ?? "",
+      address: location?.address ?? "",
+      phone: location?.phone ?? "",
+      state_code: location?.state_code ?? "",
+      latitude: location?.latitude ?? "",
+      longitude: location?.longitude ?? "",
+      timezone: location?.timezone ?? DEFAULT_TIMEZONE,
+      featured: location?.featured ?? false,
+      image_url: location?.image_url ?? "",
+      cancellation_policy_id: location?.cancellation_policy_id ?? "",
+      opening_hours: location?.opening_hours ?? DEFAULT_OPENING_HOURS,
+      holiday_closures: location?.holiday_closures ?? [],
+    },
+  });
+
+  const closures = useFieldArray({
+    control: form.control,
+    name: "holiday_closures",
+  });
+
+  async function onSubmit(values: z.output<typeof LocationFormSchema>) {
+    setIsLoading(true);
+
+    try {
+      const result =
+        location ?
+          await updateLocation(location.id!, values)
+        : await createLocation(values);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(location ? "Location updated" : "Location added");
+      router.push("/admin/locations");
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const name = form.watch("name");
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="mb-16 grid max-w-3xl grid-cols-1 gap-6 md:grid-cols-2"
+      >
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Raipur, Chhattisgarh" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="value"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>URL value</FormLabel>
+              <FormControl>
+                <Input placeholder={slugify(name)} {...field} />
+              </FormControl>
+              <FormDescription>
+                Leave empty to generate it from the name.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="address"
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel>Street address</FormLabel>
+              <FormControl>
+                <Input {...field} value={String(field.value ?? "")} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="phone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Phone</FormLabel>
+              <FormControl>
+                <Input
+                  type="tel"
+                  placeholder="+91 771 123 4567"
+                  {...field}
+                  value={String(field.value ?? "")}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="state_code"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>State</FormLabel>
+              <FormControl>
+                <NativeSelect {...field} value={String(field.value ?? "")}>
+                  <option value="">Select a state</option>
+                  {Object.entries(GST_STATES).map(([code, state]) => (
+                    <option key={code} value={code}>
+                      {state}
+                    </option>
+                  ))}
+                </NativeSelect>
+              </FormControl>
+              <FormDescription>Place of supply on invoices</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="timezone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Time zone</FormLabel>
+              <FormControl>
+                <Input list="timezones" {...field} />
+              </FormControl>
+              <datalist id="timezones">
+                {Intl.supportedValuesOf("timeZone").map((timeZone) => (
+                  <option key={timeZone} value={timeZone} />
+                ))}
+              </datalist>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="latitude"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Latitude</FormLabel>
+              <FormControl>
+                <Input inputMode="decimal" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="longitude"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Longitude</FormLabel>
+              <FormControl>
+                <Input inputMode="decimal" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="image_url"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Image URL</FormLabel>
+              <FormControl>
+                <Input
+                  type="url"
+                  {...field}
+                  value={String(field.value ?? "")}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="cancellation_policy_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Cancellation policy</FormLabel>
+              <FormControl>
+                <NativeSelect {...field} value={String(field.value ?? "")}>
+                  <option value="">Default policy</option>
+                  {cancellationPolicies.map((policy) => (
+                    <option key={policy.id} value={policy.id}>
+                      {policy.name}
+                    </option>
+                  ))}
+                </NativeSelect>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="featured"
+          render={({ field }) => (
+            <FormItem className="flex items-center gap-2 space-y-0 md:col-span-2">
+              <FormControl>
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={(checked) =>
+                    field.onChange(checked === true)
+                  }
+                />
+              </FormControl>
+              <FormLabel>Featured on the home page</FormLabel>
+            </FormItem>
+          )}
+        />
+
+        <section className="space-y-3 md:col-span-2">
+          <div>
+            <h2 className="text-lg font-semibold">Opening hours</h2>
+            <p className="text-muted-foreground text-sm">
+              Pickups and returns are only possible on days the branch is open.
+            </p>
+          </div>
+
+          {WEEKDAYS.map((day) => (
+            <FormField
+              key={day}
+              control={form.control}
+              name={`opening_hours.${day}`}
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <div className="grid grid-cols-[7rem_auto_1fr_1fr] items-center gap-3">
+                    <FormLabel className="capitalize">{day}</FormLabel>
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={!!field.value}
+                        onCheckedChange={(checked) =>
+                          field.onChange(
+                            checked ? DEFAULT_OPENING_HOURS[day] : null
+                          )
+                        }
+                      />
+                      Open
+                    </label>
+                    {field.value && (
+                      <>
+                        <Input
+                          type="time"
+                          aria-label={`${day} opening time`}
+                          value={field.value.opens}
+                          onChange={(event) =>
+                            field.onChange({
+                              ...field.value!,
+                              opens: event.target.value,
+                            })
+                          }
+                        />
+                        <Input
+                          type="time"
+                          aria-label={`${day} closing time`}
+                          value={field.value.closes}
+                          onChange={(event) =>
+                            field.onChange({
+                              ...field.value!,
+                              closes: event.target.value,
+                            })
+                          }
+                        />
+                      </>
+                    )}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </section>
+
+        <section className="space-y-3 md:col-span-2">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold">Holiday closures</h2>
+              <p className="text-muted-foreground text-sm">
+                Days the branch is closed regardless of its opening hours.
+              </p>
+            </div>
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => closures.append({ date: "", name: "" })}
+            >
+              <Plus className="mr-2 size-4" />
+              Add closure
+            </Button>
+          </div>
+
+          {closures.fields.map((closure, index) => (
+            <div
+              key={closure.id}
+              className="grid grid-cols-[10rem_1fr_auto] items-start gap-3"
+            >
+              <FormField
+                control={form.control}
+                name={`holiday_closures.${index}.date`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input type="date" aria-label="Date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`holiday_closures.${index}.name`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input
+                        placeholder="Diwali"
+                        aria-label="Name"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Remove closure"
+                onClick={() => closures.remove(index)}
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            </div>
+          ))}
+
+          <FormField
+            control={form.control}
+            name="holiday_closures"
+            render={() => (
+              <FormItem>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </section>
+
+        <div className="flex gap-2 md:col-span-2">
+          <Button type="submit" disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+            {location ? "Save changes" : "Add location"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isLoading}
+            onClick={() => router.push("/admin/locations")}
+          >
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
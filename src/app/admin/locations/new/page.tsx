@@ -0,0 +1,22 @@
+import type { Metadata } from "next";
+
+import { fetchCancellationPolicies } from "@/lib/db/queries";
+import { LocationForm } from "../location-form";
+
+export const metadata: Metadata = {
+  title: "Add location",
+};
+
+export default async function NewLocationPage() {
+  const cancellationPolicies = await fetchCancellationPolicies();
+
+  return (
+    <>
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">Add location</h1>
+      </div>
+
+      <LocationForm cancellationPolicies={cancellationPolicies} />
+    </>
+  );
+}
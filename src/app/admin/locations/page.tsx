@@ -0,0 +1,89 @@
+import Link from "next/link";
+import { Plus } from "lucide-react";
+
+import type { Metadata } from "next";
+
+import { Button } from "@/components/ui/button";
+import { fetchLocations } from "@/lib/db/queries";
+import { describeOpeningHours } from "@/lib/opening-hours";
+
+export const metadata: Metadata = {
+  title: "Locations",
+};
+
+export default async function LocationsPage() {
+  const locations = await fetchLocations();
+
+  return (
+    <>
+      <div className="flex h-40 items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Locations</h1>
+          <p className="text-muted-foreground mt-1">
+            {locations.length} branches
+          </p>
+        </div>
+
+        <Button asChild>
+          <Link href="/admin/locations/new">
+            <Plus className="mr-2 size-4" />
+            Add location
+          </Link>
+        </Button>
+      </div>
+
+      <div className="mb-16 overflow-x-auto rounded-xl border">
+        <table className="w-full text-sm">
+          <thead className="text-muted-foreground border-b text-left">
+            <tr>
+              <th className="p-4 font-medium">Location</th>
+              <th className="p-4 font-medium">Contact</th>
+              <th className="p-4 font-medium">Opening hours</th>
+              <th className="p-4 font-medium">Closures</th>
+            </tr>
+          </thead>
+
+          <tbody>
+            {locations.map((location) => (
+              <tr key={location.id} className="border-b last:border-0">
+                <td className="p-4">
+                  <Link
+                    href={`/admin/locations/${location.id}`}
+                    className="font-medium hover:underline"
+                  >
+                    {location.name}
+                  </Link>
+                  <p className="text-muted-foreground text-xs">
+                    {location.timezone}
+                    {location.featured && " · Featured"}
+                  </p>
+                </td>
+                <td className="p-4">
+                  <p>{location.address ?? "—"}</p>
+                  {location.phone && (
+                    <p className="text-muted-foreground text-xs">
+                      {location.phone}
+                    </p>
+                  )}
+                </td>
+                <td className="p-4">
+                  {describeOpeningHours(location.opening_hours).map(
+                    ({ days, hours }) => (
+                      <p key={days} className="whitespace-nowrap">
+                        <span className="text-muted-foreground">{days}:</span>{" "}
+                        {hours}
+                      </p>
+                    )
+                  )}
+                </td>
+                <td className="p-4">
+                  {location.holiday_closures?.length ?? 0}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import type { OneWayFee } from "@/lib/db/definitions";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { updateOneWayFees } from "@/lib/actions/one-way-fees";
+import { findOneWayFee } from "@/lib/one-way-rentals";
+
+type FeeMatrixProps = {
+  locations: { id: string; name: string }[];
+  fees: OneWayFee[];
+};
+
+export function FeeMatrix({ locations, fees }: FeeMatrixProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [currency, setCurrency] = useState(fees[0]?.currency ?? "INR");
+
+  // Amounts as typed, keyed by route, empty when the route isn't offered
+  const [amounts, setAmounts] = useState(() =>
+    Object.fromEntries(
+      locations.flatMap((pickup) =>
+        locations.map((dropOff) => [
+          routeKey(pickup.id, dropOff.id),
+          String(findOneWayFee(fees, pickup.id, dropOff.id)?.amount ?? ""),
+        ])
+      )
+    )
+  );
+
+  const handleSave = async () => {
+    setIsLoading(true);
+
+    try {
+      const result = await updateOneWayFees({
+        currency,
+        routes: locations.flatMap((pickup) =>
+          locations
+            .filter((dropOff) => dropOff.id !== pickup.id)
+            .map((dropOff) => ({
+              pickup_location_id: pickup.id,
+              return_location_id: dropOff.id,
+              amount: amounts[routeKey(pickup.id, dropOff.id)].trim(),
+            }))
+        ),
+      });
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success("One-way fees updated");
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mb-16 space-y-6">
+      <p className="text-muted-foreground max-w-2xl text-sm">
+        Each row is a pickup location and each column a drop-off location. Leave
+        a cell empty to refuse one-way trips along that route, or enter 0 to
+        offer it for free.
+      </p>
+
+      <div className="flex max-w-xs items-center gap-3">
+        <Label htmlFor="currency" className="shrink-0">
+          Currency
+        </Label>
+        <Input
+          id="currency"
+          value={currency}
+          maxLength={3}
+          onChange={(event) => setCurrency(event.target.value)}
+        />
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border">
+        <table className="w-full text-sm">
+          <thead className="text-muted-foreground border-b text-left">
+            <tr>
+              <th className="p-4 font-medium">From \ To</th>
+              {locations.map((dropOff) => (
+                <th key={dropOff.id} className="p-4 font-medium">
+                  {dropOff.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+
+          <tbody>
+            {locations.map((pickup) => (
+              <tr key={pickup.id} className="border-b last:border-0">
+                <th className="p-4 text-left font-medium">{pickup.name}</th>
+                {locations.map((dropOff) => {
+                  const key = routeKey(pickup.id, dropOff.id);
+
+                  return (
+                    <td key={dropOff.id} className="p-2">
+                      {dropOff.id === pickup.id ?
+                        <span className="text-muted-foreground block text-center">
+                          —
+                        </span>
+                      : <Input
+                          inputMode="numeric"
+                          aria-label={`${pickup.name} to ${dropOff.name}`}
+                          className="min-w-24"
+                          value={amounts[key]}
+                          disabled={isLoading}
+                          onChange={(event) =>
+                            setAmounts((amounts) => ({
+                              ...amounts,
+                              [key]: event.target.value,
+                            }))
+                          }
+                        />
+                      }
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <Button disabled={isLoading} onClick={handleSave}>
+        {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+        Save fees
+      </Button>
+    </div>
+  );
+}
+
+function routeKey(pickupLocationId: string, returnLocationId: string) {
+  return `${pickupLocationId}:${returnLocationId}`;
+}
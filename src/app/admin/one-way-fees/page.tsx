@@ -0,0 +1,31 @@
+import type { Metadata } from "next";
+
+import { fetchLocations, fetchOneWayFees } from "@/lib/db/queries";
+import { FeeMatrix } from "./fee-matrix";
+
+export const metadata: Metadata = {
+  title: "One-way fees",
+};
+
+export default async function OneWayFeesPage() {
+  const [locations, fees] = await Promise.all([
+    fetchLocations(),
+    fetchOneWayFees(),
+  ]);
+
+  return (
+    <>
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">One-way fees</h1>
+        <p className="text-muted-foreground mt-1">
+          {fees.length} routes between {locations.length} locations
+        </p>
+      </div>
+
+      <FeeMatrix
+        locations={locations.map(({ id, name }) => ({ id: id!, name }))}
+        fees={fees}
+      />
+    </>
+  );
+}
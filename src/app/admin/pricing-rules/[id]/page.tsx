@@ -0,0 +1,39 @@
+import { notFound } from "next/navigation";
+
+import type { Metadata } from "next";
+
+import { fetchLocations, fetchPricingRuleById } from "@/lib/db/queries";
+import { PricingRuleForm } from "../pricing-rule-form";
+
+type EditPricingRulePageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export const metadata: Metadata = {
+  title: "Edit pricing rule",
+};
+
+export default async function EditPricingRulePage({
+  params,
+}: EditPricingRulePageProps) {
+  const { id } = await params;
+
+  const [pricingRule, locations] = await Promise.all([
+    fetchPricingRuleById(id),
+    fetchLocations(),
+  ]);
+
+  if (!pricingRule) {
+    notFound();
+  }
+
+  return (
+    <>
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">{pricingRule.name}</h1>
+      </div>
+
+      <PricingRuleForm pricingRule={pricingRule} locations={locations} />
+    </>
+  );
+}
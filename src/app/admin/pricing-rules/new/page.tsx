@@ -0,0 +1,22 @@
+import type { Metadata } from "next";
+
+import { fetchLocations } from "@/lib/db/queries";
+import { PricingRuleForm } from "../pricing-rule-form";
+
+export const metadata: Metadata = {
+  title: "Add pricing rule",
+};
+
+export default async function NewPricingRulePage() {
+  const locations = await fetchLocations();
+
+  return (
+    <>
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">Add pricing rule</h1>
+      </div>
+
+      <PricingRuleForm locations={locations} />
+    </>
+  );
+}
@@ -0,0 +1,124 @@
+import Link from "next/link";
+import { Plus } from "lucide-react";
+
+import type { Metadata } from "next";
+import type { Location, PricingRule } from "@/lib/db/definitions";
+
+import { Button } from "@/components/ui/button";
+import { fetchLocations, fetchPricingRules } from "@/lib/db/queries";
+import { PricingRuleType } from "@/lib/enums";
+import {
+  DEFAULT_WEEKEND_DAYS,
+  PRICING_RULE_TYPE_LABELS,
+} from "@/lib/pricing-rules";
+import { cn } from "@/lib/utils";
+
+export const metadata: Metadata = {
+  title: "Pricing rules",
+};
+
+export default async function PricingRulesPage() {
+  const [pricingRules, locations] = await Promise.all([
+    fetchPricingRules(),
+    fetchLocations(),
+  ]);
+
+  const enabled = pricingRules.filter((rule) => rule.enabled !== false).length;
+
+  return (
+    <>
+      <div className="flex h-40 items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Pricing rules</h1>
+          <p className="text-muted-foreground mt-1">
+            {enabled} enabled · {pricingRules.length - enabled} disabled
+          </p>
+        </div>
+
+        <Button asChild>
+          <Link href="/admin/pricing-rules/new">
+            <Plus className="mr-2 size-4" />
+            Add pricing rule
+          </Link>
+        </Button>
+      </div>
+
+      <div className="mb-16 overflow-x-auto rounded-xl border">
+        <table className="w-full text-sm">
+          <thead className="text-muted-foreground border-b text-left">
+            <tr>
+              <th className="p-4 font-medium">Rule</th>
+              <th className="p-4 font-medium">Applies to</th>
+              <th className="p-4 text-right font-medium">Adjustment</th>
+              <th className="p-4 font-medium">Locations</th>
+              <th className="p-4 font-medium">Status</th>
+            </tr>
+          </thead>
+
+          <tbody>
+            {pricingRules.map((rule) => (
+              <tr
+                key={rule.id}
+                className={cn(
+                  "border-b last:border-0",
+                  rule.enabled === false && "text-muted-foreground"
+                )}
+              >
+                <td className="p-4">
+                  <Link
+                    href={`/admin/pricing-rules/${rule.id}`}
+                    className="font-medium hover:underline"
+                  >
+                    {rule.name}
+                  </Link>
+                  <p className="text-muted-foreground text-xs">
+                    {PRICING_RULE_TYPE_LABELS[rule.type]}
+                  </p>
+                </td>
+                <td className="p-4">{describeCondition(rule)}</td>
+                <td className="p-4 text-right">
+                  {rule.adjustment_percent > 0 ? "+" : ""}
+                  {rule.adjustment_percent}%
+                </td>
+                <td className="p-4">{describeLocations(rule, locations)}</td>
+                <td className="p-4">
+                  {rule.enabled === false ? "Disabled" : "Enabled"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
+
+function describeCondition(rule: PricingRule) {
+  switch (rule.type) {
+    case PricingRuleType.DATE_RANGE:
+      return `Nights ${rule.start_date ?? "…"} – ${rule.end_date ?? "…"}`;
+    case PricingRuleType.WEEKEND:
+      return `${(rule.weekdays?.length ? rule.weekdays : DEFAULT_WEEKEND_DAYS).join(", ")} nights`;
+    case PricingRuleType.HOLIDAY:
+      return rule.dates?.join(", ");
+    case PricingRuleType.LEAD_TIME:
+      return rule.max_lead_days === null || rule.max_lead_days === undefined ?
+          `Booked ${rule.min_lead_days}+ days ahead`
+        : `Booked ${rule.min_lead_days ?? 0}–${rule.max_lead_days} days ahead`;
+    case PricingRuleType.LENGTH_OF_STAY:
+      return `Rentals of ${rule.min_rental_days}+ days`;
+    case PricingRuleType.UTILIZATION:
+      return `Nights with ${rule.min_utilization_percent}%+ of the fleet booked`;
+  }
+}
+
+function describeLocations(rule: PricingRule, locations: Location[]) {
+  if (!rule.location_ids?.length) {
+    return "All";
+  }
+
+  return locations
+    .filter((location) => rule.location_ids!.includes(location.id!))
+    .map((location) => location.name)
+    .join(", ");
+}
@@ -0,0 +1,380 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+import type { z } from "zod";
+import type { Location, PricingRule } from "@/lib/db/definitions";
+import type { Weekday } from "@/lib/opening-hours";
+import type { PricingRuleFormValues } from "@/lib/validations/pricing-rule";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  createPricingRule,
+  updatePricingRule,
+} from "@/lib/actions/pricing-rules";
+import { PricingRuleType } from "@/lib/enums";
+import { WEEKDAYS } from "@/lib/opening-hours";
+import {
+  DEFAULT_WEEKEND_DAYS,
+  PRICING_RULE_TYPE_LABELS,
+} from "@/lib/pricing-rules";
+import { PricingRuleFormSchema } from "@/lib/validations/pricing-rule";
+
+type PricingRuleFormProps = {
+  /** The rule being edited, a new rule is created when omitted */
+  pricingRule?: PricingRule;
+  locations: Location[];
+};
+
+type Condition = {
+  name:
+    | "start_date"
+    | "end_date"
+    | "min_lead_days"
+    | "max_lead_days"
+    | "min_rental_days"
+    | "min_utilization_percent";
+  label: string;
+  type: "date" | "number";
+  description?: string;
+};
+
+const CONDITIONS: Partial<Record<PricingRuleType, Condition[]>> = {
+  [PricingRuleType.DATE_RANGE]: [
+    { name: "start_date", label: "First night", type: "date" },
+    { name: "end_date", label: "Last night", type: "date" },
+  ],
+  [PricingRuleType.LEAD_TIME]: [
+    {
+      name: "min_lead_days",
+      label: "Booked at least (days ahead)",
+      type: "number",
+    },
+    {
+      name: "max_lead_days",
+      label: "Booked at most (days ahead)",
+      type: "number",
+    },
+  ],
+  [PricingRuleType.LENGTH_OF_STAY]: [
+    {
+      name: "min_rental_days",
+      label: "Rentals of at least (days)",
+      type: "number",
+    },
+  ],
+  [PricingRuleType.UTILIZATION]: [
+    {
+      name: "min_utilization_percent",
+      label: "Fleet booked at least (%)",
+      type: "number",
+      description:
+        "Share of the cars based at the pickup location already booked for the night.",
+    },
+  ],
+};
+
+export function PricingRuleForm({
+  pricingRule,
+  locations,
+}: PricingRuleFormProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<
+    PricingRuleFormValues,
+    unknown,
+    z.output<typeof PricingRuleFormSchema>
+  >({
+    resolver: zodResolver(PricingRuleFormSchema),
+    defaultValues: {
+      name: pricingRule?.name ?? "",
+      type: pricingRule?.type ?? PricingRuleType.DATE_RANGE,
+      adjustment_percent: pricingRule?.adjustment_percent ?? 10,
+      start_date: pricingRule?.start_date ?? "",
+      end_date: pricingRule?.end_date ?? "",
+      weekdays:
+        pricingRule?.weekdays?.length ?
+          pricingRule.weekdays
+        : DEFAULT_WEEKEND_DAYS,
+      dates: pricingRule?.dates?.join("\n") ?? "",
+      min_lead_days: pricingRule?.min_lead_days ?? "",
+      max_lead_days: pricingRule?.max_lead_days ?? "",
+      min_rental_days: pricingRule?.min_rental_days ?? "",
+      min_utilization_percent: pricingRule?.min_utilization_percent ?? "",
+      location_ids: pricingRule?.location_ids ?? [],
+      enabled: pricingRule?.enabled ?? true,
+    },
+  });
+
+  const type = form.watch("type");
+
+  async function onSubmit(values: z.output<typeof PricingRuleFormSchema>) {
+    setIsLoading(true);
+
+    try {
+      const result =
+        pricingRule ?
+          await updatePricingRule(pricingRule.id!, values)
+        : await createPricingRule(values);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(
+        pricingRule ? "Pricing rule updated" : "Pricing rule added"
+      );
+      router.push("/admin/pricing-rules");
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="mb-16 grid max-w-3xl grid-cols-1 gap-6 md:grid-cols-2"
+      >
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Summer holidays" {...field} />
+              </FormControl>
+              <FormDescription>
+                Shown to customers in the quote.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="type"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Applies to</FormLabel>
+              <FormControl>
+                <NativeSelect {...field}>
+                  {Object.values(PricingRuleType).map((ruleType) => (
+                    <option key={ruleType} value={ruleType}>
+                      {PRICING_RULE_TYPE_LABELS[ruleType]}
+                    </option>
+                  ))}
+                </NativeSelect>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="adjustment_percent"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Adjustment (%)</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  {...field}
+                  value={String(field.value ?? "")}
+                />
+              </FormControl>
+              <FormDescription>
+                Of the daily price, negative for a discount. Adjustments of the
+                rules that apply to a night add up.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="enabled"
+          render={({ field }) => (
+            <FormItem className="flex items-center gap-2 space-y-0 self-center">
+              <FormControl>
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={(checked) =>
+                    field.onChange(checked === true)
+                  }
+                />
+              </FormControl>
+              <FormLabel>Enabled</FormLabel>
+            </FormItem>
+          )}
+        />
+
+        {CONDITIONS[type]?.map((condition) => (
+          <FormField
+            key={condition.name}
+            control={form.control}
+            name={condition.name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{condition.label}</FormLabel>
+                <FormControl>
+                  <Input
+                    type={condition.type}
+                    min={condition.type === "number" ? 0 : undefined}
+                    {...field}
+                    value={String(field.value ?? "")}
+                  />
+                </FormControl>
+                {condition.description && (
+                  <FormDescription>{condition.description}</FormDescription>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        {type === PricingRuleType.WEEKEND && (
+          <FormField
+            control={form.control}
+            name="weekdays"
+            render={({ field }) => {
+              const selected: Weekday[] = field.value;
+
+              return (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Nights starting on</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {WEEKDAYS.map((weekday) => (
+                      <label
+                        key={weekday}
+                        className="flex items-center gap-2 text-sm capitalize"
+                      >
+                        <Checkbox
+                          checked={selected.includes(weekday)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked === true ?
+                                [...selected, weekday]
+                              : selected.filter((day) => day !== weekday)
+                            )
+                          }
+                        />
+                        {weekday}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              );
+            }}
+          />
+        )}
+
+        {type === PricingRuleType.HOLIDAY && (
+          <FormField
+            control={form.control}
+            name="dates"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Dates</FormLabel>
+                <FormControl>
+                  <Textarea
+                    rows={4}
+                    placeholder="2026-12-25"
+                    {...field}
+                    value={String(field.value ?? "")}
+                  />
+                </FormControl>
+                <FormDescription>
+                  One night per line, as yyyy-MM-dd.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="location_ids"
+          render={({ field }) => {
+            const selected: string[] = field.value;
+
+            return (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Pickup locations</FormLabel>
+                <FormDescription>
+                  Leave all unchecked to apply at every location.
+                </FormDescription>
+                <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                  {locations.map((location) => (
+                    <label
+                      key={location.id}
+                      className="flex items-center gap-2 text-sm"
+                    >
+                      <Checkbox
+                        checked={selected.includes(location.id!)}
+                        onCheckedChange={(checked) =>
+                          field.onChange(
+                            checked === true ?
+                              [...selected, location.id!]
+                            : selected.filter((id) => id !== location.id)
+                          )
+                        }
+                      />
+                      {location.name}
+                    </label>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            );
+          }}
+        />
+
+        <div className="flex gap-2 md:col-span-2">
+          <Button type="submit" disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+            {pricingRule ? "Save changes" : "Add pricing rule"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isLoading}
+            onClick={() => router.push("/admin/pricing-rules")}
+          >
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,44 @@
+import { notFound } from "next/navigation";
+
+import type { Metadata } from "next";
+
+import {
+  fetchCars,
+  fetchLocations,
+  fetchPromoCodeById,
+} from "@/lib/db/queries";
+import { PromoCodeForm } from "../promo-code-form";
+
+type EditPromoCodePageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export const metadata: Metadata = {
+  title: "Edit promo code",
+};
+
+export default async function EditPromoCodePage({
+  params,
+}: EditPromoCodePageProps) {
+  const { id } = await params;
+
+  const [promoCode, cars, locations] = await Promise.all([
+    fetchPromoCodeById(id),
+    fetchCars(),
+    fetchLocations(),
+  ]);
+
+  if (!promoCode) {
+    notFound();
+  }
+
+  return (
+    <>
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">{promoCode.code}</h1>
+      </div>
+
+      <PromoCodeForm promoCode={promoCode} cars={cars} locations={locations} />
+    </>
+  );
+}
@@ -0,0 +1,22 @@
+import type { Metadata } from "next";
+
+import { fetchCars, fetchLocations } from "@/lib/db/queries";
+import { PromoCodeForm } from "../promo-code-form";
+
+export const metadata: Metadata = {
+  title: "Add promo code",
+};
+
+export default async function NewPromoCodePage() {
+  const [cars, locations] = await Promise.all([fetchCars(), fetchLocations()]);
+
+  return (
+    <>
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">Add promo code</h1>
+      </div>
+
+      <PromoCodeForm cars={cars} locations={locations} />
+    </>
+  );
+}
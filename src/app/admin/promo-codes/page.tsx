@@ -0,0 +1,145 @@
+import Link from "next/link";
+import { Plus } from "lucide-react";
+
+import type { Metadata } from "next";
+import type { PromoCode } from "@/lib/db/definitions";
+
+import { Button } from "@/components/ui/button";
+import { fetchPromoCodeRedemptions, fetchPromoCodes } from "@/lib/db/queries";
+import { DEFAULT_TIMEZONE, getLocalDay } from "@/lib/opening-hours";
+import { describePromoDiscount } from "@/lib/promo-codes";
+import { cn } from "@/lib/utils";
+
+export const metadata: Metadata = {
+  title: "Promo codes",
+};
+
+export default async function PromoCodesPage() {
+  const [promoCodes, redemptions] = await Promise.all([
+    fetchPromoCodes(),
+    fetchPromoCodeRedemptions(),
+  ]);
+
+  const now = new Date();
+  const active = promoCodes.filter(
+    (promoCode) => getStatus(promoCode, now) === "Active"
+  ).length;
+
+  return (
+    <>
+      <div className="flex h-40 items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold">Promo codes</h1>
+          <p className="text-muted-foreground mt-1">
+            {active} active · {promoCodes.length - active} inactive
+          </p>
+        </div>
+
+        <Button asChild>
+          <Link href="/admin/promo-codes/new">
+            <Plus className="mr-2 size-4" />
+            Add promo code
+          </Link>
+        </Button>
+      </div>
+
+      <div className="mb-16 overflow-x-auto rounded-xl border">
+        <table className="w-full text-sm">
+          <thead className="text-muted-foreground border-b text-left">
+            <tr>
+              <th className="p-4 font-medium">Code</th>
+              <th className="p-4 font-medium">Discount</th>
+              <th className="p-4 font-medium">Valid</th>
+              <th className="p-4 text-right font-medium">Redemptions</th>
+              <th className="p-4 font-medium">Status</th>
+            </tr>
+          </thead>
+
+          <tbody>
+            {promoCodes.map((promoCode) => {
+              const status = getStatus(promoCode, now);
+              const redeemed =
+                redemptions.find((item) => item.promo_code_id === promoCode.id)
+                  ?.redemptions ?? 0;
+
+              return (
+                <tr
+                  key={promoCode.id}
+                  className={cn(
+                    "border-b last:border-0",
+                    status !== "Active" && "text-muted-foreground"
+                  )}
+                >
+                  <td className="p-4">
+                    <Link
+                      href={`/admin/promo-codes/${promoCode.id}`}
+                      className="font-medium hover:underline"
+                    >
+                      {promoCode.code}
+                    </Link>
+                    {promoCode.description && (
+                      <p className="text-muted-foreground text-xs">
+                        {promoCode.description}
+                      </p>
+                    )}
+                  </td>
+                  <td className="p-4">
+                    {describePromoDiscount(promoCode)}
+                    {!!promoCode.min_rental_days && (
+                      <p className="text-muted-foreground text-xs">
+                        From {promoCode.min_rental_days} days
+                      </p>
+                    )}
+                  </td>
+                  <td className="p-4">
+                    {formatWindow(promoCode.valid_from, promoCode.valid_until)}
+                  </td>
+                  <td className="p-4 text-right">
+                    {redeemed}
+                    {promoCode.max_redemptions !== null &&
+                      ` / ${promoCode.max_redemptions}`}
+                  </td>
+                  <td className="p-4">{status}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
+
+function getStatus(promoCode: PromoCode, now: Date) {
+  if (promoCode.retired_at) {
+    return "Retired";
+  }
+
+  if (promoCode.valid_from && now < promoCode.valid_from) {
+    return "Scheduled";
+  }
+
+  if (promoCode.valid_until && now > promoCode.valid_until) {
+    return "Expired";
+  }
+
+  return "Active";
+}
+
+function formatWindow(from?: Date | null, until?: Date | null) {
+  const toDay = (date: Date) => getLocalDay(date, DEFAULT_TIMEZONE).date;
+
+  if (from && until) {
+    return `${toDay(from)} – ${toDay(until)}`;
+  }
+
+  if (from) {
+    return `From ${toDay(from)}`;
+  }
+
+  if (until) {
+    return `Until ${toDay(until)}`;
+  }
+
+  return "Always";
+}
@@ -0,0 +1,375 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { toast } from "sonner";
+
+import type { z } from "zod";
+import type { Car, Location, PromoCode } from "@/lib/db/definitions";
+import type { PromoCodeFormValues } from "@/lib/validations/promo-code";
+
+import { bodyStyles } from "@/app/cars/filters/body-styles";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { NativeSelect } from "@/components/ui/native-select";
+import { Textarea } from "@/components/ui/textarea";
+import { createPromoCode, updatePromoCode } from "@/lib/actions/promo-codes";
+import { PromoDiscountType } from "@/lib/enums";
+import { DEFAULT_TIMEZONE, getLocalDay } from "@/lib/opening-hours";
+import { PromoCodeFormSchema } from "@/lib/validations/promo-code";
+
+type PromoCodeFormProps = {
+  /** The promo code being edited, a new code is created when omitted */
+  promoCode?: PromoCode;
+  cars: Car[];
+  locations: Location[];
+};
+
+const toDay = (date?: Date | null) =>
+  date ? getLocalDay(date, DEFAULT_TIMEZONE).date : "";
+
+export function PromoCodeForm({
+  promoCode,
+  cars,
+  locations,
+}: PromoCodeFormProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<
+    PromoCodeFormValues,
+    unknown,
+    z.output<typeof PromoCodeFormSchema>
+  >({
+    resolver: zodResolver(PromoCodeFormSchema),
+    defaultValues: {
+      code: promoCode?.code ?? "",
+      description: promoCode?.description ?? "",
+      discount_type: promoCode?.discount_type ?? PromoDiscountType.PERCENTAGE,
+      discount_value: promoCode?.discount_value ?? 10,
+      currency: promoCode?.currency ?? "INR",
+      valid_from: toDay(promoCode?.valid_from),
+      valid_until: toDay(promoCode?.valid_until),
+      max_redemptions: promoCode?.max_redemptions ?? "",
+      max_redemptions_per_user: promoCode?.max_redemptions_per_user ?? "",
+      min_rental_days: promoCode?.min_rental_days ?? "",
+      car_ids: promoCode?.car_ids ?? [],
+      location_ids: promoCode?.location_ids ?? [],
+      body_styles: (promoCode?.body_styles ??
+        []) as PromoCodeFormValues["body_styles"],
+      retired: !!promoCode?.retired_at,
+    },
+  });
+
+  const isFixed = form.watch("discount_type") === PromoDiscountType.FIXED;
+
+  async function onSubmit(values: z.output<typeof PromoCodeFormSchema>) {
+    setIsLoading(true);
+
+    try {
+      const result =
+        promoCode ?
+          await updatePromoCode(promoCode.id!, values)
+        : await createPromoCode(values);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(promoCode ? "Promo code updated" : "Promo code added");
+      router.push("/admin/promo-codes");
+      router.refresh();
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const scopes = [
+    {
+      name: "car_ids",
+      label: "Cars",
+      options: cars.map((car) => ({ value: car.id!, label: car.name })),
+    },
+    {
+      name: "location_ids",
+      label: "Pickup locations",
+      options: locations.map((location) => ({
+        value: location.id!,
+        label: location.name,
+      })),
+    },
+    {
+      name: "body_styles",
+      label: "Body styles",
+      options: bodyStyles.map((style) => ({
+        value: style.slug,
+        label: style.name,
+      })),
+    },
+  ] as const;
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="mb-16 grid max-w-3xl grid-cols-1 gap-6 md:grid-cols-2"
+      >
+        <FormField
+          control={form.control}
+          name="code"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Code</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="WELCOME10"
+                  className="uppercase"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="discount_type"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Discount</FormLabel>
+              <FormControl>
+                <NativeSelect {...field}>
+                  <option value={PromoDiscountType.PERCENTAGE}>
+                    Percentage of the rental
+                  </option>
+                  <option value={PromoDiscountType.FIXED}>Fixed amount</option>
+                </NativeSelect>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea
+                  rows={2}
+                  {...field}
+                  value={String(field.value ?? "")}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="discount_value"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{isFixed ? "Amount off" : "Percentage off"}</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={1}
+                  max={isFixed ? undefined : 100}
+                  {...field}
+                  value={String(field.value ?? "")}
+                />
+              </FormControl>
+              <FormDescription>
+                Taken off the rental price, add-ons and fees are charged in
+                full.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {isFixed && (
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Currency</FormLabel>
+                <FormControl>
+                  <Input
+                    maxLength={3}
+                    {...field}
+                    value={String(field.value ?? "")}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Only cars priced in the same currency can redeem the code.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {(
+          [
+            { name: "valid_from", label: "Valid from" },
+            { name: "valid_until", label: "Valid until" },
+          ] as const
+        ).map(({ name, label }) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{label}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="date"
+                    {...field}
+                    value={String(field.value ?? "")}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Day the reservation is made, leave empty for no limit.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        {(
+          [
+            { name: "max_redemptions", label: "Total redemptions" },
+            {
+              name: "max_redemptions_per_user",
+              label: "Redemptions per customer",
+            },
+            { name: "min_rental_days", label: "Minimum rental days" },
+          ] as const
+        ).map(({ name, label }) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{label}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="No limit"
+                    {...field}
+                    value={String(field.value ?? "")}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+
+        <FormField
+          control={form.control}
+          name="retired"
+          render={({ field }) => (
+            <FormItem className="flex items-center gap-2 space-y-0 self-center">
+              <FormControl>
+                <Checkbox
+                  checked={field.value}
+                  onCheckedChange={(checked) =>
+                    field.onChange(checked === true)
+                  }
+                />
+              </FormControl>
+              <FormLabel>Retired, can no longer be redeemed</FormLabel>
+            </FormItem>
+          )}
+        />
+
+        {scopes.map(({ name, label, options }) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name}
+            render={({ field }) => {
+              const selected: string[] = field.value;
+
+              return (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>{label}</FormLabel>
+                  <FormDescription>
+                    Leave all unchecked to apply to every{" "}
+                    {label.toLowerCase().replace(/s$/, "")}.
+                  </FormDescription>
+                  <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                    {options.map((option) => (
+                      <label
+                        key={option.value}
+                        className="flex items-center gap-2 text-sm"
+                      >
+                        <Checkbox
+                          checked={selected.includes(option.value)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked === true ?
+                                [...selected, option.value]
+                              : selected.filter(
+                                  (value) => value !== option.value
+                                )
+                            )
+                          }
+                        />
+                        {option.label}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              );
+            }}
+          />
+        ))}
+
+        <div className="flex gap-2 md:col-span-2">
+          <Button type="submit" disabled={isLoading}>
+            {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+            {promoCode ? "Save changes" : "Add promo code"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isLoading}
+            onClick={() => router.push("/admin/promo-codes")}
+          >
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
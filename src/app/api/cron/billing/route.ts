@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+
+import type { NextRequest } from "next/server";
+
+import { billDueInstallments } from "@/lib/billing";
+import { env } from "@/lib/env";
+
+/**
+ * Called by a scheduler every few minutes to bill the installments of long-term rentals once due,
+ * the customers are emailed to pay them
+ */
+export async function GET(req: NextRequest) {
+  if (
+    !env.CRON_SECRET ||
+    req.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const billed = await billDueInstallments();
+
+    return NextResponse.json({ billed });
+  } catch (error) {
+    console.error("Failed to bill due installments:", error);
+    return NextResponse.json(
+      { error: "Failed to bill due installments" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+
+import type { NextRequest } from "next/server";
+
+import { queuePickupReminders, sendDueEmails } from "@/lib/emails";
+import { env } from "@/lib/env";
+
+/**
+ * Called by a scheduler every few minutes to queue the pick-up reminders and send the emails that
+ * are due, including retries
+ */
+export async function GET(req: NextRequest) {
+  if (
+    !env.CRON_SECRET ||
+    req.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const reminders = await queuePickupReminders();
+    const { sent, failed } = await sendDueEmails();
+
+    return NextResponse.json({ reminders, sent, failed });
+  } catch (error) {
+    console.error("Failed to send due emails:", error);
+    return NextResponse.json(
+      { error: "Failed to send due emails" },
+      { status: 500 }
+    );
+  }
+}
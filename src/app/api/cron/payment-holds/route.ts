@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+
+import type { NextRequest } from "next/server";
+
+import { env } from "@/lib/env";
+import { expireUnpaidReservations } from "@/lib/payments";
+
+/**
+ * Called by a scheduler every few minutes to cancel the reservations that weren't paid for in
+ * time, freeing the cars, add-ons and promo codes they held
+ */
+export async function GET(req: NextRequest) {
+  if (
+    !env.CRON_SECRET ||
+    req.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const expired = await expireUnpaidReservations();
+
+    return NextResponse.json({ expired });
+  } catch (error) {
+    console.error("Failed to expire unpaid reservations:", error);
+    return NextResponse.json(
+      { error: "Failed to expire unpaid reservations" },
+      { status: 500 }
+    );
+  }
+}
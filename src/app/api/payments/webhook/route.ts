@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+
+import type { NextRequest } from "next/server";
+
+import { receivePaymentWebhook } from "@/lib/payments";
+import { PAYMENT_SIGNATURE_HEADER } from "@/lib/payments/provider";
+
+export async function POST(req: NextRequest) {
+  // The signature covers the exact bytes that were sent, so the body is read as text
+  const payload = await req.text();
+
+  try {
+    const result = await receivePaymentWebhook(
+      payload,
+      req.headers.get(PAYMENT_SIGNATURE_HEADER)
+    );
+
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error("Failed to handle payment webhook:", error);
+    // Providers retry webhooks that weren't acknowledged
+    return NextResponse.json(
+      { error: "Failed to handle payment webhook" },
+      { status: 500 }
+    );
+  }
+}
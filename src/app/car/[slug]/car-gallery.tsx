@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { ChevronLeft, ChevronRight, Images } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+
+export type GalleryImage = {
+  id: string;
+  alt: string;
+  thumbnail: string;
+  medium: string;
+  large: string;
+};
+
+type CarGalleryProps = {
+  name: string;
+  /** The primary image comes first */
+  images: GalleryImage[];
+};
+
+/**
+ * Number of images shown next to each other before the rest is tucked away in the lightbox.
+ */
+const PREVIEW_COUNT = 5;
+
+export function CarGallery({ name, images }: CarGalleryProps) {
+  const [index, setIndex] = useState<number>();
+
+  const open = index !== undefined;
+  const current = images[index ?? 0];
+  const preview = images.slice(0, PREVIEW_COUNT);
+
+  const go = (step: number) => {
+    setIndex((i) => ((i ?? 0) + step + images.length) % images.length);
+  };
+
+  return (
+    <>
+      <div
+        className={cn(
+          "grid h-56 gap-2 overflow-hidden rounded-xl md:h-80",
+          preview.length > 1 && "grid-cols-4 grid-rows-2"
+        )}
+      >
+        {preview.map((image, i) => (
+          <button
+            key={image.id}
+            type="button"
+            onClick={() => setIndex(i)}
+            className={cn(
+              "bg-muted relative transition-opacity hover:opacity-90",
+              preview.length > 1 &&
+                i === 0 &&
+                "col-span-4 row-span-2 md:col-span-2",
+              i > 0 && "hidden md:block",
+              // Spread the last images over the empty cells
+              preview.length === 2 && i === 1 && "row-span-2 md:col-span-2",
+              preview.length === 3 && i > 0 && "md:col-span-2",
+              preview.length === 4 && i === 3 && "md:col-span-2"
+            )}
+          >
+            <Image
+              src={i === 0 ? image.medium : image.thumbnail}
+              alt={image.alt}
+              fill
+              priority={i === 0}
+              sizes={i === 0 ? "(min-width: 768px) 40vw, 100vw" : "20vw"}
+              className="object-contain object-center p-2"
+            />
+          </button>
+        ))}
+      </div>
+
+      {images.length > 1 && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-3"
+          onClick={() => setIndex(0)}
+        >
+          <Images className="mr-2 size-4" />
+          Show all {images.length} photos
+        </Button>
+      )}
+
+      <Dialog open={open} onOpenChange={(open) => !open && setIndex(undefined)}>
+        <DialogContent
+          className="max-w-4xl"
+          onKeyDown={(event) => {
+            if (event.key === "ArrowLeft") go(-1);
+            if (event.key === "ArrowRight") go(1);
+          }}
+        >
+          <DialogTitle className="sr-only">{name} photos</DialogTitle>
+          <DialogDescription className="sr-only">
+            Use the arrow keys to browse the photos.
+          </DialogDescription>
+
+          <div className="bg-muted relative aspect-video w-full rounded-md">
+            <Image
+              src={current.large}
+              alt={current.alt}
+              fill
+              sizes="(min-width: 896px) 896px, 100vw"
+              className="object-contain object-center"
+            />
+
+            {images.length > 1 && (
+              <>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  aria-label="Previous photo"
+                  className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full"
+                  onClick={() => go(-1)}
+                >
+                  <ChevronLeft className="size-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  aria-label="Next photo"
+                  className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full"
+                  onClick={() => go(1)}
+                >
+                  <ChevronRight className="size-4" />
+                </Button>
+              </>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-4 text-sm">
+            <p className="text-muted-foreground truncate">{current.alt}</p>
+            <p className="shrink-0">
+              {(index ?? 0) + 1} / {images.length}
+            </p>
+          </div>
+
+          {images.length > 1 && (
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {images.map((image, i) => (
+                <button
+                  key={image.id}
+                  type="button"
+                  aria-label={`Show photo ${i + 1}`}
+                  onClick={() => setIndex(i)}
+                  className={cn(
+                    "bg-muted relative h-14 w-20 shrink-0 rounded-md border-2",
+                    i === index ? "border-primary" : "border-transparent"
+                  )}
+                >
+                  <Image
+                    src={image.thumbnail}
+                    alt={image.alt}
+                    fill
+                    sizes="80px"
+                    className="object-contain object-center p-1"
+                  />
+                </button>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
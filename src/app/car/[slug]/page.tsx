@@ -1,11 +1,27 @@
-import Image from "next/image";
+import { Fragment } from "react";
 import { notFound } from "next/navigation";
-import { Check, Gift, LifeBuoy, Map } from "lucide-react";
+import { Check, Clock, Gift, LifeBuoy, Map, MapPin, Phone } from "lucide-react";
 
+import type { GalleryImage } from "./car-gallery";
 import type { Metadata } from "next";
+import type { Car, CarImage } from "@/lib/db/definitions";
+import type { Locale } from "@/lib/i18n/config";
 
-import { fetchCarBySlug, fetchLocations } from "@/lib/db/queries";
+import { getGalleryImageUrl } from "@/lib/car-images";
+import {
+  fetchAddOns,
+  fetchAddOnStock,
+  fetchCarBySlug,
+  fetchCarImages,
+  fetchCarTranslation,
+  fetchLocations,
+  fetchOneWayFees,
+} from "@/lib/db/queries";
+import { DEFAULT_LOCALE } from "@/lib/i18n/config";
+import { getLocale, getTranslations } from "@/lib/i18n/server";
+import { describeOpeningHours } from "@/lib/opening-hours";
 import { formatCurrency } from "@/lib/utils";
+import { CarGallery } from "./car-gallery";
 import { ReservationForm } from "./reservation-form";
 import { ReservationSidebar } from "./reservation-sidebar";
 
@@ -13,19 +29,42 @@ type CarPageProps = {
   params: Promise<{ slug: string }>;
 };
 
+/**
+ * Returns the descriptions and features of a car in a language, falling back to English for the
+ * lists that aren't translated
+ */
+async function getCarContent(car: Car, locale: Locale) {
+  if (locale === DEFAULT_LOCALE) {
+    return { descriptions: car.descriptions, features: car.features };
+  }
+
+  const translation = await fetchCarTranslation(car.id!, locale);
+
+  return {
+    descriptions:
+      translation?.descriptions?.length ?
+        translation.descriptions
+      : car.descriptions,
+    features:
+      translation?.features?.length ? translation.features : car.features,
+  };
+}
+
 export async function generateMetadata({
   params,
 }: CarPageProps): Promise<Metadata> {
   const { slug } = await params;
-  const car = await fetchCarBySlug(slug);
+  const [car, locale] = await Promise.all([fetchCarBySlug(slug), getLocale()]);
 
   if (!car) {
     return {};
   }
 
+  const { descriptions } = await getCarContent(car, locale);
+
   return {
     title: car.name,
-    description: car.descriptions[0],
+    description: descriptions[0],
   };
 }
 
@@ -35,15 +74,51 @@ export const dynamicParams = true;
 
 export default async function CarDetailsPage({ params }: CarPageProps) {
   const { slug } = await params;
-  const [car, locations] = await Promise.all([
-    fetchCarBySlug(slug),
-    fetchLocations(),
-  ]);
+  const [car, locations, oneWayFees, addOns, addOnStock, { locale, t }] =
+    await Promise.all([
+      fetchCarBySlug(slug),
+      fetchLocations(),
+      fetchOneWayFees(),
+      fetchAddOns(),
+      fetchAddOnStock(),
+      getTranslations(),
+    ]);
 
   if (!car) {
     notFound();
   }
 
+  const [images, { descriptions, features }] = await Promise.all([
+    fetchCarImages(car.id!),
+    getCarContent(car, locale),
+  ]);
+
+  // Cars without a gallery fall back to their image
+  const galleryImages: Pick<
+    CarImage,
+    "id" | "url" | "path" | "alt_text" | "is_primary"
+  >[] =
+    images.length > 0 ?
+      images.toSorted((a, b) => Number(b.is_primary) - Number(a.is_primary))
+    : [
+        {
+          id: car.id,
+          url: car.image_url,
+          path: car.image_path,
+          alt_text: car.name,
+        },
+      ];
+
+  const gallery: GalleryImage[] = galleryImages.map((image) => ({
+    id: image.id!,
+    alt: image.alt_text,
+    thumbnail: getGalleryImageUrl(image, "thumbnail"),
+    medium: getGalleryImageUrl(image, "medium"),
+    large: getGalleryImageUrl(image, "large"),
+  }));
+
+  const branch = locations.find(({ id }) => id === car.location_id);
+
   const pricePerDay = car.discounted_price_per_day || car.retail_price_per_day;
   const currency = car.discounted_price_currency || car.retail_price_currency;
 
@@ -54,15 +129,18 @@ export default async function CarDetailsPage({ params }: CarPageProps) {
         <div className="flex items-center justify-between">
           <div>
             <span className="text-lg font-semibold text-foreground">
-              {formatCurrency(pricePerDay, currency)}
+              {formatCurrency(pricePerDay, currency, locale)}
+            </span>
+            <span className="text-muted-foreground text-sm">
+              {" "}
+              {t("carPage.perDay")}
             </span>
-            <span className="text-muted-foreground text-sm"> /day</span>
           </div>
           <a
             href="#reserve-form"
             className="rounded-full bg-primary px-4 py-2 text-sm font-medium text-primary-foreground"
           >
-            Reserve
+            {t("carPage.reserve")}
           </a>
         </div>
       </div>
@@ -75,18 +153,25 @@ export default async function CarDetailsPage({ params }: CarPageProps) {
               <ReservationForm
                 car={car}
                 locations={locations}
+                oneWayFees={oneWayFees}
+                addOns={addOns}
+                addOnStock={addOnStock}
                 pricePerDay={pricePerDay}
                 currency={currency}
               />
             </div>
           </div>
 
+          <div className="mb-6">
+            <CarGallery name={car.name} images={gallery} />
+          </div>
+
           <div className="grid grid-cols-[1fr_auto] justify-between">
             <div className="flex flex-col">
               <h1 className="font-heading text-2xl md:text-3xl">{car.name}</h1>
 
               <div className="text-muted-foreground mt-1 flex flex-wrap items-center gap-1.5 text-sm lg:text-base">
-                <span>{car.seats} seats</span>
+                <span>{t("carPage.seats", { count: car.seats })}</span>
                 <span>·</span>
                 <span>{car.engine_type}</span>
                 <span>·</span>
@@ -94,21 +179,11 @@ export default async function CarDetailsPage({ params }: CarPageProps) {
                 {car.unlimited_mileage && (
                   <>
                     <span>·</span>
-                    <span>Unlimited mileage</span>
+                    <span>{t("cars.card.unlimitedMileage")}</span>
                   </>
                 )}
               </div>
             </div>
-
-            <div className="relative h-14 w-20 md:w-24">
-              <Image
-                src={car.image_url}
-                alt={car.name}
-                fill
-                priority
-                className="object-contain object-center"
-              />
-            </div>
           </div>
 
           <hr className="my-6" />
@@ -117,10 +192,11 @@ export default async function CarDetailsPage({ params }: CarPageProps) {
             <div className="flex gap-8">
               <Gift className="size-6 shrink-0" />
               <div className="flex flex-col">
-                <p className="font-semibold">Exclusive Deals</p>
+                <p className="font-semibold">
+                  {t("carPage.perks.deals.title")}
+                </p>
                 <p className="text-muted-foreground mt-0.5 text-sm leading-5">
-                  Unlock special discounts and exclusive offers tailored just
-                  for you.
+                  {t("carPage.perks.deals.description")}
                 </p>
               </div>
             </div>
@@ -128,10 +204,11 @@ export default async function CarDetailsPage({ params }: CarPageProps) {
             <div className="flex gap-8">
               <Map className="size-6 shrink-0" />
               <div className="flex flex-col">
-                <p className="font-semibold">Local Tips</p>
+                <p className="font-semibold">
+                  {t("carPage.perks.localTips.title")}
+                </p>
                 <p className="text-muted-foreground mt-0.5 text-sm leading-5">
-                  Receive recommendations for local attractions, restaurants,
-                  and scenic routes.
+                  {t("carPage.perks.localTips.description")}
                 </p>
               </div>
             </div>
@@ -139,10 +216,11 @@ export default async function CarDetailsPage({ params }: CarPageProps) {
             <div className="flex gap-8">
               <LifeBuoy className="size-6 shrink-0" />
               <div className="flex flex-col">
-                <p className="font-semibold">24/7 Roadside Assistance</p>
+                <p className="font-semibold">
+                  {t("carPage.perks.roadsideAssistance.title")}
+                </p>
                 <p className="text-muted-foreground mt-0.5 text-sm leading-5">
-                  Travel with confidence. Our round-the-clock assistance ensures
-                  you&apos;re supported anytime, anywhere.
+                  {t("carPage.perks.roadsideAssistance.description")}
                 </p>
               </div>
             </div>
@@ -151,7 +229,7 @@ export default async function CarDetailsPage({ params }: CarPageProps) {
           <hr className="my-6" />
 
           <div className="mt-10 space-y-6">
-            {car.descriptions.map((paragraph) => (
+            {descriptions.map((paragraph) => (
               <p key={paragraph} className="text-muted-foreground">
                 {paragraph}
               </p>
@@ -161,9 +239,9 @@ export default async function CarDetailsPage({ params }: CarPageProps) {
           <hr className="my-12" />
 
           <div className="mb-6">
-            <h2 className="text-lg font-semibold">Features</h2>
+            <h2 className="text-lg font-semibold">{t("carPage.features")}</h2>
             <div className="mt-6 grid grid-cols-2 gap-4">
-              {car.features.map((feature) => (
+              {features.map((feature) => (
                 <div key={feature} className="flex items-center gap-4">
                   <Check className="size-4 shrink-0" />
                   <p className="text-muted-foreground">{feature}</p>
@@ -171,6 +249,55 @@ export default async function CarDetailsPage({ params }: CarPageProps) {
               ))}
             </div>
           </div>
+
+          {branch && (
+            <>
+              <hr className="my-12" />
+
+              <div className="mb-6">
+                <h2 className="text-lg font-semibold">
+                  {t("carPage.pickupAndReturn")}
+                </h2>
+                <div className="mt-6 flex flex-col gap-4">
+                  <div className="flex gap-4">
+                    <MapPin className="mt-0.5 size-4 shrink-0" />
+                    <div className="text-muted-foreground">
+                      <p className="text-foreground font-medium">
+                        {branch.name}
+                      </p>
+                      {branch.address && <p>{branch.address}</p>}
+                    </div>
+                  </div>
+
+                  {branch.phone && (
+                    <div className="flex gap-4">
+                      <Phone className="mt-0.5 size-4 shrink-0" />
+                      <a
+                        href={`tel:${branch.phone.replace(/[^\d+]/g, "")}`}
+                        className="text-muted-foreground hover:underline"
+                      >
+                        {branch.phone}
+                      </a>
+                    </div>
+                  )}
+
+                  <div className="flex gap-4">
+                    <Clock className="mt-0.5 size-4 shrink-0" />
+                    <dl className="text-muted-foreground grid grid-cols-[auto_1fr] gap-x-4">
+                      {describeOpeningHours(branch.opening_hours, t).map(
+                        ({ days, hours }) => (
+                          <Fragment key={days}>
+                            <dt>{days}</dt>
+                            <dd>{hours}</dd>
+                          </Fragment>
+                        )
+                      )}
+                    </dl>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
         </div>
 
         {/* Desktop: Sidebar */}
@@ -182,6 +309,10 @@ export default async function CarDetailsPage({ params }: CarPageProps) {
             rating={car.rating}
             reviews={car.reviews}
             locations={locations}
+            oneWayFees={oneWayFees}
+            addOns={addOns}
+            addOnStock={addOnStock}
+            locale={locale}
           />
         </div>
       </div>
@@ -3,14 +3,25 @@
 import React, { useState } from "react";
 import { useSearchParams } from "next/navigation";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { addDays, differenceInDays, format, isAfter } from "date-fns";
+import { differenceInDays, format, isAfter, isBefore } from "date-fns";
 import { Check, Loader2 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { toast } from "sonner";
 import { z } from "zod";
 
-import type { Car, Location } from "@/lib/db/definitions";
-
+import type {
+  AddOn,
+  AddOnStock,
+  Car,
+  Location,
+  OneWayFee,
+} from "@/lib/db/definitions";
+import type { Translate } from "@/lib/i18n/translator";
+import type { PriceQuote } from "@/lib/pricing";
+
+import { AddOnPicker } from "@/components/add-on-picker";
+import { NightlyBreakdown } from "@/components/nightly-breakdown";
+import { TimeSelect } from "@/components/time-select";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
 import {
@@ -33,149 +44,344 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { createReservation } from "@/lib/actions/reservation";
+import {
+  createReservation,
+  getAddOnAvailability,
+  getReservationQuote,
+} from "@/lib/actions/reservation";
+import { getOfferedAddOns } from "@/lib/add-ons";
 import { SearchParams } from "@/lib/enums";
+import { useTranslations } from "@/lib/i18n/client";
+import { findOneWayFee } from "@/lib/one-way-rentals";
+import {
+  DEFAULT_HANDOVER_TIME,
+  fromHandoverTime,
+  getClosureReason,
+  getOutsideHoursReason,
+  getTimeSlots,
+  toHandoverTime,
+} from "@/lib/opening-hours";
+import {
+  formatRatePeriod,
+  getBillableTime,
+  getRentalDurationError,
+  isRateLineItem,
+  MAX_LONG_TERM_RENTAL_DAYS,
+} from "@/lib/rental-duration";
 import { cn, formatCurrency } from "@/lib/utils";
 
-const FormSchema = z
-  .object({
-    location: z.string({ required_error: "Location is required" }),
-    checkin: z.date({ required_error: "Check in is required" }),
-    checkout: z.date({ required_error: "Check out is required" }),
-  })
-  .refine((schema) => isAfter(schema.checkout, schema.checkin), {
-    message: "Check out must be after check in",
-    path: ["checkout"],
-  })
-  .refine(
-    ({ checkin, checkout }) => differenceInDays(checkout, checkin) <= 30,
-    {
-      message: "Maximum 30 days allowed for booking",
+/**
+ * Builds the form schema with its messages in the language of the page
+ */
+const createFormSchema = (t: Translate) =>
+  z
+    .object({
+      location: z.string({
+        required_error: t("reservationForm.errors.locationRequired"),
+      }),
+      /** Same as the pickup location when not set */
+      returnLocation: z.string().optional(),
+      checkin: z.date({
+        required_error: t("reservationForm.errors.checkInRequired"),
+      }),
+      checkout: z.date({
+        required_error: t("reservationForm.errors.checkOutRequired"),
+      }),
+      /** Pickup time on the clocks of the pickup location */
+      checkinTime: z
+        .string()
+        .min(1, t("reservationForm.errors.pickUpTimeRequired")),
+      /** Return time on the clocks of the drop-off location */
+      checkoutTime: z
+        .string()
+        .min(1, t("reservationForm.errors.returnTimeRequired")),
+      addOns: z.array(
+        z.object({
+          addOnId: z.string(),
+          quantity: z.number().int().positive(),
+        })
+      ),
+    })
+    // Cars can be returned on the day they are picked up, the times are compared on submit
+    .refine((schema) => !isBefore(schema.checkout, schema.checkin), {
+      message: t("reservationForm.errors.checkOutBeforeCheckIn"),
       path: ["checkout"],
-    }
-  );
+    })
+    .refine(
+      ({ checkin, checkout }) =>
+        differenceInDays(checkout, checkin) <= MAX_LONG_TERM_RENTAL_DAYS,
+      {
+        message: t("reservationForm.errors.maxDays", {
+          days: MAX_LONG_TERM_RENTAL_DAYS,
+        }),
+        path: ["checkout"],
+      }
+    );
 
-type FormData = z.infer<typeof FormSchema>;
+type FormData = z.infer<ReturnType<typeof createFormSchema>>;
 
 type ReservationFormProps = {
   car: Car;
   locations: Location[];
+  /** Routes the car can be returned along to another location */
+  oneWayFees: OneWayFee[];
   pricePerDay: number;
   currency: string;
+  /** The add-ons catalog, and the units owned by each location */
+  addOns: AddOn[];
+  addOnStock: AddOnStock[];
 };
 
+/**
+ * Resolves the selected locations, the car is picked up at its own location until another one is
+ * selected and returned where it was picked up unless a drop-off location is selected
+ */
+function getTripLocations(
+  locations: Location[],
+  car: Car,
+  values: Partial<FormData>
+) {
+  const pickup =
+    locations.find(({ value }) => value === values.location) ??
+    locations.find(({ id }) => id === car.location_id);
+  const dropOff =
+    locations.find(({ value }) => value === values.returnLocation) ?? pickup;
+
+  return { pickup, dropOff };
+}
+
 export function ReservationForm(props: ReservationFormProps) {
-  const { car, locations, pricePerDay, currency } = props;
+  const {
+    car,
+    locations,
+    oneWayFees,
+    pricePerDay,
+    currency,
+    addOns,
+    addOnStock,
+  } = props;
 
   const searchParams = useSearchParams();
+  const { locale, t } = useTranslations();
+  const formSchema = React.useMemo(() => createFormSchema(t), [t]);
 
-  const [days, setDays] = React.useState<number>();
-  const [subtotal, setSubtotal] = React.useState<number>();
-  const [taxesAndFees, setTaxesAndFees] = React.useState<number>();
-  const [total, setTotal] = React.useState<number>();
+  const [quote, setQuote] = React.useState<PriceQuote>();
+  const [addOnAvailability, setAddOnAvailability] =
+    React.useState<Record<string, number>>();
   const [locationOpen, setLocationOpen] = React.useState(false);
+  const [returnLocationOpen, setReturnLocationOpen] = React.useState(false);
   const [checkinOpen, setCheckinOpen] = React.useState(false);
   const [checkoutOpen, setCheckoutOpen] = React.useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
   const form = useForm<FormData>({
-    resolver: zodResolver(FormSchema),
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      checkinTime: DEFAULT_HANDOVER_TIME,
+      checkoutTime: DEFAULT_HANDOVER_TIME,
+      addOns: [],
+    },
   });
 
-  // Calculate totals whenever dates change
+  // Add-ons picked for another pickup location are left out when it doesn't stock them
+  const getSelectedAddOns = React.useCallback(
+    (pickup: Location, selections: Partial<FormData>["addOns"] = []) => {
+      const offered = getOfferedAddOns(addOns, addOnStock, pickup.id);
+
+      return selections.flatMap((selection) =>
+        (
+          selection?.addOnId &&
+          selection.quantity &&
+          offered.some(({ id }) => id === selection.addOnId)
+        ) ?
+          [{ addOnId: selection.addOnId, quantity: selection.quantity }]
+        : []
+      );
+    },
+    [addOns, addOnStock]
+  );
+
+  // Keeps track of the latest quote request so that stale responses are ignored
+  const quoteRequestRef = React.useRef(0);
+
+  // Fetch a price quote from the server whenever the locations or dates change
   const calculateTotal = React.useCallback(
-    (checkin?: Date, checkout?: Date) => {
-      if (checkin && checkout && isAfter(checkout, checkin)) {
-        const calculatedDays = differenceInDays(checkout, checkin);
-        const calculatedSubtotal = pricePerDay * calculatedDays;
-        const calculatedTaxesAndFees = calculatedSubtotal * 0.16;
-        const calculatedTotal = calculatedSubtotal + calculatedTaxesAndFees;
-
-        setDays(calculatedDays);
-        setSubtotal(calculatedSubtotal);
-        setTaxesAndFees(calculatedTaxesAndFees);
-        setTotal(calculatedTotal);
-      } else {
-        setDays(undefined);
-        setSubtotal(undefined);
-        setTaxesAndFees(undefined);
-        setTotal(undefined);
+    async (values: Partial<FormData>) => {
+      const requestId = ++quoteRequestRef.current;
+      const { checkin, checkout, checkinTime, checkoutTime } = values;
+      const { pickup, dropOff } = getTripLocations(locations, car, values);
+
+      if (
+        !car.id ||
+        !pickup ||
+        !dropOff ||
+        !checkin ||
+        !checkout ||
+        !checkinTime ||
+        !checkoutTime
+      ) {
+        setQuote(undefined);
+        setAddOnAvailability(undefined);
+        return;
+      }
+
+      const checkIn = toHandoverTime(pickup, checkin, checkinTime);
+      const checkOut = toHandoverTime(dropOff, checkout, checkoutTime);
+
+      if (!isAfter(checkOut, checkIn)) {
+        setQuote(undefined);
+        setAddOnAvailability(undefined);
+        return;
+      }
+
+      const [result, availability] = await Promise.all([
+        getReservationQuote({
+          carId: car.id,
+          locationId: pickup.id!,
+          returnLocationId: dropOff.id!,
+          checkIn,
+          checkOut,
+          addOns: getSelectedAddOns(pickup, values.addOns),
+        }),
+        getAddOnAvailability({ locationId: pickup.id!, checkIn, checkOut }),
+      ]);
+
+      if (requestId === quoteRequestRef.current) {
+        setQuote(result.quote);
+        setAddOnAvailability(availability.availability);
       }
     },
-    [pricePerDay]
+    [car, locations, getSelectedAddOns]
+  );
+
+  const { pickup, dropOff } = getTripLocations(locations, car, {
+    location: form.watch("location"),
+    returnLocation: form.watch("returnLocation"),
+  });
+
+  const offeredAddOns = getOfferedAddOns(addOns, addOnStock, pickup?.id);
+
+  const checkinDay = form.watch("checkin");
+  const checkoutDay = form.watch("checkout");
+
+  // The car can be returned where it was picked up, or along any route offered from there
+  const dropOffOptions = locations.flatMap(
+    (location): { location: Location; fee?: OneWayFee }[] => {
+      if (!pickup || location.id === pickup.id) {
+        return [{ location }];
+      }
+
+      const fee = findOneWayFee(oneWayFees, pickup.id!, location.id!);
+      return fee ? [{ location, fee }] : [];
+    }
   );
 
-  // Handle form submission - create reservation and open WhatsApp
+  const isClosed = (location: Location | undefined, date: Date) =>
+    !!location && !!getClosureReason(location, date);
+
+  // Handle form submission - create reservation and go to payment
   async function onSubmit(values: FormData) {
-    const { location, checkin, checkout } = values;
+    const { checkin, checkout, checkinTime, checkoutTime } = values;
 
     if (!car.id || !car.location_id) {
-      toast.error("Car information is incomplete");
+      toast.error(t("reservationForm.errors.incompleteCar"));
       return;
     }
 
-    const selectedLocation = locations.find((l) => l.value === location);
-    if (!selectedLocation) {
-      toast.error("Please select a valid location");
+    const { pickup, dropOff } = getTripLocations(locations, car, values);
+    if (!pickup || !dropOff) {
+      toast.error(t("reservationForm.errors.invalidLocation"));
       return;
     }
 
-    const calculatedDays = differenceInDays(checkout, checkin);
-    const calculatedSubtotal = pricePerDay * calculatedDays;
-    const calculatedTaxesAndFees = calculatedSubtotal * 0.16;
-    const calculatedTotal = calculatedSubtotal + calculatedTaxesAndFees;
+    const checkIn = toHandoverTime(pickup, checkin, checkinTime);
+    const checkOut = toHandoverTime(dropOff, checkout, checkoutTime);
+
+    const checkinClosure = getOutsideHoursReason(pickup, checkIn, t, locale);
+    const checkoutClosure = getOutsideHoursReason(dropOff, checkOut, t, locale);
+
+    if (checkinClosure || checkoutClosure) {
+      form.setError(checkinClosure ? "checkinTime" : "checkoutTime", {
+        message: (checkinClosure ?? checkoutClosure)!,
+      });
+      return;
+    }
+
+    if (!isAfter(checkOut, checkIn)) {
+      form.setError("checkoutTime", {
+        message: t("reservationForm.errors.checkOutNotAfterCheckIn"),
+      });
+      return;
+    }
+
+    // The longest rental and the minimum term depend on the car, and on the days it is charged
+    // for as the server counts them
+    const durationError = getRentalDurationError(
+      car,
+      getBillableTime(car, checkIn, checkOut).days,
+      t
+    );
+
+    if (durationError) {
+      form.setError("checkout", { message: durationError });
+      return;
+    }
 
     setIsLoading(true);
 
     try {
       const result = await createReservation({
         carId: car.id,
-        locationId: car.location_id,
-        checkIn: checkin,
-        checkOut: checkout,
-        carName: car.name,
-        carSlug: car.slug,
-        locationName: selectedLocation.name,
-        pricePerDay,
-        totalDays: calculatedDays,
-        subtotal: calculatedSubtotal,
-        taxesAndFees: calculatedTaxesAndFees,
-        total: calculatedTotal,
-        currency,
+        locationId: pickup.id!,
+        returnLocationId: dropOff.id!,
+        checkIn,
+        checkOut,
+        addOns: getSelectedAddOns(pickup, values.addOns),
       });
 
+      if (result.unavailable) {
+        // Keep the message next to the dates so the user knows what to change
+        form.setError("checkout", { message: result.error });
+        toast.error(result.error);
+        return;
+      }
+
       if (result.error) {
         toast.error(result.error);
         return;
       }
 
       if (result.success && result.whatsappUrl) {
-        toast.success("Reservation created!", {
-          description: "Opening WhatsApp to confirm...",
+        const { whatsappUrl } = result;
+
+        toast.success(t("reservationForm.created"), {
+          description: t("reservationForm.openingWhatsApp"),
         });
 
         // Small delay to show toast before opening WhatsApp
         setTimeout(() => {
-          window.open(result.whatsappUrl, "_blank", "noopener,noreferrer");
+          window.open(whatsappUrl, "_blank", "noopener,noreferrer");
         }, 500);
+      } else if (result.success && result.checkoutUrl) {
+        toast.success(t("reservationForm.created"), {
+          description: t("reservationForm.redirectingToPayment"),
+        });
+
+        window.location.assign(result.checkoutUrl);
       } else {
-        toast.error("Failed to generate WhatsApp link");
+        toast.error(t("reservationForm.errors.paymentFailed"));
       }
     } catch {
-      toast.error("Something went wrong. Please try again.");
+      toast.error(t("errors.generic"));
     } finally {
       setIsLoading(false);
     }
   }
 
-  // Watch for date changes and recalculate
+  // Watch for changes and recalculate
   React.useEffect(() => {
-    const subscription = form.watch((value, { name }) => {
-      if (name === "checkin" || name === "checkout") {
-        const checkin = value.checkin as Date | undefined;
-        const checkout = value.checkout as Date | undefined;
-        calculateTotal(checkin, checkout);
-      }
+    const subscription = form.watch((value) => {
+      calculateTotal(value as Partial<FormData>);
     });
 
     return () => subscription.unsubscribe();
@@ -188,26 +394,37 @@ export function ReservationForm(props: ReservationFormProps) {
     const checkout = searchParams.get(SearchParams.CHECKOUT);
 
     if (location) form.setValue("location", location);
+
+    // Times in the URL are instants, shown on the clocks of the pickup location
+    const { pickup } = getTripLocations(locations, car, {
+      location: location ?? undefined,
+    });
+
     if (checkin) {
-      const date = new Date(checkin);
-      form.setValue("checkin", date);
+      const { day, time } = fromHandoverTime(pickup ?? {}, new Date(checkin));
+      form.setValue("checkin", day);
+      form.setValue("checkinTime", time);
     }
     if (checkout) {
-      const date = new Date(checkout);
-      form.setValue("checkout", date);
+      const { day, time } = fromHandoverTime(pickup ?? {}, new Date(checkout));
+      form.setValue("checkout", day);
+      form.setValue("checkoutTime", time);
     }
 
     // Calculate totals if both dates are present
     if (checkin && checkout) {
-      calculateTotal(new Date(checkin), new Date(checkout));
+      calculateTotal(form.getValues());
     }
 
     return () => {
       form.resetField("location");
+      form.resetField("returnLocation");
       form.resetField("checkin");
       form.resetField("checkout");
+      form.resetField("checkinTime");
+      form.resetField("checkoutTime");
     };
-  }, [searchParams, form, calculateTotal]);
+  }, [searchParams, form, calculateTotal, locations, car]);
 
   return (
     <>
@@ -226,7 +443,9 @@ export function ReservationForm(props: ReservationFormProps) {
                 return (
                   <FormItem className="relative space-y-0">
                     <FormLabel className="absolute left-2.5 top-2.5 text-xs font-bold">
-                      Pick-up / Drop-off
+                      {dropOffOptions.length > 1 ?
+                        t("reservationForm.pickUp")
+                      : t("reservationForm.pickUpAndDropOff")}
                     </FormLabel>
 
                     {isReadOnly ?
@@ -241,19 +460,24 @@ export function ReservationForm(props: ReservationFormProps) {
                           <FormControl>
                             <button
                               type="button"
-                              aria-label="select location"
+                              aria-label={t("reservationForm.selectLocation")}
                               className="text-muted-foreground hover:text-foreground flex h-[58px] w-full flex-col justify-end truncate border-b p-2.5 text-left text-sm duration-200"
                             >
-                              {selectedLocation?.name ?? "Select location"}
+                              {selectedLocation?.name ??
+                                t("reservationForm.selectLocation")}
                             </button>
                           </FormControl>
                         </PopoverTrigger>
 
                         <PopoverContent className="p-0">
                           <Command>
-                            <CommandInput placeholder="Search location..." />
+                            <CommandInput
+                              placeholder={t("reservationForm.searchLocation")}
+                            />
                             <CommandList>
-                              <CommandEmpty>No place found.</CommandEmpty>
+                              <CommandEmpty>
+                                {t("reservationForm.noPlaceFound")}
+                              </CommandEmpty>
                               <CommandGroup>
                                 {locations.map(({ name, value }) => (
                                   <CommandItem
@@ -261,6 +485,8 @@ export function ReservationForm(props: ReservationFormProps) {
                                     value={name}
                                     onSelect={() => {
                                       form.setValue("location", value);
+                                      // Routes differ from one pickup location to another
+                                      form.resetField("returnLocation");
                                       setLocationOpen(false);
                                     }}
                                   >
@@ -286,6 +512,86 @@ export function ReservationForm(props: ReservationFormProps) {
               }}
             />
 
+            {dropOffOptions.length > 1 && (
+              <FormField
+                control={form.control}
+                name="returnLocation"
+                render={({ field }) => (
+                  <FormItem className="relative space-y-0">
+                    <FormLabel className="absolute left-2.5 top-2.5 text-xs font-bold">
+                      {t("reservationForm.dropOff")}
+                    </FormLabel>
+
+                    <Popover
+                      open={returnLocationOpen}
+                      onOpenChange={setReturnLocationOpen}
+                    >
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <button
+                            type="button"
+                            aria-label={t("reservationForm.dropOff")}
+                            className="text-muted-foreground hover:text-foreground flex h-[58px] w-full flex-col justify-end truncate border-b p-2.5 text-left text-sm duration-200"
+                          >
+                            {dropOff?.id === pickup?.id ?
+                              t("reservationForm.sameAsPickUp")
+                            : dropOff?.name}
+                          </button>
+                        </FormControl>
+                      </PopoverTrigger>
+
+                      <PopoverContent className="p-0">
+                        <Command>
+                          <CommandInput
+                            placeholder={t("reservationForm.searchLocation")}
+                          />
+                          <CommandList>
+                            <CommandEmpty>
+                              {t("reservationForm.noPlaceFound")}
+                            </CommandEmpty>
+                            <CommandGroup>
+                              {dropOffOptions.map(({ location, fee }) => (
+                                <CommandItem
+                                  key={location.value}
+                                  value={location.name}
+                                  onSelect={() => {
+                                    field.onChange(
+                                      fee ? location.value : undefined
+                                    );
+                                    setReturnLocationOpen(false);
+                                  }}
+                                >
+                                  <Check
+                                    className={cn(
+                                      "mr-2 size-4 shrink-0",
+                                      location.id === dropOff?.id ?
+                                        "opacity-100"
+                                      : "opacity-0"
+                                    )}
+                                  />
+                                  <span className="grow">{location.name}</span>
+                                  {fee && (
+                                    <span className="text-muted-foreground ml-2 text-xs">
+                                      +
+                                      {formatCurrency(
+                                        fee.amount,
+                                        fee.currency,
+                                        locale
+                                      )}
+                                    </span>
+                                  )}
+                                </CommandItem>
+                              ))}
+                            </CommandGroup>
+                          </CommandList>
+                        </Command>
+                      </PopoverContent>
+                    </Popover>
+                  </FormItem>
+                )}
+              />
+            )}
+
             <div className="grid grid-cols-2">
               <FormField
                 control={form.control}
@@ -293,7 +599,7 @@ export function ReservationForm(props: ReservationFormProps) {
                 render={({ field }) => (
                   <FormItem className="relative space-y-0 border-r">
                     <FormLabel className="absolute left-2.5 top-2.5 text-xs font-bold leading-none">
-                      Check in
+                      {t("reservationForm.checkIn")}
                     </FormLabel>
 
                     <Popover open={checkinOpen} onOpenChange={setCheckinOpen}>
@@ -305,7 +611,7 @@ export function ReservationForm(props: ReservationFormProps) {
                           >
                             {field.value ?
                               format(field.value, "dd/MM/yyyy")
-                            : <span>Pick a date</span>}
+                            : <span>{t("reservationForm.pickDate")}</span>}
                           </button>
                         </FormControl>
                       </PopoverTrigger>
@@ -318,13 +624,10 @@ export function ReservationForm(props: ReservationFormProps) {
                           onSelect={(date) => {
                             field.onChange(date);
                             setCheckinOpen(false);
-                            // Recalculate if checkout exists
-                            const checkout = form.getValues("checkout");
-                            if (date && checkout) {
-                              calculateTotal(date, checkout);
-                            }
                           }}
-                          disabled={(date) => date <= new Date()}
+                          disabled={(date) =>
+                            date <= new Date() || isClosed(pickup, date)
+                          }
                         />
                       </PopoverContent>
                     </Popover>
@@ -338,7 +641,7 @@ export function ReservationForm(props: ReservationFormProps) {
                 render={({ field }) => (
                   <FormItem className="relative space-y-0">
                     <FormLabel className="absolute left-2.5 top-2.5 text-xs font-bold leading-none">
-                      Check out
+                      {t("reservationForm.checkOut")}
                     </FormLabel>
 
                     <Popover open={checkoutOpen} onOpenChange={setCheckoutOpen}>
@@ -350,7 +653,7 @@ export function ReservationForm(props: ReservationFormProps) {
                           >
                             {field.value ?
                               format(field.value, "dd/MM/yyyy")
-                            : <span>Pick a date</span>}
+                            : <span>{t("reservationForm.pickDate")}</span>}
                           </button>
                         </FormControl>
                       </PopoverTrigger>
@@ -363,13 +666,10 @@ export function ReservationForm(props: ReservationFormProps) {
                           onSelect={(date) => {
                             field.onChange(date);
                             setCheckoutOpen(false);
-                            // Recalculate if checkin exists
-                            const checkin = form.getValues("checkin");
-                            if (checkin && date) {
-                              calculateTotal(checkin, date);
-                            }
                           }}
-                          disabled={(date) => date <= addDays(new Date(), 1)}
+                          disabled={(date) =>
+                            date <= new Date() || isClosed(dropOff, date)
+                          }
                         />
                       </PopoverContent>
                     </Popover>
@@ -377,6 +677,60 @@ export function ReservationForm(props: ReservationFormProps) {
                 )}
               />
             </div>
+
+            <div className="grid grid-cols-2 border-t">
+              <FormField
+                control={form.control}
+                name="checkinTime"
+                render={({ field }) => (
+                  <FormItem className="relative space-y-0 border-r">
+                    <FormLabel className="absolute left-2.5 top-2.5 text-xs font-bold leading-none">
+                      {t("reservationForm.pickUpTime")}
+                    </FormLabel>
+                    <FormControl>
+                      <TimeSelect
+                        slots={
+                          checkinDay && pickup ?
+                            getTimeSlots(
+                              pickup,
+                              format(checkinDay, "yyyy-MM-dd")
+                            )
+                          : []
+                        }
+                        className="h-14 px-2.5 pt-6"
+                        {...field}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="checkoutTime"
+                render={({ field }) => (
+                  <FormItem className="relative space-y-0">
+                    <FormLabel className="absolute left-2.5 top-2.5 text-xs font-bold leading-none">
+                      {t("reservationForm.returnTime")}
+                    </FormLabel>
+                    <FormControl>
+                      <TimeSelect
+                        slots={
+                          checkoutDay && dropOff ?
+                            getTimeSlots(
+                              dropOff,
+                              format(checkoutDay, "yyyy-MM-dd")
+                            )
+                          : []
+                        }
+                        className="h-14 px-2.5 pt-6"
+                        {...field}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
           </div>
 
           <div
@@ -392,8 +746,37 @@ export function ReservationForm(props: ReservationFormProps) {
             {form.formState.errors.checkout && (
               <p>{form.formState.errors.checkout.message}</p>
             )}
+            {form.formState.errors.checkinTime && (
+              <p>{form.formState.errors.checkinTime.message}</p>
+            )}
+            {form.formState.errors.checkoutTime && (
+              <p>{form.formState.errors.checkoutTime.message}</p>
+            )}
           </div>
 
+          {offeredAddOns.length > 0 && (
+            <FormField
+              control={form.control}
+              name="addOns"
+              render={({ field }) => (
+                <FormItem className="mt-4 space-y-3">
+                  <FormLabel className="text-sm font-semibold">
+                    {t("reservationForm.addOns")}
+                  </FormLabel>
+                  <FormControl>
+                    <AddOnPicker
+                      addOns={offeredAddOns}
+                      availability={addOnAvailability}
+                      value={field.value}
+                      onChange={field.onChange}
+                      disabled={isLoading}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          )}
+
           <Button
             type="submit"
             size="lg"
@@ -403,42 +786,67 @@ export function ReservationForm(props: ReservationFormProps) {
             {isLoading ?
               <>
                 <Loader2 className="mr-2 size-4 animate-spin" />
-                Processing...
+                {t("reservationForm.processing")}
               </>
-            : "Reserve via WhatsApp"}
+            : t("reservationForm.reserve")}
           </Button>
         </form>
       </Form>
 
       <p className="text-muted-foreground mt-4 text-center text-sm">
-        You won&apos;t be charged yet
+        {t("reservationForm.payOnNextStep")}
       </p>
 
       <hr className="my-4" />
 
       <div className="text-muted-foreground mt-4">
-        <div className="flex items-center justify-between">
-          <p>
-            {formatCurrency(pricePerDay, currency)} x {days ? days : "—"}{" "}
-            {days ?
-              days > 1 ?
-                "days"
-              : "day"
-            : "days"}{" "}
-          </p>
-          <p>{subtotal ? formatCurrency(subtotal, currency) : "—"}</p>
-        </div>
+        {quote ?
+          quote.lineItems.map((item) => (
+            <div
+              key={`${item.type}-${item.label}`}
+              className="mt-1 flex items-center justify-between first:mt-0"
+            >
+              <p>
+                {isRateLineItem(item.type) ?
+                  `${formatCurrency(item.unitAmount, quote.currency, locale)} x ${formatRatePeriod(item.type, item.quantity, t)}`
+                : item.label}
+              </p>
+              <p>{formatCurrency(item.amount, quote.currency, locale)}</p>
+            </div>
+          ))
+        : <>
+            <div className="flex items-center justify-between">
+              <p>
+                {t("reservationForm.pendingDays", {
+                  price: formatCurrency(pricePerDay, currency, locale),
+                })}
+              </p>
+              <p>—</p>
+            </div>
 
-        <div className="mt-1 flex items-center justify-between">
-          <p>Taxes and fees</p>
-          <p>{taxesAndFees ? formatCurrency(taxesAndFees, currency) : "—"}</p>
-        </div>
+            <div className="mt-1 flex items-center justify-between">
+              <p>{t("reservationForm.taxesAndFees")}</p>
+              <p>—</p>
+            </div>
+          </>
+        }
+
+        {quote && (
+          <NightlyBreakdown
+            nights={quote.nights}
+            currency={quote.currency}
+            locale={locale}
+            className="mt-2"
+          />
+        )}
 
         <hr className="my-4" />
 
         <div className="text-foreground flex items-center justify-between font-semibold">
-          <p>Total (taxes included)</p>
-          <p>{total ? formatCurrency(total, currency) : "—"}</p>
+          <p>{t("reservationForm.total")}</p>
+          <p>
+            {quote ? formatCurrency(quote.total, quote.currency, locale) : "—"}
+          </p>
         </div>
       </div>
     </>
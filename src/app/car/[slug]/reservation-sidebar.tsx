@@ -1,7 +1,22 @@
 import { Star } from "lucide-react";
 
-import type { Car, Location } from "@/lib/db/definitions";
+import type {
+  AddOn,
+  AddOnStock,
+  Car,
+  Location,
+  OneWayFee,
+} from "@/lib/db/definitions";
+import type { Locale } from "@/lib/i18n/config";
 
+import { createTranslator } from "@/lib/i18n/translator";
+import {
+  getMinRentalHours,
+  getMinRentalMonths,
+  MAX_RENTAL_MONTHS,
+  offersHourlyRentals,
+  offersLongTermRentals,
+} from "@/lib/rental-duration";
 import { formatCurrency } from "@/lib/utils";
 import { ReservationForm } from "./reservation-form";
 
@@ -12,10 +27,27 @@ type ReservationSidebarProps = {
   rating: string;
   reviews: number;
   locations: Location[];
+  oneWayFees: OneWayFee[];
+  addOns: AddOn[];
+  addOnStock: AddOnStock[];
+  locale: Locale;
 };
 
 export function ReservationSidebar(props: ReservationSidebarProps) {
-  const { car, pricePerDay, currency, rating, reviews, locations } = props;
+  const {
+    car,
+    pricePerDay,
+    currency,
+    rating,
+    reviews,
+    locations,
+    oneWayFees,
+    addOns,
+    addOnStock,
+    locale,
+  } = props;
+  const t = createTranslator(locale);
+  const price = (amount: number) => formatCurrency(amount, currency, locale);
 
   return (
     <div className="min-h-[calc(100vh-3rem)] normal-nums">
@@ -23,9 +55,11 @@ export function ReservationSidebar(props: ReservationSidebarProps) {
         <div className="grid grid-cols-1 items-baseline gap-4 lg:grid-cols-2">
           <div className="flex items-baseline gap-1.5 ">
             <span className="shrink-0 text-xl font-semibold tracking-tight">
-              {formatCurrency(pricePerDay, currency)}
+              {price(pricePerDay)}
+            </span>
+            <span className="text-muted-foreground">
+              {t("cars.card.perDay")}
             </span>
-            <span className="text-muted-foreground">day</span>
           </div>
 
           <div className="flex items-baseline gap-1 tracking-tight lg:justify-end">
@@ -36,16 +70,44 @@ export function ReservationSidebar(props: ReservationSidebarProps) {
               <>
                 <span>·</span>
                 <span className="text-muted-foreground text-sm">
-                  {reviews} reviews
+                  {t("carPage.reviews", { count: reviews })}
                 </span>
               </>
             )}
           </div>
         </div>
 
+        {offersHourlyRentals(car) && (
+          <p className="text-muted-foreground mt-2 text-sm">
+            {t("carPage.hourlyRate", {
+              price: price(car.price_per_hour!),
+              hours: getMinRentalHours(car),
+            })}
+          </p>
+        )}
+
+        {!!car.price_per_week && (
+          <p className="text-muted-foreground mt-2 text-sm">
+            {t("carPage.weeklyRate", { price: price(car.price_per_week) })}
+          </p>
+        )}
+
+        {offersLongTermRentals(car) && (
+          <p className="text-muted-foreground mt-2 text-sm">
+            {t("carPage.monthlyRate", {
+              price: price(car.price_per_month!),
+              months: MAX_RENTAL_MONTHS,
+              minMonths: getMinRentalMonths(car),
+            })}
+          </p>
+        )}
+
         <ReservationForm
           car={car}
           locations={locations}
+          oneWayFees={oneWayFees}
+          addOns={addOns}
+          addOnStock={addOnStock}
           pricePerDay={pricePerDay}
           currency={currency}
         />
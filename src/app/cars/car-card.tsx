@@ -1,6 +1,8 @@
 import Image from "next/image";
 import { Gauge, Star } from "lucide-react";
 
+import type { DisplayCurrency } from "@/lib/currency";
+
 import {
   Card,
   CardContent,
@@ -9,17 +11,32 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import { getCarImageUrl } from "@/lib/car-images";
+import { toDisplayPrice } from "@/lib/currency";
 import { fetchCarBySlug } from "@/lib/db/queries";
+import { getTranslations } from "@/lib/i18n/server";
 import { cn, formatCurrency } from "@/lib/utils";
 import { CarDetailsButton } from "./details-button";
 
 type CarCardProps = {
   index: number;
   slug: string;
+  /** Shows the hourly price instead of the daily price */
+  hourly?: boolean;
+  /** Prices are converted to it, the car is still charged in its own currency */
+  displayCurrency: DisplayCurrency;
 };
 
-export async function CarCard({ index, slug }: CarCardProps) {
-  const car = await fetchCarBySlug(slug);
+export async function CarCard({
+  index,
+  slug,
+  hourly = false,
+  displayCurrency,
+}: CarCardProps) {
+  const [car, { locale, t }] = await Promise.all([
+    fetchCarBySlug(slug),
+    getTranslations(),
+  ]);
 
   if (!car) {
     return null;
@@ -27,7 +44,6 @@ export async function CarCard({ index, slug }: CarCardProps) {
 
   const {
     name,
-    image_url,
     transmission,
     engine_type,
     seats,
@@ -35,11 +51,19 @@ export async function CarCard({ index, slug }: CarCardProps) {
     discounted_price_currency,
     retail_price_per_day,
     retail_price_currency,
+    price_per_hour,
     rating,
     reviews,
     unlimited_mileage,
   } = car;
 
+  const showHourlyPrice = hourly && !!price_per_hour;
+
+  const formatPrice = (amount: number, currency: string) => {
+    const price = toDisplayPrice(amount, currency, displayCurrency);
+    return formatCurrency(price.amount, price.currency, locale);
+  };
+
   return (
     <Card className="transition-shadow duration-300 hover:shadow-md">
       <CardHeader>
@@ -64,14 +88,14 @@ export async function CarCard({ index, slug }: CarCardProps) {
           )}
         >
           <Gauge className="mr-1.5 inline-block size-4" />
-          Unlimited mileage
+          {t("cars.card.unlimitedMileage")}
         </div>
       </CardHeader>
 
       <CardContent>
         <div className="relative h-20 w-full">
           <Image
-            src={image_url}
+            src={getCarImageUrl(car, "thumbnail")}
             alt={name}
             fill
             sizes="250px"
@@ -86,29 +110,35 @@ export async function CarCard({ index, slug }: CarCardProps) {
           <Separator orientation="vertical" decorative className="h-4" />
           <p>{engine_type}</p>
           <Separator orientation="vertical" decorative className="h-4" />
-          <p>{seats} Seats</p>
+          <p>{t("cars.card.seats", { count: seats })}</p>
         </div>
 
         <div className="mt-4 text-base">
-          {discounted_price_per_day ?
+          {showHourlyPrice ?
+            <span className="font-semibold">
+              {formatPrice(price_per_hour!, retail_price_currency)}
+            </span>
+          : discounted_price_per_day ?
             <>
               <span className="text-muted-foreground mr-1.5 line-through">
-                {retail_price_per_day}
+                {formatPrice(retail_price_per_day, retail_price_currency)}
               </span>
 
               <span className="font-semibold">
-                {formatCurrency(
+                {formatPrice(
                   discounted_price_per_day,
-                  discounted_price_currency!
+                  discounted_price_currency ?? retail_price_currency
                 )}
               </span>
             </>
           : <span className=" font-semibold">
-              {formatCurrency(retail_price_per_day, retail_price_currency)}
+              {formatPrice(retail_price_per_day, retail_price_currency)}
             </span>
           }
 
-          <span className="ml-1 text-sm font-medium">day</span>
+          <span className="ml-1 text-sm font-medium">
+            {showHourlyPrice ? t("cars.card.perHour") : t("cars.card.perDay")}
+          </span>
         </div>
       </CardContent>
 
@@ -5,10 +5,12 @@ import { useSearchParams } from "next/navigation";
 
 import { Button } from "@/components/ui/button";
 import { SearchParams } from "@/lib/enums";
+import { useTranslations } from "@/lib/i18n/client";
 import { createUrl } from "@/lib/utils";
 
 export function CarDetailsButton({ slug }: { slug: string }) {
   const searchParams = useSearchParams();
+  const { t } = useTranslations();
   const newParams = new URLSearchParams(searchParams.toString());
 
   const location = searchParams.get(SearchParams.LOCATION);
@@ -23,7 +25,7 @@ export function CarDetailsButton({ slug }: { slug: string }) {
 
   return (
     <Button className="w-full" asChild>
-      <Link href={href}>View details</Link>
+      <Link href={href}>{t("cars.card.viewDetails")}</Link>
     </Button>
   );
 }
@@ -18,6 +18,7 @@ import {
 } from "@/components/ui/dialog";
 import { Separator } from "@/components/ui/separator";
 import { SearchParams } from "@/lib/enums";
+import { useTranslations } from "@/lib/i18n/client";
 import { createUrl } from "@/lib/utils";
 import { BodyStyleFilters } from "./filters/body-styles";
 import { EngineTypeFilters } from "./filters/engine-types";
@@ -37,11 +38,18 @@ export type SelectedFilters = {
 type FiltersProps = {
   initialMinPrice: number;
   initialMaxPrice: number;
+  /** Currency of the price range, the display currency */
+  currency: string;
 };
 
-export function Filters({ initialMinPrice, initialMaxPrice }: FiltersProps) {
+export function Filters({
+  initialMinPrice,
+  initialMaxPrice,
+  currency,
+}: FiltersProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const { t } = useTranslations();
 
   const [isDialogOpen, setIsDialogOpen] = React.useState(false);
   const [totalSelectedFilters, setTotalSelectedFilters] = React.useState(0);
@@ -184,19 +192,22 @@ export function Filters({ initialMinPrice, initialMaxPrice }: FiltersProps) {
         })}
       >
         <Filter className="mr-2 size-4 shrink-0" />
-        Filters
+        {t("filters.title")}
         <CounterBadge count={totalSelectedFilters} />
       </DialogTrigger>
 
       <DialogContent className="flex max-h-[calc(100dvh-4rem)] flex-col gap-0 p-0 sm:max-w-3xl">
         <DialogHeader className="flex h-28 items-center justify-center">
-          <DialogTitle className="text-center lg:text-3xl">Filters</DialogTitle>
+          <DialogTitle className="text-center lg:text-3xl">
+            {t("filters.title")}
+          </DialogTitle>
         </DialogHeader>
 
         <div className="flex h-full grow flex-col space-y-6 overflow-y-auto border-y p-6">
           <PriceRangeFilters
             minPrice={initialMinPrice}
             maxPrice={initialMaxPrice}
+            currency={currency}
             selectedFilters={selectedFilters}
             setSelectedFilters={setSelectedFilters}
           />
@@ -229,14 +240,14 @@ export function Filters({ initialMinPrice, initialMaxPrice }: FiltersProps) {
               onClick={handleFiltersReset}
               className="w-24 text-sm font-semibold transition-shadow duration-200 hover:shadow"
             >
-              Clear all
+              {t("filters.clearAll")}
             </Button>
 
             <Button
               onClick={handleFiltersApply}
               className="w-24 text-sm font-semibold transition-shadow duration-200 hover:shadow"
             >
-              Show cars
+              {t("filters.showCars")}
             </Button>
           </div>
         </DialogFooter>
@@ -4,6 +4,7 @@ import type { Dispatch, SetStateAction } from "react";
 import { Icons } from "@/components/icons";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { BodyStyle } from "@/lib/enums";
+import { useTranslations } from "@/lib/i18n/client";
 
 export const bodyStyles = [
   { slug: BodyStyle.HATCHBACK, name: "Hatchback", icon: Icons.hatchback },
@@ -25,6 +26,7 @@ type BodyStyleFiltersProps = {
 
 export function BodyStyleFilters(props: BodyStyleFiltersProps) {
   const { selectedFilters, setSelectedFilters } = props;
+  const { t } = useTranslations();
 
   function toggleBodyStyle(slug: string[]) {
     setSelectedFilters((prev) => ({
@@ -35,7 +37,7 @@ export function BodyStyleFilters(props: BodyStyleFiltersProps) {
 
   return (
     <section>
-      <h3 className="pb-6 text-xl font-semibold">Body Style</h3>
+      <h3 className="pb-6 text-xl font-semibold">{t("filters.bodyStyle")}</h3>
 
       <ToggleGroup
         type="multiple"
@@ -44,7 +46,7 @@ export function BodyStyleFilters(props: BodyStyleFiltersProps) {
         onValueChange={toggleBodyStyle}
         className="grid size-full grid-cols-2 items-center gap-4 sm:grid-cols-3 lg:grid-cols-4"
       >
-        {bodyStyles.map(({ icon: Icon, slug, name }) => {
+        {bodyStyles.map(({ icon: Icon, slug }) => {
           return (
             <ToggleGroupItem
               key={slug}
@@ -52,7 +54,9 @@ export function BodyStyleFilters(props: BodyStyleFiltersProps) {
               className="flex h-32 w-full flex-col items-start justify-between p-4"
             >
               <Icon className="size-8" />
-              <span className="text-base font-medium">{name}</span>
+              <span className="text-base font-medium">
+                {t(`bodyStyles.${slug}`)}
+              </span>
             </ToggleGroupItem>
           );
         })}
@@ -5,8 +5,9 @@ import type { Dispatch, SetStateAction } from "react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { EngineType } from "@/lib/enums";
+import { useTranslations } from "@/lib/i18n/client";
 
-const engineTypes = [
+export const engineTypes = [
   { slug: EngineType.GAS, name: "Gas" },
   { slug: EngineType.HYBRID, name: "Hybrid" },
   { slug: EngineType.ELECTRIC, name: "Electric" },
@@ -19,6 +20,7 @@ type EngineTypeFiltersProps = {
 
 export function EngineTypeFilters(props: EngineTypeFiltersProps) {
   const { selectedFilters, setSelectedFilters } = props;
+  const { t } = useTranslations();
 
   const toggleEngineType = (engineType: EngineType, checked: CheckedState) => {
     setSelectedFilters((filters) => {
@@ -33,10 +35,10 @@ export function EngineTypeFilters(props: EngineTypeFiltersProps) {
 
   return (
     <section>
-      <h3 className="pb-6 text-xl font-semibold">Engine type</h3>
+      <h3 className="pb-6 text-xl font-semibold">{t("filters.engineType")}</h3>
 
       <div className="grid grid-cols-2 items-center">
-        {engineTypes.map(({ slug, name }) => (
+        {engineTypes.map(({ slug }) => (
           <div key={slug} className="flex items-center py-2">
             <Checkbox
               id={slug}
@@ -49,7 +51,7 @@ export function EngineTypeFilters(props: EngineTypeFiltersProps) {
               htmlFor={slug}
               className="w-full cursor-pointer pl-4 text-base font-normal"
             >
-              {name}
+              {t(`engineTypes.${slug}`)}
             </Label>
           </div>
         ))}
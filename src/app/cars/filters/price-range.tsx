@@ -5,17 +5,24 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Slider } from "@/components/ui/slider";
-import { formatCurrency } from "@/lib/utils";
+import { getCurrencySymbol } from "@/lib/currency";
+import { useTranslations } from "@/lib/i18n/client";
+import { cn } from "@/lib/utils";
 
 type PriceRangeFiltersProps = {
   minPrice: number;
   maxPrice: number;
+  currency: string;
   selectedFilters: SelectedFilters;
   setSelectedFilters: Dispatch<SetStateAction<SelectedFilters>>;
 };
 
 export function PriceRangeFilters(props: PriceRangeFiltersProps) {
-  const { minPrice, maxPrice, selectedFilters, setSelectedFilters } = props;
+  const { minPrice, maxPrice, currency, selectedFilters, setSelectedFilters } =
+    props;
+
+  const { locale, t } = useTranslations();
+  const symbol = getCurrencySymbol(currency, locale);
 
   const handleSliderChange = (priceRange: number[]) => {
     setSelectedFilters({
@@ -27,7 +34,7 @@ export function PriceRangeFilters(props: PriceRangeFiltersProps) {
 
   return (
     <section className="">
-      <h3 className="pb-6 text-xl font-semibold">Price range</h3>
+      <h3 className="pb-6 text-xl font-semibold">{t("filters.priceRange")}</h3>
 
       <div className="mx-auto flex max-w-[600px] flex-col items-start justify-between gap-12 pt-2">
         <Slider
@@ -47,15 +54,16 @@ export function PriceRangeFilters(props: PriceRangeFiltersProps) {
               htmlFor="min-price"
               className="text-muted-foreground absolute left-2.5 top-1.5 text-xs font-normal"
             >
-              Minimum
+              {t("filters.minimum")}
             </Label>
-            <span className="absolute bottom-3 left-3 text-sm">
-              {formatCurrency(0, "INR").charAt(0)}
-            </span>
+            <span className="absolute bottom-3 left-3 text-sm">{symbol}</span>
             <Input
               id="min-price"
               readOnly
-              className="absolute inset-0 h-full bg-transparent pl-6 pr-4 pt-5"
+              className={cn(
+                "absolute inset-0 h-full bg-transparent pr-4 pt-5",
+                symbol.length > 1 ? "pl-12" : "pl-6"
+              )}
               value={selectedFilters.minPrice}
             />
           </div>
@@ -71,15 +79,16 @@ export function PriceRangeFilters(props: PriceRangeFiltersProps) {
               htmlFor="max-price"
               className="text-muted-foreground absolute left-2.5 top-1.5 text-xs font-normal"
             >
-              Maximum
+              {t("filters.maximum")}
             </Label>
-            <span className="absolute bottom-3 left-3 text-sm">
-              {formatCurrency(0, "INR").charAt(0)}
-            </span>
+            <span className="absolute bottom-3 left-3 text-sm">{symbol}</span>
             <Input
               id="max-price"
               readOnly
-              className="absolute inset-0 h-full bg-transparent pl-6 pr-4 pt-5"
+              className={cn(
+                "absolute inset-0 h-full bg-transparent pr-4 pt-5",
+                symbol.length > 1 ? "pl-12" : "pl-6"
+              )}
               value={selectedFilters.maxPrice}
             />
           </div>
@@ -2,6 +2,7 @@ import type { SelectedFilters } from "../filters";
 import type { Dispatch, SetStateAction } from "react";
 
 import { Button } from "@/components/ui/button";
+import { useTranslations } from "@/lib/i18n/client";
 import { cn } from "@/lib/utils";
 
 type SeatingCapacityFiltersProps = {
@@ -11,6 +12,7 @@ type SeatingCapacityFiltersProps = {
 
 export function SeatingCapacityFilters(props: SeatingCapacityFiltersProps) {
   const { selectedFilters, setSelectedFilters } = props;
+  const { t } = useTranslations();
 
   const handleClick = (seats: number | undefined) => {
     setSelectedFilters({
@@ -21,7 +23,9 @@ export function SeatingCapacityFilters(props: SeatingCapacityFiltersProps) {
 
   return (
     <section>
-      <h3 className="pb-6 text-xl font-semibold">Seating capacity</h3>
+      <h3 className="pb-6 text-xl font-semibold">
+        {t("filters.seatingCapacity")}
+      </h3>
 
       <div className="mb-2 flex flex-row flex-wrap items-center gap-3">
         {[undefined, 2, 3, 4, 5, 6, 7].map((seats, index, array) => {
@@ -37,7 +41,7 @@ export function SeatingCapacityFilters(props: SeatingCapacityFiltersProps) {
               )}
             >
               {seats === undefined ?
-                "Any"
+                t("filters.anySeats")
               : index === array.length - 1 ?
                 `${seats}+`
               : seats}
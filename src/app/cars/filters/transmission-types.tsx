@@ -5,8 +5,9 @@ import type { Dispatch, SetStateAction } from "react";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Transmission } from "@/lib/enums";
+import { useTranslations } from "@/lib/i18n/client";
 
-const transmissions = [
+export const transmissions = [
   { slug: Transmission.AUTOMATIC, name: "Automatic" },
   { slug: Transmission.MANUAL, name: "Manual" },
 ];
@@ -18,6 +19,7 @@ type TransmissionFiltersProps = {
 
 export function TransmissionFilters(props: TransmissionFiltersProps) {
   const { selectedFilters, setSelectedFilters } = props;
+  const { t } = useTranslations();
 
   const handleCheckedChange = (
     checked: CheckedState,
@@ -35,10 +37,12 @@ export function TransmissionFilters(props: TransmissionFiltersProps) {
 
   return (
     <section>
-      <h3 className="pb-6 text-xl font-semibold">Transmission</h3>
+      <h3 className="pb-6 text-xl font-semibold">
+        {t("filters.transmission")}
+      </h3>
 
       <div className="grid grid-cols-2 items-center">
-        {transmissions.map(({ slug, name }) => (
+        {transmissions.map(({ slug }) => (
           <div key={slug} className="flex items-center py-2">
             <Checkbox
               id={slug}
@@ -50,7 +54,7 @@ export function TransmissionFilters(props: TransmissionFiltersProps) {
               htmlFor={slug}
               className="w-full cursor-pointer pl-4 text-base font-normal"
             >
-              {name}
+              {t(`transmissions.${slug}`)}
             </Label>
           </div>
         ))}
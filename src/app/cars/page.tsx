@@ -6,12 +6,20 @@ import { MapContainer } from "@/components/map-container";
 import { SearchForm } from "@/components/search-form";
 import { CarCatalogSkeleton } from "@/components/skeletons/car-catalog-skeleton";
 import { SearchFormSkeleton } from "@/components/skeletons/search-form-skeleton";
+import { toDisplayPrice } from "@/lib/currency";
 import {
   fetchAvailableCars,
   fetchCarsByLocation,
   fetchLocations,
 } from "@/lib/db/queries";
-import { SearchParams } from "@/lib/enums";
+import { getDisplayCurrency } from "@/lib/display-currency";
+import { RentalMode, SearchParams } from "@/lib/enums";
+import { getTranslations } from "@/lib/i18n/server";
+import {
+  getBillableTime,
+  getRentalDurationError,
+  offersHourlyRentals,
+} from "@/lib/rental-duration";
 import { slugify } from "@/lib/utils";
 import { CarCard } from "./car-card";
 import { Filters } from "./filters";
@@ -27,6 +35,7 @@ type CarsPageProps = {
     [SearchParams.ENGINE_TYPE]?: string[];
     [SearchParams.TRANSMISSION]?: string[];
     [SearchParams.MIN_SEATS]?: string;
+    [SearchParams.RENTAL_MODE]?: RentalMode;
   }>;
 };
 
@@ -36,25 +45,52 @@ export default async function CarsPage(props: CarsPageProps) {
     [SearchParams.LOCATION]: location,
     [SearchParams.CHECKIN]: checkin,
     [SearchParams.CHECKOUT]: checkout,
+    [SearchParams.RENTAL_MODE]: mode,
   } = searchParams;
 
+  const isHourly = mode === RentalMode.HOURLY;
+
   // Check if location is provided (dates are optional for basic filtering)
   const hasLocation = !!location;
   const hasDates = checkin && checkout;
 
-  const [cars, locations] = await Promise.all([
+  const [availableCars, locations, displayCurrency, { t }] = await Promise.all([
     hasLocation ?
       hasDates ?
         fetchAvailableCars(location, new Date(checkin), new Date(checkout))
       : fetchCarsByLocation(location)
     : [],
     fetchLocations(),
+    getDisplayCurrency(),
+    getTranslations(),
   ]);
 
-  const carPrices = cars.map(
-    (car) => car.discounted_price_per_day || car.retail_price_per_day
+  // Hourly searches only list cars rented by the hour, priced per hour, and long searches only
+  // list cars that can be rented for that long
+  const cars = availableCars.filter(
+    (car) =>
+      (!isHourly || offersHourlyRentals(car)) &&
+      (!hasDates ||
+        !getRentalDurationError(
+          car,
+          getBillableTime(car, new Date(checkin), new Date(checkout)).days
+        ))
   );
 
+  // Prices are filtered in the display currency, as shown on the cards
+  const getPrice = (car: (typeof cars)[number]) =>
+    toDisplayPrice(
+      isHourly ?
+        car.price_per_hour!
+      : car.discounted_price_per_day || car.retail_price_per_day,
+      (!isHourly && car.discounted_price_per_day ?
+        car.discounted_price_currency
+      : null) ?? car.retail_price_currency,
+      displayCurrency
+    ).amount;
+
+  const carPrices = cars.map(getPrice);
+
   let filteredCars = cars;
 
   const {
@@ -67,18 +103,10 @@ export default async function CarsPage(props: CarsPageProps) {
   } = searchParams;
 
   if (minPrice) {
-    filteredCars = filteredCars.filter((car) => {
-      const currentPrice =
-        car.discounted_price_per_day || car.retail_price_per_day;
-      return currentPrice >= +minPrice;
-    });
+    filteredCars = filteredCars.filter((car) => getPrice(car) >= +minPrice);
   }
   if (maxPrice) {
-    filteredCars = filteredCars.filter((car) => {
-      const currentPrice =
-        car.discounted_price_per_day || car.retail_price_per_day;
-      return currentPrice <= +maxPrice;
-    });
+    filteredCars = filteredCars.filter((car) => getPrice(car) <= +maxPrice);
   }
   if (bodyStyles) {
     filteredCars = filteredCars.filter(({ body_style }) =>
@@ -105,7 +133,7 @@ export default async function CarsPage(props: CarsPageProps) {
         <div className="mx-auto w-full max-w-none px-5 sm:max-w-none sm:px-6">
           <div className="flex items-center justify-between">
             <p className="text-lg font-semibold">
-              {`${filteredCars.length} car${cars.length > 1 ? "s" : ""}`}
+              {t("cars.count", { count: filteredCars.length })}
             </p>
 
             <div className="-mt-16">
@@ -119,8 +147,9 @@ export default async function CarsPage(props: CarsPageProps) {
             </div>
 
             <Filters
-              initialMinPrice={Math.min(...carPrices)}
-              initialMaxPrice={Math.max(...carPrices)}
+              initialMinPrice={Math.floor(Math.min(...carPrices))}
+              initialMaxPrice={Math.ceil(Math.max(...carPrices))}
+              currency={displayCurrency.currency}
             />
           </div>
         </div>
@@ -134,30 +163,40 @@ export default async function CarsPage(props: CarsPageProps) {
                 <div className="flex h-[calc(100dvh-11rem)] flex-col items-center justify-center rounded-md border-2 border-dashed">
                   <Search size={44} />
                   <div className="text-center">
-                    <h1 className="text-xl font-semibold">Search for cars</h1>
+                    <h1 className="text-xl font-semibold">
+                      {t("cars.search.title")}
+                    </h1>
                     <p className="text-muted-foreground mt-3">
-                      Please select a location and dates to see available cars.
+                      {t("cars.search.description")}
                     </p>
                     <Link
                       href="/"
                       className="text-primary mt-4 inline-block font-medium hover:underline"
                     >
-                      Go to homepage to search
+                      {t("cars.search.link")}
                     </Link>
                   </div>
                 </div>
               : filteredCars.length ?
                 <div className="grid grid-cols-[repeat(auto-fill,minmax(250px,1fr))] justify-center gap-3">
                   {filteredCars.map(({ id, slug }, index) => (
-                    <CarCard key={id} index={index} slug={slug} />
+                    <CarCard
+                      key={id}
+                      index={index}
+                      slug={slug}
+                      hourly={isHourly}
+                      displayCurrency={displayCurrency}
+                    />
                   ))}
                 </div>
               : <div className="flex h-[calc(100dvh-11rem)] flex-col items-center justify-center rounded-md border-2 border-dashed">
                   <FilterX size={44} />
                   <div className="text-center">
-                    <h1 className="text-xl font-semibold">No exact matches</h1>
+                    <h1 className="text-xl font-semibold">
+                      {t("cars.noMatches.title")}
+                    </h1>
                     <p className="text-muted-foreground mt-3">
-                      Try changing or removing some of your filters.
+                      {t("cars.noMatches.description")}
                     </p>
                   </div>
                 </div>
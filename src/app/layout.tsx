@@ -9,6 +9,7 @@ import { TailwindIndicator } from "@/components/tailwind-indicator";
 import { Toaster } from "@/components/ui/sonner";
 import { siteConfig } from "@/config/site";
 import { fontHeading, fontSans } from "@/lib/fonts";
+import { getLocale } from "@/lib/i18n/server";
 import { absoluteUrl, cn } from "@/lib/utils";
 
 export const viewport: Viewport = {
@@ -63,9 +64,13 @@ export const metadata: Metadata = {
   metadataBase: new URL(absoluteUrl("/")),
 };
 
-export default function RootLayout({ children }: React.PropsWithChildren) {
+export default async function RootLayout({
+  children,
+}: React.PropsWithChildren) {
+  const locale = await getLocale();
+
   return (
-    <html lang="en" suppressHydrationWarning>
+    <html lang={locale} suppressHydrationWarning>
       <body
         className={cn(
           fontSans.variable,
@@ -73,7 +78,7 @@ export default function RootLayout({ children }: React.PropsWithChildren) {
           "scroll-smooth font-sans antialiased"
         )}
       >
-        <Providers>
+        <Providers locale={locale}>
           <SiteHeader />
           <div className="min-h-[calc(100dvh-3rem)]">{children}</div>
           <SiteFooter />
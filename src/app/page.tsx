@@ -20,13 +20,16 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
 import { siteConfig } from "@/config/site";
+import { BASE_CURRENCY, toDisplayPrice } from "@/lib/currency";
 import {
   fetchFeaturedLocations,
   fetchLocations,
   fetchTestimonials,
   getMinPriceFromCars,
 } from "@/lib/db/queries";
+import { getDisplayCurrency } from "@/lib/display-currency";
 import { SearchParams } from "@/lib/enums";
+import { getTranslations } from "@/lib/i18n/server";
 import { formatCurrency, getGitHubStars } from "@/lib/utils";
 import {
   hatchback,
@@ -53,25 +56,29 @@ export default async function Page() {
 }
 
 async function Hero() {
-  const locations = await fetchLocations();
+  const [locations, { t }] = await Promise.all([
+    fetchLocations(),
+    getTranslations(),
+  ]);
+
   return (
     <section className="from-background to-muted via-muted border-b bg-gradient-to-b">
       <h1 className="from-foreground font-heading bg-gradient-to-t to-zinc-600 bg-clip-text text-center text-5xl text-transparent xl:text-6xl dark:bg-gradient-to-b">
-        Find your car
+        {t("home.hero.title")}
       </h1>
 
       <div className="mx-auto mt-6 flex max-w-4xl flex-wrap items-center justify-center gap-4 text-sm font-medium md:gap-12">
         <div className="flex shrink-0 items-center justify-center gap-1.5">
           <CheckCircle className="size-5 shrink-0 text-green-500" />
-          <span>No hidden fees.</span>
+          <span>{t("home.hero.noHiddenFees")}</span>
         </div>
         <div className="flex shrink-0 items-center justify-center gap-1.5">
           <CheckCircle className="size-5 shrink-0 text-green-500" />
-          <span>Transparent pricing.</span>
+          <span>{t("home.hero.transparentPricing")}</span>
         </div>
         <div className="flex shrink-0 items-center justify-center gap-1.5">
           <CheckCircle className="size-5 shrink-0 text-green-500" />
-          <span>Flexible cancellations.</span>
+          <span>{t("home.hero.flexibleCancellations")}</span>
         </div>
       </div>
       <div className="mt-5 px-4 md:px-0">
@@ -86,7 +93,8 @@ async function Hero() {
   );
 }
 
-function BodyStyleCarExplorer() {
+async function BodyStyleCarExplorer() {
+  const { t } = await getTranslations();
   const imageMap: { [key: string]: StaticImageData } = {
     hatchback: hatchback,
     minivan: minivan,
@@ -98,16 +106,17 @@ function BodyStyleCarExplorer() {
 
   return (
     <section className="container pt-10">
-      <h2 className="font-heading text-2xl">Popular Rental Car Choices</h2>
+      <h2 className="font-heading text-2xl">{t("home.bodyStyles.title")}</h2>
       <p className="text-muted-foreground text-sm">
-        Choose from a wide variety of vehicles
+        {t("home.bodyStyles.description")}
       </p>
 
       <div className="before:from-background after:from-background relative mt-8 before:absolute before:left-0 before:top-0 before:z-10 before:h-full before:w-[10%] before:bg-gradient-to-r after:absolute after:right-0 after:top-0 after:z-10 after:h-full after:w-[10%] after:bg-gradient-to-l">
         <ScrollArea>
           <div className="mb-4 space-x-2 whitespace-nowrap">
-            {bodyStyles.map(({ slug, name }) => {
+            {bodyStyles.map(({ slug }) => {
               const imageUrl = imageMap[slug];
+              const name = t(`bodyStyles.${slug}`);
 
               return (
                 <div
@@ -152,19 +161,23 @@ function BodyStyleCarExplorer() {
 }
 
 async function DestinationCarExplorer() {
-  const currency = "INR";
-  const [featuredLocations, minPrice] = await Promise.all([
-    fetchFeaturedLocations(),
-    getMinPriceFromCars(),
-  ]);
+  const [featuredLocations, minPrice, displayCurrency, { locale, t }] =
+    await Promise.all([
+      fetchFeaturedLocations(),
+      getMinPriceFromCars(),
+      getDisplayCurrency(),
+      getTranslations(),
+    ]);
+
+  // The fleet is priced in the base currency
+  const fromPrice =
+    minPrice ? toDisplayPrice(minPrice, BASE_CURRENCY, displayCurrency) : null;
 
   return (
     <section className="container pt-10">
-      <h2 className="font-heading text-2xl">
-        Renting Trends: Must-Visit Places
-      </h2>
+      <h2 className="font-heading text-2xl">{t("home.destinations.title")}</h2>
       <p className="text-muted-foreground text-sm">
-        Explore our most popular destinations
+        {t("home.destinations.description")}
       </p>
 
       <div className="mt-8 grid grid-cols-1 grid-rows-1 items-center justify-between sm:grid-cols-2 md:grid-cols-4">
@@ -193,9 +206,15 @@ async function DestinationCarExplorer() {
 
               <div className="ml-1 mt-3">
                 <h3 className="text-sm font-semibold">{name}</h3>
-                {minPrice && (
+                {fromPrice && (
                   <p className="text-muted-foreground mt-1 text-sm">
-                    Cars from {formatCurrency(minPrice, currency)}+
+                    {t("home.destinations.carsFrom", {
+                      price: formatCurrency(
+                        fromPrice.amount,
+                        fromPrice.currency,
+                        locale
+                      ),
+                    })}
                   </p>
                 )}
               </div>
@@ -207,12 +226,14 @@ async function DestinationCarExplorer() {
   );
 }
 
-function Features() {
+async function Features() {
+  const { t } = await getTranslations();
+
   return (
     <section className="bg-muted mt-10 border-t">
       <div className="mx-auto max-w-none px-5 py-14 sm:max-w-[90%] sm:px-0 lg:max-w-4xl">
         <h2 className="font-heading text-center text-2xl">
-          Discover Why We Stand Out
+          {t("home.features.title")}
         </h2>
 
         <div className="mt-12 grid grid-cols-1 items-center justify-center gap-8 md:grid-cols-3">
@@ -220,10 +241,11 @@ function Features() {
             <div className="bg-background flex size-12 items-center justify-center rounded-full border">
               <Sparkle className="size-6 text-neutral-500" />
             </div>
-            <p className="mt-6 font-semibold">Hassle-Free Booking</p>
+            <p className="mt-6 font-semibold">
+              {t("home.features.booking.title")}
+            </p>
             <p className="text-muted-foreground mt-2 max-w-sm text-sm leading-5">
-              Effortless booking process. Your perfect car, just a click away.
-              Enjoy seamless reservations and unlock great deals instantly.
+              {t("home.features.booking.description")}
             </p>
           </div>
 
@@ -231,11 +253,11 @@ function Features() {
             <div className="bg-background flex size-12 items-center justify-center rounded-full border">
               <ShieldCheck className="size-6 text-neutral-500" />
             </div>
-            <p className="mt-6 font-semibold">Secure Rentals</p>
+            <p className="mt-6 font-semibold">
+              {t("home.features.security.title")}
+            </p>
             <p className="text-muted-foreground mt-2 max-w-sm text-sm leading-5">
-              Your safety assured. Rigorous checks, transparent policies, and
-              comprehensive insurance. Travel worry-free with well-maintained
-              vehicles and reliable, secure rental services.
+              {t("home.features.security.description")}
             </p>
           </div>
 
@@ -243,11 +265,11 @@ function Features() {
             <div className="bg-background flex size-12 items-center justify-center rounded-full border">
               <Navigation className="size-6 text-neutral-500" />
             </div>
-            <p className="mt-6 font-semibold">Easy Navigation</p>
+            <p className="mt-6 font-semibold">
+              {t("home.features.navigation.title")}
+            </p>
             <p className="text-muted-foreground mt-2 max-w-sm text-sm leading-5">
-              Explore with confidence. User-friendly navigation tools to find
-              your way, making your travels smooth and enjoyable, wherever your
-              destination may be.
+              {t("home.features.navigation.description")}
             </p>
           </div>
         </div>
@@ -257,13 +279,16 @@ function Features() {
 }
 
 async function Testimonials() {
-  const testimonials = await fetchTestimonials();
+  const [testimonials, { t }] = await Promise.all([
+    fetchTestimonials(),
+    getTranslations(),
+  ]);
 
   return (
     <section className="border-t py-12">
       <div className="container">
         <h2 className="font-heading text-center text-2xl">
-          Driven by Feedback
+          {t("home.testimonials.title")}
         </h2>
         <div className="mt-4 columns-1 sm:columns-2 lg:columns-4">
           {testimonials.map(({ id, name, username, comment, image_url }) => (
@@ -296,14 +321,16 @@ async function Testimonials() {
   );
 }
 
-function CarExplorer() {
+async function CarExplorer() {
+  const { t } = await getTranslations();
+
   return (
     <section className="border-y py-8 md:py-24">
       <div className="container">
         <div className="flex flex-col items-start justify-between gap-x-6 gap-y-9 md:flex-row md:items-center">
           <h2 className="font-heading w-full text-center text-2xl leading-9 md:w-fit">
-            <p>Your Journey Begins Here.</p>
-            <p>Dive into Endless Possibilities!</p>
+            <p>{t("home.explore.title")}</p>
+            <p>{t("home.explore.subtitle")}</p>
           </h2>
 
           <Button size="lg" className="group mx-auto shadow-md md:mx-0" asChild>
@@ -311,7 +338,7 @@ function CarExplorer() {
               href="/cars"
               className="flex items-center justify-center gap-x-2 font-semibold"
             >
-              Explore Cars
+              {t("home.explore.button")}
               <ChevronRight className="size-4 duration-300 group-hover:translate-x-2" />
             </Link>
           </Button>
@@ -322,18 +349,21 @@ function CarExplorer() {
 }
 
 async function OpenSource() {
-  const stars = await getGitHubStars();
+  const [stars, { t }] = await Promise.all([
+    getGitHubStars(),
+    getTranslations(),
+  ]);
 
   return (
     <section className="bg-muted py-8 md:py-12 xl:py-16">
       <div className="container flex flex-col items-center justify-center gap-4 text-center">
         <h2 className="text-3xl font-semibold sm:text-4xl">
-          Proudly Open Source
+          {t("home.openSource.title")}
         </h2>
 
         <p className="text-muted-foreground max-w-[85%] sm:text-lg">
-          {siteConfig.name} is open source and powered by open source software.{" "}
-          <br /> The code is available on{" "}
+          {t("home.openSource.description", { name: siteConfig.name })} <br />{" "}
+          {t("home.openSource.availableOn")}{" "}
           <Link
             href={siteConfig.links.github}
             target="_blank"
@@ -359,7 +389,7 @@ async function OpenSource() {
             <div className="flex items-center">
               <div className="border-foreground size-4 border-y-8 border-r-8 border-y-transparent" />
               <div className="border-foreground bg-foreground text-background flex h-10 items-center rounded-md border px-4 font-medium shadow-md hover:shadow-lg">
-                {stars} stars on GitHub
+                {t("home.openSource.stars", { stars })}
               </div>
             </div>
           </Link>
@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { completeMockPayment } from "@/lib/actions/payments";
+
+type MockCheckoutProps = {
+  paymentId: string;
+  /** Where the customer is sent back to, as a real provider would */
+  returnUrl: string;
+  payLabel: string;
+};
+
+export function MockCheckout({
+  paymentId,
+  returnUrl,
+  payLabel,
+}: MockCheckoutProps) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleComplete = async (succeeded: boolean) => {
+    setIsLoading(true);
+
+    try {
+      const result = await completeMockPayment(paymentId, succeeded);
+
+      if (result.error) {
+        toast.error(result.error);
+        setIsLoading(false);
+        return;
+      }
+
+      window.location.assign(returnUrl);
+    } catch {
+      toast.error("Something went wrong. Please try again.");
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 flex gap-3">
+      <Button
+        className="flex-1"
+        onClick={() => handleComplete(true)}
+        disabled={isLoading}
+      >
+        {isLoading && <Loader2 className="mr-2 size-4 animate-spin" />}
+        {payLabel}
+      </Button>
+      <Button
+        variant="outline"
+        className="flex-1"
+        onClick={() => handleComplete(false)}
+        disabled={isLoading}
+      >
+        Decline
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { notFound } from "next/navigation";
+
+import type { Metadata } from "next";
+
+import { checkAuth } from "@/lib/auth";
+import { fromMinorUnits } from "@/lib/currency";
+import { fetchPaymentByProviderId } from "@/lib/db/queries";
+import { PaymentPurpose, PaymentStatus } from "@/lib/enums";
+import { env } from "@/lib/env";
+import { isMockPaymentAllowed, mockPaymentProvider } from "@/lib/payments/mock";
+import { formatCurrency } from "@/lib/utils";
+import { MockCheckout } from "./mock-checkout";
+
+type MockCheckoutPageProps = {
+  params: Promise<{ paymentId: string }>;
+  searchParams: Promise<{ return_url?: string }>;
+};
+
+export const metadata: Metadata = {
+  title: "Test payment",
+};
+
+/**
+ * Stands in for the checkout page of a payment provider, only while the mock provider is in use
+ */
+export default async function MockCheckoutPage({
+  params,
+  searchParams,
+}: MockCheckoutPageProps) {
+  if (env.PAYMENT_PROVIDER !== "mock" || !isMockPaymentAllowed()) {
+    notFound();
+  }
+
+  await checkAuth();
+  const { paymentId } = await params;
+  const { return_url: returnUrl } = await searchParams;
+
+  const payment = await fetchPaymentByProviderId(
+    mockPaymentProvider.name,
+    paymentId
+  );
+
+  if (!payment) {
+    notFound();
+  }
+
+  const reservationUrl = `/account/reservations/${payment.reservation_id}`;
+  const isDeposit = payment.purpose === PaymentPurpose.DEPOSIT;
+
+  return (
+    <main className="mx-auto w-full max-w-none px-5 md:max-w-[90%] md:px-0 lg:mt-4 xl:max-w-6xl">
+      <div className="flex h-40 flex-col justify-center">
+        <h1 className="text-3xl font-semibold">Test payment</h1>
+        <p className="text-muted-foreground mt-1">
+          No money is collected, choose how this payment ends.
+        </p>
+      </div>
+
+      <div className="mb-16 w-full max-w-lg rounded-xl border p-6">
+        <div className="flex justify-between font-semibold">
+          <span>
+            {isDeposit ? "Deposit" : "Amount"} ({payment.currency})
+          </span>
+          <span>
+            {formatCurrency(
+              fromMinorUnits(payment.amount, payment.currency),
+              payment.currency
+            )}
+          </span>
+        </div>
+        <p className="text-muted-foreground mt-1 text-xs">
+          Reference: {payment.reservation_id}
+        </p>
+        {isDeposit && (
+          <p className="text-muted-foreground mt-4 text-sm">
+            The deposit is held on your card and released after the rental,
+            unless some of it is kept for damages.
+          </p>
+        )}
+
+        {payment.status === PaymentStatus.PENDING ?
+          <MockCheckout
+            paymentId={paymentId}
+            returnUrl={returnUrl ?? reservationUrl}
+            payLabel={isDeposit ? "Authorize" : "Pay"}
+          />
+        : <p className="text-muted-foreground mt-6">
+            This payment is no longer pending ({payment.status}).
+          </p>
+        }
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import { useTransition } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+
+import type { AddOnSelection } from "@/lib/add-ons";
+import type { AddOn } from "@/lib/db/definitions";
+
+import { AddOnPicker } from "@/components/add-on-picker";
+import { serializeAddOnSelections } from "@/lib/add-ons";
+import { SearchParams } from "@/lib/enums";
+import { createUrl } from "@/lib/utils";
+
+type AddOnsSelectorProps = {
+  addOns: AddOn[];
+  availability?: Record<string, number>;
+  selected: AddOnSelection[];
+};
+
+/**
+ * Keeps the add-ons picked on the confirm page in the URL, so that the page prices them again
+ */
+export function AddOnsSelector(props: AddOnsSelectorProps) {
+  const { addOns, availability, selected } = props;
+
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [isPending, startTransition] = useTransition();
+
+  const handleChange = (value: AddOnSelection[]) => {
+    const newParams = new URLSearchParams(searchParams.toString());
+    const serialized = serializeAddOnSelections(value);
+
+    if (serialized) {
+      newParams.set(SearchParams.ADD_ONS, serialized);
+    } else {
+      newParams.delete(SearchParams.ADD_ONS);
+    }
+
+    startTransition(() => {
+      router.replace(createUrl("/reservation", newParams), { scroll: false });
+    });
+  };
+
+  return (
+    <AddOnPicker
+      addOns={addOns}
+      availability={availability}
+      value={selected}
+      onChange={handleChange}
+      disabled={isPending}
+    />
+  );
+}
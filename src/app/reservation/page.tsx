@@ -1,21 +1,47 @@
 import Image from "next/image";
-import { differenceInDays } from "date-fns";
 import { Star } from "lucide-react";
 
+import { NightlyBreakdown } from "@/components/nightly-breakdown";
 import { Separator } from "@/components/ui/separator";
+import {
+  checkPromoCode,
+  getAddOnAvailability,
+} from "@/lib/actions/reservation";
+import { getOfferedAddOns, parseAddOnSelections } from "@/lib/add-ons";
 import { checkAuth } from "@/lib/auth";
-import { fetchCarBySlug, fetchLocationByValue } from "@/lib/db/queries";
+import {
+  describeCancellationPolicy,
+  resolveCancellationPolicy,
+} from "@/lib/cancellation-policy";
+import { convertCurrency } from "@/lib/currency";
+import {
+  fetchAddOns,
+  fetchAddOnStock,
+  fetchBodyStyleDeposits,
+  fetchCarBySlug,
+  fetchLocationByValue,
+} from "@/lib/db/queries";
+import { resolveDeposit } from "@/lib/deposits";
+import { getDisplayCurrency } from "@/lib/display-currency";
 import { SearchParams } from "@/lib/enums";
-import { formatCurrency, formatDates } from "@/lib/utils";
+import { getTranslations } from "@/lib/i18n/server";
+import { getPriceQuote } from "@/lib/pricing";
+import { formatRatePeriod, isRateLineItem } from "@/lib/rental-duration";
+import { formatCurrency, formatDateTime } from "@/lib/utils";
+import { AddOnsSelector } from "./add-ons-selector";
 import { NavigateBack } from "./navigate-back";
 import { PayButton } from "./pay-button";
+import { PromoCodeField } from "./promo-code-field";
 
 type ReservationPageProps = {
   searchParams: Promise<{
     [SearchParams.CAR_SLUG]: string;
     [SearchParams.LOCATION]: string;
+    [SearchParams.RETURN_LOCATION]?: string;
     [SearchParams.CHECKIN]?: string;
     [SearchParams.CHECKOUT]?: string;
+    [SearchParams.ADD_ONS]?: string;
+    [SearchParams.PROMO_CODE]?: string;
   }>;
 };
 
@@ -28,13 +54,20 @@ export default async function ReservationPage(props: ReservationPageProps) {
     checkin,
     checkout,
     location: locationSlug,
+    [SearchParams.RETURN_LOCATION]: returnLocationSlug = locationSlug,
     [SearchParams.CAR_SLUG]: carSlug,
+    [SearchParams.ADD_ONS]: addOnsParam,
+    [SearchParams.PROMO_CODE]: promoCodeParam,
   } = searchParams;
 
-  const [car, location] = await Promise.allSettled([
-    fetchCarBySlug(carSlug),
-    fetchLocationByValue(locationSlug),
-  ]);
+  const [car, location, returnLocation, addOns, addOnStock] =
+    await Promise.allSettled([
+      fetchCarBySlug(carSlug),
+      fetchLocationByValue(locationSlug),
+      fetchLocationByValue(returnLocationSlug),
+      fetchAddOns(),
+      fetchAddOnStock(),
+    ]);
 
   if (car.status === "rejected" || !car.value) {
     throw new Error("Failed to fetch car data.");
@@ -44,8 +77,17 @@ export default async function ReservationPage(props: ReservationPageProps) {
     throw new Error("Failed to fetch location data.");
   }
 
+  if (returnLocation.status === "rejected" || !returnLocation.value) {
+    throw new Error("Failed to fetch return location data.");
+  }
+
+  if (addOns.status === "rejected" || addOnStock.status === "rejected") {
+    throw new Error("Failed to fetch add-ons data.");
+  }
+
   const carData = car.value;
   const locationData = location.value;
+  const returnLocationData = returnLocation.value;
 
   // Check if dates are provided
   if (!checkin || !checkout) {
@@ -56,58 +98,179 @@ export default async function ReservationPage(props: ReservationPageProps) {
   const carName = carData.name;
   const rating = carData.rating;
   const reviews = carData.reviews;
-  const pricePerDay =
-    carData.discounted_price_per_day || carData.retail_price_per_day;
-  const currency =
-    carData.discounted_price_currency || carData.retail_price_currency;
 
-  const days = differenceInDays(new Date(checkout), new Date(checkin));
-  const subtotal = pricePerDay * days;
-  const taxesAndFees = subtotal * 0.16;
-  const total = subtotal + taxesAndFees;
+  // Prepare reservation data for the PayButton, prices are computed again on reservation
+  const offeredAddOns = getOfferedAddOns(
+    addOns.value,
+    addOnStock.value,
+    locationData.id
+  );
+  // Add-ons in the URL are limited to what the pickup location offers
+  const selectedAddOns = parseAddOnSelections(addOnsParam).flatMap(
+    ({ addOnId, quantity }) => {
+      const addOn = offeredAddOns.find(({ id }) => id === addOnId);
 
-  // Prepare reservation data for the PayButton
-  const reservationData = {
+      return addOn ?
+          [{ addOnId, quantity: Math.min(quantity, addOn.max_quantity!) }]
+        : [];
+    }
+  );
+
+  const bookingData = {
     carId: carData.id!,
     locationId: locationData.id!,
+    returnLocationId: returnLocationData.id!,
     checkIn: new Date(checkin),
     checkOut: new Date(checkout),
-    carName: carData.name,
-    carSlug: carData.slug,
-    locationName: locationData.name,
-    pricePerDay,
-    totalDays: days,
-    subtotal,
-    taxesAndFees,
-    total,
-    currency,
+    addOns: selectedAddOns,
   };
 
+  // The rental is priced without the promo code when it can't be redeemed
+  const promoCodeCheck =
+    promoCodeParam ?
+      await checkPromoCode({ ...bookingData, promoCode: promoCodeParam })
+    : null;
+
+  const reservationData = {
+    ...bookingData,
+    promoCode: promoCodeCheck?.success ? promoCodeParam : undefined,
+  };
+
+  const [
+    quote,
+    cancellationPolicy,
+    { availability },
+    displayCurrency,
+    bodyStyleDeposits,
+    { locale, t },
+  ] = await Promise.all([
+    getPriceQuote(reservationData),
+    resolveCancellationPolicy(carData, locationData),
+    getAddOnAvailability(reservationData),
+    getDisplayCurrency(),
+    fetchBodyStyleDeposits(),
+    getTranslations(),
+  ]);
+  const { currency } = quote;
+  const deposit = resolveDeposit(carData, bodyStyleDeposits);
+
+  // The reservation is charged in the car's currency, the converted total is only indicative
+  const convertedTotal =
+    displayCurrency.currency !== currency ?
+      convertCurrency(
+        quote.total,
+        currency,
+        displayCurrency.currency,
+        displayCurrency.rates
+      )
+    : null;
+
   return (
     <main className="mx-auto w-full max-w-none px-5 md:max-w-[90%] md:px-0 lg:mt-4 xl:max-w-6xl">
       <div className="flex h-40 items-center">
         <div className="flex gap-2 md:-ml-12">
           <NavigateBack />
-          <h1 className="text-3xl font-semibold">Confirm and pay</h1>
+          <h1 className="text-3xl font-semibold">{t("checkout.title")}</h1>
         </div>
       </div>
 
       <div className="flex w-full flex-col-reverse justify-between gap-10 md:flex-row">
         <div className="mx-auto w-full max-w-lg md:mx-0">
-          <h2 className="text-xl font-semibold">Your reservation</h2>
+          <h2 className="text-xl font-semibold">
+            {t("checkout.yourReservation")}
+          </h2>
 
           <div className="mt-4 space-y-1">
-            <h3 className="font-semibold">Dates</h3>
+            <h3 className="font-semibold">{t("reservationSummary.dates")}</h3>
             <p className="text-muted-foreground">
-              {formatDates(checkin, checkout)}
+              {formatDateTime(
+                reservationData.checkIn,
+                locationData.timezone,
+                locale
+              )}{" "}
+              –{" "}
+              {formatDateTime(
+                reservationData.checkOut,
+                returnLocationData.timezone,
+                locale
+              )}
             </p>
           </div>
 
+          {returnLocationData.id === locationData.id ?
+            <div className="mt-4 space-y-1">
+              <h3 className="font-semibold">{t("reservationSummary.place")}</h3>
+              <p className="text-muted-foreground">{locationData.name}</p>
+            </div>
+          : <>
+              <div className="mt-4 space-y-1">
+                <h3 className="font-semibold">
+                  {t("reservationSummary.pickUp")}
+                </h3>
+                <p className="text-muted-foreground">{locationData.name}</p>
+              </div>
+
+              <div className="mt-4 space-y-1">
+                <h3 className="font-semibold">
+                  {t("reservationSummary.dropOff")}
+                </h3>
+                <p className="text-muted-foreground">
+                  {returnLocationData.name}
+                </p>
+              </div>
+            </>
+          }
+
+          {offeredAddOns.length > 0 && (
+            <div className="mt-4 space-y-3">
+              <h3 className="font-semibold">
+                {t("reservationSummary.addOns")}
+              </h3>
+              <AddOnsSelector
+                addOns={offeredAddOns}
+                availability={availability}
+                selected={selectedAddOns}
+              />
+            </div>
+          )}
+
+          <div className="mt-4 space-y-3">
+            <h3 className="font-semibold">{t("checkout.promoCode.title")}</h3>
+            <PromoCodeField
+              key={promoCodeParam}
+              code={promoCodeParam}
+              error={promoCodeCheck?.error}
+            />
+          </div>
+
           <div className="mt-4 space-y-1">
-            <h3 className="font-semibold">Place</h3>
-            <p className="text-muted-foreground">{locationData.name}</p>
+            <h3 className="font-semibold">
+              {t("reservationSummary.cancellationPolicy", {
+                name: cancellationPolicy.name,
+              })}
+            </h3>
+            {describeCancellationPolicy(cancellationPolicy, t).map(
+              (sentence) => (
+                <p key={sentence} className="text-muted-foreground">
+                  {sentence}
+                </p>
+              )
+            )}
           </div>
 
+          {deposit && (
+            <div className="mt-4 space-y-1">
+              <h3 className="font-semibold">
+                {t("reservationSummary.deposit")}
+              </h3>
+              <p className="text-muted-foreground">
+                {t("checkout.deposit", {
+                  amount: formatCurrency(deposit, currency, locale),
+                })}
+              </p>
+            </div>
+          )}
+
           <Separator decorative className="my-8" />
 
           <PayButton reservationData={reservationData} />
@@ -123,7 +286,7 @@ export default async function ReservationPage(props: ReservationPageProps) {
                 <Star className="size-3" />
                 <span className="font-semibold">{rating}</span>
                 <span className="text-muted-foreground mt-5">
-                  ({reviews} reviews)
+                  {t("checkout.reviews", { count: reviews })}
                 </span>
               </div>
             </div>
@@ -139,28 +302,52 @@ export default async function ReservationPage(props: ReservationPageProps) {
           <Separator decorative className="my-6" />
 
           <div className="space-y-6">
-            <h1 className="text-xl font-semibold">Price Details</h1>
+            <h1 className="text-xl font-semibold">
+              {t("reservationSummary.priceDetails")}
+            </h1>
 
             <div className="text-muted-foreground flex flex-col gap-2">
-              <div className="flex justify-between">
-                <span className="underline">
-                  {formatCurrency(pricePerDay, currency)} x {days} days
-                </span>
-                <span>{formatCurrency(subtotal, currency)}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="underline">Taxes and fees</span>
-                <span>{formatCurrency(taxesAndFees, currency)}</span>
-              </div>
+              {quote.lineItems.map((item) => (
+                <div
+                  key={`${item.type}-${item.label}`}
+                  className="flex justify-between"
+                >
+                  <span className="underline">
+                    {isRateLineItem(item.type) ?
+                      `${formatCurrency(item.unitAmount, currency, locale)} x ${formatRatePeriod(item.type, item.quantity, t)}`
+                    : item.label}
+                  </span>
+                  <span>{formatCurrency(item.amount, currency, locale)}</span>
+                </div>
+              ))}
             </div>
+
+            <NightlyBreakdown
+              nights={quote.nights}
+              currency={currency}
+              locale={locale}
+            />
           </div>
 
           <Separator decorative className="my-6" />
 
           <div className="flex justify-between font-semibold">
-            <span>Total ({currency})</span>
-            <span>{formatCurrency(total, currency)}</span>
+            <span>{t("reservationSummary.total", { currency })}</span>
+            <span>{formatCurrency(quote.total, currency, locale)}</span>
           </div>
+
+          {convertedTotal !== null && (
+            <p className="text-muted-foreground mt-2 text-right text-sm">
+              {t("checkout.convertedTotal", {
+                amount: formatCurrency(
+                  convertedTotal,
+                  displayCurrency.currency,
+                  locale
+                ),
+                currency,
+              })}
+            </p>
+          )}
         </div>
       </div>
     </main>
@@ -7,13 +7,16 @@ import type { ReservationData } from "@/lib/actions/reservation";
 
 import { Button } from "@/components/ui/button";
 import { createReservation } from "@/lib/actions/reservation";
+import { useTranslations } from "@/lib/i18n/client";
 
 type PayButtonProps = {
   reservationData: ReservationData;
 };
 
 export function PayButton({ reservationData }: PayButtonProps) {
+  const { t } = useTranslations();
   const [isLoading, setIsLoading] = useState(false);
+  const [unavailableError, setUnavailableError] = useState<string>();
 
   const handleReserve = async () => {
     setIsLoading(true);
@@ -23,40 +26,64 @@ export function PayButton({ reservationData }: PayButtonProps) {
       const result = await createReservation(reservationData);
       console.log("Server response:", result);
 
+      if (result.unavailable) {
+        setUnavailableError(result.error);
+        toast.error(result.error);
+        return;
+      }
+
       if (result.error) {
         toast.error(result.error);
         return;
       }
 
       if (result.success && result.whatsappUrl) {
-        toast.success("Reservation created!", {
-          description: "Opening WhatsApp to confirm...",
+        const { whatsappUrl } = result;
+
+        toast.success(t("reservationForm.created"), {
+          description: t("reservationForm.openingWhatsApp"),
         });
 
-        // Small delay to show toast before opening
+        // Small delay to show toast before opening WhatsApp
         setTimeout(() => {
-          window.open(result.whatsappUrl, "_blank", "noopener,noreferrer");
+          window.open(whatsappUrl, "_blank", "noopener,noreferrer");
         }, 500);
+      } else if (result.success && result.checkoutUrl) {
+        toast.success(t("reservationForm.created"), {
+          description: t("reservationForm.redirectingToPayment"),
+        });
+
+        window.location.assign(result.checkoutUrl);
       } else {
-        toast.error("Failed to generate WhatsApp link");
+        toast.error(t("reservationForm.errors.paymentFailed"));
       }
     } catch (err) {
       console.error("Client error:", err);
-      toast.error("Something went wrong. Please try again.");
+      toast.error(t("errors.generic"));
     } finally {
       setIsLoading(false);
     }
   };
 
   return (
-    <Button
-      size="lg"
-      className="w-full text-lg"
-      onClick={handleReserve}
-      disabled={isLoading}
-      type="button"
-    >
-      {isLoading ? "Processing..." : "Reserve via WhatsApp"}
-    </Button>
+    <>
+      <Button
+        size="lg"
+        className="w-full text-lg"
+        onClick={handleReserve}
+        disabled={isLoading || !!unavailableError}
+        type="button"
+      >
+        {isLoading ?
+          t("reservationForm.processing")
+        : t("reservationForm.reserve")}
+      </Button>
+
+      {unavailableError && (
+        <p aria-live="polite" className="mt-2 text-sm font-medium text-red-500">
+          {unavailableError}
+        </p>
+      )}
+    </>
   );
 }
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SearchParams } from "@/lib/enums";
+import { useTranslations } from "@/lib/i18n/client";
+import { createUrl } from "@/lib/utils";
+
+type PromoCodeFieldProps = {
+  /** The code in the URL, applied unless it comes with an error */
+  code?: string;
+  /** Why the code in the URL can't be redeemed */
+  error?: string;
+};
+
+/**
+ * Keeps the promo code entered on the confirm page in the URL, so that the page checks it and
+ * prices the rental again
+ */
+export function PromoCodeField({ code, error }: PromoCodeFieldProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { t } = useTranslations();
+  const [isPending, startTransition] = useTransition();
+  const [value, setValue] = useState(code ?? "");
+
+  const setCode = (newCode: string) => {
+    const newParams = new URLSearchParams(searchParams.toString());
+
+    if (newCode) {
+      newParams.set(SearchParams.PROMO_CODE, newCode);
+    } else {
+      newParams.delete(SearchParams.PROMO_CODE);
+    }
+
+    startTransition(() => {
+      router.replace(createUrl("/reservation", newParams), { scroll: false });
+    });
+  };
+
+  if (code && !error) {
+    return (
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-muted-foreground">
+          <span className="text-foreground font-medium">{code}</span>{" "}
+          {t("checkout.promoCode.applied")}
+        </p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          disabled={isPending}
+          onClick={() => {
+            setValue("");
+            setCode("");
+          }}
+        >
+          <X className="mr-1 size-4" />
+          {t("checkout.promoCode.remove")}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(event) => {
+        event.preventDefault();
+        setCode(value.trim());
+      }}
+    >
+      <div className="flex gap-2">
+        <Input
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+          placeholder={t("checkout.promoCode.placeholder")}
+          aria-label={t("checkout.promoCode.title")}
+          autoCapitalize="characters"
+          disabled={isPending}
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={isPending || !value.trim()}
+        >
+          {t("checkout.promoCode.apply")}
+        </Button>
+      </div>
+
+      {error && (
+        <p aria-live="polite" className="text-sm font-medium text-red-500">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
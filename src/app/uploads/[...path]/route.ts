@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+
+import type { NextRequest } from "next/server";
+
+import { isStorageConfigured, readLocalFile } from "@/lib/storage";
+
+const CONTENT_TYPES: Record<string, string> = {
+  avif: "image/avif",
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+/**
+ * Serves files from the local storage directory when Supabase is not configured
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path } = await params;
+  const filePath = path.join("/");
+  const contentType = CONTENT_TYPES[filePath.split(".").pop() ?? ""];
+
+  if (isStorageConfigured() || !contentType) {
+    return new NextResponse(null, { status: 404 });
+  }
+
+  try {
+    const file = await readLocalFile(filePath);
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        "Content-Type": contentType,
+        // Uploads are stored under a hash of their content and never change
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch {
+    return new NextResponse(null, { status: 404 });
+  }
+}
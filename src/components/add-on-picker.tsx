@@ -0,0 +1,100 @@
+"use client";
+
+import { Minus, Plus } from "lucide-react";
+
+import type { AddOnSelection } from "@/lib/add-ons";
+import type { AddOn } from "@/lib/db/definitions";
+
+import { Button } from "@/components/ui/button";
+import { useTranslations } from "@/lib/i18n/client";
+import { cn, formatCurrency } from "@/lib/utils";
+
+type AddOnPickerProps = {
+  /** Add-ons stocked at the pickup location */
+  addOns: AddOn[];
+  /** Units left per add-on for the selected dates, unknown until dates are picked */
+  availability?: Record<string, number>;
+  value: AddOnSelection[];
+  onChange: (value: AddOnSelection[]) => void;
+  disabled?: boolean;
+  className?: string;
+};
+
+/**
+ * Picks the quantity of each add-on booked with a rental, up to the units a reservation can book
+ * and the units left at the pickup location
+ */
+export function AddOnPicker(props: AddOnPickerProps) {
+  const { addOns, availability, value, onChange, disabled, className } = props;
+  const { locale, t } = useTranslations();
+
+  if (addOns.length === 0) {
+    return null;
+  }
+
+  const getQuantity = (addOnId: string) =>
+    value.find((selection) => selection.addOnId === addOnId)?.quantity ?? 0;
+
+  const setQuantity = (addOnId: string, quantity: number) =>
+    onChange([
+      ...value.filter((selection) => selection.addOnId !== addOnId),
+      ...(quantity > 0 ? [{ addOnId, quantity }] : []),
+    ]);
+
+  return (
+    <ul className={cn("space-y-3", className)}>
+      {addOns.map((addOn) => {
+        const quantity = getQuantity(addOn.id!);
+        const left = availability?.[addOn.id!];
+        const max = Math.min(addOn.max_quantity!, left ?? addOn.max_quantity!);
+        const soldOut = left !== undefined && left <= 0;
+
+        return (
+          <li key={addOn.id} className="flex items-start justify-between gap-4">
+            <div className="min-w-0 text-sm">
+              <p className="text-foreground font-medium">{addOn.name}</p>
+              <p className="text-muted-foreground">
+                {formatCurrency(addOn.price, addOn.currency, locale)}{" "}
+                {t(`addOnPricing.${addOn.pricing}`)}
+                {soldOut && ` · ${t("addOnPicker.notAvailable")}`}
+              </p>
+              {addOn.description && (
+                <p className="text-muted-foreground text-xs">
+                  {addOn.description}
+                </p>
+              )}
+            </div>
+
+            <div className="flex shrink-0 items-center gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                className="size-7 rounded-full"
+                aria-label={t("addOnPicker.remove", { name: addOn.name })}
+                disabled={disabled || quantity === 0}
+                onClick={() => setQuantity(addOn.id!, quantity - 1)}
+              >
+                <Minus className="size-3" />
+              </Button>
+              <span className="w-4 text-center text-sm tabular-nums">
+                {quantity}
+              </span>
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                className="size-7 rounded-full"
+                aria-label={t("addOnPicker.add", { name: addOn.name })}
+                disabled={disabled || quantity >= max}
+                onClick={() => setQuantity(addOn.id!, quantity + 1)}
+              >
+                <Plus className="size-3" />
+              </Button>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
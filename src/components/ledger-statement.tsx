@@ -0,0 +1,81 @@
+import { format } from "date-fns";
+
+import type { LedgerEntry } from "@/lib/db/definitions";
+import type { Locale } from "@/lib/i18n/config";
+
+import { fromMinorUnits } from "@/lib/currency";
+import { DEFAULT_LOCALE } from "@/lib/i18n/config";
+import { createTranslator } from "@/lib/i18n/translator";
+import { buildStatement } from "@/lib/ledger";
+import { cn, formatCurrency } from "@/lib/utils";
+
+type LedgerStatementProps = {
+  /** Entries of all accounts, only the customer's account is listed */
+  entries: LedgerEntry[];
+  currency: string;
+  locale?: Locale;
+  className?: string;
+};
+
+/**
+ * Lists what was charged to and paid by the customer of a reservation, with the balance after
+ * each entry and what is left to settle
+ */
+export function LedgerStatement(props: LedgerStatementProps) {
+  const { entries, currency, locale = DEFAULT_LOCALE, className } = props;
+  const t = createTranslator(locale);
+  const statement = buildStatement(entries);
+
+  if (statement.length === 0) {
+    return null;
+  }
+
+  const formatAmount = (amount: number) =>
+    formatCurrency(fromMinorUnits(amount, currency), currency, locale);
+  const balance = statement[statement.length - 1].balance;
+
+  return (
+    <div className={cn("text-muted-foreground space-y-2 text-sm", className)}>
+      <table className="w-full">
+        <thead className="text-left text-xs">
+          <tr>
+            <th className="py-1 font-medium">{t("ledgerStatement.date")}</th>
+            <th className="py-1 font-medium">
+              {t("ledgerStatement.description")}
+            </th>
+            <th className="py-1 text-right font-medium">
+              {t("ledgerStatement.amount")}
+            </th>
+            <th className="py-1 text-right font-medium">
+              {t("ledgerStatement.balance")}
+            </th>
+          </tr>
+        </thead>
+
+        <tbody>
+          {statement.map(({ entry, balance }) => (
+            <tr key={entry.id}>
+              <td className="py-1 pr-2">
+                {format(entry.created_at, "dd/MM/yyyy")}
+              </td>
+              <td className="py-1 pr-2">{entry.description}</td>
+              <td className="py-1 text-right">
+                {entry.amount > 0 && "+"}
+                {formatAmount(entry.amount)}
+              </td>
+              <td className="py-1 pl-2 text-right">{formatAmount(balance)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-foreground font-medium">
+        {balance > 0 ?
+          t("ledgerStatement.balanceDue", { amount: formatAmount(balance) })
+        : balance < 0 ?
+          t("ledgerStatement.toBeRefunded", { amount: formatAmount(-balance) })
+        : t("ledgerStatement.nothingDue")}
+      </p>
+    </div>
+  );
+}
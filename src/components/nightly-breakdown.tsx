@@ -0,0 +1,59 @@
+import { format, parseISO } from "date-fns";
+
+import type { Locale } from "@/lib/i18n/config";
+import type { NightlyRate } from "@/lib/pricing-rules";
+
+import { DEFAULT_LOCALE } from "@/lib/i18n/config";
+import { createTranslator } from "@/lib/i18n/translator";
+import { cn, formatCurrency } from "@/lib/utils";
+
+type NightlyBreakdownProps = {
+  nights: NightlyRate[];
+  currency: string;
+  /** Language of the page, the component is rendered on the server and the client alike */
+  locale?: Locale;
+  className?: string;
+};
+
+/**
+ * Lists the price of every night charged at the daily rate, and the pricing rules behind it
+ */
+export function NightlyBreakdown(props: NightlyBreakdownProps) {
+  const { nights, currency, locale = DEFAULT_LOCALE, className } = props;
+  const t = createTranslator(locale);
+
+  if (nights.length === 0) {
+    return null;
+  }
+
+  return (
+    <details className={cn("text-muted-foreground text-sm", className)}>
+      <summary className="cursor-pointer">
+        {t("nightlyBreakdown.title")}
+      </summary>
+
+      <ul className="mt-2 space-y-1">
+        {nights.map((night) => (
+          <li key={night.date} className="flex justify-between gap-4">
+            <span>
+              {format(parseISO(night.date), "EEE, d MMM")}
+              {night.adjustments.length > 0 && (
+                <span className="text-xs">
+                  {" "}
+                  ·{" "}
+                  {night.adjustments
+                    .map(
+                      ({ name, percent }) =>
+                        `${name} ${percent > 0 ? "+" : ""}${percent}%`
+                    )
+                    .join(", ")}
+                </span>
+              )}
+            </span>
+            <span>{formatCurrency(night.amount, currency, locale)}</span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
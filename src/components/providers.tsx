@@ -4,13 +4,17 @@ import * as React from "react";
 import { ThemeProvider } from "next-themes";
 
 import type { ThemeProviderProps } from "next-themes/dist/types";
+import type { Locale } from "@/lib/i18n/config";
+
+import { LocaleProvider } from "@/lib/i18n/client";
 
 type Props = {
   theme?: ThemeProviderProps;
+  locale: Locale;
   children: React.ReactNode;
 };
 
-export function Providers({ children, theme }: Props) {
+export function Providers({ children, theme, locale }: Props) {
   return (
     <ThemeProvider
       attribute="class"
@@ -19,7 +23,7 @@ export function Providers({ children, theme }: Props) {
       disableTransitionOnChange
       {...theme}
     >
-      {children}
+      <LocaleProvider locale={locale}>{children}</LocaleProvider>
     </ThemeProvider>
   );
 }
@@ -0,0 +1,45 @@
+import type { Locale } from "@/lib/i18n/config";
+
+import { ReservationStatus } from "@/lib/enums";
+import { DEFAULT_LOCALE } from "@/lib/i18n/config";
+import { createTranslator } from "@/lib/i18n/translator";
+import { cn } from "@/lib/utils";
+
+const statusStyles: Record<ReservationStatus, string> = {
+  [ReservationStatus.PENDING]:
+    "border-amber-500/40 bg-amber-500/10 text-amber-700 dark:text-amber-400",
+  [ReservationStatus.CONFIRMED]:
+    "border-emerald-500/40 bg-emerald-500/10 text-emerald-700 dark:text-emerald-400",
+  [ReservationStatus.ACTIVE]:
+    "border-sky-500/40 bg-sky-500/10 text-sky-700 dark:text-sky-400",
+  [ReservationStatus.COMPLETED]: "bg-muted text-muted-foreground",
+  [ReservationStatus.CANCELLED]: "bg-muted text-muted-foreground line-through",
+  [ReservationStatus.NO_SHOW]:
+    "border-red-500/40 bg-red-500/10 text-red-700 dark:text-red-400",
+};
+
+type ReservationStatusBadgeProps = {
+  status: ReservationStatus;
+  locale?: Locale;
+  className?: string;
+};
+
+export function ReservationStatusBadge({
+  status,
+  locale = DEFAULT_LOCALE,
+  className,
+}: ReservationStatusBadgeProps) {
+  const t = createTranslator(locale);
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-semibold",
+        statusStyles[status],
+        className
+      )}
+    >
+      {t(`reservationStatuses.${status}`)}
+    </span>
+  );
+}
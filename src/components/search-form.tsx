@@ -6,10 +6,13 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { addDays, differenceInDays, format, isAfter } from "date-fns";
 import { Check, Search } from "lucide-react";
 import { useForm } from "react-hook-form";
+import { toast } from "sonner";
 import { z } from "zod";
 
 import type { Location } from "@/lib/db/definitions";
+import type { Translate } from "@/lib/i18n/translator";
 
+import { TimeSelect } from "@/components/time-select";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
 import {
@@ -32,26 +35,65 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { SearchParams } from "@/lib/enums";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { RentalMode, SearchParams } from "@/lib/enums";
+import { useTranslations } from "@/lib/i18n/client";
+import { INTL_LOCALES } from "@/lib/i18n/config";
+import {
+  DEFAULT_HANDOVER_TIME,
+  fromHandoverTime,
+  getClosureReason,
+  getOutsideHoursReason,
+  getTimeSlots,
+  toHandoverTime,
+} from "@/lib/opening-hours";
+import { MAX_LONG_TERM_RENTAL_DAYS } from "@/lib/rental-duration";
 import { cn, createUrl } from "@/lib/utils";
 
-const FormSchema = z
-  .object({
-    location: z.string({ required_error: "Location is required" }),
-    checkin: z.date({ required_error: "Check in is required" }),
-    checkout: z.date({ required_error: "Check out is required" }),
-  })
-  .refine((schema) => isAfter(schema.checkout, schema.checkin), {
-    message: "Check out must be after check in",
-    path: ["checkout"],
-  })
-  .refine(
-    ({ checkin, checkout }) => differenceInDays(checkout, checkin) <= 30,
-    {
-      message: "Maximum 30 days allowed for booking",
+/**
+ * Builds the form schema with its messages in the language of the page
+ */
+const createFormSchema = (t: Translate) =>
+  z
+    .object({
+      mode: z.nativeEnum(RentalMode),
+      location: z.string({
+        required_error: t("searchForm.errors.locationRequired"),
+      }),
+      checkin: z.date({
+        required_error: t("searchForm.errors.checkInRequired"),
+      }),
+      /** Hourly trips end on the day they start */
+      checkout: z.date().optional(),
+      checkinTime: z.string(),
+      checkoutTime: z.string(),
+    })
+    .refine(({ mode, checkout }) => mode === RentalMode.HOURLY || !!checkout, {
+      message: t("searchForm.errors.checkOutRequired"),
       path: ["checkout"],
-    }
-  );
+    })
+    .refine(
+      ({ mode, checkin, checkout }) =>
+        mode === RentalMode.HOURLY || !checkout || isAfter(checkout, checkin),
+      {
+        message: t("searchForm.errors.checkOutNotAfterCheckIn"),
+        path: ["checkout"],
+      }
+    )
+    .refine(
+      ({ mode, checkin, checkout }) =>
+        mode === RentalMode.HOURLY ||
+        !checkout ||
+        differenceInDays(checkout, checkin) <= MAX_LONG_TERM_RENTAL_DAYS,
+      {
+        message: t("searchForm.errors.maxDays", {
+          days: MAX_LONG_TERM_RENTAL_DAYS,
+        }),
+        path: ["checkout"],
+      }
+    );
+
+type FormData = z.infer<ReturnType<typeof createFormSchema>>;
 
 type SearchFormProps = React.HTMLAttributes<HTMLFormElement> & {
   locations: Location[];
@@ -66,32 +108,95 @@ export function SearchForm({
 }: SearchFormProps) {
   const { push } = useRouter();
   const searchParams = useSearchParams();
+  const { locale, t } = useTranslations();
+  const formSchema = React.useMemo(() => createFormSchema(t), [t]);
 
   const [open, setOpen] = React.useState(false);
   const [checkinOpen, setCheckinOpen] = React.useState(false);
   const [checkoutOpen, setCheckoutOpen] = React.useState(false);
 
-  const form = useForm<z.infer<typeof FormSchema>>({
-    resolver: zodResolver(FormSchema),
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      mode: RentalMode.DAILY,
+      checkinTime: DEFAULT_HANDOVER_TIME,
+      checkoutTime: DEFAULT_HANDOVER_TIME,
+    },
   });
 
-  function onSubmit(values: z.infer<typeof FormSchema>) {
-    const { location, checkin, checkout } = values;
+  const isHourly = form.watch("mode") === RentalMode.HOURLY;
+  const returnDay = isHourly ? form.watch("checkin") : form.watch("checkout");
+
+  const selectedLocation = locations.find(
+    ({ value }) => value === form.watch("location")
+  );
+
+  const isClosed = (date: Date) =>
+    !!selectedLocation && !!getClosureReason(selectedLocation, date);
+
+  // Pickup and return times offered by the selected location on the selected days
+  const getSlots = (day: Date | undefined) =>
+    day ? getTimeSlots(selectedLocation ?? {}, format(day, "yyyy-MM-dd")) : [];
+
+  // Dates are spelled in the language of the page
+  const formatDay = (date: Date, year: boolean) =>
+    date.toLocaleDateString(INTL_LOCALES[locale], {
+      month: "short",
+      day: year ? "2-digit" : "numeric",
+      year: year ? "numeric" : undefined,
+    });
+
+  function onSubmit(values: FormData) {
+    const { mode, location, checkin, checkout, checkinTime, checkoutTime } =
+      values;
+
+    // Times are read on the clocks of the location
+    const checkIn = toHandoverTime(
+      selectedLocation ?? {},
+      checkin,
+      checkinTime
+    );
+    const checkOut = toHandoverTime(
+      selectedLocation ?? {},
+      mode === RentalMode.HOURLY ? checkin : checkout!,
+      checkoutTime
+    );
+
+    if (!isAfter(checkOut, checkIn)) {
+      toast.error(t("searchForm.errors.returnNotAfterPickUp"));
+      return;
+    }
+
+    if (selectedLocation) {
+      const closureReason =
+        getOutsideHoursReason(selectedLocation, checkIn, t, locale) ??
+        getOutsideHoursReason(selectedLocation, checkOut, t, locale);
+
+      if (closureReason) {
+        toast.error(closureReason);
+        return;
+      }
+    }
 
     const newParams = new URLSearchParams(searchParams.toString());
 
     newParams.delete(SearchParams.LOCATION);
     newParams.delete(SearchParams.CHECKIN);
     newParams.delete(SearchParams.CHECKOUT);
+    newParams.delete(SearchParams.RENTAL_MODE);
 
     newParams.set(SearchParams.LOCATION, location);
-    const checkinISOString = checkin.toISOString();
+    const checkinISOString = checkIn.toISOString();
     if (checkinISOString) newParams.set(SearchParams.CHECKIN, checkinISOString);
 
-    const checkoutISOString = checkout.toISOString();
+    const checkoutISOString = checkOut.toISOString();
     if (checkoutISOString)
       newParams.set(SearchParams.CHECKOUT, checkoutISOString);
 
+    if (mode === RentalMode.HOURLY) {
+      newParams.set(SearchParams.RENTAL_MODE, mode);
+    }
+
     push(createUrl("/cars", newParams));
   }
 
@@ -99,17 +204,34 @@ export function SearchForm({
     const location = searchParams.get(SearchParams.LOCATION);
     const checkin = searchParams.get(SearchParams.CHECKIN);
     const checkout = searchParams.get(SearchParams.CHECKOUT);
+    const mode = searchParams.get(SearchParams.RENTAL_MODE);
 
     if (location) form.setValue("location", location);
-    if (checkin) form.setValue("checkin", new Date(checkin));
-    if (checkout) form.setValue("checkout", new Date(checkout));
+    if (mode === RentalMode.HOURLY) form.setValue("mode", mode);
+
+    // Times in the URL are instants, shown on the clocks of the location
+    const urlLocation = locations.find(({ value }) => value === location) ?? {};
+
+    if (checkin) {
+      const { day, time } = fromHandoverTime(urlLocation, new Date(checkin));
+      form.setValue("checkin", day);
+      form.setValue("checkinTime", time);
+    }
+    if (checkout) {
+      const { day, time } = fromHandoverTime(urlLocation, new Date(checkout));
+      form.setValue("checkout", day);
+      form.setValue("checkoutTime", time);
+    }
 
     return () => {
+      form.resetField("mode");
       form.resetField("location");
       form.resetField("checkin");
       form.resetField("checkout");
+      form.resetField("checkinTime");
+      form.resetField("checkoutTime");
     };
-  }, [searchParams, form]);
+  }, [searchParams, form, locations]);
 
   return (
     <Form {...form}>
@@ -140,7 +262,7 @@ export function SearchForm({
                       compact ? "text-xs" : "text-sm"
                     )}
                   >
-                    Pick-up / Drop-off
+                    {t("searchForm.pickUpAndDropOff")}
                   </FormLabel>
 
                   <Popover open={open} onOpenChange={setOpen}>
@@ -148,7 +270,7 @@ export function SearchForm({
                       <FormControl>
                         <button
                           role="combobox"
-                          aria-label="select location"
+                          aria-label={t("searchForm.selectLocation")}
                           className={cn(
                             "text-muted-foreground text-left text-sm",
                             field.value && "font-medium"
@@ -158,16 +280,20 @@ export function SearchForm({
                             locations.find(
                               (location) => location.value === field.value
                             )?.name
-                          : "Select location"}
+                          : t("searchForm.selectLocation")}
                         </button>
                       </FormControl>
                     </PopoverTrigger>
 
                     <PopoverContent className="p-0">
                       <Command>
-                        <CommandInput placeholder="Search location..." />
+                        <CommandInput
+                          placeholder={t("searchForm.searchLocation")}
+                        />
                         <CommandList>
-                          <CommandEmpty>No place found.</CommandEmpty>
+                          <CommandEmpty>
+                            {t("searchForm.noPlaceFound")}
+                          </CommandEmpty>
                           <CommandGroup>
                             {locations.map(({ name, value }) => (
                               <CommandItem
@@ -214,38 +340,54 @@ export function SearchForm({
                       compact ? "text-xs" : "text-sm"
                     )}
                   >
-                    Check in
+                    {t("searchForm.checkIn")}
                   </FormLabel>
 
-                  <Popover open={checkinOpen} onOpenChange={setCheckinOpen}>
-                    <PopoverTrigger asChild>
-                      <FormControl>
-                        <button
-                          className={cn(
-                            "text-muted-foreground text-left text-sm",
-                            field.value && "font-medium"
-                          )}
-                        >
-                          {field.value ?
-                            format(field.value, "LLL dd, y")
-                          : <span>Pick a date</span>}
-                        </button>
-                      </FormControl>
-                    </PopoverTrigger>
-
-                    <PopoverContent className="w-auto p-0" align="start">
-                      <Calendar
-                        autoFocus
-                        mode="single"
-                        selected={field.value}
-                        onSelect={(date) => {
-                          field.onChange(date);
-                          setCheckinOpen(false);
-                        }}
-                        disabled={(date) => date <= new Date()}
-                      />
-                    </PopoverContent>
-                  </Popover>
+                  <div className="flex items-center gap-2">
+                    <Popover open={checkinOpen} onOpenChange={setCheckinOpen}>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <button
+                            className={cn(
+                              "text-muted-foreground text-left text-sm",
+                              field.value && "font-medium"
+                            )}
+                          >
+                            {field.value ?
+                              formatDay(field.value, true)
+                            : <span>{t("searchForm.pickDate")}</span>}
+                          </button>
+                        </FormControl>
+                      </PopoverTrigger>
+
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          autoFocus
+                          mode="single"
+                          selected={field.value}
+                          onSelect={(date) => {
+                            field.onChange(date);
+                            setCheckinOpen(false);
+                          }}
+                          disabled={(date) =>
+                            date <= new Date() || isClosed(date)
+                          }
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    <FormField
+                      control={form.control}
+                      name="checkinTime"
+                      render={({ field }) => (
+                        <TimeSelect
+                          aria-label={t("searchForm.pickUpTime")}
+                          slots={getSlots(form.watch("checkin"))}
+                          className="w-auto"
+                          {...field}
+                        />
+                      )}
+                    />
+                  </div>
                 </FormItem>
               )}
             />
@@ -266,38 +408,61 @@ export function SearchForm({
                       compact ? "text-xs" : "text-sm"
                     )}
                   >
-                    Check out
+                    {isHourly ?
+                      t("searchForm.return")
+                    : t("searchForm.checkOut")}
                   </FormLabel>
 
-                  <Popover open={checkoutOpen} onOpenChange={setCheckoutOpen}>
-                    <PopoverTrigger asChild>
-                      <FormControl>
-                        <button
-                          className={cn(
-                            "text-muted-foreground text-left text-sm",
-                            field.value && "font-medium"
-                          )}
-                        >
-                          {field.value ?
-                            format(field.value, "LLL dd, y")
-                          : <span>Pick a date</span>}
-                        </button>
-                      </FormControl>
-                    </PopoverTrigger>
-
-                    <PopoverContent className="w-auto p-0" align="start">
-                      <Calendar
-                        autoFocus
-                        mode="single"
-                        selected={field.value}
-                        onSelect={(date) => {
-                          field.onChange(date);
-                          setCheckoutOpen(false);
-                        }}
-                        disabled={(date) => date <= addDays(new Date(), 1)}
-                      />
-                    </PopoverContent>
-                  </Popover>
+                  <div className="flex items-center gap-2">
+                    {!isHourly && (
+                      <Popover
+                        open={checkoutOpen}
+                        onOpenChange={setCheckoutOpen}
+                      >
+                        <PopoverTrigger asChild>
+                          <FormControl>
+                            <button
+                              className={cn(
+                                "text-muted-foreground text-left text-sm",
+                                field.value && "font-medium"
+                              )}
+                            >
+                              {field.value ?
+                                formatDay(field.value, true)
+                              : <span>{t("searchForm.pickDate")}</span>}
+                            </button>
+                          </FormControl>
+                        </PopoverTrigger>
+
+                        <PopoverContent className="w-auto p-0" align="start">
+                          <Calendar
+                            autoFocus
+                            mode="single"
+                            selected={field.value}
+                            onSelect={(date) => {
+                              field.onChange(date);
+                              setCheckoutOpen(false);
+                            }}
+                            disabled={(date) =>
+                              date <= addDays(new Date(), 1) || isClosed(date)
+                            }
+                          />
+                        </PopoverContent>
+                      </Popover>
+                    )}
+                    <FormField
+                      control={form.control}
+                      name="checkoutTime"
+                      render={({ field }) => (
+                        <TimeSelect
+                          aria-label={t("searchForm.returnTime")}
+                          slots={getSlots(returnDay)}
+                          className="w-auto"
+                          {...field}
+                        />
+                      )}
+                    />
+                  </div>
                 </FormItem>
               )}
             />
@@ -311,8 +476,19 @@ export function SearchForm({
           </Button>
         </div>
 
+        <RentalModeToggle
+          value={form.watch("mode")}
+          onValueChange={(mode) => form.setValue("mode", mode)}
+          className="mt-2 hidden md:flex"
+        />
+
         {/* Mobile Layout - Card */}
         <div className="md:hidden flex flex-col gap-3 rounded-xl border bg-background p-4">
+          <RentalModeToggle
+            value={form.watch("mode")}
+            onValueChange={(mode) => form.setValue("mode", mode)}
+          />
+
           {/* Location */}
           <FormField
             control={form.control}
@@ -320,7 +496,7 @@ export function SearchForm({
             render={({ field }) => (
               <FormItem className="space-y-1.5">
                 <FormLabel className="text-sm font-bold">
-                  Pick-up / Drop-off
+                  {t("searchForm.pickUpAndDropOff")}
                 </FormLabel>
                 <Popover open={open} onOpenChange={setOpen}>
                   <PopoverTrigger asChild>
@@ -328,15 +504,19 @@ export function SearchForm({
                       <button className="w-full rounded-lg border px-3 py-2.5 text-left text-sm text-muted-foreground hover:text-foreground">
                         {field.value ?
                           locations.find((l) => l.value === field.value)?.name
-                        : "Select location"}
+                        : t("searchForm.selectLocation")}
                       </button>
                     </FormControl>
                   </PopoverTrigger>
                   <PopoverContent className="p-0 w-[280px]">
                     <Command>
-                      <CommandInput placeholder="Search location..." />
+                      <CommandInput
+                        placeholder={t("searchForm.searchLocation")}
+                      />
                       <CommandList>
-                        <CommandEmpty>No place found.</CommandEmpty>
+                        <CommandEmpty>
+                          {t("searchForm.noPlaceFound")}
+                        </CommandEmpty>
                         <CommandGroup>
                           {locations.map(({ name, value }) => (
                             <CommandItem
@@ -374,29 +554,47 @@ export function SearchForm({
               name="checkin"
               render={({ field }) => (
                 <FormItem className="space-y-1.5">
-                  <FormLabel className="text-sm font-bold">Check in</FormLabel>
-                  <Popover open={checkinOpen} onOpenChange={setCheckinOpen}>
-                    <PopoverTrigger asChild>
-                      <FormControl>
-                        <button className="w-full rounded-lg border px-3 py-2.5 text-left text-sm text-muted-foreground hover:text-foreground">
-                          {field.value ?
-                            format(field.value, "MMM d")
-                          : "Pick date"}
-                        </button>
-                      </FormControl>
-                    </PopoverTrigger>
-                    <PopoverContent className="w-auto p-0" align="start">
-                      <Calendar
-                        mode="single"
-                        selected={field.value}
-                        onSelect={(date) => {
-                          field.onChange(date);
-                          setCheckinOpen(false);
-                        }}
-                        disabled={(date) => date <= new Date()}
-                      />
-                    </PopoverContent>
-                  </Popover>
+                  <FormLabel className="text-sm font-bold">
+                    {t("searchForm.checkIn")}
+                  </FormLabel>
+                  <div className="space-y-1.5">
+                    <Popover open={checkinOpen} onOpenChange={setCheckinOpen}>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <button className="w-full rounded-lg border px-3 py-2.5 text-left text-sm text-muted-foreground hover:text-foreground">
+                            {field.value ?
+                              formatDay(field.value, false)
+                            : t("searchForm.pickDateShort")}
+                          </button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={field.value}
+                          onSelect={(date) => {
+                            field.onChange(date);
+                            setCheckinOpen(false);
+                          }}
+                          disabled={(date) =>
+                            date <= new Date() || isClosed(date)
+                          }
+                        />
+                      </PopoverContent>
+                    </Popover>
+                    <FormField
+                      control={form.control}
+                      name="checkinTime"
+                      render={({ field }) => (
+                        <TimeSelect
+                          aria-label={t("searchForm.pickUpTime")}
+                          slots={getSlots(form.watch("checkin"))}
+                          className="rounded-lg border px-3 py-2.5"
+                          {...field}
+                        />
+                      )}
+                    />
+                  </div>
                 </FormItem>
               )}
             />
@@ -406,29 +604,54 @@ export function SearchForm({
               name="checkout"
               render={({ field }) => (
                 <FormItem className="space-y-1.5">
-                  <FormLabel className="text-sm font-bold">Check out</FormLabel>
-                  <Popover open={checkoutOpen} onOpenChange={setCheckoutOpen}>
-                    <PopoverTrigger asChild>
-                      <FormControl>
-                        <button className="w-full rounded-lg border px-3 py-2.5 text-left text-sm text-muted-foreground hover:text-foreground">
-                          {field.value ?
-                            format(field.value, "MMM d")
-                          : "Pick date"}
-                        </button>
-                      </FormControl>
-                    </PopoverTrigger>
-                    <PopoverContent className="w-auto p-0" align="start">
-                      <Calendar
-                        mode="single"
-                        selected={field.value}
-                        onSelect={(date) => {
-                          field.onChange(date);
-                          setCheckoutOpen(false);
-                        }}
-                        disabled={(date) => date <= addDays(new Date(), 1)}
-                      />
-                    </PopoverContent>
-                  </Popover>
+                  <FormLabel className="text-sm font-bold">
+                    {isHourly ?
+                      t("searchForm.return")
+                    : t("searchForm.checkOut")}
+                  </FormLabel>
+                  <div className="space-y-1.5">
+                    {!isHourly && (
+                      <Popover
+                        open={checkoutOpen}
+                        onOpenChange={setCheckoutOpen}
+                      >
+                        <PopoverTrigger asChild>
+                          <FormControl>
+                            <button className="w-full rounded-lg border px-3 py-2.5 text-left text-sm text-muted-foreground hover:text-foreground">
+                              {field.value ?
+                                formatDay(field.value, false)
+                              : t("searchForm.pickDateShort")}
+                            </button>
+                          </FormControl>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="start">
+                          <Calendar
+                            mode="single"
+                            selected={field.value}
+                            onSelect={(date) => {
+                              field.onChange(date);
+                              setCheckoutOpen(false);
+                            }}
+                            disabled={(date) =>
+                              date <= addDays(new Date(), 1) || isClosed(date)
+                            }
+                          />
+                        </PopoverContent>
+                      </Popover>
+                    )}
+                    <FormField
+                      control={form.control}
+                      name="checkoutTime"
+                      render={({ field }) => (
+                        <TimeSelect
+                          aria-label={t("searchForm.returnTime")}
+                          slots={getSlots(returnDay)}
+                          className="rounded-lg border px-3 py-2.5"
+                          {...field}
+                        />
+                      )}
+                    />
+                  </div>
                 </FormItem>
               )}
             />
@@ -437,10 +660,46 @@ export function SearchForm({
           {/* Search Button */}
           <Button type="submit" className="w-full rounded-lg mt-1">
             <Search className="mr-2 size-4" />
-            Search Cars
+            {t("searchForm.searchCars")}
           </Button>
         </div>
       </form>
     </Form>
   );
 }
+
+type RentalModeToggleProps = {
+  value: RentalMode;
+  onValueChange: (value: RentalMode) => void;
+  className?: string;
+};
+
+function RentalModeToggle(props: RentalModeToggleProps) {
+  const { value, onValueChange, className } = props;
+  const { t } = useTranslations();
+
+  return (
+    <ToggleGroup
+      type="single"
+      value={value}
+      // Radix clears the value when the selected item is clicked again, keep it selected
+      onValueChange={(mode) => mode && onValueChange(mode as RentalMode)}
+      className={className}
+    >
+      <ToggleGroupItem
+        value={RentalMode.DAILY}
+        size="sm"
+        className="rounded-full px-3"
+      >
+        {t("searchForm.byTheDay")}
+      </ToggleGroupItem>
+      <ToggleGroupItem
+        value={RentalMode.HOURLY}
+        size="sm"
+        className="rounded-full px-3"
+      >
+        {t("searchForm.byTheHour")}
+      </ToggleGroupItem>
+    </ToggleGroup>
+  );
+}
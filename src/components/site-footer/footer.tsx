@@ -1,6 +1,7 @@
 import Link from "next/link";
 
 import { siteConfig } from "@/config/site";
+import { getTranslations } from "@/lib/i18n/server";
 import { Icons } from "../icons";
 import { Separator } from "../ui/separator";
 import { NewsletterSubscriptionForm } from "./newsletter-subscription-form";
@@ -8,34 +9,35 @@ import { ThemeToggleGroup } from "./theme-toggle-group";
 
 const footerLinks = [
   {
-    title: "Destinations",
+    title: "destinations",
     links: [
-      "Beach Escapes",
-      "Historical Trails",
-      "Foodie Journeys",
-      "Urban Explorations",
-      "Wildlife Safaris",
-      "Photography Tours",
+      "beachEscapes",
+      "historicalTrails",
+      "foodieJourneys",
+      "urbanExplorations",
+      "wildlifeSafaris",
+      "photographyTours",
     ],
   },
   {
-    title: "Resources",
+    title: "resources",
     links: [
-      "Blog",
-      "Car Rental Tips",
-      "Travel Insights",
-      "Safety Guides",
-      "Car Models Guide",
+      "blog",
+      "carRentalTips",
+      "travelInsights",
+      "safetyGuides",
+      "carModelsGuide",
     ],
   },
   {
-    title: "Policies",
-    links: ["Privacy", "Terms of use", "Cookie Preferences"],
+    title: "policies",
+    links: ["privacy", "termsOfUse", "cookiePreferences"],
   },
-  { title: "Support", links: ["Contact us", "FAQs"] },
-];
+  { title: "support", links: ["contactUs", "faqs"] },
+] as const;
 
-export function SiteFooter() {
+export async function SiteFooter() {
+  const { t } = await getTranslations();
   const githubUrl = siteConfig.links.github;
 
   return (
@@ -52,7 +54,7 @@ export function SiteFooter() {
           {footerLinks.map((section) => (
             <div key={section.title} className="flex flex-col gap-2.5">
               <h3 className="mb-1 text-sm font-semibold lg:text-sm">
-                {section.title}
+                {t(`footer.sections.${section.title}`)}
               </h3>
 
               {section.links.map((link) => (
@@ -63,18 +65,18 @@ export function SiteFooter() {
                   rel="noreferrer"
                   className="text-muted-foreground hover:text-foreground text-sm duration-200"
                 >
-                  {link}
+                  {t(`footer.links.${link}`)}
                 </a>
               ))}
             </div>
           ))}
           <div className="col-span-full flex w-full flex-col gap-2 lg:max-w-[240px]">
             <h3 className="mb-1.5 text-sm font-semibold lg:text-sm">
-              Subscribe to our newsletter
+              {t("footer.newsletter.title")}
             </h3>
 
             <p className="text-muted-foreground mb-1.5 text-[13px] leading-6 lg:text-sm">
-              Join Our Community! Get exclusive travel offers and insider tips.
+              {t("footer.newsletter.description")}
             </p>
             <NewsletterSubscriptionForm />
           </div>
@@ -4,6 +4,7 @@ import { useActionState } from "react";
 import { CheckCircle } from "lucide-react";
 import { useFormStatus } from "react-dom";
 
+import { useTranslations } from "@/lib/i18n/client";
 import { cn } from "@/lib/utils";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
@@ -15,6 +16,7 @@ type Form = {
 };
 
 export function NewsletterSubscriptionForm() {
+  const { t } = useTranslations();
   const initialState: Form = {
     errors: [],
     message: null,
@@ -63,7 +65,7 @@ export function NewsletterSubscriptionForm() {
         {state?.subscribed && (
           <p className="animate-in slide-in-from-right-full mt-2 flex flex-row items-center gap-1.5 text-sm duration-300">
             <CheckCircle className="h-5 text-green-600" aria-hidden="true" />
-            Thanks for subscribing!
+            {t("footer.newsletter.subscribed")}
           </p>
         )}
       </div>
@@ -73,6 +75,7 @@ export function NewsletterSubscriptionForm() {
 
 function SubmitButton() {
   const { pending } = useFormStatus();
+  const { t } = useTranslations();
 
   return (
     <Button
@@ -83,7 +86,9 @@ function SubmitButton() {
       aria-disabled={pending}
       disabled={pending}
     >
-      {pending ? "Subscribing..." : "Subscribe"}
+      {pending ?
+        t("footer.newsletter.subscribing")
+      : t("footer.newsletter.subscribe")}
     </Button>
   );
 }
@@ -6,6 +6,7 @@ import { useTheme } from "next-themes";
 
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { useIsMounted } from "@/hooks/use-is-mouted";
+import { useTranslations } from "@/lib/i18n/client";
 import { cn } from "@/lib/utils";
 
 type ThemeToggleGroupProps = {
@@ -15,6 +16,7 @@ type ThemeToggleGroupProps = {
 export function ThemeToggleGroup({ className }: ThemeToggleGroupProps) {
   const isMounted = useIsMounted();
   const { theme, setTheme } = useTheme();
+  const { t } = useTranslations();
 
   function handleThemeChange(value: string) {
     setTheme(value);
@@ -28,7 +30,7 @@ export function ThemeToggleGroup({ className }: ThemeToggleGroupProps) {
       className={cn("rounded-full border p-1", className)}
     >
       <ToggleGroupItem
-        aria-label="Toggle Light Mode"
+        aria-label={t("footer.theme.light")}
         value="light"
         className="size-8 rounded-full px-2"
       >
@@ -36,7 +38,7 @@ export function ThemeToggleGroup({ className }: ThemeToggleGroupProps) {
       </ToggleGroupItem>
 
       <ToggleGroupItem
-        aria-label="Toggle System Mode"
+        aria-label={t("footer.theme.system")}
         value="system"
         className="size-8 rounded-full px-2"
       >
@@ -44,7 +46,7 @@ export function ThemeToggleGroup({ className }: ThemeToggleGroupProps) {
       </ToggleGroupItem>
 
       <ToggleGroupItem
-        aria-label="Toggle Dark Mode"
+        aria-label={t("footer.theme.dark")}
         value="dark"
         className="size-8 rounded-full px-2"
       >
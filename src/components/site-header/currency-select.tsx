@@ -0,0 +1,58 @@
+"use client";
+
+import { useTransition } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { toast } from "sonner";
+
+import { setDisplayCurrency } from "@/lib/actions/exchange-rates";
+import { SearchParams } from "@/lib/enums";
+import { useTranslations } from "@/lib/i18n/client";
+import { createUrl } from "@/lib/utils";
+import { NativeSelect } from "../ui/native-select";
+
+type CurrencySelectProps = {
+  currency: string;
+  currencies: string[];
+};
+
+export function CurrencySelect({ currency, currencies }: CurrencySelectProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { t } = useTranslations();
+  const [isPending, startTransition] = useTransition();
+
+  const handleChange = (selected: string) => {
+    startTransition(async () => {
+      const result = await setDisplayCurrency(selected);
+
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      // The price filters are in the display currency, so they no longer match
+      const params = new URLSearchParams(window.location.search);
+      params.delete(SearchParams.MIN_PRICE);
+      params.delete(SearchParams.MAX_PRICE);
+
+      router.replace(createUrl(pathname, params), { scroll: false });
+      router.refresh();
+    });
+  };
+
+  return (
+    <NativeSelect
+      aria-label={t("navbar.currency")}
+      className="h-9 w-24"
+      value={currency}
+      disabled={isPending}
+      onChange={(event) => handleChange(event.target.value)}
+    >
+      {currencies.map((code) => (
+        <option key={code} value={code}>
+          {code}
+        </option>
+      ))}
+    </NativeSelect>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+
+import type { Locale } from "@/lib/i18n/config";
+
+import { useTranslations } from "@/lib/i18n/client";
+import {
+  LOCALE_NAMES,
+  LOCALES,
+  localizePathname,
+  splitLocalePrefix,
+} from "@/lib/i18n/config";
+import { NativeSelect } from "../ui/native-select";
+
+export function LocaleSelect() {
+  const pathname = usePathname();
+  const { locale, t } = useTranslations();
+
+  // A full navigation, so that the proxy stores the choice and every component renders in it
+  const handleChange = (selected: Locale) => {
+    window.location.assign(
+      localizePathname(splitLocalePrefix(pathname).pathname, selected) +
+        window.location.search
+    );
+  };
+
+  return (
+    <NativeSelect
+      aria-label={t("localeSelect.label")}
+      className="h-9 w-28"
+      value={locale}
+      onChange={(event) => handleChange(event.target.value as Locale)}
+    >
+      {LOCALES.map((code) => (
+        <option key={code} value={code}>
+          {LOCALE_NAMES[code]}
+        </option>
+      ))}
+    </NativeSelect>
+  );
+}
@@ -4,10 +4,13 @@ import {
   LogoutLink,
   RegisterLink,
 } from "@kinde-oss/kinde-auth-nextjs/components";
-import { LogOut, Settings, User2 } from "lucide-react";
+import { LayoutDashboard, LogOut, Settings, User2 } from "lucide-react";
 
 import { siteConfig } from "@/config/site";
-import { getUserAuth } from "@/lib/auth";
+import { getUserAuth, isStaff } from "@/lib/auth";
+import { BASE_CURRENCY } from "@/lib/currency";
+import { getDisplayCurrency } from "@/lib/display-currency";
+import { getTranslations } from "@/lib/i18n/server";
 import { cn } from "@/lib/utils";
 import { Icons } from "../icons";
 import { Avatar, AvatarFallback, AvatarImage } from "../ui/avatar";
@@ -20,9 +23,16 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "../ui/dropdown-menu";
+import { CurrencySelect } from "./currency-select";
+import { LocaleSelect } from "./locale-select";
 
 export async function SiteHeader() {
   const user = await getUserAuth();
+  const staff = !!user && (await isStaff());
+  const [{ currency, rates }, { t }] = await Promise.all([
+    getDisplayCurrency(),
+    getTranslations(),
+  ]);
 
   return (
     <header className="bg-background sticky top-0 z-40 w-full border-b">
@@ -35,6 +45,15 @@ export async function SiteHeader() {
         </Link>
 
         <div className="flex flex-1 justify-end gap-2">
+          <LocaleSelect />
+
+          {Object.keys(rates).length > 0 && (
+            <CurrencySelect
+              currency={currency}
+              currencies={[BASE_CURRENCY, ...Object.keys(rates)]}
+            />
+          )}
+
           {!user ?
             <>
               <RegisterLink
@@ -43,7 +62,7 @@ export async function SiteHeader() {
                   "hidden sm:flex"
                 )}
               >
-                Register
+                {t("navbar.register")}
               </RegisterLink>
 
               <LoginLink
@@ -52,7 +71,7 @@ export async function SiteHeader() {
                   "rounded-full px-6"
                 )}
               >
-                Login
+                {t("navbar.login")}
               </LoginLink>
             </>
           : <DropdownMenu>
@@ -74,14 +93,23 @@ export async function SiteHeader() {
                 <DropdownMenuItem asChild>
                   <Link href="/account">
                     <User2 className="mr-2 size-4" />
-                    My Account
+                    {t("navbar.myAccount")}
                   </Link>
                 </DropdownMenuItem>
 
+                {staff && (
+                  <DropdownMenuItem asChild>
+                    <Link href="/admin">
+                      <LayoutDashboard className="mr-2 size-4" />
+                      {t("navbar.backOffice")}
+                    </Link>
+                  </DropdownMenuItem>
+                )}
+
                 <DropdownMenuItem asChild>
                   <Link href="/settings">
                     <Settings className="mr-2 size-4" />
-                    Settings
+                    {t("navbar.settings")}
                   </Link>
                 </DropdownMenuItem>
 
@@ -89,7 +117,7 @@ export async function SiteHeader() {
                 <DropdownMenuItem asChild>
                   <LogoutLink>
                     <LogOut className="mr-2 size-4" />
-                    Logout
+                    {t("navbar.logout")}
                   </LogoutLink>
                 </DropdownMenuItem>
               </DropdownMenuContent>
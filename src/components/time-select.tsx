@@ -0,0 +1,44 @@
+import * as React from "react";
+
+import { cn } from "@/lib/utils";
+
+type TimeSelectProps = Omit<
+  React.SelectHTMLAttributes<HTMLSelectElement>,
+  "children"
+> & {
+  /** Times that can be picked, as `HH:mm` */
+  slots: string[];
+};
+
+/**
+ * Picks a pickup or return time among the time slots of a branch
+ */
+export const TimeSelect = React.forwardRef<HTMLSelectElement, TimeSelectProps>(
+  ({ slots, value, className, ...props }, ref) => {
+    // A time picked for another day stays listed, the form explains why it can't be booked
+    const options =
+      typeof value === "string" && value && !slots.includes(value) ?
+        [...slots, value].sort()
+      : slots;
+
+    return (
+      <select
+        ref={ref}
+        value={value}
+        className={cn(
+          "text-muted-foreground hover:text-foreground w-full cursor-pointer appearance-none bg-transparent text-sm duration-200 focus-visible:outline-none",
+          className
+        )}
+        {...props}
+      >
+        {options.length === 0 && <option value="">Closed</option>}
+        {options.map((time) => (
+          <option key={time} value={time}>
+            {time}
+          </option>
+        ))}
+      </select>
+    );
+  }
+);
+TimeSelect.displayName = "TimeSelect";
@@ -0,0 +1,27 @@
+import * as React from "react";
+import { ChevronDown } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+
+export type NativeSelectProps = React.SelectHTMLAttributes<HTMLSelectElement>;
+
+const NativeSelect = React.forwardRef<HTMLSelectElement, NativeSelectProps>(
+  ({ className, ...props }, ref) => {
+    return (
+      <div className="relative">
+        <select
+          ref={ref}
+          className={cn(
+            "bg-input ring-offset-background focus-visible:ring-ring flex h-10 w-full appearance-none rounded-md border py-2 pl-3 pr-8 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50",
+            className
+          )}
+          {...props}
+        />
+        <ChevronDown className="pointer-events-none absolute right-3 top-3 size-4 opacity-50" />
+      </div>
+    );
+  }
+);
+NativeSelect.displayName = "NativeSelect";
+
+export { NativeSelect };
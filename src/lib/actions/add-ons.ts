@@ -0,0 +1,128 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+
+import type { AddOnFormValues } from "@/lib/validations/add-on";
+
+import { isStaff } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { addOns, addOnStock } from "@/lib/db/schema/tables";
+import { AddOnFormSchema } from "@/lib/validations/add-on";
+
+const NOT_ALLOWED_ERROR = "You are not allowed to manage add-ons";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export async function createAddOn(values: AddOnFormValues) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  const parsed = AddOnFormSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  const { retired, stock, ...data } = parsed.data;
+
+  try {
+    console.log("Adding add-on:", data.name);
+
+    const addOn = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(addOns)
+        .values({ ...data, retired_at: retired ? new Date() : null })
+        .returning({ id: addOns.id });
+
+      await replaceStock(tx, created.id, stock);
+
+      return created;
+    });
+
+    return { success: true, addOn };
+  } catch (error) {
+    console.error("Failed to create add-on:", error);
+    return { error: getErrorMessage(error, "create") };
+  }
+}
+
+/**
+ * Updates an add-on and its stock, staff only. Reservations keep the price they were booked with.
+ */
+export async function updateAddOn(addOnId: string, values: AddOnFormValues) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  const parsed = AddOnFormSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  const { retired, stock, ...data } = parsed.data;
+
+  try {
+    console.log("Updating add-on:", data.name);
+
+    const updated = await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({ retired_at: addOns.retired_at })
+        .from(addOns)
+        .where(eq(addOns.id, addOnId))
+        .for("update");
+
+      if (!current) {
+        return false;
+      }
+
+      await tx
+        .update(addOns)
+        .set({
+          ...data,
+          // Keep the original retirement date when the add-on stays retired
+          retired_at: retired ? (current.retired_at ?? new Date()) : null,
+        })
+        .where(eq(addOns.id, addOnId));
+
+      await replaceStock(tx, addOnId, stock);
+
+      return true;
+    });
+
+    if (!updated) {
+      return { error: "Add-on not found" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to update add-on:", error);
+    return { error: getErrorMessage(error, "update") };
+  }
+}
+
+/**
+ * Replaces the units of the add-on owned by each location, locations without units are dropped.
+ * Lowering the stock doesn't affect reservations already made.
+ */
+async function replaceStock(
+  tx: Transaction,
+  addOnId: string,
+  stock: { location_id: string; quantity: number | null }[]
+) {
+  const rows = stock.flatMap(({ location_id, quantity }) =>
+    quantity ? [{ add_on_id: addOnId, location_id, quantity }] : []
+  );
+
+  await tx.delete(addOnStock).where(eq(addOnStock.add_on_id, addOnId));
+
+  if (rows.length > 0) {
+    await tx.insert(addOnStock).values(rows);
+  }
+}
+
+function getErrorMessage(error: unknown, action: string) {
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  return `Failed to ${action} add-on: ${errorMessage}. Please try again.`;
+}
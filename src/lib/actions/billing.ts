@@ -0,0 +1,27 @@
+"use server";
+
+import { isStaff } from "@/lib/auth";
+import { billDueInstallments } from "@/lib/billing";
+
+/**
+ * Bills every scheduled installment that is due and starts its payment, which the customer
+ * completes from their account. Staff only, the scheduler bills them through `/api/cron/billing`.
+ */
+export async function billDueCharges() {
+  if (!(await isStaff())) {
+    return { error: "You are not allowed to bill charges" };
+  }
+
+  try {
+    const count = await billDueInstallments();
+
+    return { success: true, count };
+  } catch (error) {
+    console.error("Failed to bill due charges:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return {
+      error: `Failed to bill due charges: ${errorMessage}. Please try again.`,
+    };
+  }
+}
@@ -0,0 +1,257 @@
+"use server";
+
+import { and, eq, max, ne } from "drizzle-orm";
+
+import type { CarImageValues } from "@/lib/validations/car";
+
+import { isStaff } from "@/lib/auth";
+import { deleteUnusedCarImage } from "@/lib/car-images";
+import { db } from "@/lib/db";
+import { carImages, cars } from "@/lib/db/schema/tables";
+import { CarImageSchema } from "@/lib/validations/car";
+
+const NOT_ALLOWED_ERROR = "You are not allowed to manage the fleet";
+
+/**
+ * Adds an image to the end of a car's gallery, the first image of a gallery becomes its primary
+ */
+export async function addCarImage(carId: string, values: CarImageValues) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  const parsed = CarImageSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  try {
+    const [car] = await db
+      .select({ id: cars.id })
+      .from(cars)
+      .where(eq(cars.id, carId))
+      .limit(1);
+
+    if (!car) {
+      return { error: "Car not found" };
+    }
+
+    console.log(`Adding image to car ${carId}`);
+
+    await db.transaction(async (tx) => {
+      const [{ lastPosition }] = await tx
+        .select({ lastPosition: max(carImages.position) })
+        .from(carImages)
+        .where(eq(carImages.car_id, carId));
+
+      const [image] = await tx
+        .insert(carImages)
+        .values({
+          ...parsed.data,
+          car_id: carId,
+          position: lastPosition === null ? 0 : lastPosition + 1,
+          is_primary: lastPosition === null,
+          created_at: new Date(),
+        })
+        .returning();
+
+      if (image.is_primary) {
+        await mirrorPrimaryImage(tx, image);
+      }
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to add car image:", error);
+    return { error: getErrorMessage(error, "add") };
+  }
+}
+
+export async function updateCarImageAltText(imageId: string, altText: string) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  const parsed = CarImageSchema.shape.alt_text.safeParse(altText);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  try {
+    await db
+      .update(carImages)
+      .set({ alt_text: parsed.data })
+      .where(eq(carImages.id, imageId));
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to update car image:", error);
+    return { error: getErrorMessage(error, "update") };
+  }
+}
+
+/**
+ * Makes the image the one shown on cards and listings
+ */
+export async function setPrimaryCarImage(imageId: string) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  try {
+    const image = await fetchCarImage(imageId);
+
+    if (!image) {
+      return { error: "Image not found" };
+    }
+
+    console.log(`Setting primary image of car ${image.car_id} to ${imageId}`);
+
+    await db.transaction(async (tx) => {
+      // Demote first, at most one image per car may be primary at any time
+      await tx
+        .update(carImages)
+        .set({ is_primary: false })
+        .where(
+          and(eq(carImages.car_id, image.car_id), ne(carImages.id, imageId))
+        );
+
+      await tx
+        .update(carImages)
+        .set({ is_primary: true })
+        .where(eq(carImages.id, imageId));
+
+      await mirrorPrimaryImage(tx, image);
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to set primary car image:", error);
+    return { error: getErrorMessage(error, "update") };
+  }
+}
+
+/**
+ * Saves the order of a car's gallery
+ * @param carId The car
+ * @param imageIds Every image of the car, in their new order
+ */
+export async function reorderCarImages(carId: string, imageIds: string[]) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  try {
+    const images = await db
+      .select({ id: carImages.id })
+      .from(carImages)
+      .where(eq(carImages.car_id, carId));
+
+    const isSameSet =
+      images.length === imageIds.length &&
+      images.every((image) => imageIds.includes(image.id));
+
+    if (!isSameSet) {
+      return {
+        error: "The gallery was changed by someone else. Please try again.",
+      };
+    }
+
+    await db.transaction(async (tx) => {
+      for (const [position, id] of imageIds.entries()) {
+        await tx
+          .update(carImages)
+          .set({ position })
+          .where(eq(carImages.id, id));
+      }
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to reorder car images:", error);
+    return { error: getErrorMessage(error, "reorder") };
+  }
+}
+
+/**
+ * Removes an image from a car's gallery, promoting the next image if it was the primary one
+ */
+export async function removeCarImage(imageId: string) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  try {
+    const image = await fetchCarImage(imageId);
+
+    if (!image) {
+      return { error: "Image not found" };
+    }
+
+    const gallery = await db
+      .select()
+      .from(carImages)
+      .where(eq(carImages.car_id, image.car_id))
+      .orderBy(carImages.position);
+
+    if (gallery.length === 1) {
+      return { error: "A car needs at least one image" };
+    }
+
+    console.log(`Removing image ${imageId} from car ${image.car_id}`);
+
+    await db.transaction(async (tx) => {
+      await tx.delete(carImages).where(eq(carImages.id, imageId));
+
+      if (image.is_primary) {
+        const next = gallery.find(({ id }) => id !== imageId)!;
+
+        await tx
+          .update(carImages)
+          .set({ is_primary: true })
+          .where(eq(carImages.id, next.id));
+
+        await mirrorPrimaryImage(tx, next);
+      }
+    });
+
+    await deleteUnusedCarImage(image.path);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to remove car image:", error);
+    return { error: getErrorMessage(error, "remove") };
+  }
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function fetchCarImage(imageId: string) {
+  const [image] = await db
+    .select()
+    .from(carImages)
+    .where(eq(carImages.id, imageId))
+    .limit(1);
+
+  return image;
+}
+
+/**
+ * Copies the primary image to the car, which is what cards and listings show
+ */
+async function mirrorPrimaryImage(
+  tx: Transaction,
+  image: typeof carImages.$inferSelect
+) {
+  await tx
+    .update(cars)
+    .set({ image_url: image.url, image_path: image.path })
+    .where(eq(cars.id, image.car_id));
+}
+
+function getErrorMessage(error: unknown, action: string) {
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  return `Failed to ${action} image: ${errorMessage}. Please try again.`;
+}
@@ -0,0 +1,229 @@
+"use server";
+
+import { and, eq, inArray } from "drizzle-orm";
+
+import type {
+  BodyStyleDepositsFormValues,
+  DepositCaptureFormValues,
+} from "@/lib/validations/deposit";
+
+import { getUserAuth, isStaff } from "@/lib/auth";
+import { fromMinorUnits, toMinorUnits } from "@/lib/currency";
+import { db } from "@/lib/db";
+import {
+  bodyStyleDeposits,
+  payments,
+  rentalReservations,
+} from "@/lib/db/schema/tables";
+import { PaymentPurpose, PaymentStatus, ReservationStatus } from "@/lib/enums";
+import { getTranslations } from "@/lib/i18n/server";
+import { settleDepositHold, startDepositHold } from "@/lib/payments";
+import { formatCurrency } from "@/lib/utils";
+import {
+  BodyStyleDepositsFormSchema,
+  DepositCaptureFormSchema,
+} from "@/lib/validations/deposit";
+
+/**
+ * Reservations whose deposit can be held, from once they are paid for until the car is returned
+ */
+const DEPOSIT_RESERVATION_STATUSES = [
+  ReservationStatus.CONFIRMED,
+  ReservationStatus.ACTIVE,
+];
+
+/**
+ * Replaces the deposits of body styles, staff only. Reservations keep the deposit they were
+ * booked with.
+ */
+export async function updateBodyStyleDeposits(
+  values: BodyStyleDepositsFormValues
+) {
+  if (!(await isStaff())) {
+    return { error: "You are not allowed to manage deposits" };
+  }
+
+  const parsed = BodyStyleDepositsFormSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  const { currency, deposits } = parsed.data;
+
+  const rows = deposits.flatMap(({ amount, ...deposit }) =>
+    amount === null ? [] : [{ ...deposit, amount, currency }]
+  );
+
+  try {
+    console.log(`Updating body style deposits: ${rows.length} body styles`);
+
+    await db.transaction(async (tx) => {
+      await tx.delete(bodyStyleDeposits);
+
+      if (rows.length > 0) {
+        await tx.insert(bodyStyleDeposits).values(rows);
+      }
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to update body style deposits:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return {
+      error: `Failed to update deposits: ${errorMessage}. Please try again.`,
+    };
+  }
+}
+
+/**
+ * Starts the authorization of the deposit of a reservation of the signed in customer
+ */
+export async function holdDeposit(reservationId: string) {
+  const [user, { t }] = await Promise.all([getUserAuth(), getTranslations()]);
+
+  if (!user) {
+    return { error: t("errors.signInToHoldDeposit") };
+  }
+
+  try {
+    const [reservation] = await db
+      .select()
+      .from(rentalReservations)
+      .where(
+        and(
+          eq(rentalReservations.id, reservationId),
+          eq(rentalReservations.user_id, user.id)
+        )
+      )
+      .limit(1);
+
+    if (!reservation) {
+      return { error: t("errors.reservationNotFound") };
+    }
+
+    if (
+      !reservation.deposit_amount ||
+      !DEPOSIT_RESERVATION_STATUSES.includes(reservation.status)
+    ) {
+      return { error: t("errors.noDepositToHold") };
+    }
+
+    const [held] = await db
+      .select({ id: payments.id })
+      .from(payments)
+      .where(
+        and(
+          eq(payments.reservation_id, reservationId),
+          eq(payments.purpose, PaymentPurpose.DEPOSIT),
+          inArray(payments.status, [
+            PaymentStatus.AUTHORIZED,
+            PaymentStatus.SUCCEEDED,
+          ])
+        )
+      )
+      .limit(1);
+
+    if (held) {
+      return { error: t("errors.depositAlreadyHeld") };
+    }
+
+    const checkoutUrl = await startDepositHold(reservation);
+
+    return { success: true, checkoutUrl };
+  } catch (error) {
+    console.error("Failed to hold deposit:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : t("errors.unknown");
+    return { error: t("errors.depositHoldFailed", { error: errorMessage }) };
+  }
+}
+
+/**
+ * Gives a held deposit back to the customer in full, staff only
+ */
+export async function releaseDeposit(depositId: string) {
+  return settleDeposit(depositId, null);
+}
+
+/**
+ * Keeps part or all of a held deposit, e.g. for damages, and releases the rest, staff only
+ */
+export async function captureDeposit(
+  depositId: string,
+  values: DepositCaptureFormValues
+) {
+  const parsed = DepositCaptureFormSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  return settleDeposit(depositId, parsed.data);
+}
+
+async function settleDeposit(
+  depositId: string,
+  capture: { amount: number; reason: string } | null
+) {
+  const user = await getUserAuth();
+
+  if (!user || !(await isStaff())) {
+    return { error: "You are not allowed to settle deposits" };
+  }
+
+  try {
+    const [deposit] = await db
+      .select()
+      .from(payments)
+      .where(
+        and(
+          eq(payments.id, depositId),
+          eq(payments.purpose, PaymentPurpose.DEPOSIT)
+        )
+      )
+      .limit(1);
+
+    if (!deposit) {
+      return { error: "Deposit not found" };
+    }
+
+    if (deposit.status !== PaymentStatus.AUTHORIZED) {
+      return { error: `A ${deposit.status} deposit can't be settled` };
+    }
+
+    const amount = capture ? toMinorUnits(capture.amount, deposit.currency) : 0;
+
+    if (amount > deposit.amount) {
+      return {
+        error: `At most ${formatCurrency(
+          fromMinorUnits(deposit.amount, deposit.currency),
+          deposit.currency
+        )} can be kept`,
+      };
+    }
+
+    const settled = await settleDepositHold(
+      deposit,
+      amount,
+      capture?.reason ?? null,
+      user.id
+    );
+
+    if (!settled) {
+      return {
+        error: "The deposit was settled by someone else. Please refresh.",
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to settle deposit:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return {
+      error: `Failed to settle deposit: ${errorMessage}. Please try again.`,
+    };
+  }
+}
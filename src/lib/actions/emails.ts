@@ -0,0 +1,32 @@
+"use server";
+
+import { isStaff } from "@/lib/auth";
+import { queuePickupReminders, sendDueEmails } from "@/lib/emails";
+
+/**
+ * Queues the pick-up reminders that are due and sends the emails of the outbox that are due,
+ * staff only
+ */
+export async function sendDueEmailsNow() {
+  if (!(await isStaff())) {
+    return { error: "You are not allowed to send emails" };
+  }
+
+  try {
+    const reminders = await queuePickupReminders();
+    const { sent, failed } = await sendDueEmails();
+
+    console.log(
+      `Queued ${reminders} reminders, sent ${sent} emails, ${failed} failed`
+    );
+
+    return { success: true, sent, failed };
+  } catch (error) {
+    console.error("Failed to send due emails:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return {
+      error: `Failed to send due emails: ${errorMessage}. Please try again.`,
+    };
+  }
+}
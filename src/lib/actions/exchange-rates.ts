@@ -0,0 +1,80 @@
+"use server";
+
+import { cookies } from "next/headers";
+
+import type { ExchangeRatesFormValues } from "@/lib/validations/exchange-rate";
+
+import { isStaff } from "@/lib/auth";
+import { BASE_CURRENCY, DISPLAY_CURRENCY_COOKIE } from "@/lib/currency";
+import { db } from "@/lib/db";
+import { fetchExchangeRates } from "@/lib/db/queries";
+import { exchangeRates } from "@/lib/db/schema/tables";
+import { ExchangeRatesFormSchema } from "@/lib/validations/exchange-rate";
+
+/**
+ * Replaces the exchange rate table, staff only. Only displayed prices change, reservations are
+ * charged in the currency of the car.
+ */
+export async function updateExchangeRates(values: ExchangeRatesFormValues) {
+  if (!(await isStaff())) {
+    return { error: "You are not allowed to manage exchange rates" };
+  }
+
+  const parsed = ExchangeRatesFormSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  const updatedAt = new Date();
+  const rates = parsed.data.rates.map(({ currency, rate }) => ({
+    currency,
+    rate: String(rate),
+    updated_at: updatedAt,
+  }));
+
+  try {
+    console.log(`Updating exchange rates: ${rates.length} currencies`);
+
+    await db.transaction(async (tx) => {
+      await tx.delete(exchangeRates);
+
+      if (rates.length > 0) {
+        await tx.insert(exchangeRates).values(rates);
+      }
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to update exchange rates:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return {
+      error: `Failed to update exchange rates: ${errorMessage}. Please try again.`,
+    };
+  }
+}
+
+/**
+ * Remembers the currency the visitor wants to see prices in
+ */
+export async function setDisplayCurrency(currency: string) {
+  const rates = await fetchExchangeRates();
+
+  if (
+    currency !== BASE_CURRENCY &&
+    !rates.some((rate) => rate.currency === currency)
+  ) {
+    return { error: `Prices can't be shown in ${currency}` };
+  }
+
+  const cookieStore = await cookies();
+
+  cookieStore.set(DISPLAY_CURRENCY_COOKIE, currency, {
+    path: "/",
+    maxAge: 60 * 60 * 24 * 365,
+    sameSite: "lax",
+  });
+
+  return { success: true };
+}
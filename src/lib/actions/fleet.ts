@@ -0,0 +1,397 @@
+"use server";
+
+import { and, eq, gt, inArray, isNull, like, ne } from "drizzle-orm";
+
+import type {
+  CarFormValues,
+  CarTranslationsValues,
+} from "@/lib/validations/car";
+
+import { isStaff } from "@/lib/auth";
+import { storeCarImage } from "@/lib/car-images";
+import { db } from "@/lib/db";
+import { fetchLocationById } from "@/lib/db/queries";
+import {
+  carImages,
+  cars,
+  carTranslations,
+  rentalReservations,
+} from "@/lib/db/schema/tables";
+import { BLOCKING_RESERVATION_STATUSES } from "@/lib/reservation-status";
+import { slugify } from "@/lib/utils";
+import {
+  CarFormSchema,
+  CarImageFileSchema,
+  CarTranslationsSchema,
+} from "@/lib/validations/car";
+
+const NOT_ALLOWED_ERROR = "You are not allowed to manage the fleet";
+
+export async function createCar(values: CarFormValues) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  const parsed = CarFormSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  try {
+    const data = parsed.data;
+
+    if (!(await fetchLocationById(data.location_id))) {
+      return { error: "Location not found" };
+    }
+
+    const slug = await generateUniqueSlug(data.slug || data.name);
+
+    console.log("Adding car to the fleet:", slug);
+
+    const car = await db.transaction(async (tx) => {
+      const [car] = await tx
+        .insert(cars)
+        .values(toCarColumns({ ...data, slug }))
+        .returning({ id: cars.id, slug: cars.slug });
+
+      // The image becomes the first image of the car's gallery
+      await tx.insert(carImages).values({
+        car_id: car.id,
+        url: data.image_url,
+        path: data.image_path,
+        alt_text: data.name,
+        position: 0,
+        is_primary: true,
+        created_at: new Date(),
+      });
+
+      return car;
+    });
+
+    return { success: true, car };
+  } catch (error) {
+    console.error("Failed to create car:", error);
+    return { error: getErrorMessage(error, "create") };
+  }
+}
+
+export async function updateCar(carId: string, values: CarFormValues) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  const parsed = CarFormSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  try {
+    const data = parsed.data;
+
+    const [car] = await db
+      .select()
+      .from(cars)
+      .where(eq(cars.id, carId))
+      .limit(1);
+
+    if (!car) {
+      return { error: "Car not found" };
+    }
+
+    if (data.location_id !== car.location_id) {
+      const relocationError = await checkRelocation(carId, data.location_id);
+
+      if (relocationError) {
+        return { error: relocationError };
+      }
+    }
+
+    // Keep the slug unless it was edited, so that shared links keep working
+    const slug =
+      data.slug === car.slug ?
+        car.slug
+      : await generateUniqueSlug(data.slug || data.name, carId);
+
+    console.log("Updating car:", slug);
+
+    await db
+      .update(cars)
+      .set({
+        ...toCarColumns({ ...data, slug }),
+        // The image of an existing car is managed through its gallery
+        image_url: car.image_url,
+        image_path: car.image_path,
+      })
+      .where(eq(cars.id, carId));
+
+    return { success: true, car: { id: carId, slug } };
+  } catch (error) {
+    console.error("Failed to update car:", error);
+    return { error: getErrorMessage(error, "update") };
+  }
+}
+
+/**
+ * Replaces the translated descriptions and features of a car, staff only. Languages left empty are
+ * shown in English.
+ */
+export async function updateCarTranslations(
+  carId: string,
+  values: CarTranslationsValues
+) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  const parsed = CarTranslationsSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  try {
+    const [car] = await db
+      .select({ id: cars.id })
+      .from(cars)
+      .where(eq(cars.id, carId))
+      .limit(1);
+
+    if (!car) {
+      return { error: "Car not found" };
+    }
+
+    const rows = parsed.data.translations
+      .filter(
+        ({ descriptions, features }) => descriptions.length || features.length
+      )
+      .map((translation) => ({ car_id: carId, ...translation }));
+
+    console.log("Updating car translations:", carId);
+
+    await db.transaction(async (tx) => {
+      await tx.delete(carTranslations).where(eq(carTranslations.car_id, carId));
+
+      if (rows.length > 0) {
+        await tx.insert(carTranslations).values(rows);
+      }
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to update car translations:", error);
+    return { error: getErrorMessage(error, "translate") };
+  }
+}
+
+/**
+ * Stores an uploaded car image, the car or its gallery is only updated once the image is saved
+ * @param formData The form data with the image under `image`
+ */
+export async function uploadCarImage(formData: FormData) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  const parsed = CarImageFileSchema.safeParse(formData.get("image"));
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  try {
+    console.log("Uploading car image:", parsed.data.name);
+
+    const image = await storeCarImage(parsed.data);
+
+    return { success: true, image };
+  } catch (error) {
+    console.error("Failed to upload car image:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return { error: `Failed to upload image: ${errorMessage}` };
+  }
+}
+
+/**
+ * Moves a car to another location, as long as it has no upcoming trips from its current one
+ */
+export async function relocateCar(carId: string, locationId: string) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  try {
+    const relocationError = await checkRelocation(carId, locationId);
+
+    if (relocationError) {
+      return { error: relocationError };
+    }
+
+    console.log(`Relocating car ${carId} to location ${locationId}`);
+
+    const updated = await db
+      .update(cars)
+      .set({ location_id: locationId })
+      .where(eq(cars.id, carId))
+      .returning({ id: cars.id });
+
+    if (updated.length === 0) {
+      return { error: "Car not found" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to relocate car:", error);
+    return { error: getErrorMessage(error, "relocate") };
+  }
+}
+
+/**
+ * Takes a car out of the fleet, it stays in the database for the reservations that reference it
+ */
+export async function retireCar(carId: string) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  try {
+    const upcoming = await countUpcomingReservations(carId);
+
+    if (upcoming > 0) {
+      return {
+        error: `This car has ${upcoming} upcoming reservation(s). Cancel or move them before retiring it.`,
+      };
+    }
+
+    console.log(`Retiring car ${carId}`);
+
+    const updated = await db
+      .update(cars)
+      .set({ retired_at: new Date() })
+      .where(and(eq(cars.id, carId), isNull(cars.retired_at)))
+      .returning({ id: cars.id });
+
+    if (updated.length === 0) {
+      return { error: "Car not found or already retired" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to retire car:", error);
+    return { error: getErrorMessage(error, "retire") };
+  }
+}
+
+export async function reinstateCar(carId: string) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  try {
+    console.log(`Reinstating car ${carId}`);
+
+    await db.update(cars).set({ retired_at: null }).where(eq(cars.id, carId));
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to reinstate car:", error);
+    return { error: getErrorMessage(error, "reinstate") };
+  }
+}
+
+type ParsedCar = ReturnType<typeof CarFormSchema.parse>;
+
+function toCarColumns(data: ParsedCar) {
+  return {
+    ...data,
+    rating: data.rating.toFixed(1),
+    // Discounts are always charged in the retail currency
+    discounted_price_currency:
+      data.discounted_price_per_day !== null ?
+        data.retail_price_currency
+      : null,
+  };
+}
+
+/**
+ * Slugifies the given text and appends a counter if another car already uses the slug
+ */
+async function generateUniqueSlug(text: string, excludeCarId?: string) {
+  const base = slugify(text) || "car";
+
+  const taken = await db
+    .select({ slug: cars.slug })
+    .from(cars)
+    .where(
+      and(
+        like(cars.slug, `${base}%`),
+        excludeCarId ? ne(cars.id, excludeCarId) : undefined
+      )
+    );
+
+  const slugs = new Set(taken.map((car) => car.slug));
+
+  let slug = base;
+  for (let i = 2; slugs.has(slug); i++) {
+    slug = `${base}-${i}`;
+  }
+
+  return slug;
+}
+
+/**
+ * Returns why the car can't be moved to the given location, if it can't
+ */
+async function checkRelocation(carId: string, locationId: string) {
+  if (!(await fetchLocationById(locationId))) {
+    return "Location not found";
+  }
+
+  const upcoming = await countUpcomingReservations(carId);
+
+  if (upcoming > 0) {
+    return `This car has ${upcoming} upcoming reservation(s) at its current location. Cancel or move them before relocating it.`;
+  }
+}
+
+/**
+ * Counts the reservations that still hold the car now or in the future
+ */
+async function countUpcomingReservations(carId: string) {
+  const reservations = await db
+    .select({ id: rentalReservations.id })
+    .from(rentalReservations)
+    .where(
+      and(
+        eq(rentalReservations.car_id, carId),
+        inArray(rentalReservations.status, BLOCKING_RESERVATION_STATUSES),
+        gt(rentalReservations.check_out, new Date())
+      )
+    );
+
+  return reservations.length;
+}
+
+/**
+ * Checks whether the given error was raised by the unique constraint on car slugs
+ * (SQLSTATE 23505, unique_violation)
+ */
+function isUniqueViolation(error: unknown) {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    error.code === "23505"
+  );
+}
+
+function getErrorMessage(error: unknown, action: string) {
+  if (isUniqueViolation(error)) {
+    return "Another car already uses this slug. Please choose a different one.";
+  }
+
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  return `Failed to ${action} car: ${errorMessage}. Please try again.`;
+}
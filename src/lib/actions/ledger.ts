@@ -0,0 +1,113 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+
+import type { LedgerAdjustmentFormValues } from "@/lib/validations/ledger";
+
+import { getUserAuth, isStaff } from "@/lib/auth";
+import { fromMinorUnits, toMinorUnits } from "@/lib/currency";
+import { db } from "@/lib/db";
+import { rentalReservations } from "@/lib/db/schema/tables";
+import { LedgerEntryType } from "@/lib/enums";
+import { chargeLines, postLedgerTransaction } from "@/lib/ledger";
+import { refundOwedBalance } from "@/lib/payments";
+import { LedgerAdjustmentFormSchema } from "@/lib/validations/ledger";
+
+/**
+ * Refunds what the ledger says is owed to the customer of a reservation, staff only. Only
+ * credits are refunded, e.g. under the cancellation policy when the reservation was cancelled,
+ * never more than that.
+ */
+export async function refundReservation(reservationId: string) {
+  const user = await getUserAuth();
+
+  if (!user || !(await isStaff())) {
+    return { error: "You are not allowed to refund reservations" };
+  }
+
+  try {
+    const [reservation] = await db
+      .select({ currency: rentalReservations.currency })
+      .from(rentalReservations)
+      .where(eq(rentalReservations.id, reservationId))
+      .limit(1);
+
+    if (!reservation?.currency) {
+      return { error: "Reservation not found" };
+    }
+
+    const refunded = await refundOwedBalance(reservationId, user.id);
+
+    if (refunded === 0) {
+      return { error: "Nothing is owed to the customer" };
+    }
+
+    return {
+      success: true,
+      refund: {
+        amount: fromMinorUnits(refunded, reservation.currency),
+        currency: reservation.currency,
+      },
+    };
+  } catch (error) {
+    console.error("Failed to refund reservation:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return {
+      error: `Failed to refund reservation: ${errorMessage}. Please try again.`,
+    };
+  }
+}
+
+/**
+ * Charges the customer of a reservation an extra amount, or credits one back to them, staff only.
+ * Credits are refunded separately.
+ */
+export async function adjustReservationBalance(
+  reservationId: string,
+  values: LedgerAdjustmentFormValues
+) {
+  const user = await getUserAuth();
+
+  if (!user || !(await isStaff())) {
+    return { error: "You are not allowed to adjust reservations" };
+  }
+
+  const parsed = LedgerAdjustmentFormSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  const { amount, reason } = parsed.data;
+
+  try {
+    const [reservation] = await db
+      .select({ currency: rentalReservations.currency })
+      .from(rentalReservations)
+      .where(eq(rentalReservations.id, reservationId))
+      .limit(1);
+
+    if (!reservation?.currency) {
+      return { error: "Reservation not found" };
+    }
+
+    await postLedgerTransaction(db, {
+      reservationId,
+      type: LedgerEntryType.ADJUSTMENT,
+      description: reason,
+      currency: reservation.currency,
+      lines: chargeLines(toMinorUnits(amount, reservation.currency)),
+      createdBy: user.id,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to adjust reservation:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return {
+      error: `Failed to adjust reservation: ${errorMessage}. Please try again.`,
+    };
+  }
+}
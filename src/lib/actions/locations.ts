@@ -0,0 +1,101 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+
+import type { LocationFormValues } from "@/lib/validations/location";
+
+import { isStaff } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { locations } from "@/lib/db/schema/tables";
+import { slugify } from "@/lib/utils";
+import { LocationFormSchema } from "@/lib/validations/location";
+
+const NOT_ALLOWED_ERROR = "You are not allowed to manage locations";
+
+export async function createLocation(values: LocationFormValues) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  const parsed = LocationFormSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  try {
+    const data = parsed.data;
+    const value = data.value || slugify(data.name);
+
+    console.log("Adding location:", value);
+
+    const [location] = await db
+      .insert(locations)
+      .values({ ...data, value })
+      .returning({ id: locations.id });
+
+    return { success: true, location };
+  } catch (error) {
+    console.error("Failed to create location:", error);
+    return { error: getErrorMessage(error, "create") };
+  }
+}
+
+export async function updateLocation(
+  locationId: string,
+  values: LocationFormValues
+) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  const parsed = LocationFormSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  try {
+    const data = parsed.data;
+    const value = data.value || slugify(data.name);
+
+    console.log("Updating location:", value);
+
+    const updated = await db
+      .update(locations)
+      .set({ ...data, value })
+      .where(eq(locations.id, locationId))
+      .returning({ id: locations.id });
+
+    if (updated.length === 0) {
+      return { error: "Location not found" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to update location:", error);
+    return { error: getErrorMessage(error, "update") };
+  }
+}
+
+/**
+ * Checks whether the given error was raised by the unique constraint on location values
+ * (SQLSTATE 23505, unique_violation)
+ */
+function isUniqueViolation(error: unknown) {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    error.code === "23505"
+  );
+}
+
+function getErrorMessage(error: unknown, action: string) {
+  if (isUniqueViolation(error)) {
+    return "Another location already uses this URL value. Please choose a different one.";
+  }
+
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  return `Failed to ${action} location: ${errorMessage}. Please try again.`;
+}
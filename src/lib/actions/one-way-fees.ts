@@ -0,0 +1,50 @@
+"use server";
+
+import type { OneWayFeesFormValues } from "@/lib/validations/one-way-fees";
+
+import { isStaff } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { oneWayFees } from "@/lib/db/schema/tables";
+import { OneWayFeesFormSchema } from "@/lib/validations/one-way-fees";
+
+/**
+ * Replaces the one-way fee matrix, staff only. Reservations keep the fee they were priced with.
+ */
+export async function updateOneWayFees(values: OneWayFeesFormValues) {
+  if (!(await isStaff())) {
+    return { error: "You are not allowed to manage one-way fees" };
+  }
+
+  const parsed = OneWayFeesFormSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  const { currency, routes } = parsed.data;
+
+  const fees = routes.flatMap(({ amount, ...route }) =>
+    amount === null ? [] : [{ ...route, amount, currency }]
+  );
+
+  try {
+    console.log(`Updating one-way fees: ${fees.length} routes`);
+
+    await db.transaction(async (tx) => {
+      await tx.delete(oneWayFees);
+
+      if (fees.length > 0) {
+        await tx.insert(oneWayFees).values(fees);
+      }
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to update one-way fees:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return {
+      error: `Failed to update one-way fees: ${errorMessage}. Please try again.`,
+    };
+  }
+}
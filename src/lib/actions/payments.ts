@@ -0,0 +1,218 @@
+"use server";
+
+import { and, eq } from "drizzle-orm";
+
+import type { PaymentEvent } from "@/lib/payments/provider";
+
+import { getUserAuth, isStaff } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { payments, rentalReservations } from "@/lib/db/schema/tables";
+import { PaymentPurpose, PaymentStatus, ReservationStatus } from "@/lib/enums";
+import { env } from "@/lib/env";
+import { getTranslations } from "@/lib/i18n/server";
+import {
+  isReservationPaid,
+  paymentProvider,
+  receiveManualPayment,
+  receivePaymentWebhook,
+  startBalancePayment,
+  startReservationPayment,
+} from "@/lib/payments";
+import { isMockPaymentAllowed, signMockPayload } from "@/lib/payments/mock";
+import {
+  getPaymentHoldCutoff,
+  PAYABLE_RESERVATION_STATUSES,
+} from "@/lib/reservation-status";
+
+/**
+ * Starts a new payment for a reservation of the signed in customer: a pending reservation, e.g.
+ * after the first attempt was declined or abandoned, or what is left to pay on a confirmed one
+ */
+export async function payReservation(reservationId: string) {
+  const [user, { t }] = await Promise.all([getUserAuth(), getTranslations()]);
+
+  if (!user) {
+    return { error: t("errors.signInToPay") };
+  }
+
+  try {
+    const [reservation] = await db
+      .select()
+      .from(rentalReservations)
+      .where(
+        and(
+          eq(rentalReservations.id, reservationId),
+          eq(rentalReservations.user_id, user.id)
+        )
+      )
+      .limit(1);
+
+    if (!reservation) {
+      return { error: t("errors.reservationNotFound") };
+    }
+
+    if (
+      reservation.status === ReservationStatus.PENDING &&
+      reservation.total_amount !== null &&
+      !(await isReservationPaid(reservationId))
+    ) {
+      // A booking that wasn't paid for in time is about to be cancelled rather than paid late
+      if (
+        !paymentProvider.confirmedByStaff &&
+        reservation.created_at < getPaymentHoldCutoff()
+      ) {
+        return { error: t("errors.notPaidInTime") };
+      }
+
+      const checkoutUrl = await startReservationPayment(reservation);
+
+      return { success: true, checkoutUrl };
+    }
+
+    const checkoutUrl =
+      PAYABLE_RESERVATION_STATUSES.includes(reservation.status) ?
+        await startBalancePayment(reservation)
+      : null;
+
+    if (!checkoutUrl) {
+      return { error: t("errors.nothingLeftToPay") };
+    }
+
+    return { success: true, checkoutUrl };
+  } catch (error) {
+    console.error("Failed to start payment:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : t("errors.unknown");
+    return { error: t("errors.paymentFailed", { error: errorMessage }) };
+  }
+}
+
+/**
+ * Pays or declines a payment on the checkout page of the mock provider, by sending the webhook
+ * the provider would send. Customers can only settle payments of their own reservations.
+ */
+export async function completeMockPayment(
+  providerPaymentId: string,
+  succeeded: boolean
+) {
+  if (env.PAYMENT_PROVIDER !== "mock" || !isMockPaymentAllowed()) {
+    return { error: "Payments are not handled by the mock provider" };
+  }
+
+  const [user, { t }] = await Promise.all([getUserAuth(), getTranslations()]);
+
+  if (!user) {
+    return { error: t("errors.signInToPay") };
+  }
+
+  try {
+    const [payment] = await db
+      .select({
+        id: payments.id,
+        purpose: payments.purpose,
+        amount: payments.amount,
+        currency: payments.currency,
+      })
+      .from(payments)
+      .innerJoin(
+        rentalReservations,
+        eq(rentalReservations.id, payments.reservation_id)
+      )
+      .where(
+        and(
+          eq(payments.provider, paymentProvider.name),
+          eq(payments.provider_payment_id, providerPaymentId),
+          eq(payments.status, PaymentStatus.PENDING),
+          eq(rentalReservations.user_id, user.id)
+        )
+      )
+      .limit(1);
+
+    if (!payment) {
+      return { error: t("errors.paymentNotFound") };
+    }
+
+    let event: PaymentEvent;
+
+    if (!succeeded) {
+      event = {
+        type: "payment.failed",
+        paymentId: providerPaymentId,
+        reason: "Declined by the customer",
+      };
+    } else if (payment.purpose === PaymentPurpose.DEPOSIT) {
+      // Deposits are captured manually, paying only authorizes them
+      event = {
+        type: "payment.authorized",
+        paymentId: providerPaymentId,
+        amount: payment.amount,
+        currency: payment.currency,
+      };
+    } else {
+      event = {
+        type: "payment.succeeded",
+        paymentId: providerPaymentId,
+        amount: payment.amount,
+        currency: payment.currency,
+      };
+    }
+
+    const payload = JSON.stringify(event);
+
+    return await receivePaymentWebhook(payload, signMockPayload(payload));
+  } catch (error) {
+    console.error("Failed to complete mock payment:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : t("errors.unknown");
+    return {
+      error: t("errors.paymentCompletionFailed", { error: errorMessage }),
+    };
+  }
+}
+
+/**
+ * Marks a payment received once its money came in outside the app, staff only. A rental payment
+ * confirms its reservation, a deposit is held.
+ */
+export async function markPaymentReceived(paymentId: string) {
+  const user = await getUserAuth();
+
+  if (!user || !(await isStaff())) {
+    return { error: "You are not allowed to mark payments received" };
+  }
+
+  if (!paymentProvider.confirmedByStaff) {
+    return { error: "Payments are confirmed by the payment provider" };
+  }
+
+  try {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(
+        and(
+          eq(payments.id, paymentId),
+          eq(payments.provider, paymentProvider.name),
+          eq(payments.status, PaymentStatus.PENDING)
+        )
+      )
+      .limit(1);
+
+    if (!payment) {
+      return { error: "Payment not found" };
+    }
+
+    console.log(
+      `Payment ${payment.provider_payment_id} received by ${user.id}`
+    );
+
+    return await receiveManualPayment(payment);
+  } catch (error) {
+    console.error("Failed to mark payment received:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return {
+      error: `Failed to mark payment received: ${errorMessage}. Please try again.`,
+    };
+  }
+}
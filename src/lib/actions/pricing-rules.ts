@@ -0,0 +1,112 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+
+import type { z } from "zod";
+import type { PricingRuleFormValues } from "@/lib/validations/pricing-rule";
+
+import { isStaff } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { pricingRules } from "@/lib/db/schema/tables";
+import { PricingRuleType } from "@/lib/enums";
+import { PricingRuleFormSchema } from "@/lib/validations/pricing-rule";
+
+const NOT_ALLOWED_ERROR = "You are not allowed to manage pricing rules";
+
+export async function createPricingRule(values: PricingRuleFormValues) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  const parsed = PricingRuleFormSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  try {
+    console.log("Adding pricing rule:", parsed.data.name);
+
+    const [pricingRule] = await db
+      .insert(pricingRules)
+      .values({ ...toColumns(parsed.data), created_at: new Date() })
+      .returning({ id: pricingRules.id });
+
+    return { success: true, pricingRule };
+  } catch (error) {
+    console.error("Failed to create pricing rule:", error);
+    return { error: getErrorMessage(error, "create") };
+  }
+}
+
+/**
+ * Updates a pricing rule, staff only. Reservations keep the price they were booked with.
+ */
+export async function updatePricingRule(
+  pricingRuleId: string,
+  values: PricingRuleFormValues
+) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  const parsed = PricingRuleFormSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  try {
+    console.log("Updating pricing rule:", parsed.data.name);
+
+    const updated = await db
+      .update(pricingRules)
+      .set(toColumns(parsed.data))
+      .where(eq(pricingRules.id, pricingRuleId))
+      .returning({ id: pricingRules.id });
+
+    if (updated.length === 0) {
+      return { error: "Pricing rule not found" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to update pricing rule:", error);
+    return { error: getErrorMessage(error, "update") };
+  }
+}
+
+/**
+ * Keeps the conditions of the rule's type only, so that switching types doesn't leave stale
+ * conditions behind
+ */
+function toColumns(data: z.output<typeof PricingRuleFormSchema>) {
+  const { type } = data;
+
+  return {
+    name: data.name,
+    type,
+    adjustment_percent: data.adjustment_percent,
+    location_ids: data.location_ids,
+    enabled: data.enabled,
+    start_date: type === PricingRuleType.DATE_RANGE ? data.start_date : null,
+    end_date: type === PricingRuleType.DATE_RANGE ? data.end_date : null,
+    weekdays: type === PricingRuleType.WEEKEND ? data.weekdays : [],
+    dates: type === PricingRuleType.HOLIDAY ? [...new Set(data.dates)] : [],
+    min_lead_days:
+      type === PricingRuleType.LEAD_TIME ? data.min_lead_days : null,
+    max_lead_days:
+      type === PricingRuleType.LEAD_TIME ? data.max_lead_days : null,
+    min_rental_days:
+      type === PricingRuleType.LENGTH_OF_STAY ? data.min_rental_days : null,
+    min_utilization_percent:
+      type === PricingRuleType.UTILIZATION ?
+        data.min_utilization_percent
+      : null,
+  };
+}
+
+function getErrorMessage(error: unknown, action: string) {
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  return `Failed to ${action} pricing rule: ${errorMessage}. Please try again.`;
+}
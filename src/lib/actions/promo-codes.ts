@@ -0,0 +1,149 @@
+"use server";
+
+import { endOfMinute } from "date-fns";
+import { eq } from "drizzle-orm";
+
+import type { z } from "zod";
+import type { PromoCodeFormValues } from "@/lib/validations/promo-code";
+
+import { isStaff } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { promoCodes } from "@/lib/db/schema/tables";
+import { PromoDiscountType } from "@/lib/enums";
+import { DEFAULT_TIMEZONE, fromLocalDateTime } from "@/lib/opening-hours";
+import { PromoCodeFormSchema } from "@/lib/validations/promo-code";
+
+const NOT_ALLOWED_ERROR = "You are not allowed to manage promo codes";
+
+export async function createPromoCode(values: PromoCodeFormValues) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  const parsed = PromoCodeFormSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  const { retired, ...data } = parsed.data;
+
+  try {
+    console.log("Adding promo code:", data.code);
+
+    const [promoCode] = await db
+      .insert(promoCodes)
+      .values({
+        ...toColumns(data),
+        created_at: new Date(),
+        retired_at: retired ? new Date() : null,
+      })
+      .returning({ id: promoCodes.id });
+
+    return { success: true, promoCode };
+  } catch (error) {
+    console.error("Failed to create promo code:", error);
+    return { error: getErrorMessage(error, "create") };
+  }
+}
+
+/**
+ * Updates a promo code, staff only. Reservations keep the discount they were booked with.
+ */
+export async function updatePromoCode(
+  promoCodeId: string,
+  values: PromoCodeFormValues
+) {
+  if (!(await isStaff())) {
+    return { error: NOT_ALLOWED_ERROR };
+  }
+
+  const parsed = PromoCodeFormSchema.safeParse(values);
+
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0].message };
+  }
+
+  const { retired, ...data } = parsed.data;
+
+  try {
+    console.log("Updating promo code:", data.code);
+
+    const updated = await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({ retired_at: promoCodes.retired_at })
+        .from(promoCodes)
+        .where(eq(promoCodes.id, promoCodeId))
+        .for("update");
+
+      if (!current) {
+        return false;
+      }
+
+      await tx
+        .update(promoCodes)
+        .set({
+          ...toColumns(data),
+          // Keep the original retirement date when the code stays retired
+          retired_at: retired ? (current.retired_at ?? new Date()) : null,
+        })
+        .where(eq(promoCodes.id, promoCodeId));
+
+      return true;
+    });
+
+    if (!updated) {
+      return { error: "Promo code not found" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to update promo code:", error);
+    return { error: getErrorMessage(error, "update") };
+  }
+}
+
+/**
+ * Turns the validity days into the first and last instants of the window, in the company's time
+ * zone, and drops the currency of percentage discounts
+ */
+function toColumns(
+  data: Omit<z.output<typeof PromoCodeFormSchema>, "retired">
+) {
+  const { valid_from, valid_until, currency, ...rest } = data;
+
+  return {
+    ...rest,
+    currency: rest.discount_type === PromoDiscountType.FIXED ? currency : null,
+    valid_from:
+      valid_from ?
+        fromLocalDateTime(valid_from, "00:00", DEFAULT_TIMEZONE)
+      : null,
+    valid_until:
+      valid_until ?
+        endOfMinute(fromLocalDateTime(valid_until, "23:59", DEFAULT_TIMEZONE))
+      : null,
+  };
+}
+
+/**
+ * Checks whether the given error was raised by the unique constraint on promo codes
+ * (SQLSTATE 23505, unique_violation)
+ */
+function isUniqueViolation(error: unknown) {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    error.code === "23505"
+  );
+}
+
+function getErrorMessage(error: unknown, action: string) {
+  if (isUniqueViolation(error)) {
+    return "Another promo code already uses this code. Please choose a different one.";
+  }
+
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  return `Failed to ${action} promo code: ${errorMessage}. Please try again.`;
+}
@@ -1,32 +1,127 @@
 "use server";
 
-import { getUserAuth } from "@/lib/auth";
+import { and, count, eq, gt, inArray, lt, ne, sql, sum } from "drizzle-orm";
+
+import type { AddOnSelection } from "@/lib/add-ons";
+import type {
+  Location,
+  PromoCode,
+  RentalReservation,
+} from "@/lib/db/definitions";
+import type { Locale } from "@/lib/i18n/config";
+import type { MessageKey, Translate } from "@/lib/i18n/translator";
+import type { TripConflict } from "@/lib/one-way-rentals";
+import type { PriceQuote, QuotedAddOn } from "@/lib/pricing";
+
+import { getUserAuth, isStaff } from "@/lib/auth";
+import { buildBillingSchedule } from "@/lib/billing-schedule";
+import {
+  calculateRefund,
+  resolveCancellationPolicy,
+} from "@/lib/cancellation-policy";
+import { fromMinorUnits, toMinorUnits } from "@/lib/currency";
 import { db } from "@/lib/db";
-import { rentalReservations } from "@/lib/db/schema/tables";
-import { env } from "@/lib/env";
+import {
+  fetchAddOnStock,
+  fetchBodyStyleDeposits,
+  fetchBookedAddOns,
+  fetchCarById,
+  fetchLocationById,
+  fetchOneWayFee,
+  fetchPromoCodeById,
+  fetchPromoCodeUsage,
+  fetchReservationAddOns,
+  fetchReservationLineItems,
+} from "@/lib/db/queries";
+import {
+  addOnStock,
+  billingCharges,
+  cars,
+  promoCodes,
+  rentalReservations,
+  reservationAddOns,
+  reservationLineItems,
+  reservationModifications,
+} from "@/lib/db/schema/tables";
+import { resolveDeposit } from "@/lib/deposits";
+import { discardQueuedEmails, notifyReservation } from "@/lib/emails";
+import {
+  ChargeStatus,
+  EmailTemplate,
+  LedgerEntryType,
+  LineItemType,
+  ReservationStatus,
+} from "@/lib/enums";
+import { getTranslations } from "@/lib/i18n/server";
+import {
+  chargeLines,
+  fetchCustomerBalance,
+  postLedgerTransaction,
+} from "@/lib/ledger";
+import { findTripConflict, isOneWayTrip } from "@/lib/one-way-rentals";
+import { getOutsideHoursReason } from "@/lib/opening-hours";
+import {
+  findHeldDeposit,
+  isReservationPaid,
+  paymentProvider,
+  refundOwedBalance,
+  settleDepositHold,
+  startReservationPayment,
+  voidPendingPayments,
+} from "@/lib/payments";
+import { getWhatsAppUrl } from "@/lib/payments/manual";
+import {
+  calculatePriceQuote,
+  fetchDynamicPricing,
+  fetchQuotedAddOns,
+  fetchQuotedPromoCode,
+  getPriceQuote,
+  HONOR_AGREED_RATE_ON_MODIFICATION,
+  withAgreedRate,
+} from "@/lib/pricing";
+import { getPromoCodeError, getPromoCodeUsageError } from "@/lib/promo-codes";
+import { formatDuration } from "@/lib/rental-duration";
+import {
+  BLOCKING_RESERVATION_STATUSES,
+  canTransitionReservation,
+  MODIFIABLE_RESERVATION_STATUSES,
+} from "@/lib/reservation-status";
+import { formatCurrency, formatFullDateTime } from "@/lib/utils";
 
+/**
+ * What the customer asked for, prices are always computed on the server
+ */
 export type ReservationData = {
   carId: string;
+  /** Pickup location */
   locationId: string;
+  returnLocationId: string;
   checkIn: Date;
   checkOut: Date;
-  carName: string;
-  carSlug: string;
-  locationName: string;
-  pricePerDay: number;
-  totalDays: number;
-  subtotal: number;
-  taxesAndFees: number;
-  total: number;
-  currency: string;
+  /** Extras booked with the car, from the stock of the pickup location */
+  addOns?: AddOnSelection[];
+  /** Promo code entered by the customer, matched regardless of case */
+  promoCode?: string;
+};
+
+const CAR_UNAVAILABLE_ERROR: MessageKey = "errors.carUnavailable";
+
+const TRIP_CONFLICT_ERRORS: Record<TripConflict, MessageKey> = {
+  overlap: CAR_UNAVAILABLE_ERROR,
+  pickup: "errors.carNotAtPickUp",
+  return: "errors.carNotReturnable",
 };
 
 export async function createReservation(data: ReservationData) {
   // Check authentication
-  const user = await getUserAuth();
+  const [user, translations] = await Promise.all([
+    getUserAuth(),
+    getTranslations(),
+  ]);
+  const { locale, t } = translations;
 
   if (!user) {
-    return { error: "You must be logged in to make a reservation" };
+    return { error: t("errors.signInToReserve") };
   }
 
   try {
@@ -34,78 +129,1237 @@ export async function createReservation(data: ReservationData) {
       car_id: data.carId,
       user_id: user.id,
       location_id: data.locationId,
+      return_location_id: data.returnLocationId,
       check_in: data.checkIn,
       check_out: data.checkOut,
     });
 
-    // Create the reservation in the database
-    await db.insert(rentalReservations).values({
-      car_id: data.carId,
-      user_id: user.id,
-      location_id: data.locationId,
-      check_in: data.checkIn,
-      check_out: data.checkOut,
-      created_at: new Date(),
+    const [
+      car,
+      { location, returnLocation, oneWayFee },
+      addOns,
+      promoCode,
+      dynamicPricing,
+      bodyStyleDeposits,
+    ] = await Promise.all([
+      fetchCarById(data.carId),
+      fetchTripLocations(data),
+      fetchQuotedAddOns(data.addOns ?? []),
+      fetchQuotedPromoCode(data.promoCode),
+      fetchDynamicPricing(data),
+      fetchBodyStyleDeposits(),
+    ]);
+
+    if (!car || car.retired_at) {
+      return { error: t("errors.carNotFound") };
+    }
+
+    if (!location || !returnLocation) {
+      return { error: t("errors.locationNotFound") };
+    }
+
+    const closureReason = getScheduleConflict(
+      location,
+      returnLocation,
+      data,
+      translations
+    );
+
+    if (closureReason) {
+      return { error: closureReason, unavailable: true };
+    }
+
+    // Never trust totals from the client, price the rental again
+    const quote = calculatePriceQuote(car, data, {
+      oneWayFee,
+      addOns,
+      promoCode,
+      timeZone: location.timezone,
+      ...dynamicPricing,
     });
+    const { currency } = quote;
+    const cancellationPolicy = await resolveCancellationPolicy(car, location);
+    const deposit = resolveDeposit(car, bodyStyleDeposits);
+
+    const result = await db.transaction(async (tx) => {
+      const unavailableReason =
+        (await lockCarIfAvailable(tx, data, t)) ??
+        (await lockAddOnsIfAvailable(tx, data, addOns, t));
+
+      if (unavailableReason) {
+        return { error: unavailableReason, unavailable: true };
+      }
+
+      const promoCodeError =
+        promoCode && (await lockPromoCodeIfRedeemable(tx, promoCode, user.id));
+
+      if (promoCodeError) {
+        return { error: promoCodeError, unavailable: false };
+      }
+
+      // Create the reservation in the database, it stays pending until it is paid for
+      const [created] = await tx
+        .insert(rentalReservations)
+        .values({
+          car_id: data.carId,
+          user_id: user.id,
+          location_id: data.locationId,
+          return_location_id: data.returnLocationId,
+          check_in: data.checkIn,
+          check_out: data.checkOut,
+          status: ReservationStatus.PENDING,
+          currency,
+          subtotal_amount: toMinorUnits(quote.subtotal, currency),
+          taxes_and_fees_amount: toMinorUnits(quote.taxesAndFees, currency),
+          total_amount: toMinorUnits(quote.total, currency),
+          cancellation_policy: cancellationPolicy,
+          deposit_amount: deposit && toMinorUnits(deposit, currency),
+          promo_code_id: promoCode?.id ?? null,
+          promo_code: promoCode?.code ?? null,
+          created_at: new Date(),
+        })
+        .returning({ id: rentalReservations.id });
+
+      // Snapshot the itemized price the customer agreed to
+      await insertLineItems(tx, created.id, quote);
+      await insertBillingCharges(tx, created.id, quote);
+      await postLedgerTransaction(tx, {
+        reservationId: created.id,
+        type: LedgerEntryType.CHARGE,
+        description: `Rental of ${car.name}`,
+        currency,
+        lines: chargeLines(toMinorUnits(quote.total, currency)),
+        createdBy: user.id,
+      });
+
+      if (addOns.length > 0) {
+        await tx.insert(reservationAddOns).values(
+          addOns.map(({ addOn, quantity }) => ({
+            reservation_id: created.id,
+            add_on_id: addOn.id!,
+            quantity,
+            created_at: new Date(),
+          }))
+        );
+      }
+
+      return { reservation: created };
+    });
+
+    if ("error" in result) {
+      return { error: result.error, unavailable: result.unavailable };
+    }
 
     console.log("Reservation created successfully");
+    await notifyReservation(
+      result.reservation.id,
+      EmailTemplate.BOOKING_RECEIVED
+    );
+
+    let checkoutUrl: string;
+
+    try {
+      checkoutUrl = await startReservationPayment({
+        id: result.reservation.id,
+        currency,
+        total_amount: toMinorUnits(quote.total, currency),
+      });
+    } catch (error) {
+      console.error("Failed to start payment:", error);
+      return { error: t("errors.paymentNotStarted") };
+    }
+
+    // The staff confirms the booking once it is paid for, over WhatsApp
+    if (paymentProvider.confirmedByStaff) {
+      const whatsappUrl = generateWhatsAppUrl(
+        result.reservation.id,
+        { carName: car.name, location, returnLocation, quote },
+        user,
+        { locale, t }
+      );
 
-    // Generate WhatsApp URL with reservation details
-    const whatsappUrl = generateWhatsAppUrl(data, user);
-    console.log("WhatsApp URL:", whatsappUrl);
+      return { success: true, whatsappUrl };
+    }
 
-    return { success: true, whatsappUrl };
+    return { success: true, checkoutUrl };
   } catch (error) {
+    // The database refused an overlapping booking that slipped past the re-check
+    if (isOverlapViolation(error)) {
+      return { error: t(CAR_UNAVAILABLE_ERROR), unavailable: true };
+    }
+
     console.error("Failed to create reservation:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : t("errors.unknown");
+    return {
+      error: t("errors.reservationFailed", { error: errorMessage }),
+    };
+  }
+}
+
+/**
+ * Prices a rental for display, the quote is computed again when the reservation is created
+ */
+export async function getReservationQuote(data: ReservationData) {
+  try {
+    const quote = await getPriceQuote(data);
+    return { quote };
+  } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
+    return { error: errorMessage };
+  }
+}
+
+/**
+ * Checks that the customer can redeem a promo code for a rental, usage limits included. The code is
+ * checked again when the reservation is created.
+ */
+export async function checkPromoCode(data: ReservationData) {
+  const [user, { t }] = await Promise.all([getUserAuth(), getTranslations()]);
+
+  if (!user) {
+    return { error: t("errors.signInToUsePromoCode") };
+  }
+
+  try {
+    const [quote, promoCode] = await Promise.all([
+      getPriceQuote(data),
+      fetchQuotedPromoCode(data.promoCode),
+    ]);
+
+    if (!promoCode) {
+      return { error: t("errors.enterPromoCode") };
+    }
+
+    const usage = await fetchPromoCodeUsage(promoCode.id!, user.id);
+    const usageError = getPromoCodeUsageError(promoCode, usage);
+
+    if (usageError) {
+      return { error: usageError };
+    }
+
+    return { success: true, quote };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return { error: errorMessage };
+  }
+}
+
+/**
+ * Returns how many units of each add-on the pickup location has left for the given dates
+ * @param excludeReservationId A reservation being modified, whose add-ons are not counted
+ */
+export async function getAddOnAvailability(
+  data: Pick<ReservationData, "locationId" | "checkIn" | "checkOut">,
+  excludeReservationId?: string
+) {
+  try {
+    const [stock, booked] = await Promise.all([
+      fetchAddOnStock(),
+      fetchBookedAddOns(
+        data.locationId,
+        data.checkIn,
+        data.checkOut,
+        excludeReservationId
+      ),
+    ]);
+
+    const availability = Object.fromEntries(
+      stock
+        .filter(({ location_id }) => location_id === data.locationId)
+        .map(({ add_on_id, quantity }) => [
+          add_on_id,
+          quantity -
+            (booked.find((item) => item.add_on_id === add_on_id)?.quantity ??
+              0),
+        ])
+    );
+
+    return { availability };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return { error: errorMessage };
+  }
+}
+
+/**
+ * Confirms a pending reservation, staff only
+ */
+export async function confirmReservation(reservationId: string) {
+  return updateReservationStatus(reservationId, ReservationStatus.CONFIRMED);
+}
+
+/**
+ * Marks a confirmed reservation as active once the car has been picked up, staff only
+ */
+export async function startReservation(reservationId: string) {
+  return updateReservationStatus(reservationId, ReservationStatus.ACTIVE);
+}
+
+/**
+ * Completes an active reservation once the car has been returned, staff only
+ */
+export async function completeReservation(reservationId: string) {
+  return updateReservationStatus(reservationId, ReservationStatus.COMPLETED);
+}
+
+/**
+ * Cancels a pending or confirmed reservation, allowed for the staff and the customer who made it.
+ * Customers are refunded according to the cancellation policy agreed at booking time, cancellations
+ * by the staff are always refunded in full.
+ */
+export async function cancelReservation(reservationId: string) {
+  return updateReservationStatus(reservationId, ReservationStatus.CANCELLED);
+}
+
+/**
+ * Marks a confirmed reservation whose customer never showed up, staff only
+ */
+export async function markReservationNoShow(reservationId: string) {
+  return updateReservationStatus(reservationId, ReservationStatus.NO_SHOW);
+}
+
+/**
+ * Prices a change of car, location or dates for an existing reservation, without applying it
+ */
+export async function getModificationQuote(
+  reservationId: string,
+  changes: ReservationData
+) {
+  const [user, translations] = await Promise.all([
+    getUserAuth(),
+    getTranslations(),
+  ]);
+  const { t } = translations;
+
+  if (!user) {
+    return { error: t("errors.signInToModify") };
+  }
+
+  try {
+    const result = await fetchModifiableReservation(reservationId, user.id, t);
+
+    if ("error" in result) {
+      return { error: result.error };
+    }
+
+    const { quote, difference } = await priceModification(
+      result.reservation,
+      changes,
+      translations
+    );
+
+    return { quote, difference };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : t("errors.unknown");
+    return { error: errorMessage };
+  }
+}
+
+/**
+ * Changes the car, location or dates of a pending or confirmed reservation. The new booking is
+ * checked for availability and repriced, and the previous one is kept in the modification history.
+ */
+export async function modifyReservation(
+  reservationId: string,
+  changes: ReservationData
+) {
+  const [user, translations] = await Promise.all([
+    getUserAuth(),
+    getTranslations(),
+  ]);
+  const { t } = translations;
+
+  if (!user) {
+    return { error: t("errors.signInToModify") };
+  }
+
+  try {
+    const result = await fetchModifiableReservation(reservationId, user.id, t);
+
+    if ("error" in result) {
+      return { error: result.error };
+    }
+
+    const { reservation } = result;
+    const { quote, difference, addOns, keepsPromoCode } =
+      await priceModification(reservation, changes, translations);
+    const { currency } = quote;
+
+    console.log("Modifying reservation:", {
+      id: reservationId,
+      car_id: changes.carId,
+      location_id: changes.locationId,
+      return_location_id: changes.returnLocationId,
+      check_in: changes.checkIn,
+      check_out: changes.checkOut,
+    });
+
+    const unavailableReason = await db.transaction(async (tx) => {
+      const conflict =
+        (await lockCarIfAvailable(tx, changes, t, reservationId)) ??
+        (await lockAddOnsIfAvailable(tx, changes, addOns, t, reservationId));
+
+      if (conflict) {
+        return conflict;
+      }
+
+      const updated = await tx
+        .update(rentalReservations)
+        .set({
+          car_id: changes.carId,
+          location_id: changes.locationId,
+          return_location_id: changes.returnLocationId,
+          check_in: changes.checkIn,
+          check_out: changes.checkOut,
+          currency,
+          subtotal_amount: toMinorUnits(quote.subtotal, currency),
+          taxes_and_fees_amount: toMinorUnits(quote.taxesAndFees, currency),
+          total_amount: toMinorUnits(quote.total, currency),
+          ...(!keepsPromoCode && { promo_code_id: null, promo_code: null }),
+        })
+        .where(
+          and(
+            eq(rentalReservations.id, reservationId),
+            inArray(rentalReservations.status, MODIFIABLE_RESERVATION_STATUSES)
+          )
+        )
+        .returning({ id: rentalReservations.id });
+
+      if (updated.length === 0) {
+        throw new Error(t("errors.noLongerModifiable"));
+      }
+
+      // Replace the price snapshot, the previous totals are kept in the audit trail
+      await tx
+        .delete(reservationLineItems)
+        .where(eq(reservationLineItems.reservation_id, reservationId));
+      await insertLineItems(tx, reservationId, quote);
+
+      // Modifications happen before pickup, so none of the installments has been billed yet
+      await voidScheduledCharges(tx, reservationId);
+      await insertBillingCharges(tx, reservationId, quote);
+
+      const total = toMinorUnits(quote.total, currency);
+
+      await postLedgerTransaction(tx, {
+        reservationId,
+        ...(reservation.total_amount === null ?
+          { type: LedgerEntryType.CHARGE, description: "Rental" }
+        : { type: LedgerEntryType.ADJUSTMENT, description: "Modification" }),
+        currency,
+        lines: chargeLines(total - (reservation.total_amount ?? 0)),
+        createdBy: user.id,
+      });
+
+      await tx.insert(reservationModifications).values({
+        reservation_id: reservationId,
+        modified_by: user.id,
+        previous_car_id: reservation.car_id,
+        previous_location_id: reservation.location_id,
+        previous_return_location_id: reservation.return_location_id,
+        previous_check_in: reservation.check_in,
+        previous_check_out: reservation.check_out,
+        previous_total_amount: reservation.total_amount,
+        car_id: changes.carId,
+        location_id: changes.locationId,
+        return_location_id: changes.returnLocationId,
+        check_in: changes.checkIn,
+        check_out: changes.checkOut,
+        total_amount: toMinorUnits(quote.total, currency),
+        price_difference_amount:
+          difference === null ? null : toMinorUnits(difference, currency),
+        currency,
+        created_at: new Date(),
+      });
+
+      return null;
+    });
+
+    if (unavailableReason) {
+      return { error: unavailableReason, unavailable: true };
+    }
+
+    console.log("Reservation modified successfully");
+
+    // Payments started at the old price would settle the wrong amount, or confirm a pending
+    // booking for less than it now costs
+    await voidPendingPayments(reservationId);
+    // A cheaper booking leaves the customer with more paid than they owe
+    await refundBalance(reservationId, user.id);
+
+    return { success: true, quote, difference };
+  } catch (error) {
+    if (isOverlapViolation(error)) {
+      return { error: t(CAR_UNAVAILABLE_ERROR), unavailable: true };
+    }
+
+    console.error("Failed to modify reservation:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : t("errors.unknown");
     return {
-      error: `Failed to create reservation: ${errorMessage}. Please try again.`,
+      error: t("errors.modificationFailed", { error: errorMessage }),
     };
   }
 }
 
-function generateWhatsAppUrl(
+const STATUS_TIMESTAMP_COLUMNS = {
+  [ReservationStatus.CONFIRMED]: "confirmed_at",
+  [ReservationStatus.ACTIVE]: "activated_at",
+  [ReservationStatus.COMPLETED]: "completed_at",
+  [ReservationStatus.CANCELLED]: "cancelled_at",
+  [ReservationStatus.NO_SHOW]: "no_show_at",
+} as const;
+
+type TargetStatus = keyof typeof STATUS_TIMESTAMP_COLUMNS;
+
+/**
+ * The email the customer is sent when their reservation changes to a status
+ */
+const STATUS_EMAILS: Partial<Record<TargetStatus, EmailTemplate>> = {
+  [ReservationStatus.CONFIRMED]: EmailTemplate.BOOKING_CONFIRMED,
+  [ReservationStatus.COMPLETED]: EmailTemplate.RETURN_RECEIPT,
+  [ReservationStatus.CANCELLED]: EmailTemplate.CANCELLATION,
+};
+
+async function updateReservationStatus(
+  reservationId: string,
+  status: TargetStatus
+) {
+  const [user, { t }] = await Promise.all([getUserAuth(), getTranslations()]);
+
+  if (!user) {
+    return { error: t("errors.signInToUpdate") };
+  }
+
+  try {
+    const [reservation] = await db
+      .select()
+      .from(rentalReservations)
+      .where(eq(rentalReservations.id, reservationId))
+      .limit(1);
+
+    if (!reservation) {
+      return { error: t("errors.reservationNotFound") };
+    }
+
+    const isOwnCancellation =
+      status === ReservationStatus.CANCELLED && reservation.user_id === user.id;
+
+    if (!isOwnCancellation && !(await isStaff())) {
+      return { error: t("errors.notAllowedToUpdate") };
+    }
+
+    if (!canTransitionReservation(reservation.status, status)) {
+      return {
+        error: t("errors.invalidTransition", {
+          from: t(`reservationStatuses.${reservation.status}`),
+          to: t(`reservationStatuses.${status}`),
+        }),
+      };
+    }
+
+    // Reservations made before prices were stored were never paid for online
+    if (
+      status === ReservationStatus.CONFIRMED &&
+      reservation.total_amount !== null &&
+      !(await isReservationPaid(reservationId))
+    ) {
+      return { error: t("errors.confirmBeforePaid") };
+    }
+
+    if (
+      status === ReservationStatus.ACTIVE &&
+      reservation.deposit_amount &&
+      !(await findHeldDeposit(reservationId))
+    ) {
+      return { error: t("errors.depositBeforePickUp") };
+    }
+
+    console.log(
+      `Moving reservation ${reservationId} from ${reservation.status} to ${status}`
+    );
+
+    const now = new Date();
+    const policyRefund =
+      status === ReservationStatus.CANCELLED ?
+        await getRefundableAmount(reservation, isOwnCancellation, now)
+      : null;
+    let refundableAmount: number | null = null;
+
+    const updated = await db.transaction(async (tx) => {
+      // The policy refunds part of the total, the rest is kept from what was paid, if anything
+      let cancellationCredit = 0;
+
+      if (policyRefund !== null) {
+        const total = reservation.total_amount!;
+        const paid = total - (await fetchCustomerBalance(tx, reservationId));
+        const kept = Math.min(total - policyRefund, Math.max(paid, 0));
+
+        cancellationCredit = total - kept;
+        refundableAmount = Math.max(paid - kept, 0);
+      }
+
+      // Guard on the current status so that concurrent updates can't both succeed
+      const updated = await tx
+        .update(rentalReservations)
+        .set({
+          status,
+          [STATUS_TIMESTAMP_COLUMNS[status]]: now,
+          ...(refundableAmount !== null && {
+            refundable_amount: refundableAmount,
+          }),
+        })
+        .where(
+          and(
+            eq(rentalReservations.id, reservationId),
+            eq(rentalReservations.status, reservation.status)
+          )
+        )
+        .returning({ id: rentalReservations.id });
+
+      // Installments of a rental that won't happen are no longer owed
+      if (
+        updated.length > 0 &&
+        (status === ReservationStatus.CANCELLED ||
+          status === ReservationStatus.NO_SHOW)
+      ) {
+        await voidScheduledCharges(tx, reservationId);
+      }
+
+      if (updated.length > 0 && cancellationCredit > 0) {
+        await postLedgerTransaction(tx, {
+          reservationId,
+          type: LedgerEntryType.ADJUSTMENT,
+          description: "Cancellation",
+          currency: reservation.currency!,
+          lines: chargeLines(-cancellationCredit),
+          createdBy: user.id,
+        });
+      }
+
+      // The car stays where a one-way trip dropped it off, and is rented out from there
+      if (
+        updated.length > 0 &&
+        status === ReservationStatus.COMPLETED &&
+        isOneWayTrip(reservation)
+      ) {
+        console.log(
+          `Moving car ${reservation.car_id} to location ${reservation.return_location_id}`
+        );
+
+        await tx
+          .update(cars)
+          .set({ location_id: reservation.return_location_id })
+          .where(eq(cars.id, reservation.car_id));
+      }
+
+      return updated;
+    });
+
+    if (updated.length === 0) {
+      return { error: t("errors.updatedConcurrently") };
+    }
+
+    // The car won't be rented, nothing is left for the deposit to cover
+    if (status === ReservationStatus.CANCELLED) {
+      await releaseHeldDeposit(reservationId, user.id);
+      await voidPendingPayments(reservationId);
+      await refundBalance(reservationId, user.id);
+      await discardQueuedEmails(reservationId, [EmailTemplate.PICKUP_REMINDER]);
+    }
+
+    const email = STATUS_EMAILS[status];
+
+    if (email) {
+      await notifyReservation(reservationId, email);
+    }
+
+    if (refundableAmount !== null && reservation.currency) {
+      return {
+        success: true,
+        refund: {
+          amount: fromMinorUnits(refundableAmount, reservation.currency),
+          currency: reservation.currency,
+        },
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to update reservation status:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : t("errors.unknown");
+    return { error: t("errors.updateFailed", { error: errorMessage }) };
+  }
+}
+
+/**
+ * Fetches a reservation that the user is allowed to modify, i.e. their own (or any, for the staff)
+ * pending or confirmed reservation that hasn't started yet
+ */
+async function fetchModifiableReservation(
+  reservationId: string,
+  userId: string,
+  t: Translate
+) {
+  const [reservation] = await db
+    .select()
+    .from(rentalReservations)
+    .where(eq(rentalReservations.id, reservationId))
+    .limit(1);
+
+  if (!reservation) {
+    return { error: t("errors.reservationNotFound") };
+  }
+
+  if (reservation.user_id !== userId && !(await isStaff())) {
+    return { error: t("errors.notAllowedToModify") };
+  }
+
+  if (!MODIFIABLE_RESERVATION_STATUSES.includes(reservation.status)) {
+    return {
+      error: t("errors.notModifiable", {
+        status: t(`reservationStatuses.${reservation.status}`),
+      }),
+    };
+  }
+
+  if (reservation.check_in <= new Date()) {
+    return { error: t("errors.modifiedAfterCheckIn") };
+  }
+
+  return { reservation };
+}
+
+/**
+ * Prices the changed reservation and compares it to what was agreed before
+ * @returns The new quote and the price difference, `null` if the previous price is unknown
+ */
+async function priceModification(
+  reservation: typeof rentalReservations.$inferSelect,
+  changes: ReservationData,
+  translations: { locale: Locale; t: Translate }
+) {
+  const { t } = translations;
+  const [
+    car,
+    { location, returnLocation, oneWayFee },
+    lineItems,
+    booked,
+    promoCode,
+    dynamicPricing,
+  ] = await Promise.all([
+    fetchCarById(changes.carId),
+    fetchTripLocations(changes),
+    fetchReservationLineItems(reservation.id),
+    fetchReservationAddOns(reservation.id),
+    reservation.promo_code_id ?
+      fetchPromoCodeById(reservation.promo_code_id)
+    : undefined,
+    fetchDynamicPricing(changes, reservation.id),
+  ]);
+
+  // A retired car can be kept but not switched to
+  if (!car || (car.retired_at && car.id !== reservation.car_id)) {
+    throw new Error(t("errors.carNotFound"));
+  }
+
+  if (!location || !returnLocation) {
+    throw new Error(t("errors.locationNotFound"));
+  }
+
+  const closureReason = getScheduleConflict(
+    location,
+    returnLocation,
+    changes,
+    translations
+  );
+
+  if (closureReason) {
+    throw new Error(closureReason);
+  }
+
+  const previousCurrency = reservation.currency;
+
+  if (previousCurrency && previousCurrency !== car.retail_price_currency) {
+    throw new Error(t("errors.differentCurrency"));
+  }
+
+  const keepsAgreedRate =
+    HONOR_AGREED_RATE_ON_MODIFICATION &&
+    car.id === reservation.car_id &&
+    !!previousCurrency &&
+    lineItems.length > 0;
+
+  const pricedCar =
+    keepsAgreedRate ?
+      withAgreedRate(
+        car,
+        lineItems.map((item) => ({
+          type: item.type,
+          unitAmount: fromMinorUnits(item.unit_amount, previousCurrency),
+        }))
+      )
+    : car;
+
+  // The booked add-ons come along, retired ones included, at their current price
+  const addOns: QuotedAddOn[] = booked.map(({ reservationAddOn, addOn }) => ({
+    addOn,
+    quantity: reservationAddOn.quantity,
+  }));
+
+  // Lead times and the promo code are judged as of the original booking
+  const options = {
+    oneWayFee,
+    addOns,
+    timeZone: location.timezone,
+    bookedAt: reservation.created_at,
+    ...dynamicPricing,
+  };
+
+  let quote = calculatePriceQuote(pricedCar, changes, options);
+
+  // The promo code is dropped once the changed rental no longer meets its conditions
+  const keepsPromoCode =
+    !!promoCode &&
+    !getPromoCodeError(promoCode, {
+      car,
+      locationId: changes.locationId,
+      days: quote.days,
+      bookedAt: reservation.created_at,
+    });
+
+  if (keepsPromoCode) {
+    quote = calculatePriceQuote(pricedCar, changes, { ...options, promoCode });
+  }
+
+  const previousTotal = reservation.total_amount;
+  const difference =
+    previousCurrency && previousTotal !== null ?
+      quote.total - fromMinorUnits(previousTotal, previousCurrency)
+    : null;
+
+  return { quote, difference, addOns, keepsPromoCode };
+}
+
+/**
+ * Fetches the pickup and return locations of a trip, and the fee for the route when they differ
+ */
+async function fetchTripLocations(data: ReservationData) {
+  const isOneWay = data.returnLocationId !== data.locationId;
+
+  const [location, returnLocation, oneWayFee] = await Promise.all([
+    fetchLocationById(data.locationId),
+    isOneWay ? fetchLocationById(data.returnLocationId) : undefined,
+    fetchOneWayFee(data.locationId, data.returnLocationId),
+  ]);
+
+  return {
+    location,
+    returnLocation: isOneWay ? returnLocation : location,
+    oneWayFee,
+  };
+}
+
+/**
+ * Checks that the pickup branch is open at the pickup time and the return branch at the return
+ * time, each in its own time zone
+ * @param translations The language of the customer
+ * @returns Why a branch can't hand over or take back the car, or `null`
+ */
+function getScheduleConflict(
+  location: Location,
+  returnLocation: Location,
   data: ReservationData,
-  user: { id: string; name?: string | null; email?: string | null }
-): string {
-  const phoneNumber = env.COMPANY_WHATSAPP_NUMBER.replace(/\D/g, ""); // Remove non-digits
-
-  const message = encodeURIComponent(
-    `*New Car Reservation Request* 🚗\n\n` +
-      `*Customer Details:*\n` +
-      `Name: ${user.name || "N/A"}\n` +
-      `Email: ${user.email || "N/A"}\n\n` +
-      `*Reservation Details:*\n` +
-      `Car: ${data.carName}\n` +
-      `Location: ${data.locationName}\n` +
-      `Check-in: ${formatDate(data.checkIn)}\n` +
-      `Check-out: ${formatDate(data.checkOut)}\n` +
-      `Duration: ${data.totalDays} day${data.totalDays > 1 ? "s" : ""}\n\n` +
-      `*Pricing:*\n` +
-      `Rate: ${formatCurrency(data.pricePerDay, data.currency)}/day\n` +
-      `Subtotal: ${formatCurrency(data.subtotal, data.currency)}\n` +
-      `Taxes & Fees: ${formatCurrency(data.taxesAndFees, data.currency)}\n` +
-      `*Total: ${formatCurrency(data.total, data.currency)}*\n\n` +
-      `Please confirm this reservation.`
+  { locale, t }: { locale: Locale; t: Translate }
+) {
+  return (
+    getOutsideHoursReason(location, data.checkIn, t, locale) ??
+    getOutsideHoursReason(returnLocation, data.checkOut, t, locale)
   );
+}
 
-  return `https://wa.me/${phoneNumber}?text=${message}`;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Locks the car and checks that no other reservation holds it for the given dates, and that the
+ * trip picks it up where the previous trip leaves it and drops it off where the next one picks it
+ * up. The lock makes concurrent bookings of the same car wait for each other, so the check can't
+ * go stale.
+ * @returns Why the car can't be booked, or `null`
+ */
+async function lockCarIfAvailable(
+  tx: Transaction,
+  booking: ReservationData,
+  t: Translate,
+  excludeReservationId?: string
+) {
+  const [car] = await tx
+    .select({ id: cars.id, location_id: cars.location_id })
+    .from(cars)
+    .where(eq(cars.id, booking.carId))
+    .for("update");
+
+  if (!car) {
+    throw new Error(t("errors.carNotFound"));
+  }
+
+  // Re-check availability, the car may have been booked or moved since the search
+  const trips = await tx
+    .select({
+      location_id: rentalReservations.location_id,
+      return_location_id: rentalReservations.return_location_id,
+      check_in: rentalReservations.check_in,
+      check_out: rentalReservations.check_out,
+    })
+    .from(rentalReservations)
+    .where(
+      and(
+        eq(rentalReservations.car_id, booking.carId),
+        inArray(rentalReservations.status, BLOCKING_RESERVATION_STATUSES),
+        excludeReservationId ?
+          ne(rentalReservations.id, excludeReservationId)
+        : undefined
+      )
+    );
+
+  const conflict = findTripConflict(car.location_id, trips, {
+    location_id: booking.locationId,
+    return_location_id: booking.returnLocationId,
+    check_in: booking.checkIn,
+    check_out: booking.checkOut,
+  });
+
+  return conflict && t(TRIP_CONFLICT_ERRORS[conflict]);
 }
 
-function formatDate(date: Date): string {
-  return new Intl.DateTimeFormat("en-IN", {
-    weekday: "short",
-    year: "numeric",
-    month: "short",
-    day: "numeric",
-  }).format(new Date(date));
+/**
+ * Locks the stock of the booked add-ons at the pickup location and checks that enough units are
+ * left for the given dates. The lock makes concurrent bookings of the same add-ons wait for each
+ * other, so the check can't go stale.
+ * @returns Why the add-ons can't be booked, or `null`
+ */
+async function lockAddOnsIfAvailable(
+  tx: Transaction,
+  booking: ReservationData,
+  addOns: QuotedAddOn[],
+  t: Translate,
+  excludeReservationId?: string
+) {
+  if (addOns.length === 0) {
+    return null;
+  }
+
+  const addOnIds = addOns.map(({ addOn }) => addOn.id!);
+
+  const stock = await tx
+    .select({ add_on_id: addOnStock.add_on_id, quantity: addOnStock.quantity })
+    .from(addOnStock)
+    .where(
+      and(
+        eq(addOnStock.location_id, booking.locationId),
+        inArray(addOnStock.add_on_id, addOnIds)
+      )
+    )
+    .for("update");
+
+  const booked = await tx
+    .select({
+      add_on_id: reservationAddOns.add_on_id,
+      quantity: sum(reservationAddOns.quantity).mapWith(Number),
+    })
+    .from(reservationAddOns)
+    .innerJoin(
+      rentalReservations,
+      eq(rentalReservations.id, reservationAddOns.reservation_id)
+    )
+    .where(
+      and(
+        inArray(reservationAddOns.add_on_id, addOnIds),
+        eq(rentalReservations.location_id, booking.locationId),
+        inArray(rentalReservations.status, BLOCKING_RESERVATION_STATUSES),
+        lt(rentalReservations.check_in, booking.checkOut),
+        gt(rentalReservations.check_out, booking.checkIn),
+        excludeReservationId ?
+          ne(rentalReservations.id, excludeReservationId)
+        : undefined
+      )
+    )
+    .groupBy(reservationAddOns.add_on_id);
+
+  for (const { addOn, quantity } of addOns) {
+    const left =
+      (stock.find((item) => item.add_on_id === addOn.id)?.quantity ?? 0) -
+      (booked.find((item) => item.add_on_id === addOn.id)?.quantity ?? 0);
+
+    if (left <= 0) {
+      return t("errors.addOnUnavailable", { addOn: addOn.name });
+    }
+
+    if (left < quantity) {
+      return t("errors.addOnLow", { count: left, addOn: addOn.name });
+    }
+  }
+
+  return null;
 }
 
-function formatCurrency(amount: number, currency: string): string {
-  return new Intl.NumberFormat("en-IN", {
-    style: "currency",
-    currency: currency,
-    maximumFractionDigits: 0,
-  }).format(amount);
+/**
+ * Locks the promo code and checks that it hasn't been redeemed as many times as it allows, overall
+ * and by the customer. The lock makes concurrent redemptions of the same code wait for each other,
+ * so the check can't go stale.
+ * @returns Why the code can't be redeemed, or `null`
+ */
+async function lockPromoCodeIfRedeemable(
+  tx: Transaction,
+  promoCode: PromoCode,
+  userId: string
+) {
+  await tx
+    .select({ id: promoCodes.id })
+    .from(promoCodes)
+    .where(eq(promoCodes.id, promoCode.id!))
+    .for("update");
+
+  // Cancelled reservations give their redemption back
+  const [usage] = await tx
+    .select({
+      total: count(),
+      byUser: count(
+        sql`case when ${rentalReservations.user_id} = ${userId} then 1 end`
+      ),
+    })
+    .from(rentalReservations)
+    .where(
+      and(
+        eq(rentalReservations.promo_code_id, promoCode.id!),
+        ne(rentalReservations.status, ReservationStatus.CANCELLED)
+      )
+    );
+
+  return getPromoCodeUsageError(promoCode, usage);
+}
+
+async function insertLineItems(
+  tx: Transaction,
+  reservationId: string,
+  quote: PriceQuote
+) {
+  const { currency } = quote;
+
+  await tx.insert(reservationLineItems).values(
+    quote.lineItems.map((item, index) => ({
+      reservation_id: reservationId,
+      type: item.type,
+      label: item.label,
+      quantity: item.quantity,
+      unit_amount: toMinorUnits(item.unitAmount, currency),
+      amount: toMinorUnits(item.amount, currency),
+      currency,
+      position: index,
+      created_at: new Date(),
+    }))
+  );
+}
+
+/**
+ * Schedules the monthly installments of a long-term reservation, nothing is scheduled for shorter
+ * reservations which are billed all at once
+ */
+async function insertBillingCharges(
+  tx: Transaction,
+  reservationId: string,
+  quote: PriceQuote
+) {
+  const { currency } = quote;
+  const schedule = buildBillingSchedule(
+    quote,
+    toMinorUnits(quote.total, currency)
+  );
+
+  if (schedule.length === 0) {
+    return;
+  }
+
+  await tx.insert(billingCharges).values(
+    schedule.map((charge) => ({
+      reservation_id: reservationId,
+      sequence: charge.sequence,
+      period_start: charge.periodStart,
+      period_end: charge.periodEnd,
+      due_at: charge.dueAt,
+      amount: charge.amount,
+      currency,
+      status: ChargeStatus.SCHEDULED,
+      created_at: new Date(),
+    }))
+  );
+}
+
+async function voidScheduledCharges(tx: Transaction, reservationId: string) {
+  await tx
+    .update(billingCharges)
+    .set({ status: ChargeStatus.VOID, voided_at: new Date() })
+    .where(
+      and(
+        eq(billingCharges.reservation_id, reservationId),
+        eq(billingCharges.status, ChargeStatus.SCHEDULED)
+      )
+    );
+}
+
+/**
+ * Works out how much of a cancelled reservation is owed back to the customer, in minor units
+ */
+async function getRefundableAmount(
+  reservation: RentalReservation,
+  byCustomer: boolean,
+  cancelledAt: Date
+) {
+  const total = reservation.total_amount;
+
+  // Reservations made before prices were stored have nothing to refund from
+  if (total === null || total === undefined) {
+    return null;
+  }
+
+  if (!byCustomer) {
+    return total;
+  }
+
+  let terms = reservation.cancellation_policy;
+
+  if (!terms) {
+    const [car, location] = await Promise.all([
+      fetchCarById(reservation.car_id),
+      fetchLocationById(reservation.location_id),
+    ]);
+    terms = await resolveCancellationPolicy(car ?? {}, location ?? {});
+  }
+
+  return calculateRefund(terms, reservation.check_in, total, cancelledAt)
+    .refundAmount;
+}
+
+/**
+ * Releases the deposit held for a reservation, if any. The reservation is already updated, so a
+ * failure is logged for the staff to release the deposit by hand rather than reported.
+ */
+async function releaseHeldDeposit(reservationId: string, userId: string) {
+  try {
+    const deposit = await findHeldDeposit(reservationId);
+
+    if (deposit) {
+      await settleDepositHold(deposit, 0, null, userId);
+    }
+  } catch (error) {
+    console.error(`Failed to release deposit of ${reservationId}:`, error);
+  }
+}
+
+/**
+ * Refunds what the customer is owed back after a change to their reservation. The change is
+ * already saved, so a failure is logged for the staff to refund from the ledger rather than
+ * reported.
+ */
+async function refundBalance(reservationId: string, userId: string) {
+  try {
+    await refundOwedBalance(reservationId, userId);
+  } catch (error) {
+    console.error(`Failed to refund ${reservationId}:`, error);
+  }
+}
+
+/**
+ * Checks whether the given error was raised by the `no_overlap` exclusion constraint
+ * on rental reservations (SQLSTATE 23P01, exclusion_violation)
+ */
+function isOverlapViolation(error: unknown) {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    error.code === "23P01"
+  );
+}
+
+function generateWhatsAppUrl(
+  reservationId: string,
+  details: {
+    carName: string;
+    location: Location;
+    returnLocation: Location;
+    quote: PriceQuote;
+  },
+  user: { id: string; name?: string | null; email?: string | null },
+  translations: { locale: Locale; t: Translate }
+): string {
+  const { carName, location, returnLocation, quote } = details;
+  const { locale, t } = translations;
+  const hourly = quote.lineItems.find(
+    (item) => item.type === LineItemType.HOURLY
+  );
+  const monthly = quote.lineItems.find(
+    (item) => item.type === LineItemType.MONTHLY
+  );
+  const installments = buildBillingSchedule(quote, 0).length;
+  const addOns = quote.lineItems
+    .filter((item) => item.type === LineItemType.ADD_ON)
+    .map((item) => item.label);
+
+  const price = (amount: number) =>
+    formatCurrency(amount, quote.currency, locale);
+  const notAvailable = t("whatsapp.notAvailable");
+
+  const message =
+    `*${t("whatsapp.title")}* 🚗\n\n` +
+    `*${t("whatsapp.customer")}*\n` +
+    `${t("whatsapp.name", { value: user.name || notAvailable })}\n` +
+    `${t("whatsapp.email", { value: user.email || notAvailable })}\n\n` +
+    `*${t("whatsapp.reservation")}*\n` +
+    `${t("whatsapp.reference", { value: reservationId })}\n` +
+    `${t("whatsapp.car", { value: carName })}\n` +
+    (returnLocation.id === location.id ?
+      `${t("whatsapp.location", { value: location.name })}\n`
+    : `${t("whatsapp.pickup", { value: location.name })}\n` +
+      `${t("whatsapp.return", { value: returnLocation.name })}\n`) +
+    `${t("whatsapp.checkIn", {
+      value: formatFullDateTime(quote.checkIn, location.timezone, locale),
+    })}\n` +
+    `${t("whatsapp.checkOut", {
+      value: formatFullDateTime(
+        quote.checkOut,
+        returnLocation.timezone,
+        locale
+      ),
+    })}\n` +
+    `${t("whatsapp.duration", {
+      value: formatDuration(quote.days, quote.hours, t),
+    })}\n` +
+    (addOns.length > 0 ?
+      `${t("whatsapp.addOns", { value: addOns.join(", ") })}\n\n`
+    : "\n") +
+    `*${t("whatsapp.pricing")}*\n` +
+    (hourly ?
+      `${t("whatsapp.hourlyRate", { price: price(hourly.unitAmount) })}\n`
+    : monthly ?
+      `${t("whatsapp.monthlyRate", { price: price(monthly.unitAmount) })}\n`
+    : `${t("whatsapp.dailyRate", { price: price(quote.pricePerDay) })}\n`) +
+    `${t("whatsapp.subtotal", { value: price(quote.subtotal) })}\n` +
+    (quote.promoCode ?
+      `${t("whatsapp.promoCode", { value: quote.promoCode })}\n`
+    : "") +
+    `${t("whatsapp.taxesAndFees", { value: price(quote.taxesAndFees) })}\n` +
+    `*${t("whatsapp.total", { value: price(quote.total) })}*\n` +
+    (installments > 0 ?
+      `${t("whatsapp.installments", { count: installments })}\n\n`
+    : "\n") +
+    t("whatsapp.confirm");
+
+  return getWhatsAppUrl(message);
 }
@@ -0,0 +1,97 @@
+import type { AddOn, AddOnStock } from "./db/definitions";
+
+import { AddOnPricing } from "./enums";
+
+/**
+ * Units of an add-on booked with a reservation
+ */
+export type AddOnSelection = {
+  addOnId: string;
+  quantity: number;
+};
+
+export const ADD_ON_PRICING_LABELS: Record<AddOnPricing, string> = {
+  [AddOnPricing.PER_DAY]: "per day",
+  [AddOnPricing.PER_RENTAL]: "per rental",
+};
+
+/**
+ * Reads the add-ons selected in a URL search param
+ * @param value The selections, e.g. "<add-on id>:2,<add-on id>:1"
+ * @returns The selections, ignoring malformed entries and empty quantities, the last entry wins
+ * when an add-on is listed twice
+ */
+export function parseAddOnSelections(value?: string | null): AddOnSelection[] {
+  const selections = new Map<string, number>();
+
+  for (const entry of value ? value.split(",") : []) {
+    const [addOnId, quantity] = entry.split(":");
+    const parsed = Number(quantity);
+
+    if (addOnId && Number.isInteger(parsed) && parsed > 0) {
+      selections.set(addOnId, parsed);
+    }
+  }
+
+  return Array.from(selections, ([addOnId, quantity]) => ({
+    addOnId,
+    quantity,
+  }));
+}
+
+/**
+ * Writes the selected add-ons as a URL search param value, see {@link parseAddOnSelections}
+ */
+export function serializeAddOnSelections(selections: AddOnSelection[]) {
+  return selections
+    .filter(({ quantity }) => quantity > 0)
+    .map(({ addOnId, quantity }) => `${addOnId}:${quantity}`)
+    .join(",");
+}
+
+/**
+ * Returns the units of an add-on owned by a location, none when the location doesn't stock it
+ */
+export function getAddOnStock(
+  stock: Pick<AddOnStock, "add_on_id" | "location_id" | "quantity">[],
+  addOnId: string,
+  locationId: string
+) {
+  return (
+    stock.find(
+      (item) => item.add_on_id === addOnId && item.location_id === locationId
+    )?.quantity ?? 0
+  );
+}
+
+/**
+ * Returns how many times an add-on is charged for a rental
+ * @param addOn The add-on, for its pricing
+ * @param quantity The units booked
+ * @param days The started days of the rental
+ */
+export function getAddOnChargedUnits(
+  addOn: Pick<AddOn, "pricing">,
+  quantity: number,
+  days: number
+) {
+  return addOn.pricing === AddOnPricing.PER_DAY ? quantity * days : quantity;
+}
+
+/**
+ * Returns the add-ons that can be booked with a rental picked up at the location
+ */
+export function getOfferedAddOns(
+  addOns: AddOn[],
+  stock: Pick<AddOnStock, "add_on_id" | "location_id" | "quantity">[],
+  locationId: string | undefined
+) {
+  if (!locationId) {
+    return [];
+  }
+
+  return addOns.filter(
+    (addOn) =>
+      !addOn.retired_at && getAddOnStock(stock, addOn.id!, locationId) > 0
+  );
+}
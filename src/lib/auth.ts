@@ -1,4 +1,4 @@
-import { redirect } from "next/navigation";
+import { notFound, redirect } from "next/navigation";
 import { getKindeServerSession } from "@kinde-oss/kinde-auth-nextjs/server";
 
 export type User = {
@@ -28,4 +28,29 @@ export const checkAuth = async () => {
   const user = await getUserAuth();
 
   if (user === null) redirect("/api/auth/login");
+
+  return user;
+};
+
+/**
+ * Kinde role key granted to the operations team.
+ */
+export const STAFF_ROLE = "admin";
+
+export const isStaff = async () => {
+  const { getRoles } = getKindeServerSession();
+  const roles = await getRoles();
+
+  return !!roles?.some((role) => role.key === STAFF_ROLE);
+};
+
+/**
+ * Guards the back office, staff members get the signed in user back and everyone else a 404
+ */
+export const checkStaff = async () => {
+  const user = await checkAuth();
+
+  if (!(await isStaff())) notFound();
+
+  return user;
 };
@@ -0,0 +1,74 @@
+import { addDays, differenceInMilliseconds, isBefore } from "date-fns";
+
+import { DAYS_PER_MONTH, MAX_RENTAL_DAYS } from "./rental-duration";
+
+/**
+ * An installment of a long-term rental, the amount is in the currency's minor unit (e.g. paise)
+ */
+export type ScheduledCharge = {
+  sequence: number;
+  periodStart: Date;
+  periodEnd: Date;
+  /** Installments are billed in advance, at the start of their period */
+  dueAt: Date;
+  amount: number;
+};
+
+/**
+ * Whether a rental is billed in monthly installments rather than all at once
+ * @param days The days the rental is charged for
+ */
+export function isLongTermRental(days: number) {
+  return days > MAX_RENTAL_DAYS;
+}
+
+/**
+ * Splits the total of a long-term rental into monthly installments, each paying for its share of
+ * the rental time. The last installment covers the time left and absorbs the rounding.
+ * @param rental The pickup and return times, and the days the rental is charged for
+ * @param totalAmount The total of the rental in the currency's minor unit
+ * @returns The installments, none for rentals that are billed all at once
+ */
+export function buildBillingSchedule(
+  rental: { checkIn: Date; checkOut: Date; days: number },
+  totalAmount: number
+): ScheduledCharge[] {
+  const { checkIn, checkOut, days } = rental;
+
+  if (!isLongTermRental(days)) {
+    return [];
+  }
+
+  const duration = differenceInMilliseconds(checkOut, checkIn);
+  const charges: ScheduledCharge[] = [];
+  let billed = 0;
+
+  for (
+    let periodStart = checkIn;
+    isBefore(periodStart, checkOut);
+    periodStart = addDays(periodStart, DAYS_PER_MONTH)
+  ) {
+    const next = addDays(periodStart, DAYS_PER_MONTH);
+    const isLast = !isBefore(next, checkOut);
+    const periodEnd = isLast ? checkOut : next;
+
+    const amount =
+      isLast ?
+        totalAmount - billed
+      : Math.round(
+          (totalAmount * differenceInMilliseconds(periodEnd, periodStart)) /
+            duration
+        );
+
+    charges.push({
+      sequence: charges.length + 1,
+      periodStart,
+      periodEnd,
+      dueAt: periodStart,
+      amount,
+    });
+    billed += amount;
+  }
+
+  return charges;
+}
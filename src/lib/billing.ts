@@ -0,0 +1,81 @@
+import { and, eq, inArray, lte } from "drizzle-orm";
+
+import { db } from "./db";
+import { billingCharges, rentalReservations } from "./db/schema/tables";
+import { notifyReservation } from "./emails";
+import { ChargeStatus, EmailTemplate, ReservationStatus } from "./enums";
+import { startBalancePayment } from "./payments";
+
+/**
+ * Reservations whose installments are billed once due, pending reservations are billed once they
+ * are paid for
+ */
+const BILLABLE_RESERVATION_STATUSES = [
+  ReservationStatus.CONFIRMED,
+  ReservationStatus.ACTIVE,
+];
+
+/**
+ * Bills every scheduled installment that is due, starts its payment and emails the customer, who
+ * completes the payment from their account
+ * @returns How many installments were billed
+ */
+export async function billDueInstallments() {
+  const now = new Date();
+
+  const billed = await db
+    .update(billingCharges)
+    .set({ status: ChargeStatus.BILLED, billed_at: now })
+    .where(
+      and(
+        eq(billingCharges.status, ChargeStatus.SCHEDULED),
+        lte(billingCharges.due_at, now),
+        inArray(
+          billingCharges.reservation_id,
+          db
+            .select({ id: rentalReservations.id })
+            .from(rentalReservations)
+            .where(
+              inArray(rentalReservations.status, BILLABLE_RESERVATION_STATUSES)
+            )
+        )
+      )
+    )
+    .returning({
+      id: billingCharges.id,
+      reservationId: billingCharges.reservation_id,
+    });
+
+  console.log(`Billed ${billed.length} due charges`);
+
+  // Installments of a reservation billed together are paid together
+  const reservationIds = [
+    ...new Set(billed.map((charge) => charge.reservationId)),
+  ];
+  const reservations =
+    reservationIds.length > 0 ?
+      await db
+        .select()
+        .from(rentalReservations)
+        .where(inArray(rentalReservations.id, reservationIds))
+    : [];
+
+  for (const reservation of reservations) {
+    try {
+      await startBalancePayment(reservation);
+    } catch (error) {
+      // The customer can still start it from their account
+      console.error(`Failed to start payment of ${reservation.id}:`, error);
+    }
+  }
+
+  for (const charge of billed) {
+    await notifyReservation(
+      charge.reservationId,
+      EmailTemplate.INSTALLMENT_BILLED,
+      charge.id
+    );
+  }
+
+  return billed.length;
+}
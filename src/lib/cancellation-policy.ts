@@ -0,0 +1,134 @@
+import { differenceInMinutes } from "date-fns";
+
+import type { Car, Location } from "./db/definitions";
+import type { Translate } from "./i18n/translator";
+
+import { fetchCancellationPolicyById } from "./db/queries";
+import { DEFAULT_LOCALE } from "./i18n/config";
+import { createTranslator } from "./i18n/translator";
+
+export type CancellationWindow = {
+  /** The window applies when cancelling at least this many hours before check in */
+  hoursBeforeCheckIn: number;
+  /** Share of the reservation total that is refunded, from 0 to 100 */
+  refundPercent: number;
+};
+
+export type CancellationPolicyTerms = {
+  name: string;
+  nonRefundable: boolean;
+  windows: CancellationWindow[];
+};
+
+/**
+ * Applies to cars and locations without a policy of their own.
+ */
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicyTerms = {
+  name: "Flexible",
+  nonRefundable: false,
+  windows: [
+    { hoursBeforeCheckIn: 24, refundPercent: 100 },
+    { hoursBeforeCheckIn: 0, refundPercent: 50 },
+  ],
+};
+
+/**
+ * Calculates how much of a reservation is refunded when it is cancelled at the given time
+ * @param terms The cancellation policy of the reservation
+ * @param checkIn The check in date of the reservation
+ * @param total The total amount paid for the reservation
+ * @param cancelledAt The time of cancellation, defaults to now
+ * @returns The refunded percentage and amount, rounded down to a whole unit of `total`
+ */
+export function calculateRefund(
+  terms: CancellationPolicyTerms,
+  checkIn: Date,
+  total: number,
+  cancelledAt = new Date()
+) {
+  if (terms.nonRefundable) {
+    return { refundPercent: 0, refundAmount: 0 };
+  }
+
+  const hoursBeforeCheckIn = differenceInMinutes(checkIn, cancelledAt) / 60;
+
+  // The most generous window that is still open wins
+  const refundPercent = terms.windows.reduce(
+    (best, window) =>
+      hoursBeforeCheckIn >= window.hoursBeforeCheckIn ?
+        Math.max(best, window.refundPercent)
+      : best,
+    0
+  );
+
+  return {
+    refundPercent,
+    refundAmount: Math.floor((total * refundPercent) / 100),
+  };
+}
+
+/**
+ * Describes the policy in plain sentences for customers
+ * @param terms The cancellation policy
+ * @param t Translates the sentences, in English by default
+ * @returns One sentence per refund window
+ */
+export function describeCancellationPolicy(
+  terms: CancellationPolicyTerms,
+  t: Translate = createTranslator(DEFAULT_LOCALE)
+) {
+  if (terms.nonRefundable || terms.windows.length === 0) {
+    return [t("cancellationPolicy.nonRefundable")];
+  }
+
+  const windows = [...terms.windows].sort(
+    (a, b) => b.hoursBeforeCheckIn - a.hoursBeforeCheckIn
+  );
+
+  const sentences = windows.map(({ hoursBeforeCheckIn, refundPercent }) => {
+    const refund =
+      refundPercent === 100 ?
+        t("cancellationPolicy.fullRefund")
+      : t("cancellationPolicy.partialRefund", { percent: refundPercent });
+
+    return hoursBeforeCheckIn > 0 ?
+        t("cancellationPolicy.refundHoursBefore", {
+          refund,
+          hours: hoursBeforeCheckIn,
+        })
+      : t("cancellationPolicy.refundBeforeCheckIn", { refund });
+  });
+
+  if (windows.at(-1)!.hoursBeforeCheckIn > 0) {
+    sentences.push(t("cancellationPolicy.noLaterRefund"));
+  }
+
+  return sentences;
+}
+
+/**
+ * Resolves the cancellation policy of a car, falling back to the policy of its location and then
+ * to the default policy
+ * @param car The car being rented
+ * @param location The location it is rented from
+ * @returns The cancellation terms to apply
+ */
+export async function resolveCancellationPolicy(
+  car: Pick<Car, "cancellation_policy_id">,
+  location: Pick<Location, "cancellation_policy_id">
+): Promise<CancellationPolicyTerms> {
+  const policyId =
+    car.cancellation_policy_id ?? location.cancellation_policy_id;
+
+  const policy = policyId && (await fetchCancellationPolicyById(policyId));
+
+  if (!policy) {
+    return DEFAULT_CANCELLATION_POLICY;
+  }
+
+  return {
+    name: policy.name,
+    nonRefundable: policy.non_refundable ?? false,
+    windows: policy.windows ?? [],
+  };
+}
@@ -0,0 +1,142 @@
+import { createHash } from "crypto";
+import { eq } from "drizzle-orm";
+import sharp from "sharp";
+
+import type { Car, CarImage } from "./db/definitions";
+
+import { db } from "./db";
+import { carImages, cars } from "./db/schema/tables";
+import { deleteFile, getPublicUrl, uploadFile } from "./storage";
+import { CAR_IMAGE_PATH_PATTERN } from "./validations/car";
+
+/**
+ * Widths of the resized copies generated for every uploaded car image, all stored as WebP.
+ */
+export const CAR_IMAGE_VARIANTS = {
+  thumbnail: 320,
+  medium: 960,
+  large: 1920,
+} as const;
+
+export type CarImageVariant = keyof typeof CAR_IMAGE_VARIANTS;
+
+const SUPPORTED_FORMATS = ["jpeg", "png", "webp", "avif", "heif"];
+
+/**
+ * Resizes an uploaded car image and stores every variant. Images are stored under a hash of their
+ * content, so uploading the same image twice yields the same path.
+ * @param file The uploaded image, already checked for type and size
+ * @returns The storage folder of the image and the public URL of its largest variant
+ */
+export async function storeCarImage(file: File) {
+  const input = Buffer.from(await file.arrayBuffer());
+
+  // The declared type comes from the browser, make sure the content really is an image
+  const metadata = await sharp(input)
+    .metadata()
+    .catch(() => null);
+
+  if (!metadata?.format || !SUPPORTED_FORMATS.includes(metadata.format)) {
+    throw new Error("The file is not a supported image");
+  }
+
+  const hash = createHash("sha256").update(input).digest("hex").slice(0, 16);
+  const path = `cars/${hash}`;
+
+  await Promise.all(
+    Object.entries(CAR_IMAGE_VARIANTS).map(async ([variant, width]) => {
+      const output = await sharp(input)
+        .rotate() // apply the EXIF orientation before it is stripped
+        .resize({ width, withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer();
+
+      await uploadFile(getVariantPath(path, variant), output, "image/webp");
+    })
+  );
+
+  return { path, url: getPublicUrl(getVariantPath(path, "large")) };
+}
+
+/**
+ * Deletes every variant of an uploaded car image
+ * @param path The storage folder of the image
+ */
+export async function deleteCarImage(path: string) {
+  await Promise.all(
+    Object.keys(CAR_IMAGE_VARIANTS).map((variant) =>
+      deleteFile(getVariantPath(path, variant))
+    )
+  );
+}
+
+/**
+ * Returns the URL of a resized copy of the car's primary image, or its image URL if it wasn't
+ * uploaded
+ * @param car The car
+ * @param variant The size of the copy
+ * @returns The public URL of the image
+ */
+export function getCarImageUrl(
+  car: Pick<Car, "image_url" | "image_path">,
+  variant: CarImageVariant
+) {
+  return getImageUrl(car.image_url, car.image_path, variant);
+}
+
+/**
+ * Returns the URL of a resized copy of a gallery image, or its URL if it wasn't uploaded
+ * @param image The gallery image
+ * @param variant The size of the copy
+ * @returns The public URL of the image
+ */
+export function getGalleryImageUrl(
+  image: Pick<CarImage, "url" | "path">,
+  variant: CarImageVariant
+) {
+  return getImageUrl(image.url, image.path, variant);
+}
+
+/**
+ * Deletes an uploaded image that is no longer used, unless a car or another gallery image still
+ * refers to the same upload. Failures are logged rather than thrown, as the change that released
+ * the image has already been saved.
+ * @param path The storage folder of the image
+ */
+export async function deleteUnusedCarImage(path: string | null | undefined) {
+  if (!path || !CAR_IMAGE_PATH_PATTERN.test(path)) return;
+
+  try {
+    const [[car], [image]] = await Promise.all([
+      db
+        .select({ id: cars.id })
+        .from(cars)
+        .where(eq(cars.image_path, path))
+        .limit(1),
+      db
+        .select({ id: carImages.id })
+        .from(carImages)
+        .where(eq(carImages.path, path))
+        .limit(1),
+    ]);
+
+    if (!car && !image) {
+      console.log("Deleting unused car image:", path);
+      await deleteCarImage(path);
+    }
+  } catch (error) {
+    console.error("Failed to delete car image:", error);
+  }
+}
+
+function getImageUrl(
+  url: string,
+  path: string | null | undefined,
+  variant: CarImageVariant
+) {
+  return path ? getPublicUrl(getVariantPath(path, variant)) : url;
+}
+
+function getVariantPath(path: string, variant: string) {
+  return `${path}/${variant}.webp`;
+}
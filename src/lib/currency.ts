@@ -0,0 +1,141 @@
+import type { Locale } from "./i18n/config";
+
+import { DEFAULT_LOCALE, INTL_LOCALES } from "./i18n/config";
+
+/**
+ * Returns the number of minor unit digits of the given currency, e.g. `2` for INR and `0` for JPY
+ * @param currency The ISO 4217 currency code
+ * @returns The number of digits after the decimal separator
+ */
+export function getCurrencyDigits(currency: string) {
+  return (
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).resolvedOptions().maximumFractionDigits ?? 2
+  );
+}
+
+/**
+ * Rounds the given amount to the smallest unit of the given currency
+ * @param amount The amount to round
+ * @param currency The ISO 4217 currency code
+ * @returns The rounded amount
+ */
+export function roundAmount(amount: number, currency: string) {
+  const factor = 10 ** getCurrencyDigits(currency);
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Converts an amount to the minor unit of its currency (e.g. rupees to paise), which is how money
+ * is stored in the database
+ * @param amount The amount in major units
+ * @param currency The ISO 4217 currency code
+ * @returns The amount as an integer of minor units
+ */
+export function toMinorUnits(amount: number, currency: string) {
+  return Math.round(amount * 10 ** getCurrencyDigits(currency));
+}
+
+/**
+ * Converts an amount stored in the minor unit of its currency back to major units
+ * @param amount The amount as an integer of minor units
+ * @param currency The ISO 4217 currency code
+ * @returns The amount in major units
+ */
+export function fromMinorUnits(amount: number, currency: string) {
+  return amount / 10 ** getCurrencyDigits(currency);
+}
+
+/**
+ * Currency exchange rates are quoted against, and the display currency of visitors who haven't
+ * picked one
+ */
+export const BASE_CURRENCY = "INR";
+
+/**
+ * Cookie remembering the currency a visitor picked to see prices in
+ */
+export const DISPLAY_CURRENCY_COOKIE = "display-currency";
+
+/**
+ * Units of each currency one unit of the base currency buys, keyed by ISO 4217 code
+ */
+export type ExchangeRates = Record<string, number>;
+
+/**
+ * Currency prices are shown in, and the rates to convert them with. Prices are only converted for
+ * display, reservations are always charged in the currency of the car.
+ */
+export type DisplayCurrency = {
+  currency: string;
+  rates: ExchangeRates;
+};
+
+/**
+ * Converts an amount between two currencies through the base currency
+ * @param amount The amount in major units
+ * @param from The currency of the amount
+ * @param to The currency to convert to
+ * @param rates The exchange rates
+ * @returns The converted amount, or `null` when either currency has no rate
+ */
+export function convertCurrency(
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRates
+) {
+  if (from === to) {
+    return amount;
+  }
+
+  const fromRate = from === BASE_CURRENCY ? 1 : rates[from];
+  const toRate = to === BASE_CURRENCY ? 1 : rates[to];
+
+  if (!fromRate || !toRate) {
+    return null;
+  }
+
+  return (amount / fromRate) * toRate;
+}
+
+/**
+ * Converts a price to the display currency, prices in a currency without a rate are left as they
+ * are
+ * @param amount The price in major units
+ * @param currency The currency of the price
+ * @param display The display currency
+ * @returns The price to show and its currency
+ */
+export function toDisplayPrice(
+  amount: number,
+  currency: string,
+  display: DisplayCurrency
+) {
+  const converted = convertCurrency(
+    amount,
+    currency,
+    display.currency,
+    display.rates
+  );
+
+  return converted === null ?
+      { amount, currency }
+    : { amount: converted, currency: display.currency };
+}
+
+/**
+ * Returns the symbol of a currency as formatted on the site, e.g. "₹" for INR
+ */
+export function getCurrencySymbol(
+  currency: string,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  return (
+    new Intl.NumberFormat(INTL_LOCALES[locale], { style: "currency", currency })
+      .formatToParts(0)
+      .find((part) => part.type === "currency")?.value ?? currency
+  );
+}
@@ -1,8 +1,27 @@
 import type {
+  addOns,
+  addOnStock,
+  billingCharges,
+  bodyStyleDeposits,
+  cancellationPolicies,
+  carImages,
   cars,
+  carTranslations,
+  emailOutbox,
+  exchangeRates,
+  invoices,
+  ledgerEntries,
   locations,
   newsletterSubscribers,
+  oneWayFees,
+  payments,
+  pricingRules,
+  promoCodes,
+  refunds,
   rentalReservations,
+  reservationAddOns,
+  reservationLineItems,
+  reservationModifications,
   testimonials,
 } from "./schema/tables";
 
@@ -10,8 +29,47 @@ export type Location = typeof locations.$inferInsert;
 
 export type Car = typeof cars.$inferInsert;
 
+export type CarImage = typeof carImages.$inferInsert;
+
+export type CarTranslation = typeof carTranslations.$inferInsert;
+
 export type NewsletterSubscriber = typeof newsletterSubscribers.$inferInsert;
 
 export type Testimonial = typeof testimonials.$inferInsert;
 
 export type RentalReservation = typeof rentalReservations.$inferInsert;
+
+export type ReservationLineItem = typeof reservationLineItems.$inferInsert;
+
+export type CancellationPolicy = typeof cancellationPolicies.$inferInsert;
+
+export type ReservationModification =
+  typeof reservationModifications.$inferInsert;
+
+export type OneWayFee = typeof oneWayFees.$inferInsert;
+
+export type BillingCharge = typeof billingCharges.$inferInsert;
+
+export type Payment = typeof payments.$inferInsert;
+
+export type Refund = typeof refunds.$inferInsert;
+
+export type BodyStyleDeposit = typeof bodyStyleDeposits.$inferInsert;
+
+export type LedgerEntry = typeof ledgerEntries.$inferInsert;
+
+export type Invoice = typeof invoices.$inferInsert;
+
+export type OutboxEmail = typeof emailOutbox.$inferInsert;
+
+export type AddOn = typeof addOns.$inferInsert;
+
+export type AddOnStock = typeof addOnStock.$inferInsert;
+
+export type ReservationAddOn = typeof reservationAddOns.$inferInsert;
+
+export type PromoCode = typeof promoCodes.$inferInsert;
+
+export type PricingRule = typeof pricingRules.$inferInsert;
+
+export type ExchangeRate = typeof exchangeRates.$inferInsert;
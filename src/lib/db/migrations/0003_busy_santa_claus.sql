@@ -0,0 +1,6 @@
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "status" text DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "confirmed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "activated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "completed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "cancelled_at" timestamp;--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "no_show_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,52 @@
+-- Custom SQL migration file, put you code below! --
+-- Prevent double-booking: two reservations that still hold a car (pending, confirmed or active)
+-- may not overlap in time. Ranges are half-open so a car can be picked up on the day it returns.
+CREATE EXTENSION IF NOT EXISTS btree_gist;--> statement-breakpoint
+-- The constraints can't be added while existing bookings break them. Report every offending
+-- reservation and stop, so that they are resolved by hand (see "Double bookings" in DEPLOYMENT.md)
+-- rather than some customer's booking being dropped silently.
+DO $$
+DECLARE
+	conflict record;
+	conflicts integer := 0;
+BEGIN
+	FOR conflict IN
+		SELECT "id", "car_id", "check_in", "check_out"
+		FROM "cg_rental_rental_reservations"
+		WHERE "check_out" <= "check_in"
+	LOOP
+		conflicts := conflicts + 1;
+		RAISE WARNING 'Reservation % of car % returns (%) before it is picked up (%)',
+			conflict."id", conflict."car_id", conflict."check_out", conflict."check_in";
+	END LOOP;
+
+	FOR conflict IN
+		SELECT a."id" AS "first_id", b."id" AS "second_id", a."car_id",
+			greatest(a."check_in", b."check_in") AS "overlap_start",
+			least(a."check_out", b."check_out") AS "overlap_end"
+		FROM "cg_rental_rental_reservations" a
+		JOIN "cg_rental_rental_reservations" b
+			ON b."car_id" = a."car_id"
+			AND b."id" > a."id"
+			AND b."check_in" < a."check_out"
+			AND a."check_in" < b."check_out"
+		WHERE a."status" IN ('pending', 'confirmed', 'active')
+			AND b."status" IN ('pending', 'confirmed', 'active')
+		ORDER BY a."car_id", "overlap_start"
+	LOOP
+		conflicts := conflicts + 1;
+		RAISE WARNING 'Reservations % and % both hold car % from % to %',
+			conflict."first_id", conflict."second_id", conflict."car_id",
+			conflict."overlap_start", conflict."overlap_end";
+	END LOOP;
+
+	IF conflicts > 0 THEN
+		RAISE EXCEPTION '% conflicting bookings found, resolve them before migrating again', conflicts
+			USING HINT = 'Cancel, move or shorten the reservations listed above, see "Double bookings" in DEPLOYMENT.md';
+	END IF;
+END $$;--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD CONSTRAINT "cg_rental_rental_reservations_check_out_after_check_in" CHECK ("check_out" > "check_in");--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD CONSTRAINT "cg_rental_rental_reservations_no_overlap" EXCLUDE USING gist (
+	"car_id" WITH =,
+	tsrange("check_in", "check_out", '[)') WITH &&
+) WHERE ("status" IN ('pending', 'confirmed', 'active'));
@@ -0,0 +1,4 @@
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "currency" text;--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "subtotal_amount" integer;--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "taxes_and_fees_amount" integer;--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "total_amount" integer;
\ No newline at end of file
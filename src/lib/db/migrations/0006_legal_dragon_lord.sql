@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_reservation_line_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"reservation_id" uuid NOT NULL,
+	"type" text NOT NULL,
+	"label" text NOT NULL,
+	"quantity" integer NOT NULL,
+	"unit_amount" integer NOT NULL,
+	"amount" integer NOT NULL,
+	"currency" text NOT NULL,
+	"position" integer NOT NULL,
+	"created_at" timestamp NOT NULL
+);
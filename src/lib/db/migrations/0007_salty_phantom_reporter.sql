@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_cancellation_policies" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"non_refundable" boolean DEFAULT false NOT NULL,
+	"windows" jsonb DEFAULT '[]'::jsonb NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "cg_rental_cars" ADD COLUMN "cancellation_policy_id" uuid;--> statement-breakpoint
+ALTER TABLE "cg_rental_locations" ADD COLUMN "cancellation_policy_id" uuid;--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "cancellation_policy" jsonb;--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "refundable_amount" integer;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_reservation_modifications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"reservation_id" uuid NOT NULL,
+	"modified_by" text NOT NULL,
+	"previous_car_id" uuid NOT NULL,
+	"previous_location_id" uuid NOT NULL,
+	"previous_check_in" timestamp NOT NULL,
+	"previous_check_out" timestamp NOT NULL,
+	"previous_total_amount" integer,
+	"car_id" uuid NOT NULL,
+	"location_id" uuid NOT NULL,
+	"check_in" timestamp NOT NULL,
+	"check_out" timestamp NOT NULL,
+	"total_amount" integer NOT NULL,
+	"price_difference_amount" integer,
+	"currency" text NOT NULL,
+	"created_at" timestamp NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE "cg_rental_cars" ADD COLUMN "retired_at" timestamp;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "cg_rental_cars" ADD COLUMN "image_path" text;
\ No newline at end of file
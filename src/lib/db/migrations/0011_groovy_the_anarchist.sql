@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_car_images" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"car_id" uuid NOT NULL,
+	"url" text NOT NULL,
+	"path" text,
+	"alt_text" text NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	"is_primary" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "cg_rental_car_images_one_primary" ON "cg_rental_car_images" ("car_id") WHERE "is_primary";--> statement-breakpoint
+-- Every existing car starts with its current image as the primary gallery image
+INSERT INTO "cg_rental_car_images" ("car_id", "url", "path", "alt_text", "position", "is_primary")
+SELECT "id", "image_url", "image_path", "name", 0, true FROM "cg_rental_cars";
@@ -0,0 +1,5 @@
+ALTER TABLE "cg_rental_locations" ADD COLUMN "address" text;--> statement-breakpoint
+ALTER TABLE "cg_rental_locations" ADD COLUMN "phone" text;--> statement-breakpoint
+ALTER TABLE "cg_rental_locations" ADD COLUMN "timezone" text DEFAULT 'Asia/Kolkata' NOT NULL;--> statement-breakpoint
+ALTER TABLE "cg_rental_locations" ADD COLUMN "opening_hours" jsonb DEFAULT '{"sunday":{"opens":"08:00","closes":"20:00"},"monday":{"opens":"08:00","closes":"20:00"},"tuesday":{"opens":"08:00","closes":"20:00"},"wednesday":{"opens":"08:00","closes":"20:00"},"thursday":{"opens":"08:00","closes":"20:00"},"friday":{"opens":"08:00","closes":"20:00"},"saturday":{"opens":"08:00","closes":"20:00"}}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "cg_rental_locations" ADD COLUMN "holiday_closures" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_one_way_fees" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"pickup_location_id" uuid NOT NULL,
+	"return_location_id" uuid NOT NULL,
+	"amount" integer NOT NULL,
+	"currency" text NOT NULL,
+	CONSTRAINT "cg_rental_one_way_fees_pickup_location_id_return_location_id_unique" UNIQUE("pickup_location_id","return_location_id")
+);
+--> statement-breakpoint
+-- Existing reservations are round trips, returned where they were picked up
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "return_location_id" uuid;--> statement-breakpoint
+UPDATE "cg_rental_rental_reservations" SET "return_location_id" = "location_id";--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ALTER COLUMN "return_location_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "cg_rental_reservation_modifications" ADD COLUMN "previous_return_location_id" uuid;--> statement-breakpoint
+ALTER TABLE "cg_rental_reservation_modifications" ADD COLUMN "return_location_id" uuid;
\ No newline at end of file
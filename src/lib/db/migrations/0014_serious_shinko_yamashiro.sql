@@ -0,0 +1,13 @@
+-- Stored times were written as UTC, read them back as such. The no_overlap constraint is rebuilt
+-- as tsrange doesn't accept timestamps with a time zone.
+ALTER TABLE "cg_rental_rental_reservations" DROP CONSTRAINT "cg_rental_rental_reservations_no_overlap";--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ALTER COLUMN "check_in" SET DATA TYPE timestamp with time zone USING "check_in" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ALTER COLUMN "check_out" SET DATA TYPE timestamp with time zone USING "check_out" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "cg_rental_reservation_modifications" ALTER COLUMN "previous_check_in" SET DATA TYPE timestamp with time zone USING "previous_check_in" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "cg_rental_reservation_modifications" ALTER COLUMN "previous_check_out" SET DATA TYPE timestamp with time zone USING "previous_check_out" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "cg_rental_reservation_modifications" ALTER COLUMN "check_in" SET DATA TYPE timestamp with time zone USING "check_in" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "cg_rental_reservation_modifications" ALTER COLUMN "check_out" SET DATA TYPE timestamp with time zone USING "check_out" AT TIME ZONE 'UTC';--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD CONSTRAINT "cg_rental_rental_reservations_no_overlap" EXCLUDE USING gist (
+	"car_id" WITH =,
+	tstzrange("check_in", "check_out", '[)') WITH &&
+) WHERE ("status" IN ('pending', 'confirmed', 'active'));
@@ -0,0 +1,2 @@
+ALTER TABLE "cg_rental_cars" ADD COLUMN "price_per_hour" integer;--> statement-breakpoint
+ALTER TABLE "cg_rental_cars" ADD COLUMN "min_rental_hours" integer;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_billing_charges" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"reservation_id" uuid NOT NULL,
+	"sequence" integer NOT NULL,
+	"period_start" timestamp with time zone NOT NULL,
+	"period_end" timestamp with time zone NOT NULL,
+	"due_at" timestamp with time zone NOT NULL,
+	"amount" integer NOT NULL,
+	"currency" text NOT NULL,
+	"status" text DEFAULT 'scheduled' NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"billed_at" timestamp,
+	"voided_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "cg_rental_cars" ADD COLUMN "price_per_week" integer;--> statement-breakpoint
+ALTER TABLE "cg_rental_cars" ADD COLUMN "price_per_month" integer;--> statement-breakpoint
+ALTER TABLE "cg_rental_cars" ADD COLUMN "min_rental_months" integer;
\ No newline at end of file
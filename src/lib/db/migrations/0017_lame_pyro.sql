@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_add_on_stock" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"add_on_id" uuid NOT NULL,
+	"location_id" uuid NOT NULL,
+	"quantity" integer NOT NULL,
+	CONSTRAINT "cg_rental_add_on_stock_add_on_id_location_id_unique" UNIQUE("add_on_id","location_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "cg_rental_add_ons" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"pricing" text NOT NULL,
+	"price" integer NOT NULL,
+	"currency" text NOT NULL,
+	"max_quantity" integer DEFAULT 1 NOT NULL,
+	"retired_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "cg_rental_reservation_add_ons" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"reservation_id" uuid NOT NULL,
+	"add_on_id" uuid NOT NULL,
+	"quantity" integer NOT NULL,
+	"created_at" timestamp NOT NULL,
+	CONSTRAINT "cg_rental_reservation_add_ons_reservation_id_add_on_id_unique" UNIQUE("reservation_id","add_on_id")
+);
@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_promo_codes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code" text NOT NULL,
+	"description" text,
+	"discount_type" text NOT NULL,
+	"discount_value" integer NOT NULL,
+	"currency" text,
+	"valid_from" timestamp with time zone,
+	"valid_until" timestamp with time zone,
+	"max_redemptions" integer,
+	"max_redemptions_per_user" integer,
+	"min_rental_days" integer,
+	"car_ids" uuid[] DEFAULT '{}' NOT NULL,
+	"location_ids" uuid[] DEFAULT '{}' NOT NULL,
+	"body_styles" text[] DEFAULT '{}' NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"retired_at" timestamp,
+	CONSTRAINT "cg_rental_promo_codes_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "promo_code_id" uuid;--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "promo_code" text;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_pricing_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"adjustment_percent" integer NOT NULL,
+	"start_date" text,
+	"end_date" text,
+	"weekdays" text[] DEFAULT '{}' NOT NULL,
+	"dates" text[] DEFAULT '{}' NOT NULL,
+	"min_lead_days" integer,
+	"max_lead_days" integer,
+	"min_rental_days" integer,
+	"min_utilization_percent" integer,
+	"location_ids" uuid[] DEFAULT '{}' NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp NOT NULL
+);
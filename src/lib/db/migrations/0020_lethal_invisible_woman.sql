@@ -0,0 +1,7 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_exchange_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"currency" text NOT NULL,
+	"rate" numeric(18, 8) NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "cg_rental_exchange_rates_currency_unique" UNIQUE("currency")
+);
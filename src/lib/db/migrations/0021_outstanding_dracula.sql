@@ -0,0 +1,8 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_car_translations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"car_id" uuid NOT NULL,
+	"locale" text NOT NULL,
+	"descriptions" text[] DEFAULT '{}' NOT NULL,
+	"features" text[] DEFAULT '{}' NOT NULL,
+	CONSTRAINT "cg_rental_car_translations_car_id_locale_unique" UNIQUE("car_id","locale")
+);
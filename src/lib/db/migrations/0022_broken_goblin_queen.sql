@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_payments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"reservation_id" uuid NOT NULL,
+	"billing_charge_id" uuid,
+	"provider" text NOT NULL,
+	"provider_payment_id" text NOT NULL,
+	"amount" integer NOT NULL,
+	"currency" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"refunded_amount" integer DEFAULT 0 NOT NULL,
+	"failure_reason" text,
+	"created_at" timestamp NOT NULL,
+	"succeeded_at" timestamp,
+	"failed_at" timestamp,
+	CONSTRAINT "cg_rental_payments_provider_payment_id_unique" UNIQUE("provider_payment_id")
+);
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_body_style_deposits" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"body_style" text NOT NULL,
+	"amount" integer NOT NULL,
+	"currency" text NOT NULL,
+	CONSTRAINT "cg_rental_body_style_deposits_body_style_unique" UNIQUE("body_style")
+);
+--> statement-breakpoint
+ALTER TABLE "cg_rental_cars" ADD COLUMN "deposit_amount" integer;--> statement-breakpoint
+ALTER TABLE "cg_rental_payments" ADD COLUMN "purpose" text DEFAULT 'rental' NOT NULL;--> statement-breakpoint
+ALTER TABLE "cg_rental_payments" ADD COLUMN "captured_amount" integer;--> statement-breakpoint
+ALTER TABLE "cg_rental_payments" ADD COLUMN "capture_reason" text;--> statement-breakpoint
+ALTER TABLE "cg_rental_payments" ADD COLUMN "authorized_at" timestamp;--> statement-breakpoint
+ALTER TABLE "cg_rental_payments" ADD COLUMN "released_at" timestamp;--> statement-breakpoint
+ALTER TABLE "cg_rental_rental_reservations" ADD COLUMN "deposit_amount" integer;
\ No newline at end of file
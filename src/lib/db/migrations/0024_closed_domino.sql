@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_ledger_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"transaction_id" uuid NOT NULL,
+	"reservation_id" uuid NOT NULL,
+	"type" text NOT NULL,
+	"account" text NOT NULL,
+	"amount" integer NOT NULL,
+	"currency" text NOT NULL,
+	"description" text NOT NULL,
+	"payment_id" uuid,
+	"created_by" text,
+	"created_at" timestamp NOT NULL
+);
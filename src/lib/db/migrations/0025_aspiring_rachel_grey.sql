@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_invoices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"number" text NOT NULL,
+	"type" text NOT NULL,
+	"financial_year" text NOT NULL,
+	"sequence" integer NOT NULL,
+	"reservation_id" uuid NOT NULL,
+	"payment_id" uuid NOT NULL,
+	"invoice_id" uuid,
+	"customer_name" text,
+	"customer_email" text,
+	"description" text NOT NULL,
+	"sac_code" text NOT NULL,
+	"place_of_supply" text NOT NULL,
+	"currency" text NOT NULL,
+	"taxable_amount" integer NOT NULL,
+	"tax_rate" numeric(5, 2) NOT NULL,
+	"cgst_amount" integer NOT NULL,
+	"sgst_amount" integer NOT NULL,
+	"igst_amount" integer NOT NULL,
+	"total_amount" integer NOT NULL,
+	"issued_at" timestamp NOT NULL,
+	CONSTRAINT "cg_rental_invoices_number_unique" UNIQUE("number"),
+	CONSTRAINT "cg_rental_invoices_type_financial_year_sequence_unique" UNIQUE("type","financial_year","sequence")
+);
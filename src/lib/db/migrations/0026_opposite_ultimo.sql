@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_email_outbox" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"template" text NOT NULL,
+	"reservation_id" uuid,
+	"recipient" text NOT NULL,
+	"subject" text NOT NULL,
+	"text_body" text NOT NULL,
+	"html_body" text NOT NULL,
+	"status" text NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"next_attempt_at" timestamp NOT NULL,
+	"sent_at" timestamp,
+	"created_at" timestamp NOT NULL,
+	CONSTRAINT "cg_rental_email_outbox_reservation_id_template_unique" UNIQUE("reservation_id","template")
+);
@@ -0,0 +1 @@
+ALTER TABLE "cg_rental_locations" ADD COLUMN "state_code" text;
\ No newline at end of file
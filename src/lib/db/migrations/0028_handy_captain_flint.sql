@@ -0,0 +1,2 @@
+ALTER TABLE "cg_rental_payments" ADD COLUMN "checkout_url" text;--> statement-breakpoint
+ALTER TABLE "cg_rental_payments" ADD COLUMN "cancelled_at" timestamp;
\ No newline at end of file
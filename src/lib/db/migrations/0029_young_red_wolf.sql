@@ -0,0 +1,6 @@
+ALTER TABLE "cg_rental_invoices" ADD COLUMN "seller_legal_name" text;--> statement-breakpoint
+ALTER TABLE "cg_rental_invoices" ADD COLUMN "seller_address" text[];--> statement-breakpoint
+ALTER TABLE "cg_rental_invoices" ADD COLUMN "seller_gstin" text;--> statement-breakpoint
+ALTER TABLE "cg_rental_invoices" ADD COLUMN "seller_state" text;--> statement-breakpoint
+ALTER TABLE "cg_rental_invoices" ADD COLUMN "seller_state_code" text;--> statement-breakpoint
+ALTER TABLE "cg_rental_invoices" ADD COLUMN "seller_email" text;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "cg_rental_refunds" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"reservation_id" uuid NOT NULL,
+	"payment_id" uuid NOT NULL,
+	"amount" integer NOT NULL,
+	"currency" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"provider_refund_id" text,
+	"created_by" text,
+	"created_at" timestamp NOT NULL,
+	"succeeded_at" timestamp
+);
@@ -0,0 +1,3 @@
+ALTER TABLE "cg_rental_email_outbox" DROP CONSTRAINT "cg_rental_email_outbox_reservation_id_template_unique";--> statement-breakpoint
+ALTER TABLE "cg_rental_email_outbox" ADD COLUMN "billing_charge_id" uuid;--> statement-breakpoint
+ALTER TABLE "cg_rental_email_outbox" ADD CONSTRAINT "cg_rental_email_outbox_reservation_id_template_billing_charge_id_unique" UNIQUE NULLS NOT DISTINCT("reservation_id","template","billing_charge_id");
\ No newline at end of file
@@ -1,11 +1,29 @@
 import type {
+  AddOn,
+  AddOnStock,
+  BodyStyleDeposit,
+  CancellationPolicy,
   Car,
+  CarImage,
+  CarTranslation,
+  ExchangeRate,
   Location,
   NewsletterSubscriber,
+  OneWayFee,
+  PricingRule,
+  PromoCode,
   RentalReservation,
   Testimonial,
 } from "./definitions";
 
+import {
+  AddOnPricing,
+  BodyStyle,
+  PricingRuleType,
+  PromoDiscountType,
+  ReservationStatus,
+} from "../enums";
+
 const users = [
   {
     id: "410544b2-4001-4271-9855-fec4b6a6442a",
@@ -23,6 +41,7 @@ export const locations: Location[] = [
     id: "c16c11e1-0875-4a56-8faf-2d080ae0b6d6",
     name: "Bilaspur, Chhattisgarh",
     value: "bilaspur",
+    state_code: "22",
     latitude: "22.0796",
     longitude: "82.1409",
     featured: true,
@@ -32,6 +51,9 @@ export const locations: Location[] = [
     id: "2a97043f-184f-4663-9dbb-fe8b9afc8d64",
     name: "Raipur, Chhattisgarh",
     value: "raipur",
+    state_code: "22",
+    address: "Jail Road, near Raipur Railway Station, Raipur 492009",
+    phone: "+91 771 400 1234",
     latitude: "21.2514",
     longitude: "81.6296",
     featured: true,
@@ -41,6 +63,7 @@ export const locations: Location[] = [
     id: "fae436f3-6341-486a-8691-0633f64e1997",
     name: "Bhilai, Chhattisgarh",
     value: "bhilai",
+    state_code: "22",
     latitude: "21.1938",
     longitude: "81.3509",
     featured: true,
@@ -50,6 +73,7 @@ export const locations: Location[] = [
     id: "6132dc81-cc1a-4a2e-93c3-d176139bec4f",
     name: "Ambikapur, Chhattisgarh",
     value: "ambikapur",
+    state_code: "22",
     latitude: "23.1355",
     longitude: "83.1818",
     featured: false,
@@ -59,6 +83,7 @@ export const locations: Location[] = [
     id: "92331cbf-254a-4acf-9671-a77810faef4c",
     name: "Korba, Chhattisgarh",
     value: "korba",
+    state_code: "22",
     latitude: "22.3594",
     longitude: "82.7501",
     featured: false,
@@ -132,6 +157,9 @@ export const cars: Car[] = [
     retail_price_currency: "INR",
     discounted_price_per_day: 750,
     discounted_price_currency: "INR",
+    price_per_hour: 120,
+    price_per_week: 4500,
+    price_per_month: 16000,
   },
   {
     id: "9fd1b27a-2e47-4105-88c2-8e19f5839f3d",
@@ -370,6 +398,11 @@ export const cars: Car[] = [
     retail_price_currency: "INR",
     discounted_price_per_day: 1000,
     discounted_price_currency: "INR",
+    price_per_hour: 150,
+    min_rental_hours: 3,
+    price_per_week: 6000,
+    price_per_month: 21000,
+    min_rental_months: 3,
   },
   {
     id: "cec126bf-911f-433f-ad2e-1c8a8c4f6cf4",
@@ -832,6 +865,267 @@ export const cars: Car[] = [
   },
 ];
 
+// Every car's image doubles as its primary gallery image, reusing the car id keeps seeding idempotent
+export const carImages: CarImage[] = cars.map((car) => ({
+  id: car.id,
+  car_id: car.id!,
+  url: car.image_url,
+  alt_text: car.name,
+  position: 0,
+  is_primary: true,
+}));
+
+export const carTranslations: CarTranslation[] = [
+  {
+    id: "a1b2c3d4-5e6f-4a7b-8c9d-0e1f2a3b4c01",
+    car_id: "04df75a5-d495-4192-927d-4c54e68feca9",
+    locale: "hi",
+    descriptions: [
+      "मिलिए इको हैच से – पर्यावरण के प्रति जागरूक ड्राइविंग और शहरी परिष्कार का मेल। पर्यावरण का ध्यान रखने वालों के लिए बनी यह कॉम्पैक्ट कार ईंधन की बचत के साथ फुर्तीला प्रदर्शन देती है, जो शहर के जीवन के लिए एकदम सही है। अंदर स्मार्ट स्टोरेज और सहज कनेक्टिविटी के साथ एक विशाल, आधुनिक केबिन है।",
+      "सुरक्षा सबसे पहले है, इसमें उन्नत ड्राइवर-सहायता प्रणालियाँ हैं। इको हैच सिर्फ एक कार नहीं, एक टिकाऊ जीवनशैली है, जो पर्यावरण के अनुकूल ड्राइविंग को सहज रूप से स्टाइलिश और सुरक्षित बनाती है।",
+    ],
+    features: [
+      "एयर कंडीशनिंग",
+      "ब्लूटूथ",
+      "नेविगेशन",
+      "क्रूज़ कंट्रोल",
+      "एंड्रॉइड ऑटो",
+      "एप्पल कारप्ले",
+    ],
+  },
+  {
+    id: "b2c3d4e5-6f7a-4b8c-9d0e-1f2a3b4c5d02",
+    car_id: "9fd1b27a-2e47-4105-88c2-8e19f5839f3d",
+    locale: "hi",
+    descriptions: [
+      "पारिवारिक यात्रा को नया अंदाज़। शहरी सफ़र के लिए बनी यह मिनीवैन बहुमुखी उपयोगिता और स्टाइल का सहज मेल है। इसका विशाल केबिन और उन्नत सुरक्षा सुविधाएँ आपके और आपके प्रियजनों के लिए आरामदायक, सुरक्षित और स्टाइलिश सवारी सुनिश्चित करती हैं।",
+      "शहर के जीवन के लिए एकदम सही, सिटी मिनीवैन बेजोड़ आराम और सुविधा देती है, जिससे हर सफ़र आनंददायक बन जाता है।",
+    ],
+    features: [
+      "एयर कंडीशनिंग",
+      "ब्लूटूथ",
+      "नेविगेशन",
+      "क्रूज़ कंट्रोल",
+      "एंड्रॉइड ऑटो",
+      "एप्पल कारप्ले",
+    ],
+  },
+];
+
+export const cancellationPolicies: CancellationPolicy[] = [
+  {
+    id: "0d4f4a4e-6c1b-4f0a-9d51-3f7b8e2c9a10",
+    name: "Moderate",
+    non_refundable: false,
+    windows: [
+      { hoursBeforeCheckIn: 72, refundPercent: 100 },
+      { hoursBeforeCheckIn: 24, refundPercent: 50 },
+    ],
+  },
+  {
+    id: "5b2e9c1d-8a7f-4e36-b0c4-91d2f6a8e735",
+    name: "Non-refundable",
+    non_refundable: true,
+    windows: [],
+  },
+];
+
+const [bilaspur, raipur, bhilai] = locations;
+
+const oneWayRoutes: [Location, Location, number][] = [
+  [raipur, bhilai, 500],
+  [raipur, bilaspur, 1500],
+  [bhilai, bilaspur, 1500],
+];
+
+/**
+ * Routes between the three largest cities, in both directions, priced by distance.
+ */
+export const oneWayFees: OneWayFee[] = oneWayRoutes.flatMap(
+  ([first, second, amount]) =>
+    [
+      [first, second],
+      [second, first],
+    ].map(([from, to]) => ({
+      pickup_location_id: from.id!,
+      return_location_id: to.id!,
+      amount,
+      currency: "INR",
+    }))
+);
+
+export const addOns: AddOn[] = [
+  {
+    id: "3f1c6a52-7d4e-4b8a-9c2f-5e6d7a8b9c01",
+    name: "Child seat",
+    description: "Forward-facing seat for children from 9 to 18 kg.",
+    pricing: AddOnPricing.PER_DAY,
+    price: 150,
+    currency: "INR",
+    max_quantity: 3,
+  },
+  {
+    id: "8b2d4e6f-1a3c-4d5e-8f70-9a1b2c3d4e02",
+    name: "GPS navigation",
+    description: "Portable navigator with offline maps of India.",
+    pricing: AddOnPricing.PER_DAY,
+    price: 100,
+    currency: "INR",
+    max_quantity: 1,
+  },
+  {
+    id: "c4e5f607-2b3a-4c1d-9e8f-7a6b5c4d3e03",
+    name: "Additional driver",
+    description: "Lets a second licensed driver drive the car.",
+    pricing: AddOnPricing.PER_RENTAL,
+    price: 500,
+    currency: "INR",
+    max_quantity: 2,
+  },
+  {
+    id: "d6a7b8c9-3e4f-4a5b-8c6d-1e2f3a4b5c04",
+    name: "Zero-excess insurance",
+    description: "Covers the damage excess in full, tyres and glass included.",
+    pricing: AddOnPricing.PER_DAY,
+    price: 350,
+    currency: "INR",
+    max_quantity: 1,
+  },
+];
+
+const [childSeat, gps, additionalDriver, insurance] = addOns;
+
+/**
+ * Every branch stocks a few child seats and GPS units, drivers and insurance are not limited.
+ */
+export const addOnStock: AddOnStock[] = locations.flatMap((location) =>
+  [
+    { addOn: childSeat, quantity: 4 },
+    { addOn: gps, quantity: 2 },
+    { addOn: additionalDriver, quantity: 1000 },
+    { addOn: insurance, quantity: 1000 },
+  ].map(({ addOn, quantity }) => ({
+    add_on_id: addOn.id!,
+    location_id: location.id!,
+    quantity,
+  }))
+);
+
+export const promoCodes: PromoCode[] = [
+  {
+    id: "5b7e9c1d-2f4a-4e6b-8d0c-1a3b5c7d9e01",
+    code: "WELCOME10",
+    description: "10% off the first rental of every customer.",
+    discount_type: PromoDiscountType.PERCENTAGE,
+    discount_value: 10,
+    max_redemptions_per_user: 1,
+    created_at: new Date("2024-01-01"),
+  },
+  {
+    id: "6c8f0d2e-3a5b-4f7c-9e1d-2b4c6d8e0f02",
+    code: "SUVWEEK",
+    description: "₹2,000 off SUV rentals of a week or more.",
+    discount_type: PromoDiscountType.FIXED,
+    discount_value: 2000,
+    currency: "INR",
+    max_redemptions: 100,
+    min_rental_days: 7,
+    body_styles: [BodyStyle.SUV],
+    created_at: new Date("2024-01-01"),
+  },
+];
+
+export const pricingRules: PricingRule[] = [
+  {
+    id: "7d9a1b3c-4e5f-4a6b-8c7d-9e0f1a2b3c01",
+    name: "Weekend",
+    type: PricingRuleType.WEEKEND,
+    adjustment_percent: 15,
+    weekdays: ["friday", "saturday"],
+    created_at: new Date("2024-01-01"),
+  },
+  {
+    id: "8e0b2c4d-5f6a-4b7c-9d8e-0f1a2b3c4d02",
+    name: "Diwali",
+    type: PricingRuleType.HOLIDAY,
+    adjustment_percent: 25,
+    dates: ["2026-11-07", "2026-11-08", "2026-11-09"],
+    created_at: new Date("2024-01-01"),
+  },
+  {
+    id: "9f1c3d5e-6a7b-4c8d-8e9f-1a2b3c4d5e03",
+    name: "Early booking",
+    type: PricingRuleType.LEAD_TIME,
+    adjustment_percent: -10,
+    min_lead_days: 30,
+    created_at: new Date("2024-01-01"),
+  },
+  {
+    id: "a02d4e6f-7b8c-4d9e-9f0a-2b3c4d5e6f04",
+    name: "Long stay",
+    type: PricingRuleType.LENGTH_OF_STAY,
+    adjustment_percent: -5,
+    min_rental_days: 5,
+    created_at: new Date("2024-01-01"),
+  },
+  {
+    id: "b13e5f7a-8c9d-4e0f-8a1b-3c4d5e6f7a05",
+    name: "High demand",
+    type: PricingRuleType.UTILIZATION,
+    adjustment_percent: 20,
+    min_utilization_percent: 80,
+    created_at: new Date("2024-01-01"),
+  },
+];
+
+export const exchangeRates: ExchangeRate[] = [
+  {
+    id: "c24f6a8b-9d0e-4f1a-9b2c-4d5e6f7a8b01",
+    currency: "USD",
+    rate: "0.01190000",
+    updated_at: new Date("2026-10-01"),
+  },
+  {
+    id: "d3507b9c-0e1f-4a2b-8c3d-5e6f7a8b9c02",
+    currency: "EUR",
+    rate: "0.01020000",
+    updated_at: new Date("2026-10-01"),
+  },
+  {
+    id: "e4618cad-1f2a-4b3c-9d4e-6f7a8b9c0d03",
+    currency: "GBP",
+    rate: "0.00890000",
+    updated_at: new Date("2026-10-01"),
+  },
+  {
+    id: "f5729dbe-2a3b-4c4d-8e5f-7a8b9c0d1e04",
+    currency: "AED",
+    rate: "0.04370000",
+    updated_at: new Date("2026-10-01"),
+  },
+];
+
+export const bodyStyleDeposits: BodyStyleDeposit[] = [
+  {
+    id: "a6e3c1d2-3b4c-4d5e-9f6a-8b9c0d1e2f01",
+    body_style: BodyStyle.SUV,
+    amount: 10000,
+    currency: "INR",
+  },
+  {
+    id: "b7f4d2e3-4c5d-4e6f-8a7b-9c0d1e2f3a02",
+    body_style: BodyStyle.SPORTS_CAR,
+    amount: 25000,
+    currency: "INR",
+  },
+  {
+    id: "c8a5e3f4-5d6e-4f7a-9b8c-0d1e2f3a4b03",
+    body_style: BodyStyle.PICKUP_TRUCK,
+    amount: 8000,
+    currency: "INR",
+  },
+];
+
 export const newsletterSubscribers: NewsletterSubscriber[] = [
   {
     id: "8cdd2d76-0989-4711-9377-9fa9f5d15b6d",
@@ -846,8 +1140,11 @@ export const rentalReservations: RentalReservation[] = [
     car_id: cars[6].id!,
     user_id: users[0].id,
     location_id: locations[0].id!,
+    return_location_id: locations[0].id!,
     check_in: new Date("2024-03-10"),
     check_out: new Date("2024-03-18"),
+    status: ReservationStatus.CONFIRMED,
     created_at: new Date("2023-10-28"),
+    confirmed_at: new Date("2023-10-28"),
   },
 ];
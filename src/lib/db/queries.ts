@@ -1,12 +1,63 @@
-import { and, asc, eq, sql } from "drizzle-orm";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNull,
+  lt,
+  lte,
+  ne,
+  or,
+  sql,
+  sum,
+} from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+import type { Locale } from "../i18n/config";
 
 import { db } from ".";
+import {
+  ChargeStatus,
+  EmailStatus,
+  LedgerAccount,
+  PaymentPurpose,
+  PaymentStatus,
+  ReservationStatus,
+} from "../enums";
 import { env } from "../env";
+import { findOneWayFee, findTripConflict } from "../one-way-rentals";
+import {
+  BLOCKING_RESERVATION_STATUSES,
+  getPaymentHoldCutoff,
+  isBlockingReservation,
+} from "../reservation-status";
 import * as placeholder from "./placeholder";
 import {
+  addOns,
+  addOnStock,
+  billingCharges,
+  bodyStyleDeposits,
+  cancellationPolicies,
+  carImages,
   cars,
+  carTranslations,
+  emailOutbox,
+  exchangeRates,
+  invoices,
+  ledgerEntries,
   locations,
+  oneWayFees,
+  payments,
+  pricingRules,
+  promoCodes,
   rentalReservations,
+  reservationAddOns,
+  reservationLineItems,
+  reservationModifications,
   testimonials,
 } from "./schema/tables";
 
@@ -14,6 +65,27 @@ function usePlaceholder() {
   return env.NODE_ENV === "development" && !env.USE_DATABASE;
 }
 
+// Reservations join the locations table twice, for pickup and for return
+const returnLocations = alias(locations, "return_locations");
+
+/**
+ * Joins a placeholder reservation with its car and locations, the same way the database queries do
+ */
+function withPlaceholderCarAndLocation(
+  reservation: (typeof placeholder.rentalReservations)[number]
+) {
+  return {
+    reservation,
+    car: placeholder.cars.find((car) => car.id === reservation.car_id)!,
+    location: placeholder.locations.find(
+      (location) => location.id === reservation.location_id
+    )!,
+    returnLocation: placeholder.locations.find(
+      (location) => location.id === reservation.return_location_id
+    )!,
+  };
+}
+
 export async function fetchTestimonials() {
   if (usePlaceholder()) {
     return placeholder.testimonials;
@@ -84,14 +156,31 @@ export async function fetchLocationByValue(value: string) {
   }
 }
 
+export async function fetchLocationById(id: string) {
+  if (usePlaceholder()) {
+    return placeholder.locations.find((location) => location.id === id);
+  }
+
+  try {
+    const [data] = await db
+      .select()
+      .from(locations)
+      .where(eq(locations.id, id))
+      .limit(1);
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+  }
+}
+
 export async function fetchCars() {
   if (usePlaceholder()) {
-    return placeholder.cars;
+    return placeholder.cars.filter((car) => !car.retired_at);
   }
 
   try {
     console.log("Fetching cars data...");
-    const data = await db.select().from(cars);
+    const data = await db.select().from(cars).where(isNull(cars.retired_at));
     console.log("Data fetch complete.");
     return data;
   } catch (error) {
@@ -102,18 +191,101 @@ export async function fetchCars() {
 
 export async function fetchCarBySlug(slug: string) {
   if (usePlaceholder()) {
-    return placeholder.cars.find((car) => car.slug === slug);
+    return placeholder.cars.find((car) => car.slug === slug && !car.retired_at);
   }
 
   try {
     const [data] = await db
       .select()
       .from(cars)
-      .where(eq(cars.slug, slug))
+      .where(and(eq(cars.slug, slug), isNull(cars.retired_at)))
+      .limit(1);
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+  }
+}
+
+export async function fetchCarById(id: string) {
+  if (usePlaceholder()) {
+    return placeholder.cars.find((car) => car.id === id);
+  }
+
+  try {
+    const [data] = await db.select().from(cars).where(eq(cars.id, id)).limit(1);
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+  }
+}
+
+export async function fetchCarImages(carId: string) {
+  if (usePlaceholder()) {
+    return placeholder.carImages.filter((image) => image.car_id === carId);
+  }
+
+  try {
+    const data = await db
+      .select()
+      .from(carImages)
+      .where(eq(carImages.car_id, carId))
+      .orderBy(asc(carImages.position), asc(carImages.created_at));
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch car images.");
+  }
+}
+
+/**
+ * Fetches the descriptions and features of a car in every language it is translated to
+ */
+export async function fetchCarTranslations(carId: string) {
+  if (usePlaceholder()) {
+    return placeholder.carTranslations.filter(
+      (translation) => translation.car_id === carId
+    );
+  }
+
+  try {
+    const data = await db
+      .select()
+      .from(carTranslations)
+      .where(eq(carTranslations.car_id, carId))
+      .orderBy(asc(carTranslations.locale));
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch car translations.");
+  }
+}
+
+/**
+ * Fetches the descriptions and features of a car in a language, if it is translated to it
+ */
+export async function fetchCarTranslation(carId: string, locale: Locale) {
+  if (usePlaceholder()) {
+    return placeholder.carTranslations.find(
+      (translation) =>
+        translation.car_id === carId && translation.locale === locale
+    );
+  }
+
+  try {
+    const [data] = await db
+      .select()
+      .from(carTranslations)
+      .where(
+        and(
+          eq(carTranslations.car_id, carId),
+          eq(carTranslations.locale, locale)
+        )
+      )
       .limit(1);
     return data;
   } catch (error) {
     console.error("Database Error:", error);
+    throw new Error("Failed to fetch car translation.");
   }
 }
 
@@ -127,7 +299,9 @@ export async function fetchCarsByLocation(locationValue: string) {
   const locationId = location.id;
 
   if (usePlaceholder()) {
-    return placeholder.cars.filter((car) => car.location_id === locationId);
+    return placeholder.cars.filter(
+      (car) => car.location_id === locationId && !car.retired_at
+    );
   }
 
   try {
@@ -135,7 +309,7 @@ export async function fetchCarsByLocation(locationValue: string) {
     const data = await db
       .select()
       .from(cars)
-      .where(eq(cars.location_id, locationId));
+      .where(and(eq(cars.location_id, locationId), isNull(cars.retired_at)));
     console.log("Data fetch complete.");
     return data;
   } catch (error) {
@@ -157,71 +331,110 @@ export async function fetchAvailableCars(
 
   const locationId = location.id;
 
+  // Searches are for round trips, picked up and returned at the same location
+  const trip = {
+    location_id: locationId,
+    return_location_id: locationId,
+    check_in: checkIn,
+    check_out: checkOut,
+  };
+
   if (usePlaceholder()) {
     // In development mode, filter placeholder data
-    // First filter cars by location, then exclude reserved ones
-    const locationCars = placeholder.cars.filter(
-      (car) => car.location_id === locationId
+    const trips = placeholder.rentalReservations.filter((reservation) =>
+      isBlockingReservation(reservation.status!)
     );
 
-    // Find overlapping reservations at this location
-    const overlappingReservations = placeholder.rentalReservations.filter(
-      (reservation) => {
-        if (reservation.location_id !== locationId) return false;
-        const resCheckIn = new Date(reservation.check_in);
-        const resCheckOut = new Date(reservation.check_out);
-        // Check for date overlap: reservation overlaps if it starts before checkOut AND ends after checkIn
-        return resCheckIn < checkOut && resCheckOut > checkIn;
-      }
-    );
-    const reservedCarIds = new Set(
-      overlappingReservations.map((r) => r.car_id)
+    return placeholder.cars.filter(
+      (car) =>
+        !car.retired_at &&
+        !findTripConflict(
+          car.location_id,
+          trips.filter((reservation) => reservation.car_id === car.id),
+          trip
+        )
     );
-
-    return locationCars.filter((car) => !reservedCarIds.has(car.id!));
   }
 
   try {
     console.log("Fetching available cars for location and dates...");
 
-    // Find cars that have overlapping reservations at this location
-    const overlappingReservations = await db
-      .select({ carId: rentalReservations.car_id })
-      .from(rentalReservations)
-      .where(
-        and(
-          eq(rentalReservations.location_id, locationId),
-          // Check for date overlap: reservation overlaps if it starts before checkOut AND ends after checkIn
-          and(
-            sql`${rentalReservations.check_in} < ${checkOut.toISOString()}`,
-            sql`${rentalReservations.check_out} > ${checkIn.toISOString()}`
-          )
+    // Reservations that still hold their car, ignoring cancelled, completed and no-show ones, and
+    // pending ones that weren't paid for in time and are about to be cancelled. Payments the staff
+    // marks received are waited for however long they take.
+    const holdsCar = and(
+      inArray(rentalReservations.status, BLOCKING_RESERVATION_STATUSES),
+      env.PAYMENT_PROVIDER === "manual" ?
+        undefined
+      : or(
+          ne(rentalReservations.status, ReservationStatus.PENDING),
+          isNull(rentalReservations.total_amount),
+          gte(rentalReservations.created_at, getPaymentHoldCutoff())
         )
-      );
+    );
+    const tripColumns = {
+      car_id: rentalReservations.car_id,
+      location_id: rentalReservations.location_id,
+      return_location_id: rentalReservations.return_location_id,
+      check_in: rentalReservations.check_in,
+      check_out: rentalReservations.check_out,
+    };
 
-    const reservedCarIds = overlappingReservations.map((r) => r.carId);
+    // Only the trips during the search, and each car's last trip before it and first trip after
+    // it, decide whether the car fits
+    const [overlapping, previous, next] = await Promise.all([
+      db
+        .select(tripColumns)
+        .from(rentalReservations)
+        .where(
+          and(
+            holdsCar,
+            lt(rentalReservations.check_in, checkOut),
+            gt(rentalReservations.check_out, checkIn)
+          )
+        ),
+      db
+        .selectDistinctOn([rentalReservations.car_id], tripColumns)
+        .from(rentalReservations)
+        .where(and(holdsCar, lte(rentalReservations.check_out, checkIn)))
+        .orderBy(rentalReservations.car_id, desc(rentalReservations.check_out)),
+      db
+        .selectDistinctOn([rentalReservations.car_id], tripColumns)
+        .from(rentalReservations)
+        .where(and(holdsCar, gte(rentalReservations.check_in, checkOut)))
+        .orderBy(rentalReservations.car_id, asc(rentalReservations.check_in)),
+    ]);
+    const trips = [...overlapping, ...previous, ...next];
 
-    // Get cars at this location that are NOT reserved
-    if (reservedCarIds.length === 0) {
-      // No reservations, return all cars at this location
-      const locationCars = await db
-        .select()
-        .from(cars)
-        .where(eq(cars.location_id, locationId));
-      return locationCars;
-    }
+    // Cars based elsewhere can be dropped off here by a one-way trip before check in
+    const arrivingCarIds = trips
+      .filter((reservation) => reservation.return_location_id === locationId)
+      .map((reservation) => reservation.car_id);
 
-    // Filter out reserved cars at this location
-    const availableCars = await db
+    const candidates = await db
       .select()
       .from(cars)
       .where(
         and(
-          eq(cars.location_id, locationId),
-          sql`${cars.id} NOT IN (${reservedCarIds.map((id) => `'${id}'`).join(", ")})`
+          isNull(cars.retired_at),
+          arrivingCarIds.length > 0 ?
+            or(
+              eq(cars.location_id, locationId),
+              inArray(cars.id, arrivingCarIds)
+            )
+          : eq(cars.location_id, locationId)
         )
       );
 
+    const availableCars = candidates.filter(
+      (car) =>
+        !findTripConflict(
+          car.location_id,
+          trips.filter((reservation) => reservation.car_id === car.id),
+          trip
+        )
+    );
+
     console.log("Data fetch complete.");
     return availableCars;
   } catch (error) {
@@ -230,26 +443,899 @@ export async function fetchAvailableCars(
   }
 }
 
-export async function getMinPriceFromCars() {
+export async function fetchFleet() {
   if (usePlaceholder()) {
-    return placeholder.cars.reduce((min, car) => {
-      const price =
-        car.discounted_price_per_day || car.retail_price_per_day || 0;
-      return price < min ? price : min;
-    }, Infinity);
+    return placeholder.cars
+      .map((car) => ({
+        car,
+        location: placeholder.locations.find(
+          (location) => location.id === car.location_id
+        )!,
+      }))
+      .sort((a, b) => a.car.name.localeCompare(b.car.name));
   }
 
   try {
-    const query = sql`
-      SELECT
-        MIN(COALESCE(discounted_price_per_day, retail_price_per_day)) AS min_price
-      FROM cg_rental_cars;
-    `;
+    console.log("Fetching fleet data...");
+    const data = await db
+      .select({ car: cars, location: locations })
+      .from(cars)
+      .innerJoin(locations, eq(locations.id, cars.location_id))
+      .orderBy(asc(cars.name));
+    console.log("Data fetch complete.");
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch fleet data.");
+  }
+}
 
-    const data = await db.execute(query);
+export async function fetchReservationsByUser(userId: string) {
+  if (usePlaceholder()) {
+    return placeholder.rentalReservations
+      .filter((reservation) => reservation.user_id === userId)
+      .map(withPlaceholderCarAndLocation)
+      .sort((a, b) => +b.reservation.check_in - +a.reservation.check_in);
+  }
 
-    return data[0].min_price as number;
+  try {
+    console.log("Fetching reservations for user...");
+    const data = await db
+      .select({
+        reservation: rentalReservations,
+        car: cars,
+        location: locations,
+        returnLocation: returnLocations,
+      })
+      .from(rentalReservations)
+      .innerJoin(cars, eq(cars.id, rentalReservations.car_id))
+      .innerJoin(locations, eq(locations.id, rentalReservations.location_id))
+      .innerJoin(
+        returnLocations,
+        eq(returnLocations.id, rentalReservations.return_location_id)
+      )
+      .where(eq(rentalReservations.user_id, userId))
+      .orderBy(desc(rentalReservations.check_in));
+    console.log("Data fetch complete.");
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch reservations.");
+  }
+}
+
+export async function fetchReservationById(id: string) {
+  if (usePlaceholder()) {
+    const reservation = placeholder.rentalReservations.find(
+      (reservation) => reservation.id === id
+    );
+    return reservation && withPlaceholderCarAndLocation(reservation);
+  }
+
+  try {
+    const [data] = await db
+      .select({
+        reservation: rentalReservations,
+        car: cars,
+        location: locations,
+        returnLocation: returnLocations,
+      })
+      .from(rentalReservations)
+      .innerJoin(cars, eq(cars.id, rentalReservations.car_id))
+      .innerJoin(locations, eq(locations.id, rentalReservations.location_id))
+      .innerJoin(
+        returnLocations,
+        eq(returnLocations.id, rentalReservations.return_location_id)
+      )
+      .where(eq(rentalReservations.id, id))
+      .limit(1);
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+  }
+}
+
+export async function fetchReservationLineItems(reservationId: string) {
+  if (usePlaceholder()) {
+    return [];
+  }
+
+  try {
+    const data = await db
+      .select()
+      .from(reservationLineItems)
+      .where(eq(reservationLineItems.reservation_id, reservationId))
+      .orderBy(asc(reservationLineItems.position));
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch reservation line items.");
+  }
+}
+
+export async function fetchBillingCharges(reservationId: string) {
+  if (usePlaceholder()) {
+    return [];
+  }
+
+  try {
+    const data = await db
+      .select()
+      .from(billingCharges)
+      .where(eq(billingCharges.reservation_id, reservationId))
+      .orderBy(asc(billingCharges.sequence), asc(billingCharges.created_at));
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch billing charges.");
+  }
+}
+
+export async function fetchPayments(reservationId: string) {
+  if (usePlaceholder()) {
+    return [];
+  }
+
+  try {
+    const data = await db
+      .select()
+      .from(payments)
+      .where(eq(payments.reservation_id, reservationId))
+      .orderBy(asc(payments.created_at));
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch payments.");
+  }
+}
+
+/**
+ * Fetches a payment by its id at the payment provider
+ */
+export async function fetchPaymentByProviderId(
+  provider: string,
+  providerPaymentId: string
+) {
+  if (usePlaceholder()) {
+    return null;
+  }
+
+  try {
+    const [data] = await db
+      .select()
+      .from(payments)
+      .where(
+        and(
+          eq(payments.provider, provider),
+          eq(payments.provider_payment_id, providerPaymentId)
+        )
+      )
+      .limit(1);
+    return data ?? null;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch payment.");
+  }
+}
+
+/**
+ * Fetches the installments that are scheduled or billed, with the reservation and car they belong
+ * to, oldest due date first
+ */
+export async function fetchOpenBillingCharges() {
+  if (usePlaceholder()) {
+    return [];
+  }
+
+  try {
+    console.log("Fetching billing charges data...");
+    const data = await db
+      .select({
+        charge: billingCharges,
+        reservation: rentalReservations,
+        car: cars,
+      })
+      .from(billingCharges)
+      .innerJoin(
+        rentalReservations,
+        eq(rentalReservations.id, billingCharges.reservation_id)
+      )
+      .innerJoin(cars, eq(cars.id, rentalReservations.car_id))
+      .where(ne(billingCharges.status, ChargeStatus.VOID))
+      .orderBy(asc(billingCharges.due_at));
+    console.log("Data fetch complete.");
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch billing charges.");
+  }
+}
+
+export async function fetchReservationModifications(reservationId: string) {
+  if (usePlaceholder()) {
+    return [];
+  }
+
+  try {
+    const data = await db
+      .select()
+      .from(reservationModifications)
+      .where(eq(reservationModifications.reservation_id, reservationId))
+      .orderBy(asc(reservationModifications.created_at));
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch reservation modifications.");
+  }
+}
+
+export async function fetchCancellationPolicies() {
+  if (usePlaceholder()) {
+    return placeholder.cancellationPolicies;
+  }
+
+  try {
+    console.log("Fetching cancellation policies data...");
+    const data = await db
+      .select()
+      .from(cancellationPolicies)
+      .orderBy(asc(cancellationPolicies.name));
+    console.log("Data fetch complete.");
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch cancellation policies data.");
+  }
+}
+
+export async function fetchOneWayFees() {
+  if (usePlaceholder()) {
+    return placeholder.oneWayFees;
+  }
+
+  try {
+    console.log("Fetching one-way fees data...");
+    const data = await db.select().from(oneWayFees);
+    console.log("Data fetch complete.");
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch one-way fees data.");
+  }
+}
+
+/**
+ * Fetches the fee for returning a car to another location, `undefined` when the route isn't offered
+ */
+export async function fetchOneWayFee(
+  pickupLocationId: string,
+  returnLocationId: string
+) {
+  if (pickupLocationId === returnLocationId) {
+    return undefined;
+  }
+
+  if (usePlaceholder()) {
+    return findOneWayFee(
+      placeholder.oneWayFees,
+      pickupLocationId,
+      returnLocationId
+    );
+  }
+
+  try {
+    const [data] = await db
+      .select()
+      .from(oneWayFees)
+      .where(
+        and(
+          eq(oneWayFees.pickup_location_id, pickupLocationId),
+          eq(oneWayFees.return_location_id, returnLocationId)
+        )
+      )
+      .limit(1);
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch one-way fee data.");
+  }
+}
+
+/**
+ * Fetches the add-ons catalog, retired add-ons included
+ */
+export async function fetchAddOns() {
+  if (usePlaceholder()) {
+    return placeholder.addOns;
+  }
+
+  try {
+    console.log("Fetching add-ons data...");
+    const data = await db.select().from(addOns).orderBy(asc(addOns.name));
+    console.log("Data fetch complete.");
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch add-ons data.");
+  }
+}
+
+export async function fetchAddOnById(id: string) {
+  if (usePlaceholder()) {
+    return placeholder.addOns.find((addOn) => addOn.id === id);
+  }
+
+  try {
+    const [data] = await db
+      .select()
+      .from(addOns)
+      .where(eq(addOns.id, id))
+      .limit(1);
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+  }
+}
+
+export async function fetchAddOnsByIds(ids: string[]) {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  if (usePlaceholder()) {
+    return placeholder.addOns.filter((addOn) => ids.includes(addOn.id!));
+  }
+
+  try {
+    const data = await db.select().from(addOns).where(inArray(addOns.id, ids));
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch add-ons.");
+  }
+}
+
+/**
+ * Fetches the units of add-ons owned by every location, or by a single add-on's locations
+ */
+export async function fetchAddOnStock(addOnId?: string) {
+  if (usePlaceholder()) {
+    return placeholder.addOnStock.filter(
+      (stock) => !addOnId || stock.add_on_id === addOnId
+    );
+  }
+
+  try {
+    const data = await db
+      .select()
+      .from(addOnStock)
+      .where(addOnId ? eq(addOnStock.add_on_id, addOnId) : undefined);
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch add-on stock.");
+  }
+}
+
+/**
+ * Counts the units of each add-on held by reservations picked up at the location that overlap the
+ * given dates
+ * @param excludeReservationId A reservation being modified, whose add-ons are not counted
+ * @returns The units booked per add-on
+ */
+export async function fetchBookedAddOns(
+  locationId: string,
+  checkIn: Date,
+  checkOut: Date,
+  excludeReservationId?: string
+) {
+  if (usePlaceholder()) {
+    return [];
+  }
+
+  try {
+    const data = await db
+      .select({
+        add_on_id: reservationAddOns.add_on_id,
+        quantity: sum(reservationAddOns.quantity).mapWith(Number),
+      })
+      .from(reservationAddOns)
+      .innerJoin(
+        rentalReservations,
+        eq(rentalReservations.id, reservationAddOns.reservation_id)
+      )
+      .where(
+        and(
+          eq(rentalReservations.location_id, locationId),
+          inArray(rentalReservations.status, BLOCKING_RESERVATION_STATUSES),
+          lt(rentalReservations.check_in, checkOut),
+          gt(rentalReservations.check_out, checkIn),
+          excludeReservationId ?
+            ne(rentalReservations.id, excludeReservationId)
+          : undefined
+        )
+      )
+      .groupBy(reservationAddOns.add_on_id);
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch booked add-ons.");
+  }
+}
+
+export async function fetchReservationAddOns(reservationId: string) {
+  if (usePlaceholder()) {
+    return [];
+  }
+
+  try {
+    const data = await db
+      .select({ reservationAddOn: reservationAddOns, addOn: addOns })
+      .from(reservationAddOns)
+      .innerJoin(addOns, eq(addOns.id, reservationAddOns.add_on_id))
+      .where(eq(reservationAddOns.reservation_id, reservationId))
+      .orderBy(asc(addOns.name));
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch reservation add-ons.");
+  }
+}
+
+/**
+ * Fetches every promo code, retired codes included
+ */
+export async function fetchPromoCodes() {
+  if (usePlaceholder()) {
+    return placeholder.promoCodes;
+  }
+
+  try {
+    console.log("Fetching promo codes data...");
+    const data = await db
+      .select()
+      .from(promoCodes)
+      .orderBy(desc(promoCodes.created_at));
+    console.log("Data fetch complete.");
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch promo codes data.");
+  }
+}
+
+export async function fetchPromoCodeById(id: string) {
+  if (usePlaceholder()) {
+    return placeholder.promoCodes.find((promoCode) => promoCode.id === id);
+  }
+
+  try {
+    const [data] = await db
+      .select()
+      .from(promoCodes)
+      .where(eq(promoCodes.id, id))
+      .limit(1);
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+  }
+}
+
+/**
+ * Fetches a promo code by its code, which is expected in upper case
+ */
+export async function fetchPromoCodeByCode(code: string) {
+  if (usePlaceholder()) {
+    return placeholder.promoCodes.find((promoCode) => promoCode.code === code);
+  }
+
+  try {
+    const [data] = await db
+      .select()
+      .from(promoCodes)
+      .where(eq(promoCodes.code, code))
+      .limit(1);
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch promo code.");
+  }
+}
+
+/**
+ * Counts the reservations that redeemed a promo code, overall and by the given customer. Cancelled
+ * reservations give their redemption back.
+ */
+export async function fetchPromoCodeUsage(promoCodeId: string, userId: string) {
+  if (usePlaceholder()) {
+    return { total: 0, byUser: 0 };
+  }
+
+  try {
+    const [data] = await db
+      .select({
+        total: count(),
+        byUser: count(
+          sql`case when ${rentalReservations.user_id} = ${userId} then 1 end`
+        ),
+      })
+      .from(rentalReservations)
+      .where(
+        and(
+          eq(rentalReservations.promo_code_id, promoCodeId),
+          ne(rentalReservations.status, ReservationStatus.CANCELLED)
+        )
+      );
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch promo code usage.");
+  }
+}
+
+/**
+ * Counts the reservations that redeemed each promo code, cancelled reservations aside
+ */
+export async function fetchPromoCodeRedemptions() {
+  if (usePlaceholder()) {
+    return [];
+  }
+
+  try {
+    const data = await db
+      .select({
+        promo_code_id: rentalReservations.promo_code_id,
+        redemptions: count(),
+      })
+      .from(rentalReservations)
+      .where(ne(rentalReservations.status, ReservationStatus.CANCELLED))
+      .groupBy(rentalReservations.promo_code_id);
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch promo code redemptions.");
+  }
+}
+
+/**
+ * Fetches every pricing rule, disabled rules included
+ */
+export async function fetchPricingRules() {
+  if (usePlaceholder()) {
+    return placeholder.pricingRules;
+  }
+
+  try {
+    const data = await db
+      .select()
+      .from(pricingRules)
+      .orderBy(asc(pricingRules.type), asc(pricingRules.name));
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch pricing rules.");
+  }
+}
+
+export async function fetchPricingRuleById(id: string) {
+  if (usePlaceholder()) {
+    return placeholder.pricingRules.find((rule) => rule.id === id);
+  }
+
+  try {
+    const [data] = await db
+      .select()
+      .from(pricingRules)
+      .where(eq(pricingRules.id, id))
+      .limit(1);
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+  }
+}
+
+/**
+ * Fetches the number of cars based at a location and the trips picked up there that overlap the
+ * given dates, to tell how busy the location is
+ * @param excludeReservationId A reservation being modified, whose trip is not counted
+ */
+export async function fetchLocationOccupancy(
+  locationId: string,
+  from: Date,
+  to: Date,
+  excludeReservationId?: string
+) {
+  if (usePlaceholder()) {
+    return {
+      fleetSize: placeholder.cars.filter(
+        (car) => car.location_id === locationId && !car.retired_at
+      ).length,
+      trips: placeholder.rentalReservations
+        .filter(
+          (reservation) =>
+            reservation.location_id === locationId &&
+            reservation.id !== excludeReservationId &&
+            isBlockingReservation(reservation.status!) &&
+            reservation.check_in < to &&
+            reservation.check_out > from
+        )
+        .map(({ car_id, check_in, check_out }) => ({
+          car_id,
+          check_in,
+          check_out,
+        })),
+    };
+  }
+
+  try {
+    const [[fleet], trips] = await Promise.all([
+      db
+        .select({ size: count() })
+        .from(cars)
+        .where(and(eq(cars.location_id, locationId), isNull(cars.retired_at))),
+      db
+        .select({
+          car_id: rentalReservations.car_id,
+          check_in: rentalReservations.check_in,
+          check_out: rentalReservations.check_out,
+        })
+        .from(rentalReservations)
+        .where(
+          and(
+            eq(rentalReservations.location_id, locationId),
+            inArray(rentalReservations.status, BLOCKING_RESERVATION_STATUSES),
+            lt(rentalReservations.check_in, to),
+            gt(rentalReservations.check_out, from),
+            excludeReservationId ?
+              ne(rentalReservations.id, excludeReservationId)
+            : undefined
+          )
+        ),
+    ]);
+    return { fleetSize: fleet.size, trips };
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch location occupancy.");
+  }
+}
+
+export async function fetchCancellationPolicyById(id: string) {
+  if (usePlaceholder()) {
+    return placeholder.cancellationPolicies.find((policy) => policy.id === id);
+  }
+
+  try {
+    const [data] = await db
+      .select()
+      .from(cancellationPolicies)
+      .where(eq(cancellationPolicies.id, id))
+      .limit(1);
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+  }
+}
+
+export async function getMinPriceFromCars() {
+  if (usePlaceholder()) {
+    return placeholder.cars
+      .filter((car) => !car.retired_at)
+      .reduce((min, car) => {
+        const price =
+          car.discounted_price_per_day || car.retail_price_per_day || 0;
+        return price < min ? price : min;
+      }, Infinity);
+  }
+
+  try {
+    const query = sql`
+      SELECT
+        MIN(COALESCE(discounted_price_per_day, retail_price_per_day)) AS min_price
+      FROM cg_rental_cars
+      WHERE retired_at IS NULL;
+    `;
+
+    const data = await db.execute(query);
+
+    return data[0].min_price as number;
+  } catch (error) {
+    console.error("Database Error:", error);
+  }
+}
+
+export async function fetchExchangeRates() {
+  if (usePlaceholder()) {
+    return placeholder.exchangeRates;
+  }
+
+  try {
+    console.log("Fetching exchange rates data...");
+    const data = await db
+      .select()
+      .from(exchangeRates)
+      .orderBy(asc(exchangeRates.currency));
+    console.log("Data fetch complete.");
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch exchange rates data.");
+  }
+}
+
+export async function fetchBodyStyleDeposits() {
+  if (usePlaceholder()) {
+    return placeholder.bodyStyleDeposits;
+  }
+
+  try {
+    const data = await db
+      .select()
+      .from(bodyStyleDeposits)
+      .orderBy(asc(bodyStyleDeposits.body_style));
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch body style deposits.");
+  }
+}
+
+/**
+ * Fetches the deposits that are held on customers' cards, with the reservation and car they
+ * belong to, oldest first
+ */
+export async function fetchHeldDeposits() {
+  if (usePlaceholder()) {
+    return [];
+  }
+
+  try {
+    console.log("Fetching held deposits data...");
+    const data = await db
+      .select({
+        deposit: payments,
+        reservation: rentalReservations,
+        car: cars,
+      })
+      .from(payments)
+      .innerJoin(
+        rentalReservations,
+        eq(rentalReservations.id, payments.reservation_id)
+      )
+      .innerJoin(cars, eq(cars.id, rentalReservations.car_id))
+      .where(
+        and(
+          eq(payments.purpose, PaymentPurpose.DEPOSIT),
+          eq(payments.status, PaymentStatus.AUTHORIZED)
+        )
+      )
+      .orderBy(asc(payments.authorized_at));
+    console.log("Data fetch complete.");
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch held deposits.");
+  }
+}
+
+/**
+ * Fetches the ledger of a reservation, all accounts, in the order it was posted
+ */
+export async function fetchLedgerEntries(reservationId: string) {
+  if (usePlaceholder()) {
+    return [];
+  }
+
+  try {
+    const data = await db
+      .select()
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.reservation_id, reservationId))
+      .orderBy(asc(ledgerEntries.created_at), asc(ledgerEntries.id));
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch ledger entries.");
+  }
+}
+
+/**
+ * Fetches the reservations whose customer owes money or is owed money back, with their car,
+ * largest balances first
+ */
+export async function fetchOpenLedgerBalances() {
+  if (usePlaceholder()) {
+    return [];
+  }
+
+  try {
+    console.log("Fetching ledger balances data...");
+    const balance = sum(ledgerEntries.amount).mapWith(Number);
+    const data = await db
+      .select({
+        reservation: rentalReservations,
+        car: cars,
+        currency: ledgerEntries.currency,
+        balance,
+      })
+      .from(ledgerEntries)
+      .innerJoin(
+        rentalReservations,
+        eq(rentalReservations.id, ledgerEntries.reservation_id)
+      )
+      .innerJoin(cars, eq(cars.id, rentalReservations.car_id))
+      .where(eq(ledgerEntries.account, LedgerAccount.CUSTOMER))
+      .groupBy(rentalReservations.id, cars.id, ledgerEntries.currency)
+      .having(sql`${balance} <> 0`)
+      .orderBy(desc(sql`abs(${balance})`));
+    console.log("Data fetch complete.");
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch ledger balances.");
+  }
+}
+
+/**
+ * Fetches the invoices and credit notes of a reservation, in the order they were issued
+ */
+export async function fetchInvoices(reservationId: string) {
+  if (usePlaceholder()) {
+    return [];
+  }
+
+  try {
+    const data = await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.reservation_id, reservationId))
+      .orderBy(asc(invoices.issued_at));
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch invoices.");
+  }
+}
+
+export async function fetchInvoiceById(id: string) {
+  if (usePlaceholder()) {
+    return undefined;
+  }
+
+  try {
+    const [data] = await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.id, id))
+      .limit(1);
+    return data;
+  } catch (error) {
+    console.error("Database Error:", error);
+    throw new Error("Failed to fetch invoice.");
+  }
+}
+
+/**
+ * Fetches the latest emails of the outbox, queued ones first and then newest first
+ */
+export async function fetchOutboxEmails(limit = 100) {
+  if (usePlaceholder()) {
+    return [];
+  }
+
+  try {
+    console.log("Fetching outbox emails data...");
+    const data = await db
+      .select()
+      .from(emailOutbox)
+      .orderBy(
+        desc(sql`${emailOutbox.status} = ${EmailStatus.PENDING}`),
+        desc(emailOutbox.created_at)
+      )
+      .limit(limit);
+    console.log("Data fetch complete.");
+    return data;
   } catch (error) {
     console.error("Database Error:", error);
+    throw new Error("Failed to fetch outbox emails.");
   }
 }
@@ -1,12 +1,45 @@
 import {
   boolean,
   integer,
+  jsonb,
   numeric,
   text,
   timestamp,
+  unique,
   uuid,
 } from "drizzle-orm/pg-core";
 
+import type {
+  CancellationPolicyTerms,
+  CancellationWindow,
+} from "@/lib/cancellation-policy";
+import type {
+  AddOnPricing,
+  BodyStyle,
+  EmailStatus,
+  EmailTemplate,
+  InvoiceType,
+  LedgerAccount,
+  LedgerEntryType,
+  LineItemType,
+  PricingRuleType,
+  PromoDiscountType,
+} from "@/lib/enums";
+import type { Locale } from "@/lib/i18n/config";
+import type {
+  HolidayClosure,
+  OpeningHours,
+  Weekday,
+} from "@/lib/opening-hours";
+
+import {
+  ChargeStatus,
+  PaymentPurpose,
+  PaymentStatus,
+  RefundStatus,
+  ReservationStatus,
+} from "@/lib/enums";
+import { DEFAULT_OPENING_HOURS, DEFAULT_TIMEZONE } from "@/lib/opening-hours";
 import { createTable } from "../table-creator";
 
 export const newsletterSubscribers = createTable("newsletter_subscribers", {
@@ -39,12 +72,64 @@ export const cars = createTable("cars", {
   reviews: integer("reviews").notNull(),
   unlimited_mileage: boolean("unlimited_mileage"),
   image_url: text("image_url").notNull(),
+  // Storage folder of an uploaded image and its resized variants, null for external image URLs
+  image_path: text("image_path"),
   retail_price_per_day: integer("retail_price_per_day").notNull(),
   retail_price_currency: text("retail_price_currency").notNull(),
   discounted_price_per_day: integer("discounted_price_per_day"),
   discounted_price_currency: text("discounted_price_currency"),
+  // Cars without an hourly price can only be rented by the day, charged in the retail currency
+  price_per_hour: integer("price_per_hour"),
+  // Shortest hourly rental, the default minimum applies when null
+  min_rental_hours: integer("min_rental_hours"),
+  // Flat prices of 7 and 30 days, cars without a monthly price can't be rented for longer than 30 days
+  price_per_week: integer("price_per_week"),
+  price_per_month: integer("price_per_month"),
+  // Shortest rental longer than 30 days, the default minimum term applies when null
+  min_rental_months: integer("min_rental_months"),
+  cancellation_policy_id: uuid("cancellation_policy_id"),
+  // Refundable deposit in the retail currency, the deposit of the body style applies when null
+  // and none is taken when 0
+  deposit_amount: integer("deposit_amount"),
+  // Retired cars are kept for the reservations that reference them but can no longer be rented
+  retired_at: timestamp("retired_at", { mode: "date" }),
 });
 
+/**
+ * NOTE: the primary image of a car is mirrored to `cars.image_url` and `cars.image_path`, and at
+ * most one image per car can be primary, which is enforced by a partial unique index in the
+ * `0011` migration.
+ */
+export const carImages = createTable("car_images", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  car_id: uuid("car_id").notNull(),
+  url: text("url").notNull(),
+  // Storage folder of an uploaded image and its resized variants, null for external image URLs
+  path: text("path"),
+  alt_text: text("alt_text").notNull(),
+  position: integer("position").default(0).notNull(),
+  is_primary: boolean("is_primary").default(false).notNull(),
+  created_at: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+});
+
+/**
+ * Descriptions and features of a car in another language than English, which `cars` holds. Empty
+ * lists fall back to the English ones.
+ */
+export const carTranslations = createTable(
+  "car_translations",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    car_id: uuid("car_id").notNull(),
+    locale: text("locale").$type<Locale>().notNull(),
+    descriptions: text("descriptions").array().default([]).notNull(),
+    features: text("features").array().default([]).notNull(),
+  },
+  (table) => ({
+    carLocale: unique().on(table.car_id, table.locale),
+  })
+);
+
 export const locations = createTable("locations", {
   id: uuid("id").defaultRandom().primaryKey(),
   name: text("name").notNull(),
@@ -53,14 +138,479 @@ export const locations = createTable("locations", {
   longitude: text("longitude").notNull(),
   featured: boolean("featured").default(false).notNull(),
   image_url: text("image_url"),
+  cancellation_policy_id: uuid("cancellation_policy_id"),
+  address: text("address"),
+  phone: text("phone"),
+  // GST state code of the branch, rentals picked up there are supplied in that state
+  state_code: text("state_code"),
+  // IANA time zone that opening hours and holiday closures are expressed in
+  timezone: text("timezone").default(DEFAULT_TIMEZONE).notNull(),
+  opening_hours: jsonb("opening_hours")
+    .$type<OpeningHours>()
+    .default(DEFAULT_OPENING_HOURS)
+    .notNull(),
+  holiday_closures: jsonb("holiday_closures")
+    .$type<HolidayClosure[]>()
+    .default([])
+    .notNull(),
 });
 
+/**
+ * NOTE: overlapping reservations of the same car are rejected by the `no_overlap` exclusion
+ * constraint, which drizzle can't express. It is defined in the `0004` custom migration and rebuilt
+ * for timestamps with a time zone in `0014`.
+ */
 export const rentalReservations = createTable("rental_reservations", {
   id: uuid("id").defaultRandom().primaryKey(),
   car_id: uuid("car_id").notNull(),
   user_id: text("user_id").notNull(), // Kinde user IDs are not UUIDs (e.g., "kp_xxx")
+  // pickup location, the car is returned to `return_location_id` which differs on one-way trips
   location_id: uuid("location_id").notNull(),
-  check_in: timestamp("check_in", { mode: "date" }).notNull(),
-  check_out: timestamp("check_out", { mode: "date" }).notNull(),
+  return_location_id: uuid("return_location_id").notNull(),
+  // pickup and return instants, shown in the time zone of the matching location
+  check_in: timestamp("check_in", {
+    mode: "date",
+    withTimezone: true,
+  }).notNull(),
+  check_out: timestamp("check_out", {
+    mode: "date",
+    withTimezone: true,
+  }).notNull(),
+  status: text("status")
+    .$type<ReservationStatus>()
+    .default(ReservationStatus.PENDING)
+    .notNull(),
+  // price agreed at booking time, amounts are in the currency's minor unit (e.g. paise)
+  currency: text("currency"),
+  subtotal_amount: integer("subtotal_amount"),
+  taxes_and_fees_amount: integer("taxes_and_fees_amount"),
+  total_amount: integer("total_amount"),
+  // cancellation terms agreed at booking time, and the amount owed back once cancelled
+  cancellation_policy: jsonb(
+    "cancellation_policy"
+  ).$type<CancellationPolicyTerms>(),
+  refundable_amount: integer("refundable_amount"),
+  // refundable deposit agreed at booking time, held on the customer's card around the rental
+  deposit_amount: integer("deposit_amount"),
+  // promo code redeemed at booking time, its code is kept as entered in case it is renamed
+  promo_code_id: uuid("promo_code_id"),
+  promo_code: text("promo_code"),
+  created_at: timestamp("created_at", { mode: "date" }).notNull(),
+  // lifecycle timestamps, set when the reservation enters the matching status
+  confirmed_at: timestamp("confirmed_at", { mode: "date" }),
+  activated_at: timestamp("activated_at", { mode: "date" }),
+  completed_at: timestamp("completed_at", { mode: "date" }),
+  cancelled_at: timestamp("cancelled_at", { mode: "date" }),
+  no_show_at: timestamp("no_show_at", { mode: "date" }),
+});
+
+/**
+ * Itemized price of a reservation as agreed at booking time, so that later changes to car prices
+ * don't affect it. Amounts are in the currency's minor unit (e.g. paise).
+ */
+export const reservationLineItems = createTable("reservation_line_items", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  reservation_id: uuid("reservation_id").notNull(),
+  type: text("type").$type<LineItemType>().notNull(),
+  label: text("label").notNull(),
+  quantity: integer("quantity").notNull(),
+  unit_amount: integer("unit_amount").notNull(),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull(),
+  position: integer("position").notNull(),
+  created_at: timestamp("created_at", { mode: "date" }).notNull(),
+});
+
+/**
+ * Cancellation terms that can be assigned to a car or, as a fallback, to a location.
+ */
+export const cancellationPolicies = createTable("cancellation_policies", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: text("name").notNull(),
+  non_refundable: boolean("non_refundable").default(false).notNull(),
+  windows: jsonb("windows").$type<CancellationWindow[]>().default([]).notNull(),
+});
+
+/**
+ * Audit trail of changes to a reservation's car, location or dates. Amounts are in the currency's
+ * minor unit (e.g. paise).
+ */
+export const reservationModifications = createTable(
+  "reservation_modifications",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    reservation_id: uuid("reservation_id").notNull(),
+    modified_by: text("modified_by").notNull(),
+    previous_car_id: uuid("previous_car_id").notNull(),
+    previous_location_id: uuid("previous_location_id").notNull(),
+    // null for modifications recorded before one-way trips were introduced
+    previous_return_location_id: uuid("previous_return_location_id"),
+    previous_check_in: timestamp("previous_check_in", {
+      mode: "date",
+      withTimezone: true,
+    }).notNull(),
+    previous_check_out: timestamp("previous_check_out", {
+      mode: "date",
+      withTimezone: true,
+    }).notNull(),
+    previous_total_amount: integer("previous_total_amount"),
+    car_id: uuid("car_id").notNull(),
+    location_id: uuid("location_id").notNull(),
+    return_location_id: uuid("return_location_id"),
+    check_in: timestamp("check_in", {
+      mode: "date",
+      withTimezone: true,
+    }).notNull(),
+    check_out: timestamp("check_out", {
+      mode: "date",
+      withTimezone: true,
+    }).notNull(),
+    total_amount: integer("total_amount").notNull(),
+    // null when the price before the change is unknown
+    price_difference_amount: integer("price_difference_amount"),
+    currency: text("currency").notNull(),
+    created_at: timestamp("created_at", { mode: "date" }).notNull(),
+  }
+);
+
+/**
+ * One-way routes between two locations and the fee charged for them, in the currency's major unit
+ * like car prices. Cars can only be returned to another location along a route listed here.
+ */
+export const oneWayFees = createTable(
+  "one_way_fees",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    pickup_location_id: uuid("pickup_location_id").notNull(),
+    return_location_id: uuid("return_location_id").notNull(),
+    amount: integer("amount").notNull(),
+    currency: text("currency").notNull(),
+  },
+  (table) => ({
+    route: unique().on(table.pickup_location_id, table.return_location_id),
+  })
+);
+
+/**
+ * Installments of a long-term reservation, each billed at the start of the period it pays for.
+ * Amounts are in the currency's minor unit (e.g. paise).
+ */
+export const billingCharges = createTable("billing_charges", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  reservation_id: uuid("reservation_id").notNull(),
+  // 1-based position of the installment in the schedule
+  sequence: integer("sequence").notNull(),
+  period_start: timestamp("period_start", {
+    mode: "date",
+    withTimezone: true,
+  }).notNull(),
+  period_end: timestamp("period_end", {
+    mode: "date",
+    withTimezone: true,
+  }).notNull(),
+  due_at: timestamp("due_at", { mode: "date", withTimezone: true }).notNull(),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull(),
+  status: text("status")
+    .$type<ChargeStatus>()
+    .default(ChargeStatus.SCHEDULED)
+    .notNull(),
+  created_at: timestamp("created_at", { mode: "date" }).notNull(),
+  billed_at: timestamp("billed_at", { mode: "date" }),
+  // set when the installment is no longer owed, e.g. once the reservation is cancelled or changed
+  voided_at: timestamp("voided_at", { mode: "date" }),
+});
+
+/**
+ * Payments collected through the payment provider, the reservation is confirmed once the payment
+ * made at booking time succeeds. Deposits are only authorized, and later released or captured in
+ * part or in full. Amounts are in the currency's minor unit (e.g. paise).
+ */
+export const payments = createTable("payments", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  reservation_id: uuid("reservation_id").notNull(),
+  purpose: text("purpose")
+    .$type<PaymentPurpose>()
+    .default(PaymentPurpose.RENTAL)
+    .notNull(),
+  // installment paid for, long-term rentals pay their first installment at booking time
+  billing_charge_id: uuid("billing_charge_id"),
+  provider: text("provider").notNull(),
+  provider_payment_id: text("provider_payment_id").notNull().unique(),
+  // page the customer pays on, until the payment has an outcome
+  checkout_url: text("checkout_url"),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull(),
+  status: text("status")
+    .$type<PaymentStatus>()
+    .default(PaymentStatus.PENDING)
+    .notNull(),
+  refunded_amount: integer("refunded_amount").default(0).notNull(),
+  // part of a deposit that was kept, e.g. for damages, the rest of it is released
+  captured_amount: integer("captured_amount"),
+  capture_reason: text("capture_reason"),
+  failure_reason: text("failure_reason"),
+  created_at: timestamp("created_at", { mode: "date" }).notNull(),
+  authorized_at: timestamp("authorized_at", { mode: "date" }),
+  succeeded_at: timestamp("succeeded_at", { mode: "date" }),
+  failed_at: timestamp("failed_at", { mode: "date" }),
+  released_at: timestamp("released_at", { mode: "date" }),
+  cancelled_at: timestamp("cancelled_at", { mode: "date" }),
+});
+
+/**
+ * Refunds of payments. A refund is recorded before the payment provider is asked to make it, and
+ * its id is the idempotency key it is made with, so that it is neither lost nor made twice when
+ * the provider fails or is asked again.
+ */
+export const refunds = createTable("refunds", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  reservation_id: uuid("reservation_id").notNull(),
+  payment_id: uuid("payment_id").notNull(),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull(),
+  status: text("status")
+    .$type<RefundStatus>()
+    .default(RefundStatus.PENDING)
+    .notNull(),
+  provider_refund_id: text("provider_refund_id"),
+  // user who refunded the payment, none when the payment provider's webhook did
+  created_by: text("created_by"),
+  created_at: timestamp("created_at", { mode: "date" }).notNull(),
+  succeeded_at: timestamp("succeeded_at", { mode: "date" }),
+});
+
+/**
+ * Double-entry ledger of the money of reservations. Entries posted together share a transaction
+ * and add up to 0, debits are positive and credits negative. Amounts are in the currency's minor
+ * unit (e.g. paise).
+ */
+export const ledgerEntries = createTable("ledger_entries", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  transaction_id: uuid("transaction_id").notNull(),
+  reservation_id: uuid("reservation_id").notNull(),
+  type: text("type").$type<LedgerEntryType>().notNull(),
+  account: text("account").$type<LedgerAccount>().notNull(),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull(),
+  description: text("description").notNull(),
+  // payment the money moved through, for payments, refunds and deposits
+  payment_id: uuid("payment_id"),
+  // user who posted the entry, null when posted by the payment provider's webhooks
+  created_by: text("created_by"),
+  created_at: timestamp("created_at", { mode: "date" }).notNull(),
+});
+
+/**
+ * Tax invoices issued for the payments of reservations, and the credit notes issued when they are
+ * refunded. Both are numbered in a sequence of their own per financial year. Amounts are in the
+ * currency's minor unit (e.g. paise).
+ */
+export const invoices = createTable(
+  "invoices",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    // e.g. "INV/2026-27/0001", see `formatInvoiceNumber`
+    number: text("number").notNull().unique(),
+    type: text("type").$type<InvoiceType>().notNull(),
+    // e.g. "2026-27", from April to March
+    financial_year: text("financial_year").notNull(),
+    sequence: integer("sequence").notNull(),
+    reservation_id: uuid("reservation_id").notNull(),
+    payment_id: uuid("payment_id").notNull(),
+    // invoice corrected by a credit note
+    invoice_id: uuid("invoice_id"),
+    // billed customer as known when the invoice was issued
+    customer_name: text("customer_name"),
+    customer_email: text("customer_email"),
+    // seller as configured when the invoice was issued, none on invoices issued before it was
+    // stored
+    seller_legal_name: text("seller_legal_name"),
+    seller_address: text("seller_address").array(),
+    seller_gstin: text("seller_gstin"),
+    seller_state: text("seller_state"),
+    seller_state_code: text("seller_state_code"),
+    seller_email: text("seller_email"),
+    description: text("description").notNull(),
+    sac_code: text("sac_code").notNull(),
+    place_of_supply: text("place_of_supply").notNull(),
+    currency: text("currency").notNull(),
+    taxable_amount: integer("taxable_amount").notNull(),
+    // GST rate in percent, split between CGST and SGST within the seller's state
+    tax_rate: numeric("tax_rate", { precision: 5, scale: 2 }).notNull(),
+    cgst_amount: integer("cgst_amount").notNull(),
+    sgst_amount: integer("sgst_amount").notNull(),
+    igst_amount: integer("igst_amount").notNull(),
+    total_amount: integer("total_amount").notNull(),
+    issued_at: timestamp("issued_at", { mode: "date" }).notNull(),
+  },
+  (table) => ({
+    series: unique().on(table.type, table.financial_year, table.sequence),
+  })
+);
+
+/**
+ * Deposits of the cars of a body style that have no deposit of their own, in the currency's major
+ * unit like car prices. They only apply to cars priced in the same currency.
+ */
+export const bodyStyleDeposits = createTable("body_style_deposits", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  body_style: text("body_style").$type<BodyStyle>().unique().notNull(),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull(),
+});
+
+/**
+ * Extras sold with a rental, e.g. child seats or GPS, priced in the currency's major unit like car
+ * prices. Add-ons can only be booked at locations that stock them.
+ */
+export const addOns = createTable("add_ons", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  // charged for every started day of the rental, or once per rental
+  pricing: text("pricing").$type<AddOnPricing>().notNull(),
+  price: integer("price").notNull(),
+  currency: text("currency").notNull(),
+  // most units a single reservation can book
+  max_quantity: integer("max_quantity").default(1).notNull(),
+  // Retired add-ons are kept for the reservations that reference them but can no longer be booked
+  retired_at: timestamp("retired_at", { mode: "date" }),
+});
+
+/**
+ * Units of an add-on owned by a location. Booked units are counted against the stock of the pickup
+ * location for the whole rental, one-way trips included.
+ */
+export const addOnStock = createTable(
+  "add_on_stock",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    add_on_id: uuid("add_on_id").notNull(),
+    location_id: uuid("location_id").notNull(),
+    quantity: integer("quantity").notNull(),
+  },
+  (table) => ({
+    addOnLocation: unique().on(table.add_on_id, table.location_id),
+  })
+);
+
+/**
+ * Add-ons booked with a reservation, their price is kept in the reservation's line items.
+ */
+export const reservationAddOns = createTable(
+  "reservation_add_ons",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    reservation_id: uuid("reservation_id").notNull(),
+    add_on_id: uuid("add_on_id").notNull(),
+    quantity: integer("quantity").notNull(),
+    created_at: timestamp("created_at", { mode: "date" }).notNull(),
+  },
+  (table) => ({
+    reservationAddOn: unique().on(table.reservation_id, table.add_on_id),
+  })
+);
+
+/**
+ * Codes that take a percentage or a fixed amount off the rental price, in the currency's major unit
+ * like car prices. Empty scopes apply to every car, location or body style.
+ */
+export const promoCodes = createTable("promo_codes", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  // stored in upper case, codes are matched regardless of case
+  code: text("code").notNull().unique(),
+  description: text("description"),
+  discount_type: text("discount_type").$type<PromoDiscountType>().notNull(),
+  // percentage off, or amount off in `currency`
+  discount_value: integer("discount_value").notNull(),
+  currency: text("currency"),
+  // bookings made outside the window can't redeem the code, open ended when null
+  valid_from: timestamp("valid_from", { mode: "date", withTimezone: true }),
+  valid_until: timestamp("valid_until", { mode: "date", withTimezone: true }),
+  // redemptions allowed in total and per customer, unlimited when null
+  max_redemptions: integer("max_redemptions"),
+  max_redemptions_per_user: integer("max_redemptions_per_user"),
+  min_rental_days: integer("min_rental_days"),
+  car_ids: uuid("car_ids").array().default([]).notNull(),
+  location_ids: uuid("location_ids").array().default([]).notNull(),
+  body_styles: text("body_styles").array().default([]).notNull(),
+  created_at: timestamp("created_at", { mode: "date" }).notNull(),
+  // Retired codes can no longer be redeemed, reservations that redeemed them keep their discount
+  retired_at: timestamp("retired_at", { mode: "date" }),
+});
+
+/**
+ * Adjusts the daily price of the nights a rule applies to by a percentage, positive for a surcharge
+ * and negative for a discount. Only the columns of the rule's type are set, dates are local dates
+ * of the pickup location as `yyyy-MM-dd`. Empty location scopes apply to every location.
+ */
+export const pricingRules = createTable("pricing_rules", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: text("name").notNull(),
+  type: text("type").$type<PricingRuleType>().notNull(),
+  adjustment_percent: integer("adjustment_percent").notNull(),
+  // date-range: first and last night
+  start_date: text("start_date"),
+  end_date: text("end_date"),
+  // weekend: nights starting on these weekdays
+  weekdays: text("weekdays").array().$type<Weekday[]>().default([]).notNull(),
+  // holiday: nights starting on these dates
+  dates: text("dates").array().default([]).notNull(),
+  // lead-time: days between booking and pickup, open ended when null
+  min_lead_days: integer("min_lead_days"),
+  max_lead_days: integer("max_lead_days"),
+  // length-of-stay: shortest rental, in days
+  min_rental_days: integer("min_rental_days"),
+  // utilization: share of the location's fleet already booked for the night
+  min_utilization_percent: integer("min_utilization_percent"),
+  location_ids: uuid("location_ids").array().default([]).notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
   created_at: timestamp("created_at", { mode: "date" }).notNull(),
 });
+
+/**
+ * Rates prices are converted with when shown in another currency, as units of the currency that
+ * one unit of the base currency buys. Reservations are always charged in the currency of the car.
+ */
+export const exchangeRates = createTable("exchange_rates", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  currency: text("currency").unique().notNull(),
+  rate: numeric("rate", { precision: 18, scale: 8 }).notNull(),
+  updated_at: timestamp("updated_at", { mode: "date", withTimezone: true })
+    .defaultNow()
+    .notNull(),
+});
+
+/**
+ * Emails waiting to be sent, and those that were. Failed sends are retried with a growing delay
+ * until they go through or too many attempts failed.
+ */
+export const emailOutbox = createTable(
+  "email_outbox",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    template: text("template").$type<EmailTemplate>().notNull(),
+    reservation_id: uuid("reservation_id"),
+    // the installment a bill is sent for, installments of a reservation are billed one by one
+    billing_charge_id: uuid("billing_charge_id"),
+    recipient: text("recipient").notNull(),
+    // rendered when the email is queued, so that it says what was true at the time
+    subject: text("subject").notNull(),
+    text_body: text("text_body").notNull(),
+    html_body: text("html_body").notNull(),
+    status: text("status").$type<EmailStatus>().notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    last_error: text("last_error"),
+    next_attempt_at: timestamp("next_attempt_at", { mode: "date" }).notNull(),
+    sent_at: timestamp("sent_at", { mode: "date" }),
+    created_at: timestamp("created_at", { mode: "date" }).notNull(),
+  },
+  (table) => ({
+    // each email is sent once per reservation, e.g. reminders queued by repeated runs, and bills
+    // once per installment
+    reservationTemplate: unique()
+      .on(table.reservation_id, table.template, table.billing_charge_id)
+      .nullsNotDistinct(),
+  })
+);
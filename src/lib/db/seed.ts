@@ -1,9 +1,19 @@
 import { db } from ".";
 import * as placeholder from "./placeholder";
 import {
+  addOns,
+  addOnStock,
+  bodyStyleDeposits,
+  cancellationPolicies,
+  carImages,
   cars,
+  carTranslations,
+  exchangeRates,
   locations,
   newsletterSubscribers,
+  oneWayFees,
+  pricingRules,
+  promoCodes,
   rentalReservations,
   testimonials,
 } from "./schema/tables";
@@ -53,6 +63,39 @@ async function seedCars() {
   }
 }
 
+async function seedCarImages() {
+  try {
+    // Without a target, so that images backfilled by the migration are skipped as well
+    const seededImages = await db
+      .insert(carImages)
+      .values(placeholder.carImages)
+      .onConflictDoNothing()
+      .returning();
+
+    console.log(`Seeded ${seededImages.length} car_images`);
+  } catch (error) {
+    console.error("Error seeding car_images:", error);
+    throw error;
+  }
+}
+
+async function seedCarTranslations() {
+  try {
+    const seededTranslations = await db
+      .insert(carTranslations)
+      .values(placeholder.carTranslations)
+      .onConflictDoNothing({
+        target: [carTranslations.car_id, carTranslations.locale],
+      })
+      .returning();
+
+    console.log(`Seeded ${seededTranslations.length} car_translations`);
+  } catch (error) {
+    console.error("Error seeding car_translations:", error);
+    throw error;
+  }
+}
+
 async function seedLocations() {
   try {
     const seededLocations = await db
@@ -68,6 +111,119 @@ async function seedLocations() {
   }
 }
 
+async function seedCancellationPolicies() {
+  try {
+    const seededPolicies = await db
+      .insert(cancellationPolicies)
+      .values(placeholder.cancellationPolicies)
+      .onConflictDoNothing({ target: cancellationPolicies.id })
+      .returning();
+
+    console.log(`Seeded ${seededPolicies.length} cancellation_policies`);
+  } catch (error) {
+    console.error("Error seeding cancellation_policies:", error);
+    throw error;
+  }
+}
+
+async function seedOneWayFees() {
+  try {
+    const seededFees = await db
+      .insert(oneWayFees)
+      .values(placeholder.oneWayFees)
+      .onConflictDoNothing()
+      .returning();
+
+    console.log(`Seeded ${seededFees.length} one_way_fees`);
+  } catch (error) {
+    console.error("Error seeding one_way_fees:", error);
+    throw error;
+  }
+}
+
+async function seedAddOns() {
+  try {
+    const seededAddOns = await db
+      .insert(addOns)
+      .values(placeholder.addOns)
+      .onConflictDoNothing({ target: addOns.id })
+      .returning();
+
+    const seededStock = await db
+      .insert(addOnStock)
+      .values(placeholder.addOnStock)
+      .onConflictDoNothing()
+      .returning();
+
+    console.log(
+      `Seeded ${seededAddOns.length} add_ons and ${seededStock.length} add_on_stock`
+    );
+  } catch (error) {
+    console.error("Error seeding add_ons:", error);
+    throw error;
+  }
+}
+
+async function seedPromoCodes() {
+  try {
+    const seededPromoCodes = await db
+      .insert(promoCodes)
+      .values(placeholder.promoCodes)
+      .onConflictDoNothing({ target: promoCodes.id })
+      .returning();
+
+    console.log(`Seeded ${seededPromoCodes.length} promo_codes`);
+  } catch (error) {
+    console.error("Error seeding promo_codes:", error);
+    throw error;
+  }
+}
+
+async function seedPricingRules() {
+  try {
+    const seededRules = await db
+      .insert(pricingRules)
+      .values(placeholder.pricingRules)
+      .onConflictDoNothing({ target: pricingRules.id })
+      .returning();
+
+    console.log(`Seeded ${seededRules.length} pricing_rules`);
+  } catch (error) {
+    console.error("Error seeding pricing_rules:", error);
+    throw error;
+  }
+}
+
+async function seedExchangeRates() {
+  try {
+    const seededRates = await db
+      .insert(exchangeRates)
+      .values(placeholder.exchangeRates)
+      .onConflictDoNothing({ target: exchangeRates.currency })
+      .returning();
+
+    console.log(`Seeded ${seededRates.length} exchange_rates`);
+  } catch (error) {
+    console.error("Error seeding exchange_rates:", error);
+    throw error;
+  }
+}
+
+async function seedBodyStyleDeposits() {
+  try {
+    const seededDeposits = await db
+      .insert(bodyStyleDeposits)
+      .values(placeholder.bodyStyleDeposits)
+      .onConflictDoNothing({ target: bodyStyleDeposits.body_style })
+      .returning();
+
+    console.log(`Seeded ${seededDeposits.length} body_style_deposits`);
+  } catch (error) {
+    console.error("Error seeding body_style_deposits:", error);
+    throw error;
+  }
+}
+
 async function seedRentalReservations() {
   try {
     const seedReservations = await db
@@ -85,8 +241,17 @@ async function seedRentalReservations() {
 
 (async () => {
   await seedTestimonials();
+  await seedCancellationPolicies();
   await seedCars();
+  await seedCarImages();
+  await seedCarTranslations();
   await seedLocations();
+  await seedOneWayFees();
+  await seedAddOns();
+  await seedPromoCodes();
+  await seedPricingRules();
+  await seedExchangeRates();
+  await seedBodyStyleDeposits();
   await seedRentalReservations();
   await seedNewsletterSubscribers();
 
@@ -0,0 +1,25 @@
+import type { BodyStyleDeposit, Car } from "./db/definitions";
+
+import { slugify } from "./utils";
+
+/**
+ * Works out the refundable deposit of a car: its own, or the one of its body style
+ * @returns The deposit in the retail currency's major unit, or `null` when there is none
+ */
+export function resolveDeposit(
+  car: Pick<Car, "body_style" | "deposit_amount" | "retail_price_currency">,
+  bodyStyleDeposits: BodyStyleDeposit[]
+) {
+  if (car.deposit_amount !== null && car.deposit_amount !== undefined) {
+    return car.deposit_amount || null;
+  }
+
+  // Body styles are stored by name on cars and by slug on deposits
+  const deposit = bodyStyleDeposits.find(
+    (deposit) =>
+      deposit.body_style === slugify(car.body_style) &&
+      deposit.currency === car.retail_price_currency
+  );
+
+  return deposit?.amount || null;
+}
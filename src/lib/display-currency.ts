@@ -0,0 +1,27 @@
+import { cookies } from "next/headers";
+
+import type { DisplayCurrency } from "./currency";
+
+import { BASE_CURRENCY, DISPLAY_CURRENCY_COOKIE } from "./currency";
+import { fetchExchangeRates } from "./db/queries";
+
+/**
+ * Returns the currency the visitor sees prices in with the current exchange rates, the base
+ * currency when they haven't picked one or its rate was removed
+ */
+export async function getDisplayCurrency(): Promise<DisplayCurrency> {
+  const [cookieStore, exchangeRates] = await Promise.all([
+    cookies(),
+    fetchExchangeRates(),
+  ]);
+
+  const rates = Object.fromEntries(
+    exchangeRates.map(({ currency, rate }) => [currency, Number(rate)])
+  );
+  const selected = cookieStore.get(DISPLAY_CURRENCY_COOKIE)?.value;
+
+  return {
+    currency: selected && selected in rates ? selected : BASE_CURRENCY,
+    rates,
+  };
+}
@@ -0,0 +1,343 @@
+import { and, asc, between, eq, inArray, lte, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+import type { OutboxEmail } from "../db/definitions";
+import type { EmailTransport } from "./transport";
+
+import { fromMinorUnits } from "../currency";
+import { db } from "../db";
+import { users } from "../db/schema/auth";
+import {
+  billingCharges,
+  cars,
+  emailOutbox,
+  locations,
+  rentalReservations,
+} from "../db/schema/tables";
+import { EmailStatus, EmailTemplate, ReservationStatus } from "../enums";
+import { env } from "../env";
+import {
+  absoluteUrl,
+  formatCurrency,
+  formatDateRange,
+  formatDateTime,
+} from "../utils";
+import { consoleEmailTransport, fileEmailTransport } from "./local";
+import { smtpEmailTransport } from "./smtp";
+import { renderReservationEmail } from "./templates";
+
+const transports: Record<typeof env.EMAIL_TRANSPORT, EmailTransport> = {
+  console: consoleEmailTransport,
+  file: fileEmailTransport,
+  smtp: smtpEmailTransport,
+};
+
+export const emailTransport = transports[env.EMAIL_TRANSPORT];
+
+/**
+ * Minutes to wait before each retry of a failed send, the email is given up on after the last one
+ */
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+
+/**
+ * How long a send may take before the email is picked up again, in case the server stopped
+ * half-way
+ */
+const SEND_LEASE_MINUTES = 10;
+
+/**
+ * Pick-up reminders go out this long before pick-up
+ */
+const PICKUP_REMINDER_HOURS = 24;
+
+const returnLocations = alias(locations, "return_locations");
+
+/**
+ * Queues an email about a reservation to its customer and tries to send it right away. Each email
+ * is sent once per reservation, or once per installment for bills. The change it reports on is
+ * already saved, so a failure is logged rather than thrown, and the send retried from the outbox.
+ * @param billingChargeId The installment billed, for {@link EmailTemplate.INSTALLMENT_BILLED}
+ */
+export async function notifyReservation(
+  reservationId: string,
+  template: EmailTemplate,
+  billingChargeId?: string
+) {
+  try {
+    const email = await queueReservationEmail(
+      reservationId,
+      template,
+      billingChargeId
+    );
+
+    if (email) {
+      await deliverEmail(email.id);
+    }
+  } catch (error) {
+    console.error(`Failed to email ${template} of ${reservationId}:`, error);
+  }
+}
+
+/**
+ * Sends the emails that are due, including retries of failed sends
+ * @returns How many emails were sent and how many failed
+ */
+export async function sendDueEmails(limit = 50) {
+  const due = await db
+    .select({ id: emailOutbox.id })
+    .from(emailOutbox)
+    .where(
+      and(
+        eq(emailOutbox.status, EmailStatus.PENDING),
+        lte(emailOutbox.next_attempt_at, new Date())
+      )
+    )
+    .orderBy(asc(emailOutbox.next_attempt_at))
+    .limit(limit);
+
+  let sent = 0;
+
+  for (const { id } of due) {
+    if (await deliverEmail(id)) {
+      sent += 1;
+    }
+  }
+
+  return { sent, failed: due.length - sent };
+}
+
+/**
+ * Queues reminders for the confirmed reservations picked up within the next day
+ * @returns How many reservations are reminded
+ */
+export async function queuePickupReminders() {
+  const now = new Date();
+  const upcoming = await db
+    .select({ id: rentalReservations.id })
+    .from(rentalReservations)
+    .where(
+      and(
+        eq(rentalReservations.status, ReservationStatus.CONFIRMED),
+        between(
+          rentalReservations.check_in,
+          now,
+          new Date(+now + PICKUP_REMINDER_HOURS * 60 * 60 * 1000)
+        )
+      )
+    );
+
+  let queued = 0;
+
+  for (const { id } of upcoming) {
+    if (await queueReservationEmail(id, EmailTemplate.PICKUP_REMINDER)) {
+      queued += 1;
+    }
+  }
+
+  return queued;
+}
+
+/**
+ * Gives up on the queued emails of a reservation that no longer apply, e.g. the pick-up reminder
+ * of a cancelled reservation
+ */
+export async function discardQueuedEmails(
+  reservationId: string,
+  templates: EmailTemplate[]
+) {
+  try {
+    await db
+      .update(emailOutbox)
+      .set({ status: EmailStatus.FAILED, last_error: "No longer relevant" })
+      .where(
+        and(
+          eq(emailOutbox.reservation_id, reservationId),
+          eq(emailOutbox.status, EmailStatus.PENDING),
+          inArray(emailOutbox.template, templates)
+        )
+      );
+  } catch (error) {
+    console.error(`Failed to discard emails of ${reservationId}:`, error);
+  }
+}
+
+/**
+ * Renders an email about a reservation into the outbox
+ * @returns The queued email, or none when the customer has no known address or was already sent it
+ */
+async function queueReservationEmail(
+  reservationId: string,
+  template: EmailTemplate,
+  billingChargeId?: string
+) {
+  const [booking] = await db
+    .select({
+      reservation: rentalReservations,
+      car: cars,
+      location: locations,
+      returnLocation: returnLocations,
+      customer: users,
+    })
+    .from(rentalReservations)
+    .innerJoin(cars, eq(cars.id, rentalReservations.car_id))
+    .innerJoin(locations, eq(locations.id, rentalReservations.location_id))
+    .innerJoin(
+      returnLocations,
+      eq(returnLocations.id, rentalReservations.return_location_id)
+    )
+    .leftJoin(users, eq(users.id, rentalReservations.user_id))
+    .where(eq(rentalReservations.id, reservationId))
+    .limit(1);
+
+  if (!booking?.customer) {
+    return null;
+  }
+
+  const [charge] =
+    billingChargeId ?
+      await db
+        .select()
+        .from(billingCharges)
+        .where(eq(billingCharges.id, billingChargeId))
+        .limit(1)
+    : [];
+
+  const { reservation, car, location, returnLocation, customer } = booking;
+  const formatAmount = (amount: number | null) =>
+    amount !== null && reservation.currency ?
+      formatCurrency(
+        fromMinorUnits(amount, reservation.currency),
+        reservation.currency
+      )
+    : null;
+
+  const content = renderReservationEmail(template, {
+    customerName: customer.name,
+    reservationId: reservation.id,
+    carName: car.name,
+    pickupLocation: location.name,
+    returnLocation: returnLocation.name,
+    pickupTime: formatDateTime(reservation.check_in, location.timezone),
+    returnTime: formatDateTime(reservation.check_out, returnLocation.timezone),
+    total: formatAmount(reservation.total_amount),
+    refund:
+      reservation.refundable_amount ?
+        formatAmount(reservation.refundable_amount)
+      : null,
+    installment:
+      charge ?
+        {
+          sequence: charge.sequence,
+          amount: formatCurrency(
+            fromMinorUnits(charge.amount, charge.currency),
+            charge.currency
+          ),
+          period: formatDateRange(
+            charge.period_start,
+            charge.period_end,
+            location.timezone
+          ),
+        }
+      : null,
+    url: absoluteUrl(`/account/reservations/${reservation.id}`),
+  });
+
+  const now = new Date();
+  const [email] = await db
+    .insert(emailOutbox)
+    .values({
+      template,
+      reservation_id: reservation.id,
+      billing_charge_id: charge?.id ?? null,
+      recipient: customer.email,
+      subject: content.subject,
+      text_body: content.text,
+      html_body: content.html,
+      status: EmailStatus.PENDING,
+      next_attempt_at: now,
+      created_at: now,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (email) {
+    console.log(`Queued ${template} email of reservation ${reservationId}`);
+  }
+
+  return email ?? null;
+}
+
+/**
+ * Sends an email of the outbox, unless it is already being sent or was sent
+ * @returns Whether the email was sent
+ */
+async function deliverEmail(id: string) {
+  const now = new Date();
+
+  // Lease the email so that the scheduler and immediate sends don't both send it
+  const [email] = await db
+    .update(emailOutbox)
+    .set({ next_attempt_at: minutesFrom(now, SEND_LEASE_MINUTES) })
+    .where(
+      and(
+        eq(emailOutbox.id, id),
+        eq(emailOutbox.status, EmailStatus.PENDING),
+        lte(emailOutbox.next_attempt_at, now)
+      )
+    )
+    .returning();
+
+  if (!email) {
+    return false;
+  }
+
+  try {
+    await emailTransport.send(toMessage(email));
+
+    await db
+      .update(emailOutbox)
+      .set({
+        status: EmailStatus.SENT,
+        attempts: sql`${emailOutbox.attempts} + 1`,
+        last_error: null,
+        sent_at: new Date(),
+      })
+      .where(eq(emailOutbox.id, id));
+
+    return true;
+  } catch (error) {
+    const attempts = email.attempts + 1;
+    const delay = RETRY_DELAYS_MINUTES[attempts - 1];
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    console.error(`Failed to send email ${id} (attempt ${attempts}):`, error);
+
+    await db
+      .update(emailOutbox)
+      .set({
+        attempts,
+        last_error: errorMessage,
+        ...(delay === undefined ?
+          { status: EmailStatus.FAILED }
+        : { next_attempt_at: minutesFrom(new Date(), delay) }),
+      })
+      .where(eq(emailOutbox.id, id));
+
+    return false;
+  }
+}
+
+function toMessage(email: OutboxEmail) {
+  return {
+    from: env.EMAIL_FROM,
+    to: email.recipient,
+    subject: email.subject,
+    text: email.text_body,
+    html: email.html_body,
+  };
+}
+
+function minutesFrom(date: Date, minutes: number) {
+  return new Date(+date + minutes * 60 * 1000);
+}
@@ -0,0 +1,40 @@
+import { mkdir, writeFile } from "fs/promises";
+import { join, resolve } from "path";
+
+import type { EmailTransport } from "./transport";
+
+import { env } from "../env";
+import { toMimeMessage } from "./transport";
+
+/**
+ * Prints emails to the server logs instead of sending them, for development
+ */
+export const consoleEmailTransport: EmailTransport = {
+  name: "console",
+
+  async send(message) {
+    console.log(
+      [`Email to ${message.to}: ${message.subject}`, "", message.text].join(
+        "\n"
+      )
+    );
+  },
+};
+
+/**
+ * Writes emails to `.eml` files that mail clients can open instead of sending them, for
+ * development
+ */
+export const fileEmailTransport: EmailTransport = {
+  name: "file",
+
+  async send(message) {
+    const directory = resolve(env.EMAIL_FILE_DIR);
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^\w@.-]/g, "_")}.eml`;
+
+    await mkdir(directory, { recursive: true });
+    await writeFile(join(directory, fileName), toMimeMessage(message));
+
+    console.log(`Email to ${message.to} written to ${fileName}`);
+  },
+};
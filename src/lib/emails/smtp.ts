@@ -0,0 +1,52 @@
+import { createTransport } from "nodemailer";
+
+import type { EmailTransport } from "./transport";
+import type { Transporter } from "nodemailer";
+
+import { env } from "../env";
+import { getEmailAddress, toMimeMessage } from "./transport";
+
+/**
+ * How long the server may take to answer a command
+ */
+const SMTP_TIMEOUT_MS = 30_000;
+
+let transporter: Transporter | undefined;
+
+/**
+ * Sends emails through an SMTP server, see the `SMTP_*` variables. Connections are upgraded with
+ * STARTTLS when the server offers it, and must be when a user is configured so that the password
+ * is never sent in the clear.
+ */
+export const smtpEmailTransport: EmailTransport = {
+  name: "smtp",
+
+  async send(message) {
+    if (!env.SMTP_HOST) {
+      throw new Error("SMTP_HOST is not configured");
+    }
+
+    transporter ??= createTransport({
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT,
+      secure: env.SMTP_SECURE,
+      requireTLS: !env.SMTP_SECURE && !!env.SMTP_USER,
+      auth:
+        env.SMTP_USER ?
+          { user: env.SMTP_USER, pass: env.SMTP_PASSWORD ?? "" }
+        : undefined,
+      connectionTimeout: SMTP_TIMEOUT_MS,
+      greetingTimeout: SMTP_TIMEOUT_MS,
+      socketTimeout: SMTP_TIMEOUT_MS,
+    });
+
+    // The message is written the same way as the `.eml` files of the file transport
+    await transporter.sendMail({
+      envelope: {
+        from: getEmailAddress(message.from),
+        to: getEmailAddress(message.to),
+      },
+      raw: toMimeMessage(message),
+    });
+  },
+};
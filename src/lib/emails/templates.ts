@@ -0,0 +1,135 @@
+import { siteConfig } from "@/config/site";
+import { EmailTemplate } from "../enums";
+
+/**
+ * What the emails about a reservation say, with amounts and times already formatted
+ */
+export type ReservationEmailData = {
+  customerName: string | null;
+  reservationId: string;
+  carName: string;
+  pickupLocation: string;
+  returnLocation: string;
+  pickupTime: string;
+  returnTime: string;
+  total: string | null;
+  /** Owed back to the customer once the reservation is cancelled */
+  refund: string | null;
+  /** The installment billed, in bills of long-term rentals */
+  installment: { sequence: number; amount: string; period: string } | null;
+  /** Page of the reservation in the account area */
+  url: string;
+};
+
+type EmailContent = {
+  subject: string;
+  paragraphs: string[];
+  action: string;
+};
+
+const TEMPLATES: Record<
+  EmailTemplate,
+  (data: ReservationEmailData) => EmailContent
+> = {
+  [EmailTemplate.BOOKING_RECEIVED]: (data) => ({
+    subject: `We received your booking of the ${data.carName}`,
+    paragraphs: [
+      "Thanks for booking with us! Your reservation is confirmed as soon as it is paid for.",
+    ],
+    action: "Pay for your reservation",
+  }),
+  [EmailTemplate.BOOKING_CONFIRMED]: (data) => ({
+    subject: `Your ${data.carName} is booked`,
+    paragraphs: [
+      "Your reservation is confirmed. Bring your driving licence and the card you paid with when you pick the car up.",
+    ],
+    action: "View your reservation",
+  }),
+  [EmailTemplate.PICKUP_REMINDER]: (data) => ({
+    subject: `Your ${data.carName} is ready for pick-up soon`,
+    paragraphs: [
+      `See you at ${data.pickupLocation} on ${data.pickupTime}. Bring your driving licence and the card you paid with.`,
+    ],
+    action: "View your reservation",
+  }),
+  [EmailTemplate.RETURN_RECEIPT]: (data) => ({
+    subject: `Thanks for driving the ${data.carName}`,
+    paragraphs: [
+      `You returned the car to ${data.returnLocation}. Your invoices can be downloaded from your account.`,
+    ],
+    action: "View your receipt",
+  }),
+  [EmailTemplate.CANCELLATION]: (data) => ({
+    subject: `Your booking of the ${data.carName} is cancelled`,
+    paragraphs: [
+      "Your reservation is cancelled and the car was released.",
+      ...(data.refund ?
+        [
+          `${data.refund} will be refunded to the card you paid with within a few days.`,
+        ]
+      : []),
+    ],
+    action: "View your reservation",
+  }),
+  [EmailTemplate.INSTALLMENT_BILLED]: (data) => ({
+    subject: `Your next payment for the ${data.carName} is due`,
+    paragraphs: [
+      ...(data.installment ?
+        [
+          `Installment ${data.installment.sequence} of your rental, ${data.installment.amount} for ${data.installment.period}, is now due.`,
+        ]
+      : []),
+      "Pay it from your account to keep the car for the next month.",
+    ],
+    action: "Pay your installment",
+  }),
+};
+
+/**
+ * Writes an email about a reservation, as plain text and HTML
+ */
+export function renderReservationEmail(
+  template: EmailTemplate,
+  data: ReservationEmailData
+) {
+  const { subject, paragraphs, action } = TEMPLATES[template](data);
+  const greeting = data.customerName ? `Hi ${data.customerName},` : "Hi,";
+  const details = [
+    ["Car", data.carName],
+    ["Pick-up", `${data.pickupTime}, ${data.pickupLocation}`],
+    ["Return", `${data.returnTime}, ${data.returnLocation}`],
+    ...(data.total ? [["Total", data.total]] : []),
+    ["Reference", data.reservationId],
+  ];
+
+  const text = [
+    greeting,
+    ...paragraphs,
+    details.map(([label, value]) => `${label}: ${value}`).join("\n"),
+    `${action}: ${data.url}`,
+    siteConfig.name,
+  ].join("\n\n");
+
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    ...paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`),
+    "<table>",
+    ...details.map(
+      ([label, value]) =>
+        `<tr><td style="color:#6b7280;padding-right:16px">${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`
+    ),
+    "</table>",
+    `<p><a href="${escapeHtml(data.url)}">${escapeHtml(action)}</a></p>`,
+    `<p style="color:#6b7280">${escapeHtml(siteConfig.name)}</p>`,
+  ].join("\n");
+
+  return { subject, text, html };
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,78 @@
+import { randomUUID } from "crypto";
+
+/**
+ * An email ready to be sent, with a plain text alternative for clients that don't show HTML
+ */
+export type EmailMessage = {
+  /** e.g. "CG Rental <no-reply@example.com>" */
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+/**
+ * What the app needs from a way of sending emails
+ */
+export type EmailTransport = {
+  name: string;
+  /**
+   * Sends an email
+   * @throws When it can't be sent, it is retried later
+   */
+  send: (message: EmailMessage) => Promise<void>;
+};
+
+/**
+ * Reads the address out of "Name <address>"
+ */
+export function getEmailAddress(mailbox: string) {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+/**
+ * Writes an email in the Internet Message Format, as sent over SMTP and stored in `.eml` files
+ */
+export function toMimeMessage(message: EmailMessage) {
+  const boundary = `=_${randomUUID()}`;
+  const domain = getEmailAddress(message.from).split("@")[1] ?? "localhost";
+
+  return [
+    `From: ${encodeHeader(message.from)}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    ...encodePart("text/plain", message.text),
+    `--${boundary}`,
+    ...encodePart("text/html", message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+/**
+ * Headers are ASCII, anything else is sent as an encoded word
+ */
+function encodeHeader(value: string) {
+  // eslint-disable-next-line no-control-regex
+  return /^[\x00-\x7f]*$/.test(value) ? value : (
+      `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`
+    );
+}
+
+function encodePart(contentType: string, body: string) {
+  const encoded = Buffer.from(body).toString("base64");
+
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    ...(encoded.match(/.{1,76}/g) ?? []),
+  ];
+}
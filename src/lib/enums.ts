@@ -1,6 +1,7 @@
 export enum SearchParams {
   CAR_SLUG = "car-slug",
   LOCATION = "location",
+  RETURN_LOCATION = "return-location",
   CHECKIN = "checkin",
   CHECKOUT = "checkout",
   MIN_PRICE = "min-price",
@@ -9,6 +10,14 @@ export enum SearchParams {
   ENGINE_TYPE = "engine-type",
   MIN_SEATS = "min-seats",
   TRANSMISSION = "transmission",
+  RENTAL_MODE = "mode",
+  ADD_ONS = "add-ons",
+  PROMO_CODE = "promo",
+}
+
+export enum RentalMode {
+  DAILY = "daily",
+  HOURLY = "hourly",
 }
 
 export enum BodyStyle {
@@ -30,3 +39,116 @@ export enum Transmission {
   AUTOMATIC = "automatic",
   MANUAL = "manual",
 }
+
+export enum ReservationStatus {
+  PENDING = "pending",
+  CONFIRMED = "confirmed",
+  ACTIVE = "active",
+  COMPLETED = "completed",
+  CANCELLED = "cancelled",
+  NO_SHOW = "no-show",
+}
+
+export enum LineItemType {
+  BASE = "base",
+  DISCOUNT = "discount",
+  EXTRA_TIME = "extra-time",
+  HOURLY = "hourly",
+  WEEKLY = "weekly",
+  MONTHLY = "monthly",
+  TAX = "tax",
+  FEE = "fee",
+  ADD_ON = "add-on",
+  PROMO = "promo",
+  ADJUSTMENT = "adjustment",
+}
+
+export enum AddOnPricing {
+  PER_DAY = "per-day",
+  PER_RENTAL = "per-rental",
+}
+
+export enum PromoDiscountType {
+  PERCENTAGE = "percentage",
+  FIXED = "fixed",
+}
+
+export enum PricingRuleType {
+  DATE_RANGE = "date-range",
+  WEEKEND = "weekend",
+  HOLIDAY = "holiday",
+  LEAD_TIME = "lead-time",
+  LENGTH_OF_STAY = "length-of-stay",
+  UTILIZATION = "utilization",
+}
+
+export enum ChargeStatus {
+  SCHEDULED = "scheduled",
+  BILLED = "billed",
+  VOID = "void",
+}
+
+export enum PaymentStatus {
+  PENDING = "pending",
+  AUTHORIZED = "authorized",
+  SUCCEEDED = "succeeded",
+  FAILED = "failed",
+  RELEASED = "released",
+  /** Voided before it was paid, e.g. once a modification changed the amount due */
+  CANCELLED = "cancelled",
+}
+
+export enum RefundStatus {
+  /** Recorded, and not confirmed by the payment provider yet */
+  PENDING = "pending",
+  SUCCEEDED = "succeeded",
+}
+
+export enum PaymentPurpose {
+  RENTAL = "rental",
+  DEPOSIT = "deposit",
+}
+
+export enum LedgerAccount {
+  /** What the customer owes, negative when money is owed back to them */
+  CUSTOMER = "customer",
+  REVENUE = "revenue",
+  /** Money collected through the payment provider */
+  CASH = "cash",
+  /** Deposits held on customers' cards, and what they are held against */
+  DEPOSIT_HOLDS = "deposit-holds",
+  CUSTOMER_DEPOSITS = "customer-deposits",
+}
+
+export enum LedgerEntryType {
+  CHARGE = "charge",
+  PAYMENT = "payment",
+  REFUND = "refund",
+  DEPOSIT = "deposit",
+  ADJUSTMENT = "adjustment",
+}
+
+export enum InvoiceType {
+  INVOICE = "invoice",
+  /** Corrects an invoice, e.g. when part of what it bills is refunded */
+  CREDIT_NOTE = "credit-note",
+}
+
+/**
+ * Transactional emails sent to customers about their reservations
+ */
+export enum EmailTemplate {
+  BOOKING_RECEIVED = "booking-received",
+  BOOKING_CONFIRMED = "booking-confirmed",
+  PICKUP_REMINDER = "pickup-reminder",
+  RETURN_RECEIPT = "return-receipt",
+  CANCELLATION = "cancellation",
+  INSTALLMENT_BILLED = "installment-billed",
+}
+
+export enum EmailStatus {
+  PENDING = "pending",
+  SENT = "sent",
+  /** Gave up after too many failed attempts */
+  FAILED = "failed",
+}
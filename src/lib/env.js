@@ -86,14 +86,63 @@ export const env = createEnv({
       .min(1, { message: "Database URL is invalid or missing" }),
 
     /* -----------------------------------------------------------------------------------------------
-     * Company WhatsApp Number (for reservations)
+     * Payments
      * -----------------------------------------------------------------------------------------------*/
 
+    // Manual payments are arranged over WhatsApp and marked received by the staff, until a gateway
+    // is integrated. The mock provider collects no money and is refused in production.
+    PAYMENT_PROVIDER: z.enum(["manual", "mock"]).default("manual"),
+    // Signs the webhooks of a gateway, the mock provider falls back to a development secret
+    PAYMENT_WEBHOOK_SECRET: z
+      .string()
+      .min(32, {
+        message: "Payment webhook secret must be at least 32 characters",
+      })
+      .optional(),
+
     COMPANY_WHATSAPP_NUMBER: z
       .string()
       .min(1, { message: "Company WhatsApp number is required" })
       .default("+911234567890"),
 
+    /* -----------------------------------------------------------------------------------------------
+     * Invoicing (invoices are only issued once the seller is configured)
+     * -----------------------------------------------------------------------------------------------*/
+
+    COMPANY_LEGAL_NAME: z.string().optional(),
+    // Printed one line per comma, e.g. "Jail Road, Raipur 492009"
+    COMPANY_ADDRESS: z.string().optional(),
+    COMPANY_GSTIN: z
+      .string()
+      .regex(/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/, {
+        message: "GSTIN is invalid",
+      })
+      .optional(),
+    COMPANY_EMAIL: z.string().email().optional(),
+
+    /* -----------------------------------------------------------------------------------------------
+     * Emails
+     * -----------------------------------------------------------------------------------------------*/
+
+    EMAIL_TRANSPORT: z.enum(["console", "file", "smtp"]).default("console"),
+    EMAIL_FROM: z
+      .string()
+      .default("CG Rental <no-reply@urban-wheels.rajputhemant.me>"),
+    // Directory the file transport writes `.eml` files to
+    EMAIL_FILE_DIR: z.string().default("storage/emails"),
+    SMTP_HOST: z.string().optional(),
+    SMTP_PORT: z.coerce.number().int().default(587),
+    // Connect over TLS from the start (usually port 465) rather than upgrading with STARTTLS
+    SMTP_SECURE: z
+      .enum(["true", "false"])
+      .default("false")
+      .transform((v) => v === "true"),
+    // Only sent over TLS, servers that don't offer STARTTLS are refused
+    SMTP_USER: z.string().optional(),
+    SMTP_PASSWORD: z.string().optional(),
+    // Bearer token of the scheduler calling `/api/cron/*`
+    CRON_SECRET: z.string().optional(),
+
     /* -----------------------------------------------------------------------------------------------
      * Supabase Storage
      * -----------------------------------------------------------------------------------------------*/
@@ -101,6 +150,11 @@ export const env = createEnv({
     SUPABASE_URL: z.string().url().optional(),
     SUPABASE_SERVICE_KEY: z.string().optional(),
 
+    /* -----------------------------------------------------------------------------------------------
+     * Local Storage (used when Supabase is not configured)
+     * -----------------------------------------------------------------------------------------------*/
+
+    LOCAL_STORAGE_DIR: z.string().default("storage"),
   },
 
   /**
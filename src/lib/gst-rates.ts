@@ -0,0 +1,32 @@
+/**
+ * Services Accounting Code of renting motor vehicles without an operator
+ */
+export const RENTAL_SAC_CODE = "997311";
+
+/**
+ * Rates of the GST schedule, in percent
+ */
+export type GstSlab = 0 | 5 | 12 | 18 | 28;
+
+/**
+ * GST rate of each service invoiced, by its Services Accounting Code. Prices are quoted and
+ * invoices issued at these rates, update them when a new rate is notified.
+ */
+export const GST_RATES: Record<string, GstSlab> = {
+  [RENTAL_SAC_CODE]: 18,
+};
+
+/**
+ * Reads the GST rate of a service
+ * @param sacCode The Services Accounting Code of the service
+ * @returns The rate in percent
+ */
+export function getGstRate(sacCode: string) {
+  const rate = GST_RATES[sacCode];
+
+  if (rate === undefined) {
+    throw new Error(`No GST rate is set for SAC ${sacCode}`);
+  }
+
+  return rate;
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import * as React from "react";
+
+import type { Locale } from "./config";
+
+import { DEFAULT_LOCALE } from "./config";
+import { createTranslator } from "./translator";
+
+const LocaleContext = React.createContext<Locale>(DEFAULT_LOCALE);
+
+export function LocaleProvider({
+  locale,
+  children,
+}: React.PropsWithChildren<{ locale: Locale }>) {
+  return (
+    <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>
+  );
+}
+
+/**
+ * Returns the locale of the page and a function translating messages in it
+ */
+export function useTranslations() {
+  const locale = React.useContext(LocaleContext);
+
+  return React.useMemo(
+    () => ({ locale, t: createTranslator(locale) }),
+    [locale]
+  );
+}
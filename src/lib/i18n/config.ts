@@ -0,0 +1,61 @@
+/**
+ * Languages the site is available in, English is served without a path prefix and Hindi under
+ * `/hi`
+ */
+export const LOCALES = ["en", "hi"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+/**
+ * Tags dates and numbers are formatted with, following Indian conventions in every language (e.g.
+ * ₹1,00,000)
+ */
+export const INTL_LOCALES: Record<Locale, string> = {
+  en: "en-IN",
+  hi: "hi-IN",
+};
+
+/**
+ * Names of the languages, each in its own language
+ */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  hi: "हिन्दी",
+};
+
+/**
+ * Cookie remembering the language of the last localized page, so that links without a prefix keep
+ * it
+ */
+export const LOCALE_COOKIE = "locale";
+
+/**
+ * Request header the proxy passes the locale of the request to the app in
+ */
+export const LOCALE_HEADER = "x-locale";
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+/**
+ * Splits the locale prefix off a pathname
+ * @returns The locale of the prefix, if any, and the pathname without it, e.g. `/cars` for
+ * `/hi/cars`
+ */
+export function splitLocalePrefix(pathname: string) {
+  const [, segment, ...rest] = pathname.split("/");
+
+  return isLocale(segment) ?
+      { locale: segment, pathname: `/${rest.join("/")}` }
+    : { locale: null, pathname };
+}
+
+/**
+ * Prefixes a pathname with a locale, e.g. `/hi/cars`
+ */
+export function localizePathname(pathname: string, locale: Locale) {
+  return `/${locale}${pathname === "/" ? "" : pathname}`;
+}
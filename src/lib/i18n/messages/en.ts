@@ -0,0 +1,517 @@
+export const en = {
+  localeSelect: {
+    label: "Language",
+  },
+  units: {
+    hour: { one: "{count} hour", other: "{count} hours" },
+    day: { one: "{count} day", other: "{count} days" },
+    week: { one: "{count} week", other: "{count} weeks" },
+    month: { one: "{count} month", other: "{count} months" },
+    and: "{first} and {second}",
+  },
+  openingHours: {
+    weekdays: {
+      sunday: "Sunday",
+      monday: "Monday",
+      tuesday: "Tuesday",
+      wednesday: "Wednesday",
+      thursday: "Thursday",
+      friday: "Friday",
+      saturday: "Saturday",
+    },
+    closed: "Closed",
+    closedOnHoliday: "{location} is closed on {date} ({holiday})",
+    closedOnWeekday: "{location} is closed on {weekday}s",
+    outsideHours: "{location} is open from {opens} to {closes} on {weekday}s",
+  },
+  rentalDuration: {
+    maxDays: "Maximum {days} days allowed for booking",
+    minMonths: {
+      one: "Rentals longer than {days} days must last at least {count} month",
+      other:
+        "Rentals longer than {days} days must last at least {count} months",
+    },
+  },
+  bodyStyles: {
+    hatchback: "Hatchback",
+    minivan: "Minivan",
+    "pickup-truck": "Pickup Truck",
+    "sports-car": "Sports Car",
+    suv: "SUV",
+    sedan: "Sedan",
+  },
+  engineTypes: {
+    gas: "Gas",
+    hybrid: "Hybrid",
+    electric: "Electric",
+  },
+  transmissions: {
+    automatic: "Automatic",
+    manual: "Manual",
+  },
+  home: {
+    hero: {
+      title: "Find your car",
+      noHiddenFees: "No hidden fees.",
+      transparentPricing: "Transparent pricing.",
+      flexibleCancellations: "Flexible cancellations.",
+    },
+    bodyStyles: {
+      title: "Popular Rental Car Choices",
+      description: "Choose from a wide variety of vehicles",
+    },
+    destinations: {
+      title: "Renting Trends: Must-Visit Places",
+      description: "Explore our most popular destinations",
+      carsFrom: "Cars from {price}+",
+    },
+    features: {
+      title: "Discover Why We Stand Out",
+      booking: {
+        title: "Hassle-Free Booking",
+        description:
+          "Effortless booking process. Your perfect car, just a click away. Enjoy seamless reservations and unlock great deals instantly.",
+      },
+      security: {
+        title: "Secure Rentals",
+        description:
+          "Your safety assured. Rigorous checks, transparent policies, and comprehensive insurance. Travel worry-free with well-maintained vehicles and reliable, secure rental services.",
+      },
+      navigation: {
+        title: "Easy Navigation",
+        description:
+          "Explore with confidence. User-friendly navigation tools to find your way, making your travels smooth and enjoyable, wherever your destination may be.",
+      },
+    },
+    testimonials: {
+      title: "Driven by Feedback",
+    },
+    explore: {
+      title: "Your Journey Begins Here.",
+      subtitle: "Dive into Endless Possibilities!",
+      button: "Explore Cars",
+    },
+    openSource: {
+      title: "Proudly Open Source",
+      description: "{name} is open source and powered by open source software.",
+      availableOn: "The code is available on",
+      stars: "{stars} stars on GitHub",
+    },
+  },
+  filters: {
+    title: "Filters",
+    clearAll: "Clear all",
+    showCars: "Show cars",
+    priceRange: "Price range",
+    minimum: "Minimum",
+    maximum: "Maximum",
+    bodyStyle: "Body Style",
+    engineType: "Engine type",
+    seatingCapacity: "Seating capacity",
+    anySeats: "Any",
+    transmission: "Transmission",
+  },
+  reservationForm: {
+    pickUp: "Pick-up",
+    pickUpAndDropOff: "Pick-up / Drop-off",
+    dropOff: "Drop-off",
+    sameAsPickUp: "Same as pick-up",
+    selectLocation: "Select location",
+    searchLocation: "Search location...",
+    noPlaceFound: "No place found.",
+    checkIn: "Check in",
+    checkOut: "Check out",
+    pickDate: "Pick a date",
+    pickUpTime: "Pick-up time",
+    returnTime: "Return time",
+    addOns: "Add-ons",
+    processing: "Processing...",
+    reserve: "Reserve and pay",
+    payOnNextStep: "You'll pay on the next step",
+    pendingDays: "{price} x — days",
+    taxesAndFees: "Taxes and fees",
+    total: "Total (taxes included)",
+    errors: {
+      locationRequired: "Location is required",
+      checkInRequired: "Check in is required",
+      checkOutRequired: "Check out is required",
+      pickUpTimeRequired: "Pick-up time is required",
+      returnTimeRequired: "Return time is required",
+      checkOutBeforeCheckIn: "Check out can't be before check in",
+      checkOutNotAfterCheckIn: "Check out must be after check in",
+      maxDays: "Maximum {days} days allowed for booking",
+      incompleteCar: "Car information is incomplete",
+      invalidLocation: "Please select a valid location",
+      paymentFailed: "Failed to start the payment",
+    },
+    created: "Reservation created!",
+    redirectingToPayment: "Redirecting to payment...",
+    openingWhatsApp: "Opening WhatsApp to confirm...",
+  },
+  whatsapp: {
+    title: "New Car Reservation Request",
+    customer: "Customer Details:",
+    name: "Name: {value}",
+    email: "Email: {value}",
+    notAvailable: "N/A",
+    reservation: "Reservation Details:",
+    reference: "Reference: {value}",
+    car: "Car: {value}",
+    location: "Location: {value}",
+    pickup: "Pickup: {value}",
+    return: "Return: {value}",
+    checkIn: "Check-in: {value}",
+    checkOut: "Check-out: {value}",
+    duration: "Duration: {value}",
+    addOns: "Add-ons: {value}",
+    pricing: "Pricing:",
+    hourlyRate: "Rate: {price}/hour",
+    monthlyRate: "Rate: {price}/month",
+    dailyRate: "Rate: {price}/day",
+    subtotal: "Subtotal: {value}",
+    promoCode: "Promo code: {value}",
+    taxesAndFees: "Taxes & Fees: {value}",
+    total: "Total: {value}",
+    installments: {
+      one: "Billed in {count} monthly installment",
+      other: "Billed in {count} monthly installments",
+    },
+    confirm: "Please confirm this reservation.",
+    payment: "I'd like to pay {amount} for reservation {reference}.",
+  },
+  addOnPricing: {
+    "per-day": "per day",
+    "per-rental": "per rental",
+  },
+  reservationStatuses: {
+    pending: "Pending confirmation",
+    confirmed: "Confirmed",
+    active: "In progress",
+    completed: "Completed",
+    cancelled: "Cancelled",
+    "no-show": "No-show",
+  },
+  errors: {
+    generic: "Something went wrong. Please try again.",
+    unknown: "Unknown error",
+    signInToReserve: "You must be logged in to make a reservation",
+    signInToUsePromoCode: "You must be logged in to use a promo code",
+    signInToModify: "You must be logged in to modify a reservation",
+    signInToUpdate: "You must be logged in to update a reservation",
+    signInToPay: "You must be logged in to pay for a reservation",
+    signInToHoldDeposit: "You must be logged in to hold a deposit",
+    carNotFound: "Car not found",
+    locationNotFound: "Location not found",
+    reservationNotFound: "Reservation not found",
+    paymentNotFound: "Payment not found",
+    enterPromoCode: "Please enter a promo code",
+    carUnavailable:
+      "This car is no longer available for the selected dates. Please choose different dates or another car.",
+    carNotAtPickUp:
+      "This car won't be at the selected pickup location on these dates. Please choose another car or location.",
+    carNotReturnable:
+      "This car is booked from another location right after these dates and can't be returned to the selected location.",
+    addOnUnavailable:
+      "{addOn} is not available at the pickup location for these dates.",
+    addOnLow:
+      "Only {count} x {addOn} left at the pickup location for these dates.",
+    differentCurrency: "The new car is priced in a different currency",
+    notAllowedToUpdate: "You are not allowed to update this reservation",
+    notAllowedToModify: "You are not allowed to modify this reservation",
+    invalidTransition: "A reservation that is {from} can't be marked {to}",
+    notModifiable: "A reservation that is {status} can't be modified",
+    modifiedAfterCheckIn: "Reservations can't be modified after check in",
+    noLongerModifiable: "The reservation can no longer be modified",
+    confirmBeforePaid: "The reservation can't be confirmed before it is paid",
+    depositBeforePickUp: "The deposit must be held before the car is picked up",
+    updatedConcurrently:
+      "The reservation was updated by someone else. Please try again.",
+    notPaidInTime: "This reservation wasn't paid for in time",
+    nothingLeftToPay: "This reservation has nothing left to pay",
+    noDepositToHold: "This reservation has no deposit to hold",
+    depositAlreadyHeld: "The deposit is already held",
+    paymentNotStarted:
+      "Your reservation was saved but the payment couldn't be started. Please pay for it from your account.",
+    reservationFailed:
+      "Failed to create reservation: {error}. Please try again.",
+    modificationFailed:
+      "Failed to modify reservation: {error}. Please try again.",
+    updateFailed: "Failed to update reservation: {error}. Please try again.",
+    paymentFailed: "Failed to start payment: {error}. Please try again.",
+    paymentCompletionFailed:
+      "Failed to complete payment: {error}. Please try again.",
+    depositHoldFailed: "Failed to hold deposit: {error}. Please try again.",
+  },
+  navbar: {
+    currency: "Currency",
+    register: "Register",
+    login: "Login",
+    myAccount: "My Account",
+    backOffice: "Back office",
+    settings: "Settings",
+    logout: "Logout",
+  },
+  footer: {
+    sections: {
+      destinations: "Destinations",
+      resources: "Resources",
+      policies: "Policies",
+      support: "Support",
+    },
+    links: {
+      beachEscapes: "Beach Escapes",
+      historicalTrails: "Historical Trails",
+      foodieJourneys: "Foodie Journeys",
+      urbanExplorations: "Urban Explorations",
+      wildlifeSafaris: "Wildlife Safaris",
+      photographyTours: "Photography Tours",
+      blog: "Blog",
+      carRentalTips: "Car Rental Tips",
+      travelInsights: "Travel Insights",
+      safetyGuides: "Safety Guides",
+      carModelsGuide: "Car Models Guide",
+      privacy: "Privacy",
+      termsOfUse: "Terms of use",
+      cookiePreferences: "Cookie Preferences",
+      contactUs: "Contact us",
+      faqs: "FAQs",
+    },
+    newsletter: {
+      title: "Subscribe to our newsletter",
+      description:
+        "Join Our Community! Get exclusive travel offers and insider tips.",
+      subscribe: "Subscribe",
+      subscribing: "Subscribing...",
+      subscribed: "Thanks for subscribing!",
+    },
+    theme: {
+      light: "Toggle Light Mode",
+      system: "Toggle System Mode",
+      dark: "Toggle Dark Mode",
+    },
+  },
+  searchForm: {
+    pickUpAndDropOff: "Pick-up / Drop-off",
+    selectLocation: "Select location",
+    searchLocation: "Search location...",
+    noPlaceFound: "No place found.",
+    checkIn: "Check in",
+    checkOut: "Check out",
+    return: "Return",
+    pickDate: "Pick a date",
+    pickDateShort: "Pick date",
+    pickUpTime: "Pick-up time",
+    returnTime: "Return time",
+    searchCars: "Search Cars",
+    byTheDay: "By the day",
+    byTheHour: "By the hour",
+    errors: {
+      locationRequired: "Location is required",
+      checkInRequired: "Check in is required",
+      checkOutRequired: "Check out is required",
+      checkOutNotAfterCheckIn: "Check out must be after check in",
+      maxDays: "Maximum {days} days allowed for booking",
+      returnNotAfterPickUp: "Return time must be after pick-up time",
+    },
+  },
+  cars: {
+    count: { one: "{count} car", other: "{count} cars" },
+    search: {
+      title: "Search for cars",
+      description: "Please select a location and dates to see available cars.",
+      link: "Go to homepage to search",
+    },
+    noMatches: {
+      title: "No exact matches",
+      description: "Try changing or removing some of your filters.",
+    },
+    card: {
+      unlimitedMileage: "Unlimited mileage",
+      seats: { one: "{count} Seat", other: "{count} Seats" },
+      perHour: "hour",
+      perDay: "day",
+      viewDetails: "View details",
+    },
+  },
+  carPage: {
+    perDay: "/day",
+    reserve: "Reserve",
+    seats: { one: "{count} seat", other: "{count} seats" },
+    reviews: { one: "{count} review", other: "{count} reviews" },
+    hourlyRate:
+      "or {price} per hour for trips shorter than a day, {hours} hours minimum",
+    weeklyRate: "{price} per week for rentals of 7 days or more",
+    monthlyRate:
+      "{price} per month for rentals of up to {months} months, billed monthly, with a {minMonths} month minimum beyond 30 days",
+    perks: {
+      deals: {
+        title: "Exclusive Deals",
+        description:
+          "Unlock special discounts and exclusive offers tailored just for you.",
+      },
+      localTips: {
+        title: "Local Tips",
+        description:
+          "Receive recommendations for local attractions, restaurants, and scenic routes.",
+      },
+      roadsideAssistance: {
+        title: "24/7 Roadside Assistance",
+        description:
+          "Travel with confidence. Our round-the-clock assistance ensures you're supported anytime, anywhere.",
+      },
+    },
+    features: "Features",
+    pickupAndReturn: "Pickup and return",
+  },
+  reservationSummary: {
+    dates: "Dates",
+    place: "Place",
+    pickUp: "Pick-up",
+    dropOff: "Drop-off",
+    addOns: "Add-ons",
+    cancellationPolicy: "Cancellation policy ({name})",
+    deposit: "Deposit",
+    priceDetails: "Price Details",
+    total: "Total ({currency})",
+  },
+  checkout: {
+    title: "Confirm and pay",
+    yourReservation: "Your reservation",
+    promoCode: {
+      title: "Promo code",
+      placeholder: "Enter a promo code",
+      apply: "Apply",
+      applied: "applied",
+      remove: "Remove",
+    },
+    deposit:
+      "A refundable deposit of {amount} is held on your card before pick-up, and released once the car is returned.",
+    reviews: { one: "({count} review)", other: "({count} reviews)" },
+    convertedTotal: "About {amount}. You will be charged in {currency}.",
+  },
+  addOnPicker: {
+    notAvailable: "Not available for these dates",
+    add: "Add {name}",
+    remove: "Remove {name}",
+  },
+  nightlyBreakdown: {
+    title: "Nightly breakdown",
+  },
+  cancellationPolicy: {
+    nonRefundable: "This rate is non-refundable.",
+    fullRefund: "Full refund",
+    partialRefund: "{percent}% refund",
+    refundHoursBefore:
+      "{refund} when cancelled at least {hours} hours before check in.",
+    refundBeforeCheckIn: "{refund} when cancelled before check in.",
+    noLaterRefund: "No refund for later cancellations.",
+  },
+  ledgerStatement: {
+    date: "Date",
+    description: "Description",
+    amount: "Amount",
+    balance: "Balance",
+    balanceDue: "Balance due: {amount}",
+    toBeRefunded: "To be refunded: {amount}",
+    nothingDue: "Nothing is due.",
+  },
+  account: {
+    title: "My reservations",
+    sections: {
+      active: "Active",
+      upcoming: "Upcoming",
+      past: "Past",
+    },
+    empty: {
+      title: "No reservations yet",
+      description: "Once you reserve a car, your trips will show up here.",
+      button: "Explore our cars",
+    },
+    reservation: {
+      metaTitle: "Reservation details",
+      title: "Your reservation",
+      back: "Back to my reservations",
+      reference: "Reference: {id}",
+      history: "History",
+      timeline: {
+        reserved: "Reserved",
+        confirmed: "Confirmed",
+        pickedUp: "Picked up",
+        returned: "Returned",
+        cancelled: "Cancelled",
+        noShow: "Marked as no-show",
+        changedFrom: "Changed from {dates}",
+      },
+      billing: {
+        title: "Billing schedule",
+        description:
+          "This rental is billed monthly, at the start of each period.",
+        billed: "(billed)",
+      },
+      payment: {
+        title: "Payment",
+        holdNotice:
+          "Your reservation is confirmed once it is paid for, and cancelled if it isn't paid for within {minutes} minutes of booking.",
+        leftToPay: "{amount} is left to pay.",
+        statuses: {
+          pending: "not completed",
+          authorized: "held",
+          succeeded: "paid",
+          failed: "failed",
+          released: "released",
+          cancelled: "cancelled",
+        },
+      },
+      statement: "Statement",
+      invoices: {
+        title: "Invoices",
+        invoice: "Invoice {number}",
+        creditNote: "Credit note {number}",
+      },
+      deposit: {
+        held: "{amount} is held on your card, and released once the car is returned.",
+        released: "{amount} was held on your card and released.",
+        kept: "{kept} of {amount} was kept ({reason}), the rest was released.",
+        pending:
+          "A refundable deposit of {amount} is held on your card before pick-up.",
+      },
+      refund: {
+        title: "Refund",
+        description: "{amount} will be refunded to you.",
+      },
+      noPriceBreakdown:
+        "The price breakdown isn't available for this reservation.",
+      modify: "Modify reservation",
+      payNow: "Pay now",
+      holdDeposit: "Hold deposit",
+      cancel: {
+        button: "Cancel reservation",
+        title: "Cancel this reservation?",
+        refund: "You will be refunded {amount} under your cancellation policy.",
+        notRefundable:
+          "This reservation is no longer refundable under your cancellation policy.",
+        warning:
+          "The car will be released for other customers. This can't be undone.",
+        keep: "Keep reservation",
+        cancelled: "Reservation cancelled",
+      },
+    },
+    modify: {
+      title: "Modify reservation",
+      car: "Car",
+      selectCar: "Select car",
+      searchCar: "Search car...",
+      noCarFound: "No car found.",
+      selectDropOff: "Select drop-off location",
+      carRequired: "Car is required",
+      confirm: "Confirm changes",
+      currentTotal: "Current total",
+      newTotal: "New total (taxes included)",
+      youSave: "You save",
+      priceDifference: "Price difference",
+      modified: "Reservation modified",
+    },
+  },
+};
+
+export type Messages = typeof en;
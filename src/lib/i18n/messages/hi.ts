@@ -0,0 +1,511 @@
+import type { Messages } from "./en";
+
+export const hi: Messages = {
+  localeSelect: {
+    label: "भाषा",
+  },
+  units: {
+    hour: { one: "{count} घंटा", other: "{count} घंटे" },
+    day: { one: "{count} दिन", other: "{count} दिन" },
+    week: { one: "{count} सप्ताह", other: "{count} सप्ताह" },
+    month: { one: "{count} महीना", other: "{count} महीने" },
+    and: "{first} और {second}",
+  },
+  openingHours: {
+    weekdays: {
+      sunday: "रविवार",
+      monday: "सोमवार",
+      tuesday: "मंगलवार",
+      wednesday: "बुधवार",
+      thursday: "गुरुवार",
+      friday: "शुक्रवार",
+      saturday: "शनिवार",
+    },
+    closed: "बंद",
+    closedOnHoliday: "{location} {date} ({holiday}) को बंद है",
+    closedOnWeekday: "{location} हर {weekday} को बंद रहता है",
+    outsideHours: "{location} हर {weekday} {opens} से {closes} तक खुला रहता है",
+  },
+  rentalDuration: {
+    maxDays: "अधिकतम {days} दिन की बुकिंग हो सकती है",
+    minMonths: {
+      one: "{days} दिन से लंबा किराया कम से कम {count} महीने का होना चाहिए",
+      other: "{days} दिन से लंबा किराया कम से कम {count} महीने का होना चाहिए",
+    },
+  },
+  bodyStyles: {
+    hatchback: "हैचबैक",
+    minivan: "मिनीवैन",
+    "pickup-truck": "पिकअप ट्रक",
+    "sports-car": "स्पोर्ट्स कार",
+    suv: "एसयूवी",
+    sedan: "सेडान",
+  },
+  engineTypes: {
+    gas: "पेट्रोल",
+    hybrid: "हाइब्रिड",
+    electric: "इलेक्ट्रिक",
+  },
+  transmissions: {
+    automatic: "ऑटोमैटिक",
+    manual: "मैनुअल",
+  },
+  home: {
+    hero: {
+      title: "अपनी कार खोजें",
+      noHiddenFees: "कोई छिपा शुल्क नहीं।",
+      transparentPricing: "पारदर्शी कीमतें।",
+      flexibleCancellations: "आसान रद्दीकरण।",
+    },
+    bodyStyles: {
+      title: "किराए की लोकप्रिय कारें",
+      description: "कई तरह की गाड़ियों में से चुनें",
+    },
+    destinations: {
+      title: "किराए के रुझान: ज़रूर घूमने की जगहें",
+      description: "हमारे सबसे लोकप्रिय गंतव्य देखें",
+      carsFrom: "{price}+ से कारें",
+    },
+    features: {
+      title: "जानिए हम अलग क्यों हैं",
+      booking: {
+        title: "झंझट-मुक्त बुकिंग",
+        description:
+          "आसान बुकिंग प्रक्रिया। आपकी पसंदीदा कार, बस एक क्लिक दूर। सहज आरक्षण का आनंद लें और तुरंत बेहतरीन ऑफ़र पाएं।",
+      },
+      security: {
+        title: "सुरक्षित किराया",
+        description:
+          "आपकी सुरक्षा सुनिश्चित। कड़ी जांच, पारदर्शी नीतियां और व्यापक बीमा। अच्छी तरह रखरखाव की गई गाड़ियों और भरोसेमंद सेवा के साथ बेफ़िक्र यात्रा करें।",
+      },
+      navigation: {
+        title: "आसान नेविगेशन",
+        description:
+          "भरोसे के साथ घूमें। रास्ता खोजने के आसान साधन आपकी यात्रा को सुगम और आनंददायक बनाते हैं, मंज़िल चाहे जो भी हो।",
+      },
+    },
+    testimonials: {
+      title: "आपकी राय से प्रेरित",
+    },
+    explore: {
+      title: "आपकी यात्रा यहीं से शुरू होती है।",
+      subtitle: "अनगिनत संभावनाओं में उतरें!",
+      button: "कारें देखें",
+    },
+    openSource: {
+      title: "गर्व से ओपन सोर्स",
+      description: "{name} ओपन सोर्स है और ओपन सोर्स सॉफ़्टवेयर पर चलता है।",
+      availableOn: "कोड यहां उपलब्ध है:",
+      stars: "GitHub पर {stars} स्टार",
+    },
+  },
+  filters: {
+    title: "फ़िल्टर",
+    clearAll: "सभी हटाएं",
+    showCars: "कारें दिखाएं",
+    priceRange: "कीमत सीमा",
+    minimum: "न्यूनतम",
+    maximum: "अधिकतम",
+    bodyStyle: "बॉडी स्टाइल",
+    engineType: "इंजन का प्रकार",
+    seatingCapacity: "सीटों की संख्या",
+    anySeats: "कोई भी",
+    transmission: "ट्रांसमिशन",
+  },
+  reservationForm: {
+    pickUp: "पिक-अप",
+    pickUpAndDropOff: "पिक-अप / ड्रॉप-ऑफ़",
+    dropOff: "ड्रॉप-ऑफ़",
+    sameAsPickUp: "पिक-अप वाली जगह",
+    selectLocation: "जगह चुनें",
+    searchLocation: "जगह खोजें...",
+    noPlaceFound: "कोई जगह नहीं मिली।",
+    checkIn: "चेक इन",
+    checkOut: "चेक आउट",
+    pickDate: "तारीख चुनें",
+    pickUpTime: "पिक-अप का समय",
+    returnTime: "वापसी का समय",
+    addOns: "ऐड-ऑन",
+    processing: "प्रक्रिया जारी है...",
+    reserve: "बुक करें और भुगतान करें",
+    payOnNextStep: "भुगतान अगले चरण में होगा",
+    pendingDays: "{price} x — दिन",
+    taxesAndFees: "कर और शुल्क",
+    total: "कुल (कर सहित)",
+    errors: {
+      locationRequired: "जगह चुनना ज़रूरी है",
+      checkInRequired: "चेक इन की तारीख ज़रूरी है",
+      checkOutRequired: "चेक आउट की तारीख ज़रूरी है",
+      pickUpTimeRequired: "पिक-अप का समय ज़रूरी है",
+      returnTimeRequired: "वापसी का समय ज़रूरी है",
+      checkOutBeforeCheckIn: "चेक आउट, चेक इन से पहले नहीं हो सकता",
+      checkOutNotAfterCheckIn: "चेक आउट, चेक इन के बाद होना चाहिए",
+      maxDays: "अधिकतम {days} दिनों की बुकिंग की जा सकती है",
+      incompleteCar: "कार की जानकारी अधूरी है",
+      invalidLocation: "कृपया एक सही जगह चुनें",
+      paymentFailed: "भुगतान शुरू नहीं हो सका",
+    },
+    created: "बुकिंग बन गई!",
+    redirectingToPayment: "भुगतान पेज पर ले जाया जा रहा है...",
+    openingWhatsApp: "पुष्टि के लिए WhatsApp खुल रहा है...",
+  },
+  whatsapp: {
+    title: "नई कार बुकिंग का अनुरोध",
+    customer: "ग्राहक का विवरण:",
+    name: "नाम: {value}",
+    email: "ईमेल: {value}",
+    notAvailable: "उपलब्ध नहीं",
+    reservation: "बुकिंग का विवरण:",
+    reference: "संदर्भ: {value}",
+    car: "कार: {value}",
+    location: "जगह: {value}",
+    pickup: "पिक-अप: {value}",
+    return: "वापसी: {value}",
+    checkIn: "चेक इन: {value}",
+    checkOut: "चेक आउट: {value}",
+    duration: "अवधि: {value}",
+    addOns: "ऐड-ऑन: {value}",
+    pricing: "कीमत:",
+    hourlyRate: "दर: {price}/घंटा",
+    monthlyRate: "दर: {price}/महीना",
+    dailyRate: "दर: {price}/दिन",
+    subtotal: "उप-योग: {value}",
+    promoCode: "प्रोमो कोड: {value}",
+    taxesAndFees: "कर और शुल्क: {value}",
+    total: "कुल: {value}",
+    installments: {
+      one: "{count} मासिक किस्त में बिल किया जाएगा",
+      other: "{count} मासिक किस्तों में बिल किया जाएगा",
+    },
+    confirm: "कृपया इस बुकिंग की पुष्टि करें।",
+    payment: "बुकिंग {reference} के लिए {amount} का भुगतान करना है।",
+  },
+  addOnPricing: {
+    "per-day": "प्रति दिन",
+    "per-rental": "प्रति बुकिंग",
+  },
+  reservationStatuses: {
+    pending: "पुष्टि बाकी",
+    confirmed: "पुष्टि हो गई",
+    active: "जारी",
+    completed: "पूरी हुई",
+    cancelled: "रद्द",
+    "no-show": "नहीं आए",
+  },
+  errors: {
+    generic: "कुछ गलत हो गया। कृपया फिर से कोशिश करें।",
+    unknown: "अज्ञात त्रुटि",
+    signInToReserve: "बुकिंग करने के लिए लॉग इन करें",
+    signInToUsePromoCode: "प्रोमो कोड इस्तेमाल करने के लिए लॉग इन करें",
+    signInToModify: "बुकिंग बदलने के लिए लॉग इन करें",
+    signInToUpdate: "बुकिंग अपडेट करने के लिए लॉग इन करें",
+    signInToPay: "बुकिंग का भुगतान करने के लिए लॉग इन करें",
+    signInToHoldDeposit: "डिपॉज़िट रोकने के लिए लॉग इन करें",
+    carNotFound: "कार नहीं मिली",
+    locationNotFound: "जगह नहीं मिली",
+    reservationNotFound: "बुकिंग नहीं मिली",
+    paymentNotFound: "भुगतान नहीं मिला",
+    enterPromoCode: "कृपया प्रोमो कोड डालें",
+    carUnavailable:
+      "यह कार चुनी गई तारीखों पर अब उपलब्ध नहीं है। कृपया दूसरी तारीखें या दूसरी कार चुनें।",
+    carNotAtPickUp:
+      "इन तारीखों पर यह कार चुनी गई पिकअप जगह पर नहीं होगी। कृपया दूसरी कार या जगह चुनें।",
+    carNotReturnable:
+      "यह कार इन तारीखों के ठीक बाद दूसरी जगह से बुक है और चुनी गई जगह पर वापस नहीं की जा सकती।",
+    addOnUnavailable: "इन तारीखों पर पिकअप जगह पर {addOn} उपलब्ध नहीं है।",
+    addOnLow: "इन तारीखों पर पिकअप जगह पर केवल {count} x {addOn} बचे हैं।",
+    differentCurrency: "नई कार की कीमत दूसरी मुद्रा में है",
+    notAllowedToUpdate: "आपको यह बुकिंग अपडेट करने की अनुमति नहीं है",
+    notAllowedToModify: "आपको यह बुकिंग बदलने की अनुमति नहीं है",
+    invalidTransition: "{from} बुकिंग को {to} नहीं किया जा सकता",
+    notModifiable: "{status} बुकिंग नहीं बदली जा सकती",
+    modifiedAfterCheckIn: "चेक इन के बाद बुकिंग नहीं बदली जा सकती",
+    noLongerModifiable: "यह बुकिंग अब नहीं बदली जा सकती",
+    confirmBeforePaid: "भुगतान से पहले बुकिंग की पुष्टि नहीं की जा सकती",
+    depositBeforePickUp: "कार पिकअप से पहले डिपॉज़िट रोकना ज़रूरी है",
+    updatedConcurrently:
+      "किसी और ने बुकिंग अपडेट कर दी है। कृपया फिर से कोशिश करें।",
+    notPaidInTime: "इस बुकिंग का भुगतान समय पर नहीं हुआ",
+    nothingLeftToPay: "इस बुकिंग का कोई भुगतान बाकी नहीं है",
+    noDepositToHold: "इस बुकिंग में रोकने के लिए कोई डिपॉज़िट नहीं है",
+    depositAlreadyHeld: "डिपॉज़िट पहले ही रोका जा चुका है",
+    paymentNotStarted:
+      "आपकी बुकिंग सेव हो गई, लेकिन भुगतान शुरू नहीं हो सका। कृपया अपने खाते से भुगतान करें।",
+    reservationFailed: "बुकिंग नहीं हो सकी: {error}। कृपया फिर से कोशिश करें।",
+    modificationFailed:
+      "बुकिंग नहीं बदली जा सकी: {error}। कृपया फिर से कोशिश करें।",
+    updateFailed: "बुकिंग अपडेट नहीं हो सकी: {error}। कृपया फिर से कोशिश करें।",
+    paymentFailed: "भुगतान शुरू नहीं हो सका: {error}। कृपया फिर से कोशिश करें।",
+    paymentCompletionFailed:
+      "भुगतान पूरा नहीं हो सका: {error}। कृपया फिर से कोशिश करें।",
+    depositHoldFailed:
+      "डिपॉज़िट नहीं रोका जा सका: {error}। कृपया फिर से कोशिश करें।",
+  },
+  navbar: {
+    currency: "मुद्रा",
+    register: "रजिस्टर करें",
+    login: "लॉग इन",
+    myAccount: "मेरा खाता",
+    backOffice: "बैक ऑफ़िस",
+    settings: "सेटिंग्स",
+    logout: "लॉग आउट",
+  },
+  footer: {
+    sections: {
+      destinations: "गंतव्य",
+      resources: "संसाधन",
+      policies: "नीतियां",
+      support: "सहायता",
+    },
+    links: {
+      beachEscapes: "समुद्र तट की सैर",
+      historicalTrails: "ऐतिहासिक रास्ते",
+      foodieJourneys: "खान-पान की यात्राएं",
+      urbanExplorations: "शहरों की सैर",
+      wildlifeSafaris: "वन्यजीव सफ़ारी",
+      photographyTours: "फ़ोटोग्राफ़ी टूर",
+      blog: "ब्लॉग",
+      carRentalTips: "कार किराए के सुझाव",
+      travelInsights: "यात्रा की जानकारी",
+      safetyGuides: "सुरक्षा गाइड",
+      carModelsGuide: "कार मॉडल गाइड",
+      privacy: "गोपनीयता",
+      termsOfUse: "उपयोग की शर्तें",
+      cookiePreferences: "कुकी प्राथमिकताएं",
+      contactUs: "संपर्क करें",
+      faqs: "अक्सर पूछे जाने वाले सवाल",
+    },
+    newsletter: {
+      title: "हमारे न्यूज़लेटर की सदस्यता लें",
+      description:
+        "हमारे समुदाय से जुड़ें! खास यात्रा ऑफ़र और अंदरूनी सुझाव पाएं।",
+      subscribe: "सदस्यता लें",
+      subscribing: "सदस्यता ली जा रही है...",
+      subscribed: "सदस्यता लेने के लिए धन्यवाद!",
+    },
+    theme: {
+      light: "लाइट मोड चुनें",
+      system: "सिस्टम मोड चुनें",
+      dark: "डार्क मोड चुनें",
+    },
+  },
+  searchForm: {
+    pickUpAndDropOff: "पिक-अप / ड्रॉप-ऑफ़",
+    selectLocation: "जगह चुनें",
+    searchLocation: "जगह खोजें...",
+    noPlaceFound: "कोई जगह नहीं मिली।",
+    checkIn: "चेक इन",
+    checkOut: "चेक आउट",
+    return: "वापसी",
+    pickDate: "तारीख चुनें",
+    pickDateShort: "तारीख चुनें",
+    pickUpTime: "पिक-अप का समय",
+    returnTime: "वापसी का समय",
+    searchCars: "कारें खोजें",
+    byTheDay: "दिन के हिसाब से",
+    byTheHour: "घंटे के हिसाब से",
+    errors: {
+      locationRequired: "जगह चुनना ज़रूरी है",
+      checkInRequired: "चेक इन की तारीख ज़रूरी है",
+      checkOutRequired: "चेक आउट की तारीख ज़रूरी है",
+      checkOutNotAfterCheckIn: "चेक आउट, चेक इन के बाद होना चाहिए",
+      maxDays: "अधिकतम {days} दिनों की बुकिंग की जा सकती है",
+      returnNotAfterPickUp: "वापसी का समय, पिक-अप के समय के बाद होना चाहिए",
+    },
+  },
+  cars: {
+    count: { one: "{count} कार", other: "{count} कारें" },
+    search: {
+      title: "कारें खोजें",
+      description: "उपलब्ध कारें देखने के लिए कृपया जगह और तारीखें चुनें।",
+      link: "खोजने के लिए होमपेज पर जाएं",
+    },
+    noMatches: {
+      title: "कोई सटीक मिलान नहीं",
+      description: "अपने कुछ फ़िल्टर बदलकर या हटाकर देखें।",
+    },
+    card: {
+      unlimitedMileage: "असीमित माइलेज",
+      seats: { one: "{count} सीट", other: "{count} सीटें" },
+      perHour: "घंटा",
+      perDay: "दिन",
+      viewDetails: "विवरण देखें",
+    },
+  },
+  carPage: {
+    perDay: "/दिन",
+    reserve: "बुक करें",
+    seats: { one: "{count} सीट", other: "{count} सीटें" },
+    reviews: { one: "{count} समीक्षा", other: "{count} समीक्षाएँ" },
+    hourlyRate:
+      "या एक दिन से छोटी यात्राओं के लिए {price} प्रति घंटा, कम से कम {hours} घंटे",
+    weeklyRate: "7 दिन या उससे ज़्यादा की बुकिंग पर {price} प्रति सप्ताह",
+    monthlyRate:
+      "{months} महीने तक की बुकिंग पर {price} प्रति माह, हर महीने बिल किया जाता है, 30 दिन से ज़्यादा की बुकिंग कम से कम {minMonths} महीने की होगी",
+    perks: {
+      deals: {
+        title: "खास ऑफ़र",
+        description: "सिर्फ़ आपके लिए खास छूट और ऑफ़र पाएँ।",
+      },
+      localTips: {
+        title: "स्थानीय सुझाव",
+        description:
+          "आस-पास की घूमने की जगहों, रेस्तराँ और खूबसूरत रास्तों के सुझाव पाएँ।",
+      },
+      roadsideAssistance: {
+        title: "24/7 सड़क सहायता",
+        description:
+          "बेफ़िक्र होकर सफ़र करें। हमारी चौबीसों घंटे की सहायता हर समय, हर जगह आपके साथ है।",
+      },
+    },
+    features: "सुविधाएँ",
+    pickupAndReturn: "पिक-अप और वापसी",
+  },
+  reservationSummary: {
+    dates: "तारीखें",
+    place: "जगह",
+    pickUp: "पिक-अप",
+    dropOff: "ड्रॉप-ऑफ़",
+    addOns: "ऐड-ऑन",
+    cancellationPolicy: "रद्दीकरण नीति ({name})",
+    deposit: "जमा राशि",
+    priceDetails: "कीमत का विवरण",
+    total: "कुल ({currency})",
+  },
+  checkout: {
+    title: "पुष्टि करें और भुगतान करें",
+    yourReservation: "आपकी बुकिंग",
+    promoCode: {
+      title: "प्रोमो कोड",
+      placeholder: "प्रोमो कोड डालें",
+      apply: "लागू करें",
+      applied: "लागू हुआ",
+      remove: "हटाएं",
+    },
+    deposit:
+      "{amount} की वापसी-योग्य जमा राशि पिक-अप से पहले आपके कार्ड पर रोकी जाती है, और कार लौटाने पर छोड़ दी जाती है।",
+    reviews: { one: "({count} समीक्षा)", other: "({count} समीक्षाएं)" },
+    convertedTotal: "लगभग {amount}। आपसे {currency} में शुल्क लिया जाएगा।",
+  },
+  addOnPicker: {
+    notAvailable: "इन तारीखों के लिए उपलब्ध नहीं",
+    add: "{name} जोड़ें",
+    remove: "{name} हटाएं",
+  },
+  nightlyBreakdown: {
+    title: "हर रात का विवरण",
+  },
+  cancellationPolicy: {
+    nonRefundable: "यह दर वापसी-योग्य नहीं है।",
+    fullRefund: "पूरी राशि वापस",
+    partialRefund: "{percent}% राशि वापस",
+    refundHoursBefore:
+      "चेक इन से कम से कम {hours} घंटे पहले रद्द करने पर {refund}।",
+    refundBeforeCheckIn: "चेक इन से पहले रद्द करने पर {refund}।",
+    noLaterRefund: "इसके बाद रद्द करने पर कोई राशि वापस नहीं।",
+  },
+  ledgerStatement: {
+    date: "तारीख",
+    description: "विवरण",
+    amount: "राशि",
+    balance: "शेष",
+    balanceDue: "बकाया राशि: {amount}",
+    toBeRefunded: "वापस की जाने वाली राशि: {amount}",
+    nothingDue: "कुछ भी बकाया नहीं है।",
+  },
+  account: {
+    title: "मेरी बुकिंग",
+    sections: {
+      active: "जारी",
+      upcoming: "आने वाली",
+      past: "पिछली",
+    },
+    empty: {
+      title: "अभी कोई बुकिंग नहीं",
+      description: "कार बुक करने के बाद आपकी यात्राएं यहां दिखेंगी।",
+      button: "हमारी कारें देखें",
+    },
+    reservation: {
+      metaTitle: "बुकिंग का विवरण",
+      title: "आपकी बुकिंग",
+      back: "मेरी बुकिंग पर वापस जाएं",
+      reference: "संदर्भ: {id}",
+      history: "इतिहास",
+      timeline: {
+        reserved: "बुक की गई",
+        confirmed: "पुष्टि हुई",
+        pickedUp: "कार ली गई",
+        returned: "कार लौटाई गई",
+        cancelled: "रद्द की गई",
+        noShow: "नहीं आए के रूप में दर्ज",
+        changedFrom: "{dates} से बदली गई",
+      },
+      billing: {
+        title: "बिलिंग का कार्यक्रम",
+        description: "इस किराए का बिल हर महीने, हर अवधि की शुरुआत में बनता है।",
+        billed: "(बिल बना)",
+      },
+      payment: {
+        title: "भुगतान",
+        holdNotice:
+          "भुगतान होने पर आपकी बुकिंग की पुष्टि होती है, और बुकिंग के {minutes} मिनट के अंदर भुगतान न होने पर वह रद्द हो जाती है।",
+        leftToPay: "{amount} का भुगतान बाकी है।",
+        statuses: {
+          pending: "पूरा नहीं हुआ",
+          authorized: "रोका गया",
+          succeeded: "भुगतान हुआ",
+          failed: "विफल",
+          released: "छोड़ा गया",
+          cancelled: "रद्द",
+        },
+      },
+      statement: "विवरण पत्र",
+      invoices: {
+        title: "चालान",
+        invoice: "चालान {number}",
+        creditNote: "क्रेडिट नोट {number}",
+      },
+      deposit: {
+        held: "{amount} आपके कार्ड पर रोका गया है, और कार लौटाने पर छोड़ दिया जाएगा।",
+        released: "{amount} आपके कार्ड पर रोका गया था और छोड़ दिया गया।",
+        kept: "{amount} में से {kept} रखा गया ({reason}), बाकी छोड़ दिया गया।",
+        pending:
+          "{amount} की वापसी-योग्य जमा राशि पिक-अप से पहले आपके कार्ड पर रोकी जाती है।",
+      },
+      refund: {
+        title: "वापसी",
+        description: "{amount} आपको वापस किया जाएगा।",
+      },
+      noPriceBreakdown: "इस बुकिंग की कीमत का विवरण उपलब्ध नहीं है।",
+      modify: "बुकिंग बदलें",
+      payNow: "अभी भुगतान करें",
+      holdDeposit: "जमा राशि रोकें",
+      cancel: {
+        button: "बुकिंग रद्द करें",
+        title: "यह बुकिंग रद्द करें?",
+        refund: "आपकी रद्दीकरण नीति के तहत आपको {amount} वापस किया जाएगा।",
+        notRefundable:
+          "आपकी रद्दीकरण नीति के तहत इस बुकिंग पर अब कोई राशि वापस नहीं होगी।",
+        warning:
+          "कार दूसरे ग्राहकों के लिए उपलब्ध हो जाएगी। इसे वापस नहीं किया जा सकता।",
+        keep: "बुकिंग रखें",
+        cancelled: "बुकिंग रद्द हो गई",
+      },
+    },
+    modify: {
+      title: "बुकिंग बदलें",
+      car: "कार",
+      selectCar: "कार चुनें",
+      searchCar: "कार खोजें...",
+      noCarFound: "कोई कार नहीं मिली।",
+      selectDropOff: "ड्रॉप-ऑफ़ की जगह चुनें",
+      carRequired: "कार चुनना ज़रूरी है",
+      confirm: "बदलावों की पुष्टि करें",
+      currentTotal: "मौजूदा कुल",
+      newTotal: "नया कुल (कर सहित)",
+      youSave: "आपकी बचत",
+      priceDifference: "कीमत में अंतर",
+      modified: "बुकिंग बदल दी गई",
+    },
+  },
+};
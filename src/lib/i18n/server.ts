@@ -0,0 +1,32 @@
+import { cookies, headers } from "next/headers";
+
+import type { Locale } from "./config";
+
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  LOCALE_COOKIE,
+  LOCALE_HEADER,
+} from "./config";
+import { createTranslator } from "./translator";
+
+/**
+ * Returns the locale of the current request, as resolved by the proxy from the path prefix or the
+ * locale cookie
+ */
+export async function getLocale(): Promise<Locale> {
+  const [headerStore, cookieStore] = await Promise.all([headers(), cookies()]);
+  const locale =
+    headerStore.get(LOCALE_HEADER) ?? cookieStore.get(LOCALE_COOKIE)?.value;
+
+  return isLocale(locale) ? locale : DEFAULT_LOCALE;
+}
+
+/**
+ * Returns the locale of the current request and a function translating messages in it
+ */
+export async function getTranslations() {
+  const locale = await getLocale();
+
+  return { locale, t: createTranslator(locale) };
+}
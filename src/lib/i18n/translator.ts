@@ -0,0 +1,59 @@
+import type { Locale } from "./config";
+import type { Messages } from "./messages/en";
+
+import { INTL_LOCALES } from "./config";
+import { en } from "./messages/en";
+import { hi } from "./messages/hi";
+
+/**
+ * A message that depends on a count, picked with the plural rules of the locale
+ */
+export type PluralMessage = { one: string; other: string };
+
+/**
+ * Dot separated paths to the messages of a catalog, e.g. `"filters.title"`
+ */
+type MessagePaths<T> = {
+  [K in keyof T & string]: T[K] extends string | PluralMessage ? K
+  : `${K}.${MessagePaths<T[K]>}`;
+}[keyof T & string];
+
+export type MessageKey = MessagePaths<Messages>;
+
+/**
+ * Values interpolated into `{placeholders}`, `count` also picks the plural form
+ */
+export type MessageValues = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+const catalogs: Record<Locale, Messages> = { en, hi };
+
+/**
+ * Creates a function translating message keys in the given locale
+ */
+export function createTranslator(locale: Locale): Translate {
+  const pluralRules = new Intl.PluralRules(INTL_LOCALES[locale]);
+
+  return (key, values = {}) => {
+    const message = key
+      .split(".")
+      .reduce<unknown>(
+        (node, segment) => (node as Record<string, unknown>)?.[segment],
+        catalogs[locale]
+      ) as string | PluralMessage | undefined;
+
+    if (message === undefined) {
+      return key;
+    }
+
+    const template =
+      typeof message === "string" ? message
+      : pluralRules.select(Number(values.count)) === "one" ? message.one
+      : message.other;
+
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in values ? String(values[name]) : placeholder
+    );
+  };
+}
@@ -0,0 +1,329 @@
+import { and, eq, max, sql, sum } from "drizzle-orm";
+
+import type { db } from "../db";
+import type { Invoice, Payment } from "../db/definitions";
+
+import { users } from "../db/schema/auth";
+import {
+  cars,
+  invoices,
+  locations,
+  rentalReservations,
+  reservationLineItems,
+} from "../db/schema/tables";
+import { InvoiceType, LineItemType } from "../enums";
+import { env } from "../env";
+import { getGstRate, RENTAL_SAC_CODE } from "../gst-rates";
+import { getGstinStateCode, GST_STATES } from "../gst-states";
+import { DEFAULT_TIMEZONE } from "../opening-hours";
+import { formatDateRange } from "../utils";
+
+/**
+ * The database, or a transaction the invoice is issued in
+ */
+type InvoiceExecutor = Pick<typeof db, "insert" | "select" | "execute">;
+
+/**
+ * The business that issues the invoices, see the `COMPANY_*` variables
+ */
+export type Seller = {
+  legalName: string;
+  address: string[];
+  gstin: string;
+  state: string;
+  stateCode: string;
+  email: string | null;
+};
+
+const INVOICE_PREFIXES: Record<InvoiceType, string> = {
+  [InvoiceType.INVOICE]: "INV",
+  [InvoiceType.CREDIT_NOTE]: "CN",
+};
+
+/**
+ * Indian financial years run from April to March
+ * @param date The date to read the financial year of
+ * @param timeZone The time zone to read the date in
+ * @returns The financial year, e.g. "2026-27"
+ */
+export function getFinancialYear(date: Date, timeZone = DEFAULT_TIMEZONE) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+  }).formatToParts(date);
+  const year = Number(parts.find((part) => part.type === "year")!.value);
+  const month = Number(parts.find((part) => part.type === "month")!.value);
+  const start = month >= 4 ? year : year - 1;
+
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+/**
+ * Formats the number of an invoice or credit note, e.g. "INV/2026-27/0001"
+ */
+export function formatInvoiceNumber(
+  type: InvoiceType,
+  financialYear: string,
+  sequence: number
+) {
+  return `${INVOICE_PREFIXES[type]}/${financialYear}/${String(sequence).padStart(4, "0")}`;
+}
+
+/**
+ * Reads the seller's details from the environment
+ * @returns The seller, or none when invoicing is not configured
+ */
+export function getSeller(): Seller | null {
+  if (!env.COMPANY_LEGAL_NAME || !env.COMPANY_ADDRESS || !env.COMPANY_GSTIN) {
+    return null;
+  }
+
+  const stateCode = getGstinStateCode(env.COMPANY_GSTIN);
+
+  return {
+    legalName: env.COMPANY_LEGAL_NAME,
+    address: env.COMPANY_ADDRESS.split(",").map((line) => line.trim()),
+    gstin: env.COMPANY_GSTIN,
+    state: GST_STATES[stateCode] ?? stateCode,
+    stateCode,
+    email: env.COMPANY_EMAIL ?? null,
+  };
+}
+
+/**
+ * Reads the seller an invoice or credit note was issued by
+ * @returns The seller, or none on invoices issued before it was stored on them
+ */
+export function getInvoiceSeller(invoice: Invoice): Seller | null {
+  if (
+    !invoice.seller_legal_name ||
+    !invoice.seller_gstin ||
+    !invoice.seller_state_code
+  ) {
+    return null;
+  }
+
+  return {
+    legalName: invoice.seller_legal_name,
+    address: invoice.seller_address ?? [],
+    gstin: invoice.seller_gstin,
+    state: invoice.seller_state ?? invoice.seller_state_code,
+    stateCode: invoice.seller_state_code,
+    email: invoice.seller_email ?? null,
+  };
+}
+
+/**
+ * Splits GST between the central and state taxes when it is supplied within the seller's state,
+ * and charges integrated tax otherwise
+ * @param tax The tax, in the currency's minor unit
+ * @param interState Whether the rental is supplied in another state than the seller's
+ */
+export function splitGst(tax: number, interState: boolean) {
+  if (interState) {
+    return { cgst: 0, sgst: 0, igst: tax };
+  }
+
+  const cgst = Math.floor(tax / 2);
+
+  return { cgst, sgst: tax - cgst, igst: 0 };
+}
+
+/**
+ * Issues the tax invoice of a payment of a reservation, for its share of the reservation's taxes.
+ * The rental is supplied in the state of the branch it is picked up at.
+ * @returns The invoice, or none when the reservation is gone or invoicing is not configured
+ */
+export async function issueInvoice(
+  tx: InvoiceExecutor,
+  payment: Pick<Payment, "id" | "reservation_id" | "amount" | "currency">
+) {
+  const [booking] = await tx
+    .select({
+      reservation: rentalReservations,
+      car: cars,
+      location: locations,
+      customer: users,
+    })
+    .from(rentalReservations)
+    .innerJoin(cars, eq(cars.id, rentalReservations.car_id))
+    .innerJoin(locations, eq(locations.id, rentalReservations.location_id))
+    .leftJoin(users, eq(users.id, rentalReservations.user_id))
+    .where(eq(rentalReservations.id, payment.reservation_id))
+    .limit(1);
+
+  if (!booking) {
+    return null;
+  }
+
+  const seller = getSeller();
+
+  if (!seller) {
+    console.warn(
+      `Invoicing is not configured, no invoice is issued for payment ${payment.id}`
+    );
+    return null;
+  }
+
+  const { reservation, car, location, customer } = booking;
+
+  const [{ tax }] = await tx
+    .select({ tax: sum(reservationLineItems.amount).mapWith(Number) })
+    .from(reservationLineItems)
+    .where(
+      and(
+        eq(reservationLineItems.reservation_id, reservation.id),
+        eq(reservationLineItems.type, LineItemType.TAX)
+      )
+    );
+
+  // Installments carry their share of the taxes of the whole rental
+  const total = reservation.total_amount;
+  const paymentTax =
+    total ? Math.round((payment.amount * (tax ?? 0)) / total) : 0;
+  // Branches without a state are taken to be in the seller's
+  const stateCode = location.state_code ?? seller.stateCode;
+
+  return insertInvoice(tx, InvoiceType.INVOICE, {
+    reservation_id: reservation.id,
+    payment_id: payment.id!,
+    customer_name: customer?.name ?? null,
+    customer_email: customer?.email ?? null,
+    ...toSellerColumns(seller),
+    description: `Self-drive rental of ${car.name}, ${formatDateRange(
+      reservation.check_in,
+      reservation.check_out,
+      location.timezone
+    )}`,
+    sac_code: RENTAL_SAC_CODE,
+    place_of_supply: GST_STATES[stateCode] ?? stateCode,
+    currency: payment.currency,
+    taxable_amount: payment.amount - paymentTax,
+    tax_rate: String(getGstRate(RENTAL_SAC_CODE)),
+    ...toGstColumns(paymentTax, stateCode !== seller.stateCode),
+    total_amount: payment.amount,
+  });
+}
+
+/**
+ * Issues a credit note for part or all of an invoice, e.g. when its payment is refunded. The
+ * taxes are reversed in the same proportion and kind as they were charged.
+ * @param amount The amount credited, taxes included, in the currency's minor unit
+ */
+export async function issueCreditNote(
+  tx: InvoiceExecutor,
+  invoice: Invoice,
+  amount: number
+) {
+  const invoiceTax =
+    invoice.cgst_amount + invoice.sgst_amount + invoice.igst_amount;
+  const tax = Math.round((amount * invoiceTax) / invoice.total_amount);
+
+  return insertInvoice(tx, InvoiceType.CREDIT_NOTE, {
+    reservation_id: invoice.reservation_id,
+    payment_id: invoice.payment_id,
+    invoice_id: invoice.id,
+    customer_name: invoice.customer_name,
+    customer_email: invoice.customer_email,
+    seller_legal_name: invoice.seller_legal_name,
+    seller_address: invoice.seller_address,
+    seller_gstin: invoice.seller_gstin,
+    seller_state: invoice.seller_state,
+    seller_state_code: invoice.seller_state_code,
+    seller_email: invoice.seller_email,
+    description: `Refund of ${invoice.description}`,
+    sac_code: invoice.sac_code,
+    place_of_supply: invoice.place_of_supply,
+    currency: invoice.currency,
+    taxable_amount: amount - tax,
+    tax_rate: invoice.tax_rate,
+    ...toGstColumns(tax, invoice.igst_amount > 0),
+    total_amount: amount,
+  });
+}
+
+/**
+ * Finds the tax invoice of a payment
+ */
+export async function findPaymentInvoice(
+  tx: InvoiceExecutor,
+  paymentId: string
+) {
+  const [invoice] = await tx
+    .select()
+    .from(invoices)
+    .where(
+      and(
+        eq(invoices.payment_id, paymentId),
+        eq(invoices.type, InvoiceType.INVOICE)
+      )
+    )
+    .limit(1);
+
+  return invoice ?? null;
+}
+
+function toSellerColumns(seller: Seller) {
+  return {
+    seller_legal_name: seller.legalName,
+    seller_address: seller.address,
+    seller_gstin: seller.gstin,
+    seller_state: seller.state,
+    seller_state_code: seller.stateCode,
+    seller_email: seller.email,
+  };
+}
+
+function toGstColumns(tax: number, interState: boolean) {
+  const { cgst, sgst, igst } = splitGst(tax, interState);
+
+  return { cgst_amount: cgst, sgst_amount: sgst, igst_amount: igst };
+}
+
+/**
+ * Numbers and stores an invoice or credit note. Numbers follow each other without gaps within a
+ * financial year, so issuing is serialized per series for the rest of the transaction.
+ */
+async function insertInvoice(
+  tx: InvoiceExecutor,
+  type: InvoiceType,
+  values: Omit<
+    Invoice,
+    "number" | "type" | "financial_year" | "sequence" | "issued_at"
+  >
+) {
+  const issuedAt = new Date();
+  const financialYear = getFinancialYear(issuedAt);
+
+  await tx.execute(
+    sql`select pg_advisory_xact_lock(hashtext(${`invoices/${type}/${financialYear}`}))`
+  );
+
+  const [{ last }] = await tx
+    .select({ last: max(invoices.sequence) })
+    .from(invoices)
+    .where(
+      and(eq(invoices.type, type), eq(invoices.financial_year, financialYear))
+    );
+  const sequence = (last ?? 0) + 1;
+  const number = formatInvoiceNumber(type, financialYear, sequence);
+
+  console.log(
+    `Issuing ${type} ${number} for reservation ${values.reservation_id}`
+  );
+
+  const [invoice] = await tx
+    .insert(invoices)
+    .values({
+      ...values,
+      number,
+      type,
+      financial_year: financialYear,
+      sequence,
+      issued_at: issuedAt,
+    })
+    .returning();
+
+  return invoice;
+}
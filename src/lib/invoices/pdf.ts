@@ -0,0 +1,166 @@
+import type { Seller } from ".";
+import type { Invoice } from "../db/definitions";
+import type { PdfElement } from "../pdf";
+
+import { fromMinorUnits } from "../currency";
+import { InvoiceType } from "../enums";
+import { DEFAULT_TIMEZONE } from "../opening-hours";
+import { PAGE_WIDTH, renderPdf, wrapText } from "../pdf";
+
+const MARGIN = 50;
+const RIGHT = PAGE_WIDTH - MARGIN;
+
+const TITLES: Record<InvoiceType, string> = {
+  [InvoiceType.INVOICE]: "Tax invoice",
+  [InvoiceType.CREDIT_NOTE]: "Credit note",
+};
+
+/**
+ * Renders an invoice or credit note as a PDF
+ * @param invoice The invoice or credit note
+ * @param seller The business that issued it
+ * @param original The invoice corrected by a credit note
+ * @returns The bytes of the PDF file
+ */
+export function renderInvoicePdf(
+  invoice: Invoice,
+  seller: Seller,
+  original?: Invoice | null
+) {
+  const elements: PdfElement[] = [];
+  const money = (amount: number) => formatAmount(amount, invoice.currency);
+  const rate = Number(invoice.tax_rate);
+
+  const text = (
+    value: string,
+    x: number,
+    y: number,
+    options: Partial<Extract<PdfElement, { type: "text" }>> = {}
+  ) => elements.push({ type: "text", text: value, x, y, size: 9, ...options });
+  const line = (y: number) =>
+    elements.push({ type: "line", x1: MARGIN, y1: y, x2: RIGHT, y2: y });
+
+  // Seller on the left, document on the right
+  text(seller.legalName, MARGIN, 70, { size: 14, font: "bold" });
+  text(TITLES[invoice.type], RIGHT, 70, {
+    size: 16,
+    font: "bold",
+    align: "right",
+  });
+
+  [
+    ...seller.address,
+    `GSTIN: ${seller.gstin}`,
+    `State: ${seller.state} (${seller.stateCode})`,
+    seller.email,
+  ]
+    .filter((value): value is string => !!value)
+    .forEach((value, index) =>
+      text(value, MARGIN, 90 + index * 13, { muted: true })
+    );
+
+  [
+    [`${TITLES[invoice.type]} no.`, invoice.number],
+    ["Date", formatDate(invoice.issued_at)],
+    ...(original ? [["Against invoice", original.number]] : []),
+    ["Place of supply", invoice.place_of_supply],
+  ].forEach(([label, value], index) => {
+    text(label, RIGHT - 200, 90 + index * 13, { muted: true });
+    text(value, RIGHT, 90 + index * 13, { align: "right" });
+  });
+
+  text("Billed to", MARGIN, 200, { font: "bold" });
+  [
+    invoice.customer_name || "Customer",
+    invoice.customer_email,
+    `Reservation ${invoice.reservation_id}`,
+  ]
+    .filter((value): value is string => !!value)
+    .forEach((value, index) =>
+      text(value, MARGIN, 214 + index * 13, { muted: index > 0 })
+    );
+
+  // Single line of service, the rental
+  const columns = { sac: 330, taxable: 430, total: RIGHT };
+
+  line(255);
+  text("Description", MARGIN, 270, { font: "bold" });
+  text("SAC", columns.sac, 270, { font: "bold" });
+  text("Taxable value", columns.taxable, 270, { font: "bold", align: "right" });
+  text("Amount", columns.total, 270, { font: "bold", align: "right" });
+  line(280);
+
+  const description = wrapText(invoice.description, 260, 9, "regular");
+  description.forEach((value, index) => text(value, MARGIN, 296 + index * 12));
+  text(invoice.sac_code, columns.sac, 296);
+  text(money(invoice.taxable_amount), columns.taxable, 296, {
+    align: "right",
+  });
+  text(money(invoice.total_amount), columns.total, 296, { align: "right" });
+
+  let y = 296 + description.length * 12 + 4;
+  line(y);
+  y += 18;
+
+  // Integrated tax across states, central and state tax within the seller's state
+  const taxes: [string, number][] =
+    invoice.igst_amount > 0 ?
+      [[`IGST @ ${rate}%`, invoice.igst_amount]]
+    : [
+        [`CGST @ ${rate / 2}%`, invoice.cgst_amount],
+        [`SGST @ ${rate / 2}%`, invoice.sgst_amount],
+      ];
+
+  for (const [label, amount] of [
+    ["Taxable value", invoice.taxable_amount] as const,
+    ...taxes,
+  ]) {
+    text(label, RIGHT - 200, y, { muted: true });
+    text(money(amount), RIGHT, y, { align: "right" });
+    y += 14;
+  }
+
+  text(
+    invoice.type === InvoiceType.CREDIT_NOTE ? "Total credited" : "Total",
+    RIGHT - 200,
+    y + 4,
+    { size: 11, font: "bold" }
+  );
+  text(money(invoice.total_amount), RIGHT, y + 4, {
+    size: 11,
+    font: "bold",
+    align: "right",
+  });
+
+  text(
+    "This is a computer generated document and needs no signature.",
+    MARGIN,
+    790,
+    { size: 8, muted: true }
+  );
+
+  return renderPdf([elements], `${TITLES[invoice.type]} ${invoice.number}`);
+}
+
+/**
+ * The file name an invoice is downloaded as, e.g. "INV-2026-27-0001.pdf"
+ */
+export function getInvoiceFileName(invoice: Pick<Invoice, "number">) {
+  return `${invoice.number.replaceAll("/", "-")}.pdf`;
+}
+
+function formatAmount(amount: number, currency: string) {
+  return fromMinorUnits(amount, currency).toLocaleString("en-IN", {
+    style: "currency",
+    currency,
+  });
+}
+
+function formatDate(date: Date) {
+  return date.toLocaleDateString("en-IN", {
+    timeZone: DEFAULT_TIMEZONE,
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+}
@@ -0,0 +1,139 @@
+import { randomUUID } from "crypto";
+import { and, eq, sum } from "drizzle-orm";
+
+import type { db } from "./db";
+import type { LedgerEntry } from "./db/definitions";
+import type { LedgerEntryType } from "./enums";
+
+import { ledgerEntries } from "./db/schema/tables";
+import { LedgerAccount } from "./enums";
+
+/**
+ * The database, or a transaction the posting is part of
+ */
+type LedgerExecutor = Pick<typeof db, "insert" | "select">;
+
+export type LedgerLine = {
+  account: LedgerAccount;
+  /** Debit when positive, credit when negative, in the currency's minor unit */
+  amount: number;
+};
+
+export type LedgerPosting = {
+  reservationId: string;
+  type: LedgerEntryType;
+  description: string;
+  currency: string;
+  lines: LedgerLine[];
+  paymentId?: string | null;
+  /** User who posted the transaction, none for the payment provider's webhooks */
+  createdBy?: string | null;
+};
+
+/**
+ * The customer owes an amount for their rental, negative amounts credit it back to them
+ */
+export function chargeLines(amount: number): LedgerLine[] {
+  return [
+    { account: LedgerAccount.CUSTOMER, amount },
+    { account: LedgerAccount.REVENUE, amount: -amount },
+  ];
+}
+
+/**
+ * The customer paid an amount, negative amounts are refunded to them
+ */
+export function paymentLines(amount: number): LedgerLine[] {
+  return [
+    { account: LedgerAccount.CASH, amount },
+    { account: LedgerAccount.CUSTOMER, amount: -amount },
+  ];
+}
+
+/**
+ * A deposit is held on the customer's card, negative amounts release it
+ */
+export function depositHoldLines(amount: number): LedgerLine[] {
+  return [
+    { account: LedgerAccount.DEPOSIT_HOLDS, amount },
+    { account: LedgerAccount.CUSTOMER_DEPOSITS, amount: -amount },
+  ];
+}
+
+/**
+ * Records a transaction in the ledger
+ * @throws When its lines don't add up to 0
+ */
+export async function postLedgerTransaction(
+  tx: LedgerExecutor,
+  posting: LedgerPosting
+) {
+  const lines = posting.lines.filter((line) => line.amount !== 0);
+
+  if (lines.length === 0) {
+    return;
+  }
+
+  if (lines.reduce((total, line) => total + line.amount, 0) !== 0) {
+    throw new Error("Ledger transactions must balance");
+  }
+
+  const transactionId = randomUUID();
+  const createdAt = new Date();
+
+  console.log(
+    `Posting ${posting.type} to the ledger of reservation ${posting.reservationId}`
+  );
+
+  await tx.insert(ledgerEntries).values(
+    lines.map((line) => ({
+      transaction_id: transactionId,
+      reservation_id: posting.reservationId,
+      type: posting.type,
+      account: line.account,
+      amount: line.amount,
+      currency: posting.currency,
+      description: posting.description,
+      payment_id: posting.paymentId ?? null,
+      created_by: posting.createdBy ?? null,
+      created_at: createdAt,
+    }))
+  );
+}
+
+/**
+ * Reads what the customer owes for a reservation
+ * @returns The balance in the currency's minor unit, negative when money is owed back to them
+ */
+export async function fetchCustomerBalance(
+  tx: LedgerExecutor,
+  reservationId: string
+) {
+  const [{ balance }] = await tx
+    .select({ balance: sum(ledgerEntries.amount).mapWith(Number) })
+    .from(ledgerEntries)
+    .where(
+      and(
+        eq(ledgerEntries.reservation_id, reservationId),
+        eq(ledgerEntries.account, LedgerAccount.CUSTOMER)
+      )
+    );
+
+  return balance ?? 0;
+}
+
+/**
+ * Lists the entries of the customer's account in the order they were posted, with the balance
+ * after each of them
+ */
+export function buildStatement(entries: LedgerEntry[]) {
+  let balance = 0;
+
+  return entries
+    .filter((entry) => entry.account === LedgerAccount.CUSTOMER)
+    .sort((a, b) => +a.created_at - +b.created_at)
+    .map((entry) => {
+      balance += entry.amount;
+      return { entry, balance };
+    });
+}
@@ -0,0 +1,99 @@
+import type { OneWayFee } from "./db/definitions";
+
+/**
+ * Where and when a reservation picks a car up and drops it off
+ */
+export type CarTrip = {
+  location_id: string;
+  return_location_id: string;
+  check_in: Date;
+  check_out: Date;
+};
+
+/**
+ * Why a car can't be booked for a trip:
+ * - `overlap`: another reservation holds the car on these dates
+ * - `pickup`: an earlier trip leaves the car somewhere else
+ * - `return`: a later trip picks the car up somewhere else
+ */
+export type TripConflict = "overlap" | "pickup" | "return";
+
+export function isOneWayTrip(
+  trip: Pick<CarTrip, "location_id" | "return_location_id">
+) {
+  return trip.location_id !== trip.return_location_id;
+}
+
+/**
+ * Works out where a car will be at the given time, following the trips already booked for it
+ * @param homeLocationId The location the car is based at right now
+ * @param trips The reservations that still hold the car
+ * @param at The time to look at
+ * @returns The location the last trip before `at` drops the car off at, or its current location
+ */
+export function getCarLocationAt(
+  homeLocationId: string,
+  trips: CarTrip[],
+  at: Date
+) {
+  const previous = trips
+    .filter((trip) => trip.check_out <= at)
+    .sort((a, b) => b.check_out.getTime() - a.check_out.getTime())[0];
+
+  return previous?.return_location_id ?? homeLocationId;
+}
+
+/**
+ * Checks that a new trip fits in between the trips already booked for the car, so that the car is
+ * picked up where the previous trip leaves it and dropped off where the next trip picks it up
+ * @param homeLocationId The location the car is based at right now
+ * @param trips The reservations that still hold the car, excluding the one being changed
+ * @param trip The new trip
+ * @returns Why the car can't be booked, or `null`
+ */
+export function findTripConflict(
+  homeLocationId: string,
+  trips: CarTrip[],
+  trip: CarTrip
+): TripConflict | null {
+  const overlaps = trips.some(
+    (other) =>
+      other.check_in < trip.check_out && other.check_out > trip.check_in
+  );
+
+  if (overlaps) {
+    return "overlap";
+  }
+
+  if (
+    getCarLocationAt(homeLocationId, trips, trip.check_in) !== trip.location_id
+  ) {
+    return "pickup";
+  }
+
+  const next = trips
+    .filter((other) => other.check_in >= trip.check_out)
+    .sort((a, b) => a.check_in.getTime() - b.check_in.getTime())[0];
+
+  if (next && next.location_id !== trip.return_location_id) {
+    return "return";
+  }
+
+  return null;
+}
+
+/**
+ * Finds the fee for returning a car to another location
+ * @returns The route's fee, or `undefined` when cars can't be dropped off there
+ */
+export function findOneWayFee<T extends OneWayFee>(
+  fees: T[],
+  pickupLocationId: string,
+  returnLocationId: string
+) {
+  return fees.find(
+    (fee) =>
+      fee.pickup_location_id === pickupLocationId &&
+      fee.return_location_id === returnLocationId
+  );
+}
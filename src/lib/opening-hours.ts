@@ -0,0 +1,324 @@
+import { format } from "date-fns";
+
+import type { Locale } from "./i18n/config";
+import type { Translate } from "./i18n/translator";
+
+import { DEFAULT_LOCALE, INTL_LOCALES } from "./i18n/config";
+import { createTranslator } from "./i18n/translator";
+
+/**
+ * Days of the week, in the order of `Date#getDay()`.
+ */
+export const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export type DailyHours = {
+  /** Local opening time, as `HH:mm` */
+  opens: string;
+  /** Local closing time, as `HH:mm` */
+  closes: string;
+};
+
+/**
+ * Opening hours of a branch per weekday, `null` when it is closed all day
+ */
+export type OpeningHours = Record<Weekday, DailyHours | null>;
+
+export type HolidayClosure = {
+  /** Local date, as `yyyy-MM-dd` */
+  date: string;
+  name: string;
+};
+
+export type LocationSchedule = {
+  name: string;
+  opening_hours?: OpeningHours | null;
+  holiday_closures?: HolidayClosure[] | null;
+  timezone?: string | null;
+};
+
+const OPEN_DAILY: DailyHours = { opens: "08:00", closes: "20:00" };
+
+/**
+ * Applies to branches that haven't set their own opening hours.
+ */
+export const DEFAULT_OPENING_HOURS: OpeningHours = {
+  sunday: OPEN_DAILY,
+  monday: OPEN_DAILY,
+  tuesday: OPEN_DAILY,
+  wednesday: OPEN_DAILY,
+  thursday: OPEN_DAILY,
+  friday: OPEN_DAILY,
+  saturday: OPEN_DAILY,
+};
+
+export const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+/**
+ * Minutes between two pickup or return times customers can choose from.
+ */
+export const TIME_SLOT_MINUTES = 30;
+
+/**
+ * Pickup and return time suggested until the customer picks one, as `HH:mm`.
+ */
+export const DEFAULT_HANDOVER_TIME = "10:00";
+
+/**
+ * Returns the calendar date, weekday and wall clock time of an instant in the given time zone
+ * @param date The instant
+ * @param timeZone The IANA time zone, defaults to the time zone of the runtime
+ * @returns The local date as `yyyy-MM-dd`, its weekday and the local time as `HH:mm`
+ */
+export function getLocalDay(date: Date, timeZone?: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)!.value;
+
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    weekday: part("weekday").toLowerCase() as Weekday,
+    time: `${part("hour")}:${part("minute")}`,
+  };
+}
+
+/**
+ * Returns the instant at which the clocks of the given time zone show a date and time
+ * @param date The local date, as `yyyy-MM-dd`
+ * @param time The local time, as `HH:mm`
+ * @param timeZone The IANA time zone
+ * @returns The instant, shifted by the daylight saving change when the time is skipped
+ */
+export function fromLocalDateTime(
+  date: string,
+  time: string,
+  timeZone: string
+) {
+  const wallClock = new Date(`${date}T${time}:00Z`).getTime();
+
+  // The offset is looked up twice as it may change between the wall clock time read as UTC and
+  // the actual instant, around daylight saving changes
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return new Date(wallClock - getTimeZoneOffset(guess, timeZone));
+}
+
+/**
+ * Combines a day picked in the browser's calendar with a time on the clocks of a branch
+ * @param location The branch the car is picked up or dropped off at
+ * @param day The day, at midnight in the browser's time zone
+ * @param time The local time, as `HH:mm`
+ * @returns The pickup or return instant
+ */
+export function toHandoverTime(
+  location: Pick<LocationSchedule, "timezone">,
+  day: Date,
+  time: string
+) {
+  return fromLocalDateTime(
+    format(day, "yyyy-MM-dd"),
+    time,
+    location.timezone ?? DEFAULT_TIMEZONE
+  );
+}
+
+/**
+ * Splits a pickup or return instant into the day to show in the browser's calendar and the time
+ * on the clocks of the branch, the reverse of `toHandoverTime`
+ */
+export function fromHandoverTime(
+  location: Pick<LocationSchedule, "timezone">,
+  date: Date
+) {
+  const { date: day, time } = getLocalDay(
+    date,
+    location.timezone ?? DEFAULT_TIMEZONE
+  );
+
+  return { day: new Date(`${day}T00:00`), time };
+}
+
+/**
+ * Lists the times a car can be picked up or dropped off at a branch on the given day
+ * @param location The branch
+ * @param date The local date, as `yyyy-MM-dd`
+ * @returns Times as `HH:mm` from opening to closing, empty when the branch is closed all day
+ */
+export function getTimeSlots(
+  location: Pick<LocationSchedule, "opening_hours">,
+  date: string
+) {
+  const weekday = WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  const hours = (location.opening_hours ?? DEFAULT_OPENING_HOURS)[weekday];
+
+  if (!hours) {
+    return [];
+  }
+
+  const slots: string[] = [];
+
+  for (
+    let minutes = toMinutes(hours.opens);
+    minutes <= toMinutes(hours.closes);
+    minutes += TIME_SLOT_MINUTES
+  ) {
+    const hour = String(Math.floor(minutes / 60)).padStart(2, "0");
+    slots.push(`${hour}:${String(minutes % 60).padStart(2, "0")}`);
+  }
+
+  return slots;
+}
+
+/**
+ * Explains why a branch is closed on the day of the given date, if it is
+ * @param location The branch
+ * @param date A pickup or return date
+ * @param timeZone The time zone the date is read in, the browser passes none as its calendar
+ * already works in local days while the server passes the branch's time zone
+ * @param t Translates the message, in English by default
+ * @param locale The language the holiday's date is spelled in
+ * @returns A message for the customer, or `null` when the branch is open that day
+ */
+export function getClosureReason(
+  location: LocationSchedule,
+  date: Date,
+  timeZone?: string,
+  t: Translate = createTranslator(DEFAULT_LOCALE),
+  locale: Locale = DEFAULT_LOCALE
+) {
+  const day = getLocalDay(date, timeZone);
+  const openingHours = location.opening_hours ?? DEFAULT_OPENING_HOURS;
+
+  const holiday = location.holiday_closures?.find(
+    (closure) => closure.date === day.date
+  );
+
+  if (holiday) {
+    return t("openingHours.closedOnHoliday", {
+      location: location.name,
+      date: new Date(`${day.date}T00:00`).toLocaleDateString(
+        INTL_LOCALES[locale],
+        { month: "short", day: "2-digit", year: "numeric" }
+      ),
+      holiday: holiday.name,
+    });
+  }
+
+  if (!openingHours[day.weekday]) {
+    return t("openingHours.closedOnWeekday", {
+      location: location.name,
+      weekday: t(`openingHours.weekdays.${day.weekday}`),
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Explains why a branch can't hand over or take back a car at the given time, if it can't
+ * @param location The branch
+ * @param date A pickup or return time, read in the branch's time zone
+ * @param t Translates the message, in English by default
+ * @param locale The language dates are spelled in
+ * @returns A message for the customer, or `null` when the branch is open at that time
+ */
+export function getOutsideHoursReason(
+  location: LocationSchedule,
+  date: Date,
+  t: Translate = createTranslator(DEFAULT_LOCALE),
+  locale: Locale = DEFAULT_LOCALE
+) {
+  const timeZone = location.timezone ?? DEFAULT_TIMEZONE;
+  const closureReason = getClosureReason(location, date, timeZone, t, locale);
+
+  if (closureReason) {
+    return closureReason;
+  }
+
+  const { weekday, time } = getLocalDay(date, timeZone);
+  const hours = (location.opening_hours ?? DEFAULT_OPENING_HOURS)[weekday]!;
+
+  if (time < hours.opens || time > hours.closes) {
+    return t("openingHours.outsideHours", {
+      location: location.name,
+      opens: hours.opens,
+      closes: hours.closes,
+      weekday: t(`openingHours.weekdays.${weekday}`),
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Describes the opening hours for customers, grouping consecutive days with the same hours
+ * @param openingHours The opening hours of a branch
+ * @param t Translates the days, in English by default
+ * @returns One line per group of days, starting on Monday
+ */
+export function describeOpeningHours(
+  openingHours?: OpeningHours | null,
+  t: Translate = createTranslator(DEFAULT_LOCALE)
+) {
+  const hours = openingHours ?? DEFAULT_OPENING_HOURS;
+  // Weeks start on Monday
+  const days = [...WEEKDAYS.slice(1), WEEKDAYS[0]];
+
+  const describe = (day: Weekday) => {
+    const daily = hours[day];
+    return daily ?
+        `${daily.opens} – ${daily.closes}`
+      : t("openingHours.closed");
+  };
+
+  const groups: { from: Weekday; to: Weekday; hours: string }[] = [];
+
+  for (const day of days) {
+    const last = groups.at(-1);
+
+    if (last && last.hours === describe(day)) {
+      last.to = day;
+    } else {
+      groups.push({ from: day, to: day, hours: describe(day) });
+    }
+  }
+
+  return groups.map(({ from, to, hours }) => ({
+    days:
+      from === to ?
+        t(`openingHours.weekdays.${from}`)
+      : `${t(`openingHours.weekdays.${from}`)} – ${t(`openingHours.weekdays.${to}`)}`,
+    hours,
+  }));
+}
+
+function getTimeZoneOffset(instant: number, timeZone: string) {
+  // Seconds are dropped by the local time, drop them from the instant too
+  const minute = Math.floor(instant / 60_000) * 60_000;
+  const { date, time } = getLocalDay(new Date(minute), timeZone);
+
+  return new Date(`${date}T${time}:00Z`).getTime() - minute;
+}
+
+function toMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
@@ -0,0 +1,846 @@
+import { and, asc, desc, eq, isNotNull, lt, sql, sum } from "drizzle-orm";
+
+import type { Payment, Refund, RentalReservation } from "../db/definitions";
+import type { PaymentEvent, PaymentProvider } from "./provider";
+
+import { db } from "../db";
+import {
+  billingCharges,
+  payments,
+  refunds,
+  rentalReservations,
+} from "../db/schema/tables";
+import { notifyReservation } from "../emails";
+import {
+  ChargeStatus,
+  EmailTemplate,
+  LedgerEntryType,
+  PaymentPurpose,
+  PaymentStatus,
+  RefundStatus,
+  ReservationStatus,
+} from "../enums";
+import { env } from "../env";
+import { findPaymentInvoice, issueCreditNote, issueInvoice } from "../invoices";
+import {
+  chargeLines,
+  depositHoldLines,
+  fetchCustomerBalance,
+  paymentLines,
+  postLedgerTransaction,
+} from "../ledger";
+import { getPaymentHoldCutoff } from "../reservation-status";
+import { absoluteUrl } from "../utils";
+import { manualPaymentProvider } from "./manual";
+import { mockPaymentProvider } from "./mock";
+
+const providers: Record<typeof env.PAYMENT_PROVIDER, PaymentProvider> = {
+  manual: manualPaymentProvider,
+  mock: mockPaymentProvider,
+};
+
+export const paymentProvider = providers[env.PAYMENT_PROVIDER];
+
+/**
+ * Works out what a reservation is paid with at booking time: its total, or the first installment
+ * of a long-term rental whose later installments are billed as they fall due
+ * @returns The amount in the currency's minor unit, and the installment it pays for
+ */
+export async function getAmountDueAtBooking(
+  reservation: Pick<RentalReservation, "id" | "total_amount">
+) {
+  const [firstCharge] = await db
+    .select()
+    .from(billingCharges)
+    .where(
+      and(
+        eq(billingCharges.reservation_id, reservation.id!),
+        eq(billingCharges.status, ChargeStatus.SCHEDULED)
+      )
+    )
+    .orderBy(asc(billingCharges.sequence))
+    .limit(1);
+
+  return firstCharge ?
+      { amount: firstCharge.amount, billingChargeId: firstCharge.id }
+    : { amount: reservation.total_amount ?? 0, billingChargeId: null };
+}
+
+/**
+ * Starts the payment of a pending reservation at the provider
+ * @returns The page the customer pays on
+ */
+export async function startReservationPayment(
+  reservation: Pick<RentalReservation, "id" | "currency" | "total_amount">
+) {
+  const { amount, billingChargeId } = await getAmountDueAtBooking(reservation);
+  const currency = reservation.currency!;
+
+  const intent = await paymentProvider.createIntent({
+    amount,
+    currency,
+    reference: reservation.id!,
+    returnUrl: absoluteUrl(`/account/reservations/${reservation.id}`),
+  });
+
+  console.log(`Starting payment ${intent.id} of reservation ${reservation.id}`);
+
+  await db.insert(payments).values({
+    reservation_id: reservation.id!,
+    purpose: PaymentPurpose.RENTAL,
+    billing_charge_id: billingChargeId,
+    provider: paymentProvider.name,
+    provider_payment_id: intent.id,
+    checkout_url: intent.checkoutUrl,
+    amount,
+    currency,
+    status: PaymentStatus.PENDING,
+    created_at: new Date(),
+  });
+
+  return intent.checkoutUrl;
+}
+
+/**
+ * Works out what the customer of a confirmed reservation has to pay now: what they owe, less the
+ * installments of a long-term rental that aren't billed yet
+ * @returns The amount in the currency's minor unit
+ */
+export async function getAmountDue(reservationId: string) {
+  const balance = await fetchCustomerBalance(db, reservationId);
+  const [{ scheduled }] = await db
+    .select({ scheduled: sum(billingCharges.amount).mapWith(Number) })
+    .from(billingCharges)
+    .where(
+      and(
+        eq(billingCharges.reservation_id, reservationId),
+        eq(billingCharges.status, ChargeStatus.SCHEDULED)
+      )
+    );
+
+  return Math.max(balance - (scheduled ?? 0), 0);
+}
+
+/**
+ * Starts the payment of what is due on a confirmed reservation, e.g. a billed installment or the
+ * rise in price of a modification. A pending payment of that amount is reused, other pending
+ * payments are voided.
+ * @returns The page the customer pays on, or none when nothing is due
+ */
+export async function startBalancePayment(
+  reservation: Pick<RentalReservation, "id" | "currency">
+) {
+  const amount = await getAmountDue(reservation.id!);
+
+  if (amount <= 0) {
+    return null;
+  }
+
+  const [pending] = await db
+    .select()
+    .from(payments)
+    .where(
+      and(
+        eq(payments.reservation_id, reservation.id!),
+        eq(payments.purpose, PaymentPurpose.RENTAL),
+        eq(payments.status, PaymentStatus.PENDING),
+        eq(payments.amount, amount),
+        isNotNull(payments.checkout_url)
+      )
+    )
+    .orderBy(desc(payments.created_at))
+    .limit(1);
+
+  if (pending) {
+    return pending.checkout_url!;
+  }
+
+  await voidPendingPayments(reservation.id!);
+
+  const currency = reservation.currency!;
+  const intent = await paymentProvider.createIntent({
+    amount,
+    currency,
+    reference: reservation.id!,
+    returnUrl: absoluteUrl(`/account/reservations/${reservation.id}`),
+  });
+
+  console.log(
+    `Starting balance payment ${intent.id} of reservation ${reservation.id}`
+  );
+
+  await db.insert(payments).values({
+    reservation_id: reservation.id!,
+    purpose: PaymentPurpose.RENTAL,
+    provider: paymentProvider.name,
+    provider_payment_id: intent.id,
+    checkout_url: intent.checkoutUrl,
+    amount,
+    currency,
+    status: PaymentStatus.PENDING,
+    created_at: new Date(),
+  });
+
+  return intent.checkoutUrl;
+}
+
+/**
+ * Voids the pending rental payments of a reservation, e.g. once a modification changed what is
+ * due, so that they can't be paid at the old amount. Payments the provider won't void are left
+ * pending, they may have gone through already.
+ */
+export async function voidPendingPayments(reservationId: string) {
+  const pending = await db
+    .select()
+    .from(payments)
+    .where(
+      and(
+        eq(payments.reservation_id, reservationId),
+        eq(payments.purpose, PaymentPurpose.RENTAL),
+        eq(payments.status, PaymentStatus.PENDING)
+      )
+    );
+
+  for (const payment of pending) {
+    try {
+      await paymentProvider.cancel(payment.provider_payment_id);
+    } catch (error) {
+      console.error(`Failed to void payment ${payment.id}:`, error);
+      continue;
+    }
+
+    console.log(`Voiding payment ${payment.provider_payment_id}`);
+
+    await db
+      .update(payments)
+      .set({ status: PaymentStatus.CANCELLED, cancelled_at: new Date() })
+      .where(
+        and(
+          eq(payments.id, payment.id),
+          eq(payments.status, PaymentStatus.PENDING)
+        )
+      );
+  }
+}
+
+/**
+ * Cancels the pending reservations that weren't paid for within the payment hold, which frees the
+ * car, add-ons and promo code they held. Reservations made before prices were stored, or paid for
+ * with payments the staff marks received, are confirmed by the staff and never expire.
+ * @returns How many reservations expired
+ */
+export async function expireUnpaidReservations() {
+  if (paymentProvider.confirmedByStaff) {
+    return 0;
+  }
+
+  const unpaid = await db
+    .select({
+      id: rentalReservations.id,
+      currency: rentalReservations.currency,
+    })
+    .from(rentalReservations)
+    .where(
+      and(
+        eq(rentalReservations.status, ReservationStatus.PENDING),
+        isNotNull(rentalReservations.total_amount),
+        lt(rentalReservations.created_at, getPaymentHoldCutoff())
+      )
+    );
+
+  let expired = 0;
+
+  for (const reservation of unpaid) {
+    const cancelled = await db.transaction(async (tx) => {
+      // A payment that went through in the meantime confirmed the reservation
+      const updated = await tx
+        .update(rentalReservations)
+        .set({ status: ReservationStatus.CANCELLED, cancelled_at: new Date() })
+        .where(
+          and(
+            eq(rentalReservations.id, reservation.id),
+            eq(rentalReservations.status, ReservationStatus.PENDING)
+          )
+        )
+        .returning({ id: rentalReservations.id });
+
+      if (updated.length === 0) {
+        return false;
+      }
+
+      await tx
+        .update(billingCharges)
+        .set({ status: ChargeStatus.VOID, voided_at: new Date() })
+        .where(
+          and(
+            eq(billingCharges.reservation_id, reservation.id),
+            eq(billingCharges.status, ChargeStatus.SCHEDULED)
+          )
+        );
+
+      // Nothing was paid, so nothing is owed either
+      const balance = await fetchCustomerBalance(tx, reservation.id);
+
+      if (balance > 0) {
+        await postLedgerTransaction(tx, {
+          reservationId: reservation.id,
+          type: LedgerEntryType.ADJUSTMENT,
+          description: "Not paid in time",
+          currency: reservation.currency!,
+          lines: chargeLines(-balance),
+        });
+      }
+
+      return true;
+    });
+
+    if (!cancelled) {
+      continue;
+    }
+
+    console.log(`Reservation ${reservation.id} was not paid in time`);
+
+    await voidPendingPayments(reservation.id);
+    await notifyReservation(reservation.id, EmailTemplate.CANCELLATION);
+    expired += 1;
+  }
+
+  return expired;
+}
+
+/**
+ * Asks the customer to authorize the deposit of a reservation, which is held on their card and
+ * only collected if the staff captures it
+ * @returns The page the customer authorizes the deposit on
+ */
+export async function startDepositHold(
+  reservation: Pick<RentalReservation, "id" | "currency" | "deposit_amount">
+) {
+  const amount = reservation.deposit_amount!;
+  const currency = reservation.currency!;
+
+  const intent = await paymentProvider.createIntent({
+    amount,
+    currency,
+    reference: reservation.id!,
+    returnUrl: absoluteUrl(`/account/reservations/${reservation.id}`),
+    captureMethod: "manual",
+  });
+
+  console.log(
+    `Starting deposit hold ${intent.id} of reservation ${reservation.id}`
+  );
+
+  await db.insert(payments).values({
+    reservation_id: reservation.id!,
+    purpose: PaymentPurpose.DEPOSIT,
+    provider: paymentProvider.name,
+    provider_payment_id: intent.id,
+    checkout_url: intent.checkoutUrl,
+    amount,
+    currency,
+    status: PaymentStatus.PENDING,
+    created_at: new Date(),
+  });
+
+  return intent.checkoutUrl;
+}
+
+/**
+ * Collects part of a held deposit and releases the rest, or releases all of it when the amount
+ * is 0
+ * @param amount The amount kept, in the currency's minor unit
+ * @param reason Why the amount is kept, e.g. the damages it pays for
+ * @param settledBy The user settling the deposit
+ * @returns Whether the deposit was still held
+ */
+export async function settleDepositHold(
+  deposit: Pick<
+    Payment,
+    "id" | "reservation_id" | "provider_payment_id" | "amount" | "currency"
+  >,
+  amount: number,
+  reason: string | null,
+  settledBy: string
+) {
+  const now = new Date();
+  let columns: Partial<Payment>;
+
+  if (amount > 0) {
+    const captured = await paymentProvider.capture(
+      deposit.provider_payment_id,
+      amount
+    );
+    columns = {
+      status: PaymentStatus.SUCCEEDED,
+      captured_amount: captured.amount,
+      capture_reason: reason,
+      succeeded_at: now,
+    };
+  } else {
+    await paymentProvider.cancel(deposit.provider_payment_id);
+    columns = { status: PaymentStatus.RELEASED, released_at: now };
+  }
+
+  console.log(
+    `Settling deposit ${deposit.provider_payment_id}:`,
+    columns.status
+  );
+
+  return db.transaction(async (tx) => {
+    const updated = await tx
+      .update(payments)
+      .set(columns)
+      .where(
+        and(
+          eq(payments.id, deposit.id!),
+          eq(payments.status, PaymentStatus.AUTHORIZED)
+        )
+      )
+      .returning({ id: payments.id });
+
+    if (updated.length === 0) {
+      return false;
+    }
+
+    const posting = {
+      reservationId: deposit.reservation_id,
+      currency: deposit.currency,
+      paymentId: deposit.id,
+      createdBy: settledBy,
+    };
+
+    await postLedgerTransaction(tx, {
+      ...posting,
+      type: LedgerEntryType.DEPOSIT,
+      description: "Deposit released",
+      lines: depositHoldLines(-deposit.amount),
+    });
+
+    // What is kept is charged to the customer and paid with the deposit
+    if (columns.status === PaymentStatus.SUCCEEDED) {
+      const kept = columns.captured_amount!;
+
+      await postLedgerTransaction(tx, {
+        ...posting,
+        type: LedgerEntryType.CHARGE,
+        description: `Kept from the deposit: ${reason}`,
+        lines: chargeLines(kept),
+      });
+      await postLedgerTransaction(tx, {
+        ...posting,
+        type: LedgerEntryType.PAYMENT,
+        description: "Paid with the deposit",
+        lines: paymentLines(kept),
+      });
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Finds the deposit held for a reservation
+ */
+export async function findHeldDeposit(reservationId: string) {
+  const [deposit] = await db
+    .select()
+    .from(payments)
+    .where(
+      and(
+        eq(payments.reservation_id, reservationId),
+        eq(payments.purpose, PaymentPurpose.DEPOSIT),
+        eq(payments.status, PaymentStatus.AUTHORIZED)
+      )
+    )
+    .limit(1);
+
+  return deposit ?? null;
+}
+
+/**
+ * Verifies and applies a webhook of the payment provider. Webhooks may be delivered more than
+ * once, payments that already have an outcome are left as they are.
+ * @param payload The raw request body
+ * @param signature The signature header of the request
+ */
+export async function receivePaymentWebhook(
+  payload: string,
+  signature: string | null
+) {
+  const event = paymentProvider.verifyWebhook(payload, signature);
+
+  if (!event) {
+    return { error: "Invalid signature" };
+  }
+
+  return receivePaymentEvent(event);
+}
+
+/**
+ * Marks a payment received outside the app by the staff, which applies it the way the provider's
+ * webhook would. Deposits are held rather than collected.
+ */
+export async function receiveManualPayment(
+  payment: Pick<
+    Payment,
+    "provider_payment_id" | "purpose" | "amount" | "currency"
+  >
+) {
+  return receivePaymentEvent({
+    type: EXPECTED_PAYMENT_EVENTS[payment.purpose!],
+    paymentId: payment.provider_payment_id,
+    amount: payment.amount,
+    currency: payment.currency,
+  });
+}
+
+/**
+ * Applies the outcome of a payment. Payments that already have an outcome are left as they are.
+ */
+async function receivePaymentEvent(event: PaymentEvent) {
+  const [payment] = await db
+    .select()
+    .from(payments)
+    .where(
+      and(
+        eq(payments.provider, paymentProvider.name),
+        eq(payments.provider_payment_id, event.paymentId)
+      )
+    )
+    .limit(1);
+
+  if (!payment) {
+    return { error: "Payment not found" };
+  }
+
+  if (payment.status !== PaymentStatus.PENDING) {
+    return { success: true, reservationId: payment.reservation_id };
+  }
+
+  const mismatch = getPaymentEventMismatch(payment, event);
+
+  if (mismatch) {
+    console.error(`Payment ${event.paymentId}: ${event.type} ${mismatch}`);
+    return { error: `Event ${mismatch}` };
+  }
+
+  console.log(`Payment ${event.paymentId}: ${event.type}`);
+
+  const outcome = await db.transaction(async (tx) => {
+    // Guard on the status so that concurrent deliveries of the webhook apply it once
+    const updated = await tx
+      .update(payments)
+      .set(toPaymentColumns(event))
+      .where(
+        and(
+          eq(payments.id, payment.id),
+          eq(payments.status, PaymentStatus.PENDING)
+        )
+      )
+      .returning({ id: payments.id });
+
+    if (updated.length === 0 || event.type === "payment.failed") {
+      return "applied";
+    }
+
+    const posting = {
+      reservationId: payment.reservation_id,
+      currency: payment.currency,
+      paymentId: payment.id,
+    };
+
+    // Only the rental payment confirms the reservation, deposits are merely held
+    if (payment.purpose === PaymentPurpose.DEPOSIT) {
+      await postLedgerTransaction(tx, {
+        ...posting,
+        type: LedgerEntryType.DEPOSIT,
+        description: "Deposit held",
+        lines: depositHoldLines(payment.amount),
+      });
+      return "applied";
+    }
+
+    await postLedgerTransaction(tx, {
+      ...posting,
+      type: LedgerEntryType.PAYMENT,
+      description: "Payment",
+      lines: paymentLines(payment.amount),
+    });
+    await issueInvoice(tx, payment);
+
+    if (payment.billing_charge_id) {
+      await tx
+        .update(billingCharges)
+        .set({ status: ChargeStatus.BILLED, billed_at: new Date() })
+        .where(
+          and(
+            eq(billingCharges.id, payment.billing_charge_id),
+            eq(billingCharges.status, ChargeStatus.SCHEDULED)
+          )
+        );
+    }
+
+    // Reservations cancelled in the meantime stay cancelled, and are refunded as such
+    const confirmed = await tx
+      .update(rentalReservations)
+      .set({ status: ReservationStatus.CONFIRMED, confirmed_at: new Date() })
+      .where(
+        and(
+          eq(rentalReservations.id, payment.reservation_id),
+          eq(rentalReservations.status, ReservationStatus.PENDING)
+        )
+      )
+      .returning({ id: rentalReservations.id });
+
+    return confirmed.length > 0 ? "confirmed" : "paid";
+  });
+
+  // A reservation cancelled before its payment went through was credited in full, the payment is
+  // owed back. Nothing is refunded otherwise.
+  if (outcome === "paid") {
+    await refundOwedBalance(payment.reservation_id, null);
+  }
+
+  if (outcome === "confirmed") {
+    await notifyReservation(
+      payment.reservation_id,
+      EmailTemplate.BOOKING_CONFIRMED
+    );
+  }
+
+  return { success: true, reservationId: payment.reservation_id };
+}
+
+/**
+ * Checks whether the payment of a reservation went through
+ */
+export async function isReservationPaid(reservationId: string) {
+  const [payment] = await db
+    .select({ id: payments.id })
+    .from(payments)
+    .where(
+      and(
+        eq(payments.reservation_id, reservationId),
+        eq(payments.purpose, PaymentPurpose.RENTAL),
+        eq(payments.status, PaymentStatus.SUCCEEDED)
+      )
+    )
+    .limit(1);
+
+  return !!payment;
+}
+
+/**
+ * Refunds what the ledger says is owed to the customer of a reservation, from the most recent
+ * payments first. Refunds follow credits posted to the ledger, e.g. under the cancellation policy,
+ * so they never give back more than that. Refunds the provider failed to make earlier are made
+ * first.
+ * @param refundedBy The user refunding the reservation, none when the payment provider's webhook
+ * does
+ * @returns The amount refunded, in the currency's minor unit
+ */
+export async function refundOwedBalance(
+  reservationId: string,
+  refundedBy: string | null
+) {
+  const pending = await db
+    .select({ refund: refunds, payment: payments })
+    .from(refunds)
+    .innerJoin(payments, eq(payments.id, refunds.payment_id))
+    .where(
+      and(
+        eq(refunds.reservation_id, reservationId),
+        eq(refunds.status, RefundStatus.PENDING)
+      )
+    )
+    .orderBy(asc(refunds.created_at));
+  let refunded = 0;
+
+  for (const { refund, payment } of pending) {
+    await makeRefund(refund, payment);
+    refunded += refund.amount;
+  }
+
+  // One payment at a time, each refund is recorded before the provider is asked to make it
+  while (true) {
+    const result = await recordNextRefund(reservationId, refundedBy);
+
+    if (!result) {
+      return refunded;
+    }
+
+    if (!result.refund) {
+      console.error(
+        `Reservation ${reservationId} is owed more than it was paid: ${result.owed}`
+      );
+      return refunded;
+    }
+
+    await makeRefund(result.refund, result.payment);
+    refunded += result.refund.amount;
+  }
+}
+
+/**
+ * Records the refund of what is owed from the most recent payment that has anything left to
+ * refund. The reservation is locked while the balance is read and the refund recorded, so that
+ * concurrent callers (a cancellation, a webhook, the staff) can't refund the same balance twice.
+ * @returns The refund and what was owed, or none when nothing is
+ */
+async function recordNextRefund(
+  reservationId: string,
+  refundedBy: string | null
+) {
+  return db.transaction(async (tx) => {
+    await tx
+      .select({ id: rentalReservations.id })
+      .from(rentalReservations)
+      .where(eq(rentalReservations.id, reservationId))
+      .for("update");
+
+    const owed = -(await fetchCustomerBalance(tx, reservationId));
+
+    if (owed <= 0) {
+      return null;
+    }
+
+    const [payment] = await tx
+      .select()
+      .from(payments)
+      .where(
+        and(
+          eq(payments.reservation_id, reservationId),
+          eq(payments.purpose, PaymentPurpose.RENTAL),
+          eq(payments.status, PaymentStatus.SUCCEEDED),
+          lt(payments.refunded_amount, payments.amount)
+        )
+      )
+      .orderBy(desc(payments.succeeded_at))
+      .limit(1);
+
+    if (!payment) {
+      return { refund: null, payment: null, owed };
+    }
+
+    const amount = Math.min(owed, payment.amount - payment.refunded_amount);
+
+    await tx
+      .update(payments)
+      .set({ refunded_amount: sql`${payments.refunded_amount} + ${amount}` })
+      .where(eq(payments.id, payment.id));
+
+    const [refund] = await tx
+      .insert(refunds)
+      .values({
+        reservation_id: reservationId,
+        payment_id: payment.id,
+        amount,
+        currency: payment.currency,
+        status: RefundStatus.PENDING,
+        created_by: refundedBy,
+        created_at: new Date(),
+      })
+      .returning();
+
+    await postLedgerTransaction(tx, {
+      reservationId,
+      type: LedgerEntryType.REFUND,
+      description: "Refund",
+      currency: payment.currency,
+      lines: paymentLines(-amount),
+      paymentId: payment.id,
+      createdBy: refundedBy,
+    });
+
+    // Payments made before invoices were issued have nothing to correct
+    const invoice = await findPaymentInvoice(tx, payment.id);
+
+    if (invoice) {
+      await issueCreditNote(tx, invoice, amount);
+    }
+
+    return { refund, payment, owed };
+  });
+}
+
+/**
+ * Asks the provider to make a recorded refund. The refund's id is the idempotency key, so a refund
+ * asked for again after a failure or by a concurrent caller is made once. Refunds the provider
+ * fails to make stay pending, and are asked for again the next time the reservation is refunded.
+ */
+async function makeRefund(
+  refund: Pick<Refund, "id" | "amount">,
+  payment: Pick<Payment, "id" | "provider_payment_id">
+) {
+  const result = await paymentProvider.refund(
+    payment.provider_payment_id,
+    refund.amount,
+    refund.id!
+  );
+
+  await db
+    .update(refunds)
+    .set({
+      status: RefundStatus.SUCCEEDED,
+      provider_refund_id: result.id,
+      succeeded_at: new Date(),
+    })
+    .where(
+      and(eq(refunds.id, refund.id!), eq(refunds.status, RefundStatus.PENDING))
+    );
+
+  console.log(
+    `Refunded ${result.id} of payment ${payment.id}: ${refund.amount}`
+  );
+}
+
+/**
+ * Deposits are only authorized and held, rentals are collected right away
+ */
+const EXPECTED_PAYMENT_EVENTS: Record<
+  PaymentPurpose,
+  Exclude<PaymentEvent["type"], "payment.failed">
+> = {
+  [PaymentPurpose.RENTAL]: "payment.succeeded",
+  [PaymentPurpose.DEPOSIT]: "payment.authorized",
+};
+
+/**
+ * Checks an event against the payment it reports on, so that a payment is never taken as made for
+ * another amount or in another way than it was asked for
+ * @returns Why the event doesn't match, or none when it does
+ */
+function getPaymentEventMismatch(
+  payment: Required<Pick<Payment, "purpose" | "amount" | "currency">>,
+  event: PaymentEvent
+) {
+  if (event.type === "payment.failed") {
+    return null;
+  }
+
+  if (event.type !== EXPECTED_PAYMENT_EVENTS[payment.purpose]) {
+    return `doesn't apply to a ${payment.purpose} payment`;
+  }
+
+  if (event.amount !== payment.amount || event.currency !== payment.currency) {
+    return `is for ${event.amount} ${event.currency} instead of ${payment.amount} ${payment.currency}`;
+  }
+
+  return null;
+}
+
+function toPaymentColumns(event: PaymentEvent): Partial<Payment> {
+  switch (event.type) {
+    case "payment.authorized":
+      return { status: PaymentStatus.AUTHORIZED, authorized_at: new Date() };
+    case "payment.succeeded":
+      return { status: PaymentStatus.SUCCEEDED, succeeded_at: new Date() };
+    case "payment.failed":
+      return {
+        status: PaymentStatus.FAILED,
+        failure_reason: event.reason,
+        failed_at: new Date(),
+      };
+  }
+}
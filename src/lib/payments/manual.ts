@@ -0,0 +1,59 @@
+import { randomUUID } from "crypto";
+
+import type { PaymentProvider } from "./provider";
+
+import { fromMinorUnits } from "../currency";
+import { env } from "../env";
+import { getTranslations } from "../i18n/server";
+import { formatCurrency } from "../utils";
+
+/**
+ * Link that opens a WhatsApp chat with the company, with the message filled in
+ */
+export function getWhatsAppUrl(message: string) {
+  const phoneNumber = env.COMPANY_WHATSAPP_NUMBER.replace(/\D/g, ""); // Remove non-digits
+
+  return `https://wa.me/${phoneNumber}?text=${encodeURIComponent(message)}`;
+}
+
+/**
+ * Collects payments outside the app until a gateway is integrated: customers arrange them with the
+ * staff over WhatsApp, and the staff marks them received once the money came in. Deposits are held
+ * and refunds are made by hand too.
+ */
+export const manualPaymentProvider: PaymentProvider = {
+  name: "manual",
+  confirmedByStaff: true,
+
+  async createIntent({ amount, currency, reference }) {
+    const { locale, t } = await getTranslations();
+    const message = t("whatsapp.payment", {
+      reference,
+      amount: formatCurrency(
+        fromMinorUnits(amount, currency),
+        currency,
+        locale
+      ),
+    });
+
+    return {
+      id: `manual_pay_${randomUUID()}`,
+      checkoutUrl: getWhatsAppUrl(message),
+    };
+  },
+
+  async capture(_paymentId, amount) {
+    return { amount };
+  },
+
+  async cancel() {},
+
+  async refund(_paymentId, _amount, idempotencyKey) {
+    return { id: `manual_refund_${idempotencyKey}` };
+  },
+
+  // Nothing sends webhooks for manual payments
+  verifyWebhook() {
+    return null;
+  },
+};
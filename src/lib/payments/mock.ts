@@ -0,0 +1,96 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+
+import type { PaymentProvider } from "./provider";
+
+import { env } from "../env";
+import { PaymentEventSchema } from "./provider";
+
+/**
+ * Page of the app that stands in for the provider's checkout, see `src/app/payments/mock`
+ */
+export const MOCK_CHECKOUT_ROUTE = "/payments/mock";
+
+/**
+ * Signs the mock provider's webhooks when no secret is configured, it never leaves development
+ */
+const MOCK_WEBHOOK_SECRET = "mock-webhook-secret-for-development-only";
+
+/**
+ * Whether the mock provider may be used. Anyone could pay for a booking with it, so it is refused
+ * in production.
+ */
+export function isMockPaymentAllowed() {
+  return env.NODE_ENV !== "production";
+}
+
+function assertMockPaymentAllowed() {
+  if (!isMockPaymentAllowed()) {
+    throw new Error(
+      "The mock payment provider collects no money and is refused in production"
+    );
+  }
+}
+
+/**
+ * Collects no money: customers pay or decline on a local checkout page, which reports the outcome
+ * through the same signed webhook a real provider would send. For development and tests only.
+ */
+export const mockPaymentProvider: PaymentProvider = {
+  name: "mock",
+
+  async createIntent({ returnUrl }) {
+    assertMockPaymentAllowed();
+
+    const id = `mock_pay_${randomUUID()}`;
+    const params = new URLSearchParams({ return_url: returnUrl });
+
+    return { id, checkoutUrl: `${MOCK_CHECKOUT_ROUTE}/${id}?${params}` };
+  },
+
+  async capture(_paymentId, amount) {
+    assertMockPaymentAllowed();
+    return { amount };
+  },
+
+  async cancel() {
+    assertMockPaymentAllowed();
+  },
+
+  async refund(_paymentId, _amount, idempotencyKey) {
+    assertMockPaymentAllowed();
+    return { id: `mock_refund_${idempotencyKey}` };
+  },
+
+  verifyWebhook(payload, signature) {
+    if (!isMockPaymentAllowed() || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(signMockPayload(payload));
+    const received = Buffer.from(signature);
+
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      return null;
+    }
+
+    try {
+      const event = PaymentEventSchema.safeParse(JSON.parse(payload));
+      return event.success ? event.data : null;
+    } catch {
+      return null;
+    }
+  },
+};
+
+/**
+ * Signs a webhook payload the way the mock provider expects it
+ * @returns The hex encoded HMAC-SHA256 of the payload
+ */
+export function signMockPayload(payload: string) {
+  return createHmac("sha256", env.PAYMENT_WEBHOOK_SECRET ?? MOCK_WEBHOOK_SECRET)
+    .update(payload)
+    .digest("hex");
+}
@@ -0,0 +1,92 @@
+import { z } from "zod";
+
+/**
+ * Request header payment webhooks carry their signature in
+ */
+export const PAYMENT_SIGNATURE_HEADER = "x-payment-signature";
+
+/**
+ * A payment the customer is asked to make, amounts are in the currency's minor unit (e.g. paise)
+ */
+export type PaymentIntentRequest = {
+  amount: number;
+  currency: string;
+  /** Shown to the customer and echoed back by the provider, the reservation id */
+  reference: string;
+  /** Where the customer is sent back to once they paid or gave up */
+  returnUrl: string;
+  /** Manual payments are only authorized, and held until they are captured or cancelled */
+  captureMethod?: "automatic" | "manual";
+};
+
+export type PaymentIntent = {
+  /** Id of the payment at the provider */
+  id: string;
+  /** Page the customer pays on */
+  checkoutUrl: string;
+};
+
+const paidEvent = {
+  paymentId: z.string().min(1),
+  /** What was paid, in the currency's minor unit */
+  amount: z.number().int().nonnegative(),
+  currency: z.string().length(3),
+};
+
+/**
+ * Outcome of a payment, as reported by the provider's webhook
+ */
+export const PaymentEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("payment.authorized"), ...paidEvent }),
+  z.object({ type: z.literal("payment.succeeded"), ...paidEvent }),
+  z.object({
+    type: z.literal("payment.failed"),
+    paymentId: z.string().min(1),
+    reason: z.string(),
+  }),
+]);
+
+export type PaymentEvent = z.infer<typeof PaymentEventSchema>;
+
+/**
+ * What the app needs from a payment gateway. The outcome of a payment is only trusted from the
+ * provider's signed webhooks, never from the customer's browser.
+ */
+export type PaymentProvider = {
+  name: string;
+  /**
+   * Payments are marked received by the staff rather than reported by webhooks. Bookings wait for
+   * them instead of expiring after the payment hold.
+   */
+  confirmedByStaff?: boolean;
+  createIntent: (request: PaymentIntentRequest) => Promise<PaymentIntent>;
+  /**
+   * Collects part or all of an authorized payment, the rest of it is released
+   * @returns The amount collected
+   */
+  capture: (paymentId: string, amount: number) => Promise<{ amount: number }>;
+  /**
+   * Releases an authorized payment without collecting any of it
+   */
+  cancel: (paymentId: string) => Promise<void>;
+  /**
+   * Gives part or all of a collected payment back to the customer
+   * @param idempotencyKey Identifies the refund, asking again with the same key makes it once
+   * @returns The id of the refund at the provider
+   */
+  refund: (
+    paymentId: string,
+    amount: number,
+    idempotencyKey: string
+  ) => Promise<{ id: string }>;
+  /**
+   * Checks that a webhook was sent by the provider
+   * @param payload The raw request body
+   * @param signature The signature header of the request
+   * @returns The event, or `null` when the signature doesn't match or the event is malformed
+   */
+  verifyWebhook: (
+    payload: string,
+    signature: string | null
+  ) => PaymentEvent | null;
+};
@@ -0,0 +1,220 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { create } from "fontkit";
+import PDFDocument from "pdfkit";
+
+import type { Font } from "fontkit";
+
+/**
+ * Writer for documents made of text and rules, e.g. invoices. Text is set in Noto Sans, which is
+ * embedded so that Hindi names and the rupee sign print as they are.
+ */
+
+/** A4 in points */
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export type PdfFont = "regular" | "bold";
+
+/**
+ * Something drawn on a page, positioned in points from the top left corner
+ */
+export type PdfElement =
+  | {
+      type: "text";
+      text: string;
+      x: number;
+      /** Baseline of the text */
+      y: number;
+      size: number;
+      font?: PdfFont;
+      /** Right aligned text ends at `x` */
+      align?: "left" | "right";
+      muted?: boolean;
+    }
+  | { type: "line"; x1: number; y1: number; x2: number; y2: number };
+
+/**
+ * Directory of the font files, see `outputFileTracingIncludes` in `next.config.js`
+ */
+const FONT_DIR = join(
+  process.cwd(),
+  "node_modules/@fontsource/noto-sans/files"
+);
+
+// Noto Sans is published split by script, each character is set in the first file that has it
+const FONT_SUBSETS = ["latin", "latin-ext", "devanagari"];
+
+const FONT_WEIGHTS: Record<PdfFont, number> = {
+  regular: 400,
+  bold: 700,
+};
+
+type Face = {
+  /** Name the face is registered under in a document */
+  name: string;
+  data: Buffer;
+  font: Font;
+};
+
+let faces: Record<PdfFont, Face[]> | undefined;
+
+function getFaces() {
+  faces ??= {
+    regular: loadFaces("regular"),
+    bold: loadFaces("bold"),
+  };
+
+  return faces;
+}
+
+function loadFaces(font: PdfFont) {
+  return FONT_SUBSETS.map((subset) => {
+    const data = readFileSync(
+      join(FONT_DIR, `noto-sans-${subset}-${FONT_WEIGHTS[font]}-normal.woff`)
+    );
+
+    // WOFF files hold a single font, never a collection
+    return { name: `${font}-${subset}`, data, font: create(data) as Font };
+  });
+}
+
+/**
+ * Splits text into runs set in the same face. Spaces and punctuation stay in the run they follow,
+ * so that words are shaped together.
+ */
+function splitRuns(text: string, font: PdfFont) {
+  const fontFaces = getFaces()[font];
+  const runs: { face: Face; text: string }[] = [];
+
+  for (const character of text) {
+    const codePoint = character.codePointAt(0)!;
+    const run = runs.at(-1);
+
+    if (run?.face.font.hasGlyphForCodePoint(codePoint)) {
+      run.text += character;
+      continue;
+    }
+
+    const face =
+      fontFaces.find((candidate) =>
+        candidate.font.hasGlyphForCodePoint(codePoint)
+      ) ?? fontFaces[0];
+
+    if (run?.face === face) {
+      run.text += character;
+    } else {
+      runs.push({ face, text: character });
+    }
+  }
+
+  return runs;
+}
+
+function measureRun(face: Face, text: string, size: number) {
+  return (face.font.layout(text).advanceWidth * size) / face.font.unitsPerEm;
+}
+
+/**
+ * Measures the width of a line of text, in points
+ */
+export function measureText(text: string, size: number, font: PdfFont) {
+  return splitRuns(text, font).reduce(
+    (total, run) => total + measureRun(run.face, run.text, size),
+    0
+  );
+}
+
+/**
+ * Breaks text into lines that fit the given width, between words
+ */
+export function wrapText(
+  text: string,
+  width: number,
+  size: number,
+  font: PdfFont
+) {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+
+    if (line && measureText(candidate, size, font) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+
+  return line ? [...lines, line] : lines;
+}
+
+function renderElement(doc: PDFKit.PDFDocument, element: PdfElement) {
+  if (element.type === "line") {
+    doc
+      .moveTo(element.x1, element.y1)
+      .lineTo(element.x2, element.y2)
+      .lineWidth(0.5)
+      .strokeColor("#cccccc")
+      .stroke();
+    return;
+  }
+
+  const font = element.font ?? "regular";
+  let x =
+    element.align === "right" ?
+      element.x - measureText(element.text, element.size, font)
+    : element.x;
+
+  doc.fillColor(element.muted ? "#666666" : "#000000");
+
+  for (const run of splitRuns(element.text, font)) {
+    doc
+      .font(run.face.name)
+      .fontSize(element.size)
+      .text(run.text, x, element.y, {
+        baseline: "alphabetic",
+        lineBreak: false,
+      });
+    x += measureRun(run.face, run.text, element.size);
+  }
+}
+
+/**
+ * Writes a document with the given pages
+ * @param pages The elements of each page
+ * @param title The title shown by PDF readers
+ * @returns The bytes of the PDF file
+ */
+export function renderPdf(pages: PdfElement[][], title: string) {
+  const fontFaces = Object.values(getFaces()).flat();
+  // The first face stands in for the standard Helvetica, which is never used
+  const doc = new PDFDocument({
+    size: [PAGE_WIDTH, PAGE_HEIGHT],
+    margin: 0,
+    autoFirstPage: false,
+    font: fontFaces[0].data as unknown as string,
+    info: { Title: title },
+  });
+
+  for (const face of fontFaces) {
+    doc.registerFont(face.name, face.data);
+  }
+
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    for (const elements of pages) {
+      doc.addPage();
+      elements.forEach((element) => renderElement(doc, element));
+    }
+
+    doc.end();
+  });
+}
@@ -0,0 +1,213 @@
+import { addDays, areIntervalsOverlapping, differenceInDays } from "date-fns";
+
+import type { PricingRule } from "./db/definitions";
+import type { CarTrip } from "./one-way-rentals";
+import type { Weekday } from "./opening-hours";
+
+import { PricingRuleType } from "./enums";
+import { getLocalDay } from "./opening-hours";
+
+/**
+ * The adjustments of the rules that apply to a night add up, within these bounds, so that stacked
+ * discounts never give a night away and stacked surcharges stay reasonable.
+ */
+export const MIN_NIGHTLY_ADJUSTMENT_PERCENT = -50;
+export const MAX_NIGHTLY_ADJUSTMENT_PERCENT = 200;
+
+/**
+ * Weekdays whose nights are priced as weekend nights by default
+ */
+export const DEFAULT_WEEKEND_DAYS: Weekday[] = ["friday", "saturday"];
+
+export const PRICING_RULE_TYPE_LABELS: Record<PricingRuleType, string> = {
+  [PricingRuleType.DATE_RANGE]: "Season",
+  [PricingRuleType.WEEKEND]: "Weekend",
+  [PricingRuleType.HOLIDAY]: "Holiday",
+  [PricingRuleType.LEAD_TIME]: "Booking lead time",
+  [PricingRuleType.LENGTH_OF_STAY]: "Length of stay",
+  [PricingRuleType.UTILIZATION]: "Demand",
+};
+
+/**
+ * A night of a rental, the 24 hours starting at the pickup time or at the same time on a later day
+ */
+export type RentalNight = {
+  /** Local date the night starts on at the pickup location, as `yyyy-MM-dd` */
+  date: string;
+  weekday: Weekday;
+  /** Share of the location's fleet already booked for the night, from 0 to 100 */
+  utilization: number;
+};
+
+/**
+ * What the rules of a rental are evaluated against, besides the night itself
+ */
+export type PricingRuleBooking = {
+  /** Pickup location */
+  locationId: string;
+  /** Days the rental is charged for */
+  days: number;
+  /** Full days between the booking and the pickup */
+  leadDays: number;
+};
+
+/**
+ * Price of a night charged at the daily rate, and the rules that adjusted it
+ */
+export type NightlyRate = {
+  date: string;
+  amount: number;
+  adjustments: { name: string; percent: number }[];
+};
+
+/**
+ * Cars based at a location and the trips that hold them, to tell how busy the location is
+ */
+export type LocationOccupancy = {
+  fleetSize: number;
+  trips: (Pick<CarTrip, "check_in" | "check_out"> & { car_id: string })[];
+};
+
+/**
+ * Lists the nights of a rental in the time zone of the pickup location
+ * @param checkIn The pickup time
+ * @param days The number of nights
+ * @param timeZone The IANA time zone of the pickup location
+ * @param occupancy The fleet and bookings of the pickup location, nights are not busy without it
+ */
+export function getRentalNights(
+  checkIn: Date,
+  days: number,
+  timeZone: string,
+  occupancy?: LocationOccupancy
+): RentalNight[] {
+  return Array.from({ length: days }, (_, index) => {
+    const start = addDays(checkIn, index);
+    const { date, weekday } = getLocalDay(start, timeZone);
+
+    return {
+      date,
+      weekday,
+      utilization:
+        occupancy ? getUtilization(occupancy, start, addDays(start, 1)) : 0,
+    };
+  });
+}
+
+/**
+ * Counts the full days between the booking and the pickup, for lead-time rules
+ */
+export function getLeadDays(checkIn: Date, bookedAt: Date) {
+  return Math.max(differenceInDays(checkIn, bookedAt), 0);
+}
+
+/**
+ * Checks whether a rule adjusts the price of a night
+ */
+export function appliesToNight(
+  rule: PricingRule,
+  night: RentalNight,
+  booking: PricingRuleBooking
+) {
+  if (rule.enabled === false) {
+    return false;
+  }
+
+  if (
+    rule.location_ids?.length &&
+    !rule.location_ids.includes(booking.locationId)
+  ) {
+    return false;
+  }
+
+  switch (rule.type) {
+    case PricingRuleType.DATE_RANGE:
+      return (
+        (!rule.start_date || night.date >= rule.start_date) &&
+        (!rule.end_date || night.date <= rule.end_date)
+      );
+    case PricingRuleType.WEEKEND: {
+      const weekdays =
+        rule.weekdays?.length ? rule.weekdays : DEFAULT_WEEKEND_DAYS;
+      return weekdays.includes(night.weekday);
+    }
+    case PricingRuleType.HOLIDAY:
+      return !!rule.dates?.includes(night.date);
+    case PricingRuleType.LEAD_TIME:
+      return isWithin(booking.leadDays, rule.min_lead_days, rule.max_lead_days);
+    case PricingRuleType.LENGTH_OF_STAY:
+      return isWithin(booking.days, rule.min_rental_days, null);
+    case PricingRuleType.UTILIZATION:
+      return isWithin(night.utilization, rule.min_utilization_percent, null);
+  }
+}
+
+/**
+ * Prices the nights of a rental charged at the daily rate
+ * @param pricePerDay The effective daily price, before the rules
+ * @param nights The nights to price
+ * @param rules The pricing rules, disabled rules are ignored
+ * @param booking The location, length and lead time of the rental
+ * @param round Rounds an amount to the currency of the price
+ * @returns The price of every night, with the rules that adjusted it
+ */
+export function priceNights(
+  pricePerDay: number,
+  nights: RentalNight[],
+  rules: PricingRule[],
+  booking: PricingRuleBooking,
+  round: (amount: number) => number
+): NightlyRate[] {
+  return nights.map((night) => {
+    const adjustments = rules
+      .filter((rule) => appliesToNight(rule, night, booking))
+      .map((rule) => ({ name: rule.name, percent: rule.adjustment_percent }));
+
+    const percent = Math.min(
+      Math.max(
+        adjustments.reduce((sum, adjustment) => sum + adjustment.percent, 0),
+        MIN_NIGHTLY_ADJUSTMENT_PERCENT
+      ),
+      MAX_NIGHTLY_ADJUSTMENT_PERCENT
+    );
+
+    return {
+      date: night.date,
+      amount: round(pricePerDay * (1 + percent / 100)),
+      adjustments,
+    };
+  });
+}
+
+/**
+ * Works out the share of the location's fleet held by trips overlapping the given time
+ * @returns The share, from 0 to 100
+ */
+function getUtilization(occupancy: LocationOccupancy, start: Date, end: Date) {
+  if (occupancy.fleetSize === 0) {
+    return 0;
+  }
+
+  const bookedCars = new Set(
+    occupancy.trips
+      .filter((trip) =>
+        areIntervalsOverlapping(
+          { start, end },
+          { start: trip.check_in, end: trip.check_out }
+        )
+      )
+      .map((trip) => trip.car_id)
+  );
+
+  return Math.min(
+    Math.round((bookedCars.size / occupancy.fleetSize) * 100),
+    100
+  );
+}
+
+function isWithin(value: number, min?: number | null, max?: number | null) {
+  return (
+    (min === null || min === undefined || value >= min) &&
+    (max === null || max === undefined || value <= max)
+  );
+}
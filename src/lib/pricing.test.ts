@@ -0,0 +1,268 @@
+import { describe, expect, test } from "bun:test";
+import { addDays, addHours, addMinutes } from "date-fns";
+
+import type { Car, PromoCode } from "./db/definitions";
+
+import { LineItemType, PromoDiscountType } from "./enums";
+import { calculatePriceQuote, TAX_RATE } from "./pricing";
+
+const CHECK_IN = new Date("2026-01-05T10:00:00Z");
+const BOOKED_AT = new Date("2026-01-01T10:00:00Z");
+
+const car: Car = {
+  id: "car",
+  location_id: "location",
+  slug: "swift",
+  name: "Swift",
+  body_style: "Hatchback",
+  engine_type: "Gas",
+  transmission: "Manual",
+  seats: 5,
+  descriptions: [],
+  features: [],
+  rating: "4.5",
+  reviews: 10,
+  image_url: "/swift.jpg",
+  retail_price_per_day: 1000,
+  retail_price_currency: "INR",
+};
+
+const promoCode: PromoCode = {
+  id: "promo",
+  code: "SAVE15",
+  discount_type: PromoDiscountType.PERCENTAGE,
+  discount_value: 15,
+  created_at: BOOKED_AT,
+};
+
+function quote(
+  checkOut: Date,
+  overrides: Partial<Car> = {},
+  options: Parameters<typeof calculatePriceQuote>[2] = {}
+) {
+  return calculatePriceQuote(
+    { ...car, ...overrides },
+    {
+      locationId: "location",
+      returnLocationId: "location",
+      checkIn: CHECK_IN,
+      checkOut,
+    },
+    { bookedAt: BOOKED_AT, ...options }
+  );
+}
+
+function amountOf(
+  lineItems: { type: LineItemType; amount: number }[],
+  type: LineItemType
+) {
+  return lineItems.find((item) => item.type === type)?.amount;
+}
+
+describe("calculatePriceQuote", () => {
+  describe("grace period", () => {
+    test("doesn't charge a return within the grace period", () => {
+      const result = quote(addMinutes(addDays(CHECK_IN, 2), 59));
+
+      expect(result.days).toBe(2);
+      expect(result.hours).toBe(0);
+      expect(result.subtotal).toBe(2000);
+    });
+
+    test("charges every started hour once the grace period is over", () => {
+      const result = quote(addMinutes(addDays(CHECK_IN, 2), 60));
+
+      expect(result.days).toBe(2);
+      expect(result.hours).toBe(1);
+      expect(amountOf(result.lineItems, LineItemType.EXTRA_TIME)).toBe(150);
+      expect(result.subtotal).toBe(2150);
+    });
+  });
+
+  describe("hourly to daily cap", () => {
+    test("charges extra hours while they cost less than a day", () => {
+      const result = quote(addHours(addDays(CHECK_IN, 2), 6));
+
+      expect(result.days).toBe(2);
+      expect(result.hours).toBe(6);
+      expect(result.subtotal).toBe(2900);
+    });
+
+    test("charges a full day once the extra hours would cost as much", () => {
+      const result = quote(addHours(addDays(CHECK_IN, 2), 7));
+
+      expect(result.days).toBe(3);
+      expect(result.hours).toBe(0);
+      expect(result.subtotal).toBe(3000);
+    });
+
+    test("charges short hourly rentals at least the minimum hours", () => {
+      const result = quote(addHours(CHECK_IN, 1), {
+        price_per_hour: 100,
+        min_rental_hours: 2,
+      });
+
+      expect(result.days).toBe(0);
+      expect(result.hours).toBe(2);
+      expect(amountOf(result.lineItems, LineItemType.HOURLY)).toBe(200);
+    });
+
+    test("charges a day for hourly rentals costing as much as one", () => {
+      const result = quote(addHours(CHECK_IN, 10), { price_per_hour: 100 });
+
+      expect(result.days).toBe(1);
+      expect(result.hours).toBe(0);
+      expect(result.subtotal).toBe(1000);
+    });
+
+    test("charges a day for short rentals of cars without hourly rentals", () => {
+      const result = quote(addHours(CHECK_IN, 3));
+
+      expect(result.days).toBe(1);
+      expect(result.subtotal).toBe(1000);
+    });
+  });
+
+  describe("weekly and monthly rates", () => {
+    test("charges full weeks at the weekly rate and the days left daily", () => {
+      const result = quote(addDays(CHECK_IN, 9), { price_per_week: 6000 });
+
+      expect(result.weeks).toBe(1);
+      expect(amountOf(result.lineItems, LineItemType.WEEKLY)).toBe(6000);
+      expect(amountOf(result.lineItems, LineItemType.BASE)).toBe(2000);
+      expect(result.subtotal).toBe(8000);
+    });
+
+    test("charges another week once the days left would cost as much", () => {
+      const result = quote(addDays(CHECK_IN, 13), { price_per_week: 6000 });
+
+      expect(result.weeks).toBe(2);
+      expect(amountOf(result.lineItems, LineItemType.BASE)).toBeUndefined();
+      expect(result.subtotal).toBe(12000);
+    });
+
+    test("charges full months at the monthly rate and the rest weekly and daily", () => {
+      const result = quote(addDays(CHECK_IN, 40), {
+        price_per_week: 6000,
+        price_per_month: 20000,
+      });
+
+      expect(result.months).toBe(1);
+      expect(result.weeks).toBe(1);
+      expect(result.subtotal).toBe(29000);
+    });
+
+    test("charges another month once the weeks and days left would cost as much", () => {
+      const result = quote(addDays(CHECK_IN, 58), {
+        price_per_week: 6000,
+        price_per_month: 20000,
+      });
+
+      expect(result.months).toBe(2);
+      expect(result.weeks).toBe(0);
+      expect(result.subtotal).toBe(40000);
+    });
+
+    test("refuses rentals longer than a month for cars without a monthly rate", () => {
+      expect(() => quote(addDays(CHECK_IN, 31))).toThrow(
+        "Maximum 30 days allowed for booking"
+      );
+    });
+  });
+
+  describe("promo codes", () => {
+    test("takes the discount off the rental before taxes", () => {
+      const result = quote(addDays(CHECK_IN, 3), {}, { promoCode });
+
+      expect(amountOf(result.lineItems, LineItemType.PROMO)).toBe(-450);
+      expect(result.subtotal).toBe(2550);
+      expect(amountOf(result.lineItems, LineItemType.TAX)).toBe(459);
+      expect(result.promoCode).toBe("SAVE15");
+    });
+
+    test("never discounts more than the rental costs", () => {
+      const result = quote(
+        addDays(CHECK_IN, 1),
+        {},
+        {
+          promoCode: {
+            ...promoCode,
+            discount_type: PromoDiscountType.FIXED,
+            discount_value: 5000,
+            currency: "INR",
+          },
+        }
+      );
+
+      expect(amountOf(result.lineItems, LineItemType.PROMO)).toBe(-1000);
+      expect(result.total).toBe(0);
+    });
+
+    test("refuses a code the rental doesn't qualify for", () => {
+      expect(() =>
+        quote(
+          addDays(CHECK_IN, 3),
+          {},
+          { promoCode: { ...promoCode, min_rental_days: 5 } }
+        )
+      ).toThrow("This promo code requires a rental of at least 5 days");
+    });
+  });
+
+  describe("rounding", () => {
+    test("rounds every amount to the paisa for rupees", () => {
+      const result = quote(
+        addDays(CHECK_IN, 1),
+        { retail_price_per_day: 333 },
+        { promoCode }
+      );
+
+      expect(amountOf(result.lineItems, LineItemType.PROMO)).toBe(-49.95);
+      expect(result.subtotal).toBe(283.05);
+      expect(amountOf(result.lineItems, LineItemType.TAX)).toBe(50.95);
+      expect(result.total).toBe(334);
+    });
+
+    test("rounds every amount to the yen for currencies without a minor unit", () => {
+      const result = quote(
+        addDays(CHECK_IN, 1),
+        { retail_price_per_day: 333, retail_price_currency: "JPY" },
+        { promoCode }
+      );
+
+      expect(amountOf(result.lineItems, LineItemType.PROMO)).toBe(-50);
+      expect(result.subtotal).toBe(283);
+      expect(amountOf(result.lineItems, LineItemType.TAX)).toBe(51);
+      expect(result.total).toBe(334);
+    });
+  });
+
+  describe("taxes", () => {
+    test("charges GST at the rate of the rental's SAC code", () => {
+      const result = quote(addDays(CHECK_IN, 3));
+
+      expect(TAX_RATE).toBe(0.18);
+      expect(amountOf(result.lineItems, LineItemType.TAX)).toBe(540);
+      expect(result.taxesAndFees).toBe(540);
+      expect(result.total).toBe(3540);
+    });
+
+    test("taxes the one-way fee like the rental", () => {
+      const result = calculatePriceQuote(
+        car,
+        {
+          locationId: "location",
+          returnLocationId: "other-location",
+          checkIn: CHECK_IN,
+          checkOut: addDays(CHECK_IN, 3),
+        },
+        { bookedAt: BOOKED_AT, oneWayFee: { amount: 500, currency: "INR" } }
+      );
+
+      expect(result.subtotal).toBe(3000);
+      expect(amountOf(result.lineItems, LineItemType.TAX)).toBe(630);
+      expect(result.taxesAndFees).toBe(1130);
+      expect(result.total).toBe(4130);
+    });
+  });
+});
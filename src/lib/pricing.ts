@@ -0,0 +1,589 @@
+import { isAfter } from "date-fns";
+
+import type { AddOnSelection } from "./add-ons";
+import type {
+  AddOn,
+  Car,
+  OneWayFee,
+  PricingRule,
+  PromoCode,
+} from "./db/definitions";
+import type { LocationOccupancy, NightlyRate } from "./pricing-rules";
+
+import { getAddOnChargedUnits } from "./add-ons";
+import { roundAmount } from "./currency";
+import {
+  fetchAddOnsByIds,
+  fetchCarById,
+  fetchLocationById,
+  fetchLocationOccupancy,
+  fetchOneWayFee,
+  fetchPricingRules,
+  fetchPromoCodeByCode,
+} from "./db/queries";
+import { LineItemType, PricingRuleType } from "./enums";
+import { getGstRate, RENTAL_SAC_CODE } from "./gst-rates";
+import { DEFAULT_TIMEZONE } from "./opening-hours";
+import { getLeadDays, getRentalNights, priceNights } from "./pricing-rules";
+import {
+  calculatePromoDiscount,
+  getPromoCodeError,
+  normalizePromoCode,
+} from "./promo-codes";
+import {
+  DAYS_PER_MONTH,
+  DAYS_PER_WEEK,
+  getBillableTime,
+  getDailyAndHourlyPrices,
+  getRentalDurationError,
+} from "./rental-duration";
+
+/**
+ * GST charged on top of the rental price, see `GST_RATES`.
+ */
+export const TAX_RATE = getGstRate(RENTAL_SAC_CODE) / 100;
+
+/**
+ * Whether a reservation that keeps its car when modified is repriced at the daily rate agreed at
+ * booking time, rather than at the car's current rate.
+ */
+export const HONOR_AGREED_RATE_ON_MODIFICATION = true;
+
+export type QuoteLineItem = {
+  type: LineItemType;
+  label: string;
+  quantity: number;
+  unitAmount: number;
+  amount: number;
+};
+
+export type PriceQuote = {
+  carId: string;
+  locationId: string;
+  returnLocationId: string;
+  checkIn: Date;
+  checkOut: Date;
+  currency: string;
+  /** Days charged, including the extra day charged for a late return if any */
+  days: number;
+  /** Hours charged on top of the days, for hourly rentals or late returns */
+  hours: number;
+  /**
+   * Months and weeks charged at the car's monthly and weekly rates, which cover the days they are
+   * charged for and may cover a few more when that is cheaper
+   */
+  months: number;
+  weeks: number;
+  /** Effective price per day, after the car's discount and before pricing rules and taxes */
+  pricePerDay: number;
+  /** Nights charged at the daily rate, priced by the pricing rules */
+  nights: NightlyRate[];
+  /** The promo code redeemed, if any */
+  promoCode: string | null;
+  lineItems: QuoteLineItem[];
+  /** Rental price after discounts, add-ons included, before taxes and fees */
+  subtotal: number;
+  taxesAndFees: number;
+  total: number;
+};
+
+export type QuoteInput = {
+  carId: string;
+  /** Pickup location */
+  locationId: string;
+  returnLocationId: string;
+  checkIn: Date;
+  checkOut: Date;
+  addOns?: AddOnSelection[];
+  promoCode?: string;
+};
+
+/**
+ * Units of an add-on to price with a rental
+ */
+export type QuotedAddOn = {
+  addOn: AddOn;
+  quantity: number;
+};
+
+/**
+ * What a rental is priced with besides the car, see {@link calculatePriceQuote}
+ */
+export type QuoteOptions = {
+  /** The fee for the route, required when the car is returned to another location */
+  oneWayFee?: Pick<OneWayFee, "amount" | "currency"> | null;
+  /** The add-ons booked with the rental, priced in the car's currency */
+  addOns?: QuotedAddOn[];
+  /** The promo code redeemed, usage limits are checked when booking */
+  promoCode?: PromoCode | null;
+  pricingRules?: PricingRule[];
+  /** The fleet and bookings of the pickup location, for utilization rules */
+  occupancy?: LocationOccupancy;
+  /** Time zone of the pickup location, which dates the nights of the rental */
+  timeZone?: string;
+  /** When the reservation is made, for lead-time rules and the validity of the promo code */
+  bookedAt?: Date;
+};
+
+/**
+ * Builds an itemized price quote for renting the given car. Rentals are charged by the day, a day
+ * being 24 hours from the pickup time, and the time left past the last full day is charged by the
+ * hour once the grace period is over. Rentals shorter than a day are charged by the hour, at least
+ * the car's minimum hours, when the car offers hourly rentals and a full day otherwise. Hours never
+ * cost more than the day they are part of. Days are charged by the month and the week first, when
+ * the car has monthly and weekly rates, and the days left never cost more than a week or a month.
+ * Nights charged at the daily rate are priced one by one with the pricing rules, weekly and monthly
+ * rates are flat. Add-ons priced per day are charged for every started day. Promo codes only take
+ * their discount off the rental itself, add-ons and fees are charged in full.
+ * @param car The car to rent
+ * @param input The locations, pickup and return times of the rental
+ * @param options The fee, add-ons, promo code and pricing rules of the rental
+ * @returns The price quote, every amount rounded to the car's currency
+ */
+export function calculatePriceQuote(
+  car: Car,
+  input: Omit<QuoteInput, "carId" | "addOns" | "promoCode">,
+  options: QuoteOptions = {}
+): PriceQuote {
+  const { locationId, returnLocationId, checkIn, checkOut } = input;
+  const {
+    oneWayFee,
+    addOns = [],
+    promoCode,
+    pricingRules = [],
+    occupancy,
+    timeZone = DEFAULT_TIMEZONE,
+    bookedAt = new Date(),
+  } = options;
+
+  if (!isAfter(checkOut, checkIn)) {
+    throw new Error("Check out must be after check in");
+  }
+
+  const currency = car.retail_price_currency;
+  const round = (amount: number) => roundAmount(amount, currency);
+
+  const { pricePerDay, pricePerHour } = getDailyAndHourlyPrices(car);
+  const billableTime = getBillableTime(car, checkIn, checkOut, {
+    pricePerDay,
+    pricePerHour,
+  });
+  const { days } = billableTime;
+
+  const durationError = getRentalDurationError(car, days);
+
+  if (durationError) {
+    throw new Error(durationError);
+  }
+
+  const { months, weeks, remainingDays, hours } = getRateTiers(
+    car,
+    billableTime,
+    { pricePerDay, pricePerHour }
+  );
+
+  const lineItems: QuoteLineItem[] = [];
+
+  if (months > 0) {
+    lineItems.push({
+      type: LineItemType.MONTHLY,
+      label: `${months} ${months === 1 ? "month" : "months"}`,
+      quantity: months,
+      unitAmount: car.price_per_month!,
+      amount: round(car.price_per_month! * months),
+    });
+  }
+
+  if (weeks > 0) {
+    lineItems.push({
+      type: LineItemType.WEEKLY,
+      label: `${weeks} ${weeks === 1 ? "week" : "weeks"}`,
+      quantity: weeks,
+      unitAmount: car.price_per_week!,
+      amount: round(car.price_per_week! * weeks),
+    });
+  }
+
+  if (remainingDays > 0) {
+    lineItems.push({
+      type: LineItemType.BASE,
+      label: "Base rental",
+      quantity: remainingDays,
+      unitAmount: car.retail_price_per_day,
+      amount: round(car.retail_price_per_day * remainingDays),
+    });
+  }
+
+  if (remainingDays > 0 && pricePerDay < car.retail_price_per_day) {
+    const discountPerDay = pricePerDay - car.retail_price_per_day;
+
+    lineItems.push({
+      type: LineItemType.DISCOUNT,
+      label: "Discount",
+      quantity: remainingDays,
+      unitAmount: discountPerDay,
+      amount: round(discountPerDay * remainingDays),
+    });
+  }
+
+  // The daily rate applies to the last nights, after the months and weeks
+  const nights = priceNights(
+    pricePerDay,
+    getRentalNights(checkIn, days, timeZone, occupancy).slice(
+      days - remainingDays
+    ),
+    pricingRules,
+    { locationId, days, leadDays: getLeadDays(checkIn, bookedAt) },
+    round
+  );
+  const adjustment = round(
+    nights.reduce((sum, night) => sum + night.amount, 0) -
+      sumLineItems(
+        lineItems.filter(
+          (item) =>
+            item.type === LineItemType.BASE ||
+            item.type === LineItemType.DISCOUNT
+        )
+      )
+  );
+
+  if (adjustment !== 0) {
+    const adjustedNights = nights.filter(
+      (night) => night.adjustments.length > 0
+    ).length;
+    const names = new Set(
+      nights.flatMap((night) => night.adjustments.map(({ name }) => name))
+    );
+
+    lineItems.push({
+      type: LineItemType.ADJUSTMENT,
+      label: `${names.size === 1 ? [...names][0] : "Pricing adjustments"} (${adjustedNights} ${adjustedNights === 1 ? "night" : "nights"})`,
+      quantity: 1,
+      unitAmount: adjustment,
+      amount: adjustment,
+    });
+  }
+
+  if (hours > 0) {
+    const unit = hours === 1 ? "hour" : "hours";
+
+    lineItems.push({
+      type: days > 0 ? LineItemType.EXTRA_TIME : LineItemType.HOURLY,
+      label: days > 0 ? `${hours} extra ${unit}` : `${hours} ${unit}`,
+      quantity: hours,
+      unitAmount: pricePerHour,
+      amount: round(pricePerHour * hours),
+    });
+  }
+
+  if (promoCode) {
+    const promoCodeError = getPromoCodeError(promoCode, {
+      car,
+      locationId,
+      days,
+      bookedAt,
+    });
+
+    if (promoCodeError) {
+      throw new Error(promoCodeError);
+    }
+
+    const discount = round(
+      calculatePromoDiscount(promoCode, sumLineItems(lineItems))
+    );
+
+    lineItems.push({
+      type: LineItemType.PROMO,
+      label: `Promo code ${promoCode.code}`,
+      quantity: 1,
+      unitAmount: -discount,
+      amount: -discount,
+    });
+  }
+
+  const startedDays = Math.max(days + (hours > 0 ? 1 : 0), 1);
+
+  for (const { addOn, quantity } of addOns) {
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new Error(`Invalid quantity of ${addOn.name}`);
+    }
+
+    if (quantity > addOn.max_quantity!) {
+      throw new Error(
+        `At most ${addOn.max_quantity} x ${addOn.name} can be booked per reservation`
+      );
+    }
+
+    if (addOn.currency !== currency) {
+      throw new Error(`${addOn.name} is priced in a different currency`);
+    }
+
+    const units = getAddOnChargedUnits(addOn, quantity, startedDays);
+
+    lineItems.push({
+      type: LineItemType.ADD_ON,
+      label: quantity > 1 ? `${addOn.name} x ${quantity}` : addOn.name,
+      quantity: units,
+      unitAmount: addOn.price,
+      amount: round(addOn.price * units),
+    });
+  }
+
+  const subtotal = round(sumLineItems(lineItems));
+
+  if (returnLocationId !== locationId) {
+    if (!oneWayFee) {
+      throw new Error("The car can't be returned to the selected location");
+    }
+
+    if (oneWayFee.currency !== currency) {
+      throw new Error("The one-way fee is priced in a different currency");
+    }
+
+    lineItems.push({
+      type: LineItemType.FEE,
+      label: "One-way fee",
+      quantity: 1,
+      unitAmount: oneWayFee.amount,
+      amount: round(oneWayFee.amount),
+    });
+  }
+
+  // Fees are taxed like the rental itself
+  const taxable = round(sumLineItems(lineItems));
+
+  lineItems.push({
+    type: LineItemType.TAX,
+    label: `Taxes (${TAX_RATE * 100}%)`,
+    quantity: 1,
+    unitAmount: round(taxable * TAX_RATE),
+    amount: round(taxable * TAX_RATE),
+  });
+
+  const total = round(sumLineItems(lineItems));
+
+  return {
+    carId: car.id!,
+    locationId,
+    returnLocationId,
+    checkIn,
+    checkOut,
+    currency,
+    days,
+    hours,
+    months,
+    weeks,
+    pricePerDay: round(pricePerDay),
+    nights,
+    promoCode: promoCode?.code ?? null,
+    lineItems,
+    subtotal,
+    taxesAndFees: round(total - subtotal),
+    total,
+  };
+}
+
+/**
+ * Prices the car at the daily, hourly, weekly or monthly rates of an earlier quote instead of its
+ * current rates
+ * @param car The car to rent
+ * @param lineItems The line items of the earlier quote, in the car's currency
+ * @returns The car with its prices replaced by the agreed rates
+ */
+export function withAgreedRate(
+  car: Car,
+  lineItems: Pick<QuoteLineItem, "type" | "unitAmount">[]
+): Car {
+  const findItem = (type: LineItemType) =>
+    lineItems.find((item) => item.type === type);
+
+  const base = findItem(LineItemType.BASE);
+  const discount = findItem(LineItemType.DISCOUNT);
+  const hourly = findItem(LineItemType.HOURLY);
+  const weekly = findItem(LineItemType.WEEKLY);
+  const monthly = findItem(LineItemType.MONTHLY);
+
+  if (hourly) {
+    return { ...car, price_per_hour: hourly.unitAmount };
+  }
+
+  const agreed = {
+    ...car,
+    ...(weekly && { price_per_week: weekly.unitAmount }),
+    ...(monthly && { price_per_month: monthly.unitAmount }),
+  };
+
+  if (!base) {
+    return agreed;
+  }
+
+  return {
+    ...agreed,
+    retail_price_per_day: base.unitAmount,
+    discounted_price_per_day:
+      discount ? base.unitAmount + discount.unitAmount : null,
+    discounted_price_currency: null,
+  };
+}
+
+/**
+ * Fetches the car, the one-way fee, the add-ons, the promo code and the pricing rules if any, and
+ * builds an itemized price quote for renting it
+ * @param input The car, locations, dates, add-ons and promo code of the rental
+ * @returns The price quote
+ */
+export async function getPriceQuote(input: QuoteInput) {
+  const [car, location, oneWayFee, addOns, promoCode, dynamicPricing] =
+    await Promise.all([
+      fetchCarById(input.carId),
+      fetchLocationById(input.locationId),
+      fetchOneWayFee(input.locationId, input.returnLocationId),
+      fetchQuotedAddOns(input.addOns ?? []),
+      fetchQuotedPromoCode(input.promoCode),
+      fetchDynamicPricing(input),
+    ]);
+
+  if (!car) {
+    throw new Error("Car not found");
+  }
+
+  return calculatePriceQuote(car, input, {
+    oneWayFee,
+    addOns,
+    promoCode,
+    timeZone: location?.timezone,
+    ...dynamicPricing,
+  });
+}
+
+/**
+ * Fetches the enabled pricing rules of the pickup location, and how busy the location is during
+ * the rental when a rule depends on it
+ * @param excludeReservationId A reservation being modified, which doesn't count towards utilization
+ */
+export async function fetchDynamicPricing(
+  input: Pick<QuoteInput, "locationId" | "checkIn" | "checkOut">,
+  excludeReservationId?: string
+) {
+  const pricingRules = (await fetchPricingRules()).filter(
+    (rule) =>
+      rule.enabled !== false &&
+      (!rule.location_ids?.length ||
+        rule.location_ids.includes(input.locationId))
+  );
+
+  const occupancy =
+    pricingRules.some((rule) => rule.type === PricingRuleType.UTILIZATION) ?
+      await fetchLocationOccupancy(
+        input.locationId,
+        input.checkIn,
+        input.checkOut,
+        excludeReservationId
+      )
+    : undefined;
+
+  return { pricingRules, occupancy };
+}
+
+/**
+ * Fetches the selected add-ons, which must still be offered
+ */
+export async function fetchQuotedAddOns(
+  selections: AddOnSelection[]
+): Promise<QuotedAddOn[]> {
+  const ids = selections.map(({ addOnId }) => addOnId);
+
+  if (new Set(ids).size !== ids.length) {
+    throw new Error("Each add-on can only be selected once");
+  }
+
+  const addOns = await fetchAddOnsByIds(ids);
+
+  return selections.map(({ addOnId, quantity }) => {
+    const addOn = addOns.find(({ id }) => id === addOnId);
+
+    if (!addOn || addOn.retired_at) {
+      throw new Error("One of the selected add-ons is no longer available");
+    }
+
+    return { addOn, quantity };
+  });
+}
+
+/**
+ * Fetches the promo code entered by the customer, matched regardless of case
+ */
+export async function fetchQuotedPromoCode(code?: string) {
+  if (!code?.trim()) {
+    return null;
+  }
+
+  const promoCode = await fetchPromoCodeByCode(normalizePromoCode(code));
+
+  if (!promoCode) {
+    throw new Error("This promo code doesn't exist");
+  }
+
+  return promoCode;
+}
+
+/**
+ * Splits the days of a rental into the months and weeks charged at the car's monthly and weekly
+ * rates and the days left, charged at the daily rate. The days and hours left are charged as one
+ * more week, and the weeks as one more month, once they would cost as much.
+ * @param car The car, for its weekly and monthly rates
+ * @param billableTime The days and hours to charge
+ * @param prices The effective daily and hourly prices
+ * @returns The number of months, weeks, days and hours to charge
+ */
+function getRateTiers(
+  car: Car,
+  billableTime: { days: number; hours: number },
+  prices: { pricePerDay: number; pricePerHour: number }
+) {
+  const pricePerWeek = car.price_per_week;
+  const pricePerMonth = car.price_per_month;
+
+  let { days: remainingDays, hours } = billableTime;
+  let months = 0;
+  let weeks = 0;
+
+  if (pricePerMonth) {
+    months = Math.floor(remainingDays / DAYS_PER_MONTH);
+    remainingDays -= months * DAYS_PER_MONTH;
+  }
+
+  if (pricePerWeek) {
+    weeks = Math.floor(remainingDays / DAYS_PER_WEEK);
+    remainingDays -= weeks * DAYS_PER_WEEK;
+
+    const restPrice =
+      remainingDays * prices.pricePerDay + hours * prices.pricePerHour;
+
+    if (restPrice > 0 && restPrice >= pricePerWeek) {
+      weeks += 1;
+      remainingDays = 0;
+      hours = 0;
+    }
+  }
+
+  if (pricePerMonth) {
+    const restPrice =
+      weeks * (pricePerWeek ?? 0) +
+      remainingDays * prices.pricePerDay +
+      hours * prices.pricePerHour;
+
+    if (restPrice > 0 && restPrice >= pricePerMonth) {
+      months += 1;
+      weeks = 0;
+      remainingDays = 0;
+      hours = 0;
+    }
+  }
+
+  return { months, weeks, remainingDays, hours };
+}
+
+function sumLineItems(lineItems: QuoteLineItem[]) {
+  return lineItems.reduce((sum, item) => sum + item.amount, 0);
+}
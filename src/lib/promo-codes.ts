@@ -0,0 +1,142 @@
+import type { Car, PromoCode } from "./db/definitions";
+
+import { PromoDiscountType } from "./enums";
+import { formatCurrency, slugify } from "./utils";
+
+/**
+ * A booking checked against the conditions of a promo code
+ */
+export type PromoCodeBooking = {
+  car: Pick<Car, "id" | "body_style" | "retail_price_currency">;
+  /** Pickup location */
+  locationId: string;
+  /** Days the rental is charged for */
+  days: number;
+  /** When the reservation is made, the validity window applies to it rather than to the rental */
+  bookedAt: Date;
+};
+
+/**
+ * Reservations made with the code, overall and by the customer redeeming it
+ */
+export type PromoCodeUsage = {
+  total: number;
+  byUser: number;
+};
+
+/**
+ * Promo codes are matched regardless of case and surrounding spaces
+ */
+export function normalizePromoCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Describes the discount of a promo code, e.g. "10% off" or "₹500 off"
+ */
+export function describePromoDiscount(
+  promoCode: Pick<PromoCode, "discount_type" | "discount_value" | "currency">
+) {
+  return promoCode.discount_type === PromoDiscountType.PERCENTAGE ?
+      `${promoCode.discount_value}% off`
+    : `${formatCurrency(promoCode.discount_value, promoCode.currency ?? null)} off`;
+}
+
+/**
+ * Checks that a promo code can be redeemed for a booking, usage limits aside
+ * @returns Why the code doesn't apply, or `null`
+ */
+export function getPromoCodeError(
+  promoCode: PromoCode,
+  booking: PromoCodeBooking
+) {
+  const { car, locationId, days, bookedAt } = booking;
+
+  if (promoCode.retired_at && promoCode.retired_at <= bookedAt) {
+    return "This promo code is no longer valid";
+  }
+
+  if (promoCode.valid_from && bookedAt < promoCode.valid_from) {
+    return "This promo code is not valid yet";
+  }
+
+  if (promoCode.valid_until && bookedAt > promoCode.valid_until) {
+    return "This promo code has expired";
+  }
+
+  if (promoCode.min_rental_days && days < promoCode.min_rental_days) {
+    return `This promo code requires a rental of at least ${promoCode.min_rental_days} days`;
+  }
+
+  if (promoCode.car_ids?.length && !promoCode.car_ids.includes(car.id!)) {
+    return "This promo code doesn't apply to this car";
+  }
+
+  if (
+    promoCode.body_styles?.length &&
+    !promoCode.body_styles.includes(slugify(car.body_style))
+  ) {
+    return "This promo code doesn't apply to this type of car";
+  }
+
+  if (
+    promoCode.location_ids?.length &&
+    !promoCode.location_ids.includes(locationId)
+  ) {
+    return "This promo code doesn't apply at this pickup location";
+  }
+
+  if (
+    promoCode.discount_type === PromoDiscountType.FIXED &&
+    promoCode.currency !== car.retail_price_currency
+  ) {
+    return "This promo code can't be used with this car's currency";
+  }
+
+  return null;
+}
+
+/**
+ * Checks that a promo code hasn't been redeemed as many times as it allows
+ * @returns Why the code can't be redeemed again, or `null`
+ */
+export function getPromoCodeUsageError(
+  promoCode: Pick<PromoCode, "max_redemptions" | "max_redemptions_per_user">,
+  usage: PromoCodeUsage
+) {
+  if (
+    promoCode.max_redemptions !== null &&
+    promoCode.max_redemptions !== undefined &&
+    usage.total >= promoCode.max_redemptions
+  ) {
+    return "This promo code has been fully redeemed";
+  }
+
+  if (
+    promoCode.max_redemptions_per_user !== null &&
+    promoCode.max_redemptions_per_user !== undefined &&
+    usage.byUser >= promoCode.max_redemptions_per_user
+  ) {
+    return "You have already used this promo code";
+  }
+
+  return null;
+}
+
+/**
+ * Calculates the discount of a promo code, which never exceeds the discounted amount
+ * @param promoCode The promo code
+ * @param amount The amount the discount applies to
+ * @returns The discount, a positive amount
+ */
+export function calculatePromoDiscount(
+  promoCode: Pick<PromoCode, "discount_type" | "discount_value">,
+  amount: number
+) {
+  const discount =
+    promoCode.discount_type === PromoDiscountType.PERCENTAGE ?
+      (amount * promoCode.discount_value) / 100
+    : promoCode.discount_value;
+
+  return Math.max(Math.min(discount, amount), 0);
+}
@@ -0,0 +1,253 @@
+import { differenceInMinutes } from "date-fns";
+
+import type { Car } from "./db/definitions";
+import type { Translate } from "./i18n/translator";
+
+import { roundAmount } from "./currency";
+import { LineItemType } from "./enums";
+import { DEFAULT_LOCALE } from "./i18n/config";
+import { createTranslator } from "./i18n/translator";
+
+/**
+ * Longest rental that can be booked in one reservation, unless the car offers a monthly rate.
+ */
+export const MAX_RENTAL_DAYS = 30;
+
+export const DAYS_PER_WEEK = 7;
+
+/**
+ * Days charged at a car's monthly rate, and length of a billing period of long-term rentals.
+ */
+export const DAYS_PER_MONTH = 30;
+
+/**
+ * Longest long-term rental, for cars that offer a monthly rate.
+ */
+export const MAX_RENTAL_MONTHS = 12;
+
+/**
+ * Longest rental that can be booked in one reservation of any car.
+ */
+export const MAX_LONG_TERM_RENTAL_DAYS = MAX_RENTAL_MONTHS * DAYS_PER_MONTH;
+
+/**
+ * Shortest long-term rental of cars that don't set their own minimum term.
+ */
+export const DEFAULT_MIN_RENTAL_MONTHS = 1;
+
+/**
+ * Units of the period charged by the line items priced at a rate per period
+ */
+const RATE_PERIODS: Partial<Record<LineItemType, "day" | "week" | "month">> = {
+  [LineItemType.BASE]: "day",
+  [LineItemType.WEEKLY]: "week",
+  [LineItemType.MONTHLY]: "month",
+};
+
+/**
+ * Shortest hourly rental of cars that don't set their own minimum.
+ */
+export const DEFAULT_MIN_RENTAL_HOURS = 2;
+
+/**
+ * Minutes a car can be returned past the last full day without being charged for it.
+ */
+export const LATE_RETURN_GRACE_MINUTES = 59;
+
+/**
+ * Share of the daily price charged for every started hour past the last full day, for cars without
+ * an hourly price. Extra hours are replaced by a full extra day once they would cost as much.
+ */
+export const EXTRA_HOUR_RATE = 0.15;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+type BillablePrices = { pricePerDay: number; pricePerHour: number };
+
+/**
+ * Whether the car can be rented by the hour for trips shorter than a day
+ */
+export function offersHourlyRentals(car: Pick<Car, "price_per_hour">) {
+  return !!car.price_per_hour;
+}
+
+/**
+ * Returns the hours charged at least for an hourly rental of the car
+ */
+export function getMinRentalHours(car: Pick<Car, "min_rental_hours">) {
+  return car.min_rental_hours ?? DEFAULT_MIN_RENTAL_HOURS;
+}
+
+/**
+ * Whether the car can be rented for longer than {@link MAX_RENTAL_DAYS}, at its monthly rate
+ */
+export function offersLongTermRentals(car: Pick<Car, "price_per_month">) {
+  return !!car.price_per_month;
+}
+
+/**
+ * Returns the months a long-term rental of the car lasts at least
+ */
+export function getMinRentalMonths(car: Pick<Car, "min_rental_months">) {
+  return car.min_rental_months ?? DEFAULT_MIN_RENTAL_MONTHS;
+}
+
+/**
+ * Returns the longest rental of the car that can be booked in one reservation
+ */
+export function getMaxRentalDays(car: Pick<Car, "price_per_month">) {
+  return offersLongTermRentals(car) ?
+      MAX_LONG_TERM_RENTAL_DAYS
+    : MAX_RENTAL_DAYS;
+}
+
+/**
+ * Returns the effective daily price of the car, after its discount, and the price of an hour
+ */
+export function getDailyAndHourlyPrices(
+  car: Pick<
+    Car,
+    | "retail_price_per_day"
+    | "retail_price_currency"
+    | "discounted_price_per_day"
+    | "discounted_price_currency"
+    | "price_per_hour"
+  >
+): BillablePrices {
+  const currency = car.retail_price_currency;
+
+  // Discounted prices in another currency can't be compared, ignore them
+  const discountedPrice =
+    (
+      !car.discounted_price_currency ||
+      car.discounted_price_currency === currency
+    ) ?
+      car.discounted_price_per_day
+    : null;
+
+  const pricePerDay =
+    discountedPrice && discountedPrice < car.retail_price_per_day ?
+      discountedPrice
+    : car.retail_price_per_day;
+
+  const pricePerHour = roundAmount(
+    car.price_per_hour ?? pricePerDay * EXTRA_HOUR_RATE,
+    currency
+  );
+
+  return { pricePerDay, pricePerHour };
+}
+
+/**
+ * Splits a rental into the full days and hours it is charged for, the same on the server and in
+ * the booking forms
+ * @param car The car, for its hourly rental terms and prices
+ * @param checkIn The pickup time
+ * @param checkOut The return time
+ * @param prices The effective daily and hourly prices, to tell when hours cost more than a day,
+ * the car's own by default
+ * @returns The number of days and hours to charge
+ */
+export function getBillableTime(
+  car: Parameters<typeof getDailyAndHourlyPrices>[0] &
+    Pick<Car, "min_rental_hours">,
+  checkIn: Date,
+  checkOut: Date,
+  prices: BillablePrices = getDailyAndHourlyPrices(car)
+) {
+  const minutes = differenceInMinutes(checkOut, checkIn);
+  const fullDays = Math.floor(minutes / MINUTES_PER_DAY);
+  const extraMinutes = minutes - fullDays * MINUTES_PER_DAY;
+
+  if (fullDays > 0 && extraMinutes <= LATE_RETURN_GRACE_MINUTES) {
+    return { days: fullDays, hours: 0 };
+  }
+
+  if (fullDays === 0 && !offersHourlyRentals(car)) {
+    return { days: 1, hours: 0 };
+  }
+
+  const hours =
+    fullDays === 0 ?
+      Math.max(Math.ceil(extraMinutes / 60), getMinRentalHours(car))
+    : Math.ceil(extraMinutes / 60);
+
+  // Hours are capped at the price of a day
+  if (hours * prices.pricePerHour >= prices.pricePerDay) {
+    return { days: fullDays + 1, hours: 0 };
+  }
+
+  return { days: fullDays, hours };
+}
+
+/**
+ * Checks that a rental of the car is neither too long nor shorter than the car's minimum term
+ * @param car The car to rent
+ * @param days The days of the rental
+ * @param t Translates the message, in English by default
+ * @returns Why the car can't be rented for that long, or `null`
+ */
+export function getRentalDurationError(
+  car: Pick<Car, "price_per_month" | "min_rental_months">,
+  days: number,
+  t: Translate = createTranslator(DEFAULT_LOCALE)
+) {
+  const maxDays = getMaxRentalDays(car);
+
+  if (days > maxDays) {
+    return t("rentalDuration.maxDays", { days: maxDays });
+  }
+
+  const minMonths = getMinRentalMonths(car);
+
+  if (days > MAX_RENTAL_DAYS && days < minMonths * DAYS_PER_MONTH) {
+    return t("rentalDuration.minMonths", {
+      days: MAX_RENTAL_DAYS,
+      count: minMonths,
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Whether the line item charges a number of days, weeks or months at a rate per period, the other
+ * line items are described by their label
+ */
+export function isRateLineItem(type: LineItemType) {
+  return type in RATE_PERIODS;
+}
+
+/**
+ * Describes the periods charged by a line item priced at a rate per period, e.g. "3 weeks"
+ * @param t Translates the description, in English by default
+ */
+export function formatRatePeriod(
+  type: LineItemType,
+  quantity: number,
+  t: Translate = createTranslator(DEFAULT_LOCALE)
+) {
+  return t(`units.${RATE_PERIODS[type] ?? "day"}`, { count: quantity });
+}
+
+/**
+ * Describes how long a rental is charged for
+ * @param days The full days charged
+ * @param hours The hours charged on top of the days
+ * @param t Translates the description, in English by default
+ * @returns The duration, e.g. "2 days and 3 hours" or "5 hours"
+ */
+export function formatDuration(
+  days: number,
+  hours: number,
+  t: Translate = createTranslator(DEFAULT_LOCALE)
+) {
+  const dayPart = days > 0 ? t("units.day", { count: days }) : "";
+  const hourPart = hours > 0 ? t("units.hour", { count: hours }) : "";
+
+  if (dayPart && hourPart) {
+    return t("units.and", { first: dayPart, second: hourPart });
+  }
+
+  return dayPart || hourPart;
+}
@@ -0,0 +1,98 @@
+import { ReservationStatus } from "./enums";
+
+/**
+ * Statuses in which a reservation holds its car for the reserved dates. Any other status frees the
+ * car up again for new bookings.
+ *
+ * NOTE: keep in sync with the `no_overlap` exclusion constraint on rental reservations.
+ */
+export const BLOCKING_RESERVATION_STATUSES = [
+  ReservationStatus.PENDING,
+  ReservationStatus.CONFIRMED,
+  ReservationStatus.ACTIVE,
+];
+
+/**
+ * How long a pending reservation holds its car, add-ons and promo code while it waits to be paid
+ * for. Unpaid reservations are cancelled after that.
+ */
+export const PAYMENT_HOLD_MINUTES = 30;
+
+/**
+ * Pending reservations made before this time were not paid for in time
+ */
+export function getPaymentHoldCutoff(now = new Date()) {
+  return new Date(+now - PAYMENT_HOLD_MINUTES * 60 * 1000);
+}
+
+/**
+ * Statuses in which the customer can still change or cancel their reservation.
+ */
+export const MODIFIABLE_RESERVATION_STATUSES = [
+  ReservationStatus.PENDING,
+  ReservationStatus.CONFIRMED,
+];
+
+/**
+ * Statuses in which what is left to pay can be paid after booking, e.g. billed installments or the
+ * rise in price of a modification. Pending reservations are paid for at booking time.
+ */
+export const PAYABLE_RESERVATION_STATUSES = [
+  ReservationStatus.CONFIRMED,
+  ReservationStatus.ACTIVE,
+  ReservationStatus.COMPLETED,
+];
+
+export const RESERVATION_STATUS_LABELS: Record<ReservationStatus, string> = {
+  [ReservationStatus.PENDING]: "Pending confirmation",
+  [ReservationStatus.CONFIRMED]: "Confirmed",
+  [ReservationStatus.ACTIVE]: "In progress",
+  [ReservationStatus.COMPLETED]: "Completed",
+  [ReservationStatus.CANCELLED]: "Cancelled",
+  [ReservationStatus.NO_SHOW]: "No-show",
+};
+
+/**
+ * Allowed moves through the reservation lifecycle:
+ * pending → confirmed → active → completed, with cancelled and no-show as early exits.
+ */
+const RESERVATION_STATUS_TRANSITIONS: Record<
+  ReservationStatus,
+  ReservationStatus[]
+> = {
+  [ReservationStatus.PENDING]: [
+    ReservationStatus.CONFIRMED,
+    ReservationStatus.CANCELLED,
+  ],
+  [ReservationStatus.CONFIRMED]: [
+    ReservationStatus.ACTIVE,
+    ReservationStatus.CANCELLED,
+    ReservationStatus.NO_SHOW,
+  ],
+  [ReservationStatus.ACTIVE]: [ReservationStatus.COMPLETED],
+  [ReservationStatus.COMPLETED]: [],
+  [ReservationStatus.CANCELLED]: [],
+  [ReservationStatus.NO_SHOW]: [],
+};
+
+/**
+ * Checks whether a reservation may move from one status to another
+ * @param from The current status of the reservation
+ * @param to The status to move the reservation to
+ * @returns `true` if the transition is allowed
+ */
+export function canTransitionReservation(
+  from: ReservationStatus,
+  to: ReservationStatus
+) {
+  return RESERVATION_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Checks whether a reservation in the given status holds its car
+ * @param status The status of the reservation
+ * @returns `true` if the car is unavailable for the reserved dates
+ */
+export function isBlockingReservation(status: ReservationStatus) {
+  return BLOCKING_RESERVATION_STATUSES.includes(status);
+}
@@ -1,3 +1,5 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { dirname, resolve, sep } from "path";
 import { createClient } from "@supabase/supabase-js";
 
 import { env } from "./env";
@@ -13,57 +15,121 @@ export const supabase =
 export const STORAGE_BUCKET = "urban-wheels";
 
 /**
- * Upload a file to Supabase Storage
+ * Route that serves files from the local storage directory, see `src/app/uploads`.
+ */
+export const LOCAL_STORAGE_ROUTE = "/uploads";
+
+type StorageAdapter = {
+  upload: (
+    path: string,
+    file: File | Blob | Buffer,
+    contentType?: string
+  ) => Promise<void>;
+  getPublicUrl: (path: string) => string;
+  remove: (path: string) => Promise<void>;
+};
+
+const supabaseStorage = (
+  client: NonNullable<typeof supabase>
+): StorageAdapter => ({
+  async upload(path, file, contentType) {
+    const { error } = await client.storage
+      .from(STORAGE_BUCKET)
+      .upload(path, file, {
+        contentType,
+        upsert: true,
+      });
+
+    if (error) {
+      throw error;
+    }
+  },
+
+  getPublicUrl(path) {
+    const { data } = client.storage.from(STORAGE_BUCKET).getPublicUrl(path);
+
+    return data.publicUrl;
+  },
+
+  async remove(path) {
+    const { error } = await client.storage.from(STORAGE_BUCKET).remove([path]);
+
+    if (error) {
+      throw error;
+    }
+  },
+});
+
+/**
+ * Stores files on disk, for development and self-hosting without Supabase
+ */
+const fileSystemStorage: StorageAdapter = {
+  async upload(filePath, file) {
+    const absolutePath = resolveLocalPath(filePath);
+    const data =
+      Buffer.isBuffer(file) ? file : Buffer.from(await file.arrayBuffer());
+
+    await mkdir(dirname(absolutePath), { recursive: true });
+    await writeFile(absolutePath, data);
+  },
+
+  getPublicUrl(filePath) {
+    return `${LOCAL_STORAGE_ROUTE}/${filePath}`;
+  },
+
+  async remove(filePath) {
+    await rm(resolveLocalPath(filePath), { force: true });
+  },
+};
+
+const storage = supabase ? supabaseStorage(supabase) : fileSystemStorage;
+
+/**
+ * Resolves a storage path inside the local storage directory, rejecting paths that escape it
+ */
+function resolveLocalPath(filePath: string) {
+  const root = resolve(env.LOCAL_STORAGE_DIR);
+  const absolutePath = resolve(root, filePath);
+
+  if (!absolutePath.startsWith(root + sep)) {
+    throw new Error(`Invalid storage path: ${filePath}`);
+  }
+
+  return absolutePath;
+}
+
+/**
+ * Upload a file to Supabase Storage, or to the local storage directory
  */
 export async function uploadFile(
   path: string,
   file: File | Blob | Buffer,
   contentType?: string
 ) {
-  if (!supabase) {
-    throw new Error("Supabase not configured");
-  }
-
-  const { data, error } = await supabase.storage
-    .from(STORAGE_BUCKET)
-    .upload(path, file, {
-      contentType,
-      upsert: true,
-    });
-
-  if (error) {
-    throw error;
-  }
+  await storage.upload(path, file, contentType);
 
-  return data;
+  return { path };
 }
 
 /**
  * Get a public URL for a file
  */
 export function getPublicUrl(path: string) {
-  if (!supabase) {
-    throw new Error("Supabase not configured");
-  }
-
-  const { data } = supabase.storage.from(STORAGE_BUCKET).getPublicUrl(path);
-
-  return data.publicUrl;
+  return storage.getPublicUrl(path);
 }
 
 /**
  * Delete a file from storage
  */
 export async function deleteFile(path: string) {
-  if (!supabase) {
-    throw new Error("Supabase not configured");
-  }
-
-  const { error } = await supabase.storage.from(STORAGE_BUCKET).remove([path]);
+  await storage.remove(path);
+}
 
-  if (error) {
-    throw error;
-  }
+/**
+ * Read a file from the local storage directory
+ */
+export async function readLocalFile(path: string) {
+  return readFile(resolveLocalPath(path));
 }
 
 /**
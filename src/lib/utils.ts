@@ -3,9 +3,12 @@ import { twMerge } from "tailwind-merge";
 
 import type { ClassValue } from "clsx";
 import type { ReadonlyURLSearchParams } from "next/navigation";
+import type { Locale } from "@/lib/i18n/config";
 
 import { siteConfig } from "@/config/site";
+import { BASE_CURRENCY } from "@/lib/currency";
 import { env } from "@/lib/env";
+import { DEFAULT_LOCALE, INTL_LOCALES } from "@/lib/i18n/config";
 
 /**
  * Merges the given class names with the tailwind classes
@@ -83,38 +86,87 @@ export const createUrl = (
  * Formats the given amount to the given currency
  * @param amount The amount to format
  * @param currency The currency to format the amount to
+ * @param locale The locale to format the amount in
  * @returns The formatted amount
  */
-export const formatCurrency = (amount: number, currency: string | null) => {
-  return amount.toLocaleString("en-US", {
+export const formatCurrency = (
+  amount: number,
+  currency: string | null,
+  locale: Locale = DEFAULT_LOCALE
+) => {
+  return amount.toLocaleString(INTL_LOCALES[locale], {
     style: "currency",
-    currency: currency ?? "USD",
+    currency: currency ?? BASE_CURRENCY,
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   });
 };
 
-function formatDate(dateString: string): string {
-  const date = new Date(dateString);
-  return `${date.toLocaleDateString("en-US", {
+/**
+ * Formats the days of a rental, sharing the month when both days are in it
+ * @param start The pickup time
+ * @param end The return time
+ * @param timeZone The time zone to read the days in
+ * @param locale The locale to format the days in
+ * @returns The days, e.g. "19–25 Oct" or "28 Oct – 3 Nov"
+ */
+export function formatDateRange(
+  start: Date | string,
+  end: Date | string,
+  timeZone?: string,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    timeZone,
     month: "short",
-  })} ${date.getDate()}`;
+    day: "numeric",
+  }).formatRange(new Date(start), new Date(end));
 }
 
-export function formatDates(checkin: string, checkout: string): string {
-  const formattedCheckin = formatDate(checkin);
-  const formattedCheckout = formatDate(checkout);
-
-  // Check if both dates share the same month
-  const checkinMonth = new Date(checkin).getMonth();
-  const checkoutMonth = new Date(checkout).getMonth();
-  const sameMonth = checkinMonth === checkoutMonth;
+/**
+ * Formats a pickup or return time as shown on the clocks of the location
+ * @param date The pickup or return time
+ * @param timeZone The time zone of the location
+ * @param locale The locale to format the time in
+ * @returns The date and time, e.g. "19 Oct, 10:00"
+ */
+export function formatDateTime(
+  date: Date,
+  timeZone?: string,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  return date.toLocaleString(INTL_LOCALES[locale], {
+    timeZone,
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+}
 
-  if (sameMonth) {
-    return `${formattedCheckin} – ${new Date(checkout).getDate()}`;
-  } else {
-    return `${formattedCheckin} – ${formattedCheckout}`;
-  }
+/**
+ * Formats a pickup or return time in full, with the weekday and the year
+ * @param date The pickup or return time
+ * @param timeZone The time zone of the location
+ * @param locale The locale to format the time in
+ * @returns The date and time, e.g. "Mon, 19 Oct 2026, 10:00"
+ */
+export function formatFullDateTime(
+  date: Date,
+  timeZone?: string,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    timeZone,
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(new Date(date));
 }
 
 /**
@@ -160,11 +212,11 @@ export async function getGitHubStars(): Promise<string | null> {
  */
 export function slugify(str: string) {
   return str
+    .toLowerCase() // convert string to lowercase
+    .trim()
     .replace(/\s+/g, "-") // replace spaces with hyphens
     .replace(/[^a-z0-9-]/g, "") // remove any non-alphanumeric characters
     .replace(/-+/g, "-") // remove consecutive hyphens
     .replace(/^-+/, "") // trim leading hyphens
-    .replace(/-+$/, "") // trim trailing hyphens
-    .toLowerCase()
-    .trim(); // convert string to lowercase
+    .replace(/-+$/, ""); // trim trailing hyphens
 }
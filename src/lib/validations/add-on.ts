@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+import { AddOnPricing } from "@/lib/enums";
+import { optional } from "./helpers";
+
+export const AddOnFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  description: optional(z.string().trim()),
+  pricing: z.nativeEnum(AddOnPricing, {
+    errorMap: () => ({ message: "Pricing must be per day or per rental" }),
+  }),
+  price: z.coerce
+    .number()
+    .int("Price must be a whole number")
+    .min(0, "Price can't be negative"),
+  currency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{3}$/, "Currency must be a 3 letter ISO code"),
+  max_quantity: z.coerce
+    .number()
+    .int("Maximum quantity must be a whole number")
+    .min(1, "Maximum quantity must be at least 1")
+    .max(10, "Maximum quantity must be at most 10"),
+  /** Retired add-ons can no longer be booked */
+  retired: z.boolean(),
+  /** Locations without units don't offer the add-on */
+  stock: z.array(
+    z.object({
+      location_id: z.string().uuid(),
+      quantity: optional(
+        z.coerce
+          .number({ invalid_type_error: "Stock must be a number" })
+          .int("Stock must be a whole number")
+          .min(0, "Stock can't be negative")
+      ),
+    })
+  ),
+});
+
+export type AddOnFormValues = z.input<typeof AddOnFormSchema>;
@@ -0,0 +1,243 @@
+import { z } from "zod";
+
+import { BodyStyle, EngineType, Transmission } from "@/lib/enums";
+import { DEFAULT_LOCALE, LOCALES } from "@/lib/i18n/config";
+import {
+  DAYS_PER_MONTH,
+  DAYS_PER_WEEK,
+  MAX_RENTAL_MONTHS,
+} from "@/lib/rental-duration";
+import { slugify } from "@/lib/utils";
+import { optional } from "./helpers";
+
+/**
+ * Body styles, engine types and transmissions are stored by name (e.g. "Sports Car") and matched
+ * by slug against the enums when filtering, so only names that slugify to a known value are valid
+ */
+function oneOf(values: string[], message: string) {
+  return z
+    .string()
+    .trim()
+    .refine((value) => values.includes(slugify(value)), { message });
+}
+
+/**
+ * Multiline inputs are edited as one entry per line, blank lines are dropped
+ * @param message The error when no entry is left, entries are optional without it
+ */
+function lines(message?: string) {
+  const entries = z
+    .array(z.string())
+    .transform((values) => values.map((value) => value.trim()).filter(Boolean));
+
+  return message ? entries.pipe(z.array(z.string()).min(1, message)) : entries;
+}
+
+/**
+ * Absolute URLs, or paths served by the app itself such as local uploads
+ */
+function imageUrl() {
+  return z
+    .string()
+    .trim()
+    .refine((value) => /^(https?:\/\/|\/)\S+$/.test(value), {
+      message: "Image must be a valid URL",
+    });
+}
+
+export const CAR_IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/avif",
+];
+
+export const MAX_CAR_IMAGE_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Uploaded images are stored under a folder named after a hash of their content
+ */
+export const CAR_IMAGE_PATH_PATTERN = /^cars\/[0-9a-f]{16}$/;
+
+export const CarImageFileSchema = z
+  .instanceof(File, { message: "Please choose an image" })
+  .refine((file) => CAR_IMAGE_TYPES.includes(file.type), {
+    message: "Image must be a JPEG, PNG, WebP or AVIF file",
+  })
+  .refine((file) => file.size <= MAX_CAR_IMAGE_SIZE, {
+    message: `Image must be smaller than ${MAX_CAR_IMAGE_SIZE / 1024 / 1024} MB`,
+  });
+
+export const CarFormSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required"),
+    /** Generated from the name when left empty */
+    slug: z
+      .string()
+      .trim()
+      .transform((value) => slugify(value)),
+    location_id: z.string().uuid("Location is required"),
+    body_style: oneOf(Object.values(BodyStyle), "Unknown body style"),
+    engine_type: oneOf(Object.values(EngineType), "Unknown engine type"),
+    transmission: oneOf(Object.values(Transmission), "Unknown transmission"),
+    seats: z.coerce
+      .number()
+      .int("Seats must be a whole number")
+      .min(1, "At least 1 seat is required")
+      .max(15, "At most 15 seats are allowed"),
+    descriptions: lines("At least one description is required"),
+    features: lines("At least one feature is required"),
+    rating: z.coerce
+      .number()
+      .min(0, "Rating must be between 0 and 5")
+      .max(5, "Rating must be between 0 and 5"),
+    reviews: z.coerce
+      .number()
+      .int("Reviews must be a whole number")
+      .min(0, "Reviews can't be negative"),
+    unlimited_mileage: z.boolean(),
+    image_url: imageUrl(),
+    /** Set when the image was uploaded rather than linked */
+    image_path: optional(
+      z.string().regex(CAR_IMAGE_PATH_PATTERN, "Invalid image path")
+    ),
+    retail_price_per_day: z.coerce
+      .number()
+      .int("Price must be a whole number")
+      .positive("Price must be greater than 0"),
+    retail_price_currency: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z]{3}$/, "Currency must be a 3 letter ISO code"),
+    /** Charged in the retail currency */
+    discounted_price_per_day: optional(
+      z.coerce
+        .number()
+        .int("Discounted price must be a whole number")
+        .positive("Discounted price must be greater than 0")
+    ),
+    /** Charged in the retail currency, the car is only rented by the day when empty */
+    price_per_hour: optional(
+      z.coerce
+        .number()
+        .int("Hourly price must be a whole number")
+        .positive("Hourly price must be greater than 0")
+    ),
+    min_rental_hours: optional(
+      z.coerce
+        .number()
+        .int("Minimum hours must be a whole number")
+        .min(1, "Minimum hours must be at least 1")
+        .max(23, "Minimum hours must be less than a day")
+    ),
+    /** Charged in the retail currency for every 7 days */
+    price_per_week: optional(
+      z.coerce
+        .number()
+        .int("Weekly price must be a whole number")
+        .positive("Weekly price must be greater than 0")
+    ),
+    /** Charged in the retail currency for every 30 days, the car can't be rented longer when empty */
+    price_per_month: optional(
+      z.coerce
+        .number()
+        .int("Monthly price must be a whole number")
+        .positive("Monthly price must be greater than 0")
+    ),
+    min_rental_months: optional(
+      z.coerce
+        .number()
+        .int("Minimum term must be a whole number of months")
+        .min(1, "Minimum term must be at least 1 month")
+        .max(
+          MAX_RENTAL_MONTHS,
+          `Minimum term must be at most ${MAX_RENTAL_MONTHS} months`
+        )
+    ),
+    cancellation_policy_id: optional(z.string().uuid()),
+    /** Held in the retail currency, the deposit of the body style applies when empty */
+    deposit_amount: optional(
+      z.coerce
+        .number()
+        .int("Deposit must be a whole number")
+        .min(0, "Deposit can't be negative")
+    ),
+  })
+  .refine(
+    ({ discounted_price_per_day, retail_price_per_day }) =>
+      discounted_price_per_day === null ||
+      discounted_price_per_day < retail_price_per_day,
+    {
+      message: "Discounted price must be lower than the retail price",
+      path: ["discounted_price_per_day"],
+    }
+  )
+  .refine(
+    ({ price_per_hour, retail_price_per_day }) =>
+      price_per_hour === null || price_per_hour < retail_price_per_day,
+    {
+      message: "Hourly price must be lower than the price per day",
+      path: ["price_per_hour"],
+    }
+  )
+  .refine(
+    ({ price_per_week, retail_price_per_day }) =>
+      price_per_week === null ||
+      price_per_week < retail_price_per_day * DAYS_PER_WEEK,
+    {
+      message: `Weekly price must be lower than ${DAYS_PER_WEEK} days at the price per day`,
+      path: ["price_per_week"],
+    }
+  )
+  .refine(
+    ({ price_per_month, retail_price_per_day }) =>
+      price_per_month === null ||
+      price_per_month < retail_price_per_day * DAYS_PER_MONTH,
+    {
+      message: `Monthly price must be lower than ${DAYS_PER_MONTH} days at the price per day`,
+      path: ["price_per_month"],
+    }
+  );
+
+export type CarFormValues = z.input<typeof CarFormSchema>;
+
+export const CarImageSchema = z.object({
+  url: imageUrl(),
+  /** Set when the image was uploaded rather than linked */
+  path: optional(
+    z.string().regex(CAR_IMAGE_PATH_PATTERN, "Invalid image path")
+  ),
+  alt_text: z
+    .string()
+    .trim()
+    .min(1, "Alt text is required")
+    .max(200, "Alt text must be at most 200 characters"),
+});
+
+export type CarImageValues = z.input<typeof CarImageSchema>;
+
+/**
+ * Descriptions and features of a car in the languages other than English, which are edited with
+ * the car itself. Empty lists are shown in English.
+ */
+export const CarTranslationsSchema = z.object({
+  translations: z
+    .array(
+      z.object({
+        locale: z
+          .enum(LOCALES)
+          .refine((locale) => locale !== DEFAULT_LOCALE, "Unknown language"),
+        descriptions: lines(),
+        features: lines(),
+      })
+    )
+    .refine(
+      (translations) =>
+        new Set(translations.map(({ locale }) => locale)).size ===
+        translations.length,
+      "Each language can only be translated once"
+    ),
+});
+
+export type CarTranslationsValues = z.input<typeof CarTranslationsSchema>;
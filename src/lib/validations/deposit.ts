@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+import { BodyStyle } from "@/lib/enums";
+import { optional } from "./helpers";
+
+export const BodyStyleDepositsFormSchema = z.object({
+  /** All body styles are priced in the same currency */
+  currency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{3}$/, "Currency must be a 3 letter ISO code"),
+  /** Body styles without an amount take no deposit */
+  deposits: z.array(
+    z.object({
+      body_style: z.nativeEnum(BodyStyle, {
+        errorMap: () => ({ message: "Unknown body style" }),
+      }),
+      amount: optional(
+        z.coerce
+          .number({ invalid_type_error: "Deposits must be numbers" })
+          .int("Deposits must be whole numbers")
+          .positive("Deposits must be greater than 0")
+      ),
+    })
+  ),
+});
+
+export type BodyStyleDepositsFormValues = z.input<
+  typeof BodyStyleDepositsFormSchema
+>;
+
+export const DepositCaptureFormSchema = z.object({
+  /** Kept from the deposit, in the currency's major unit */
+  amount: z
+    .string()
+    .trim()
+    .min(1, "Amount is required")
+    .pipe(
+      z.coerce
+        .number({ invalid_type_error: "Amount must be a number" })
+        .positive("Amount must be greater than 0")
+    ),
+  reason: z.string().trim().min(1, "Reason is required"),
+});
+
+export type DepositCaptureFormValues = z.input<typeof DepositCaptureFormSchema>;
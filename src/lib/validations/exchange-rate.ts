@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+import { BASE_CURRENCY } from "@/lib/currency";
+
+export const ExchangeRatesFormSchema = z.object({
+  rates: z
+    .array(
+      z.object({
+        currency: z
+          .string()
+          .trim()
+          .toUpperCase()
+          .regex(/^[A-Z]{3}$/, "Currencies must be 3 letter ISO codes")
+          .refine(
+            (currency) => currency !== BASE_CURRENCY,
+            `Rates are quoted against ${BASE_CURRENCY}, it doesn't need one`
+          ),
+        /** Units of the currency one unit of the base currency buys */
+        rate: z
+          .string()
+          .trim()
+          .min(1, "Every currency needs a rate")
+          .pipe(
+            z.coerce
+              .number({ invalid_type_error: "Rates must be numbers" })
+              .positive("Rates must be above 0")
+          ),
+      })
+    )
+    .refine(
+      (rates) =>
+        new Set(rates.map(({ currency }) => currency)).size === rates.length,
+      { message: "Each currency can only have one rate" }
+    ),
+});
+
+export type ExchangeRatesFormValues = z.input<typeof ExchangeRatesFormSchema>;
+
+/**
+ * Reads the rates of an exchange rate file, either JSON like `{ "USD": 0.012 }` (or the same
+ * object under `rates`, as rate APIs return it) or CSV lines like `USD,0.012`. The rate of the base
+ * currency, which rate APIs list as 1, is skipped.
+ * @param content The content of the file
+ * @returns The rates as typed in the form, validated on save
+ * @throws When the file is in neither format
+ */
+export function parseExchangeRatesFile(content: string) {
+  const trimmed = content.trim();
+  let rates: { currency: string; rate: string }[];
+
+  if (trimmed.startsWith("{")) {
+    const json = JSON.parse(trimmed) as Record<string, unknown>;
+    const entries =
+      typeof json.rates === "object" && json.rates !== null ?
+        (json.rates as Record<string, unknown>)
+      : json;
+
+    rates = Object.entries(entries).map(([currency, rate]) => ({
+      currency: currency.trim(),
+      rate: String(rate),
+    }));
+  } else {
+    rates = trimmed
+      .split(/\r?\n/)
+      .map((line) => line.split(/[,;\t]/).map((cell) => cell.trim()))
+      .filter(([currency, rate]) => currency && rate !== undefined)
+      .filter(([, rate]) => !isNaN(Number(rate)))
+      .map(([currency, rate]) => ({ currency, rate }));
+  }
+
+  return rates.filter(
+    ({ currency }) => currency.toUpperCase() !== BASE_CURRENCY
+  );
+}
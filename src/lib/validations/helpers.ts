@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+/**
+ * Treats empty form inputs as `null`, so that optional columns are cleared rather than set to ""
+ */
+export function optional<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(
+    (value) => (value === "" || value === undefined ? null : value),
+    schema.nullable()
+  );
+}
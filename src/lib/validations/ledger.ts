@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+export const LedgerAdjustmentFormSchema = z.object({
+  /**
+   * Charged to the customer when positive, credited back to them when negative, in the
+   * currency's major unit
+   */
+  amount: z
+    .string()
+    .trim()
+    .min(1, "Amount is required")
+    .pipe(
+      z.coerce
+        .number({ invalid_type_error: "Amount must be a number" })
+        .refine((amount) => amount !== 0, "Amount can't be 0")
+    ),
+  reason: z.string().trim().min(1, "Reason is required"),
+});
+
+export type LedgerAdjustmentFormValues = z.input<
+  typeof LedgerAdjustmentFormSchema
+>;
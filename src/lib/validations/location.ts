@@ -0,0 +1,93 @@
+import { z } from "zod";
+
+import { GST_STATES } from "@/lib/gst-states";
+import { WEEKDAYS } from "@/lib/opening-hours";
+import { slugify } from "@/lib/utils";
+import { optional } from "./helpers";
+
+const time = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be formatted as HH:mm");
+
+const dailyHours = z
+  .object({ opens: time, closes: time })
+  .refine(({ opens, closes }) => opens < closes, {
+    message: "Closing time must be after opening time",
+    path: ["closes"],
+  })
+  .nullable();
+
+function coordinate(name: string, limit: number) {
+  return z
+    .string()
+    .trim()
+    .min(1, `${name} is required`)
+    .pipe(
+      z.coerce
+        .number({ invalid_type_error: `${name} must be a number` })
+        .min(-limit, `${name} must be between -${limit} and ${limit}`)
+        .max(limit, `${name} must be between -${limit} and ${limit}`)
+    )
+    .transform(String);
+}
+
+/**
+ * Runtimes list canonical names only (e.g. "Asia/Calcutta"), but accept their aliases as well
+ */
+function isTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const LocationFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  /** Used in search URLs, generated from the name when left empty */
+  value: z
+    .string()
+    .trim()
+    .transform((value) => slugify(value)),
+  address: optional(z.string().trim()),
+  phone: optional(
+    z
+      .string()
+      .trim()
+      .regex(/^\+?[\d\s()-]{6,20}$/, "Phone number is invalid")
+  ),
+  state_code: optional(
+    z.string().refine((code) => code in GST_STATES, "Unknown state")
+  ),
+  latitude: coordinate("Latitude", 90),
+  longitude: coordinate("Longitude", 180),
+  timezone: z.string().trim().refine(isTimeZone, {
+    message: "Unknown time zone",
+  }),
+  featured: z.boolean(),
+  image_url: optional(z.string().trim().url("Image must be a valid URL")),
+  cancellation_policy_id: optional(z.string().uuid()),
+  opening_hours: z.object(
+    Object.fromEntries(WEEKDAYS.map((day) => [day, dailyHours])) as Record<
+      (typeof WEEKDAYS)[number],
+      typeof dailyHours
+    >
+  ),
+  holiday_closures: z
+    .array(
+      z.object({
+        date: z
+          .string()
+          .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be formatted as yyyy-MM-dd"),
+        name: z.string().trim().min(1, "Holiday name is required"),
+      })
+    )
+    .refine(
+      (closures) =>
+        new Set(closures.map(({ date }) => date)).size === closures.length,
+      { message: "Each date can only be closed once" }
+    ),
+});
+
+export type LocationFormValues = z.input<typeof LocationFormSchema>;
@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+import { optional } from "./helpers";
+
+export const OneWayFeesFormSchema = z.object({
+  /** All routes are priced in the same currency */
+  currency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{3}$/, "Currency must be a 3 letter ISO code"),
+  /** Routes without an amount are not offered */
+  routes: z
+    .array(
+      z.object({
+        pickup_location_id: z.string().uuid(),
+        return_location_id: z.string().uuid(),
+        amount: optional(
+          z.coerce
+            .number({ invalid_type_error: "Fees must be numbers" })
+            .int("Fees must be whole numbers")
+            .min(0, "Fees can't be negative")
+        ),
+      })
+    )
+    .refine(
+      (routes) =>
+        routes.every(
+          ({ pickup_location_id, return_location_id }) =>
+            pickup_location_id !== return_location_id
+        ),
+      { message: "A route must end at another location" }
+    ),
+});
+
+export type OneWayFeesFormValues = z.input<typeof OneWayFeesFormSchema>;
@@ -0,0 +1,121 @@
+import { z } from "zod";
+
+import { PricingRuleType } from "@/lib/enums";
+import { WEEKDAYS } from "@/lib/opening-hours";
+import {
+  MAX_NIGHTLY_ADJUSTMENT_PERCENT,
+  MIN_NIGHTLY_ADJUSTMENT_PERCENT,
+} from "@/lib/pricing-rules";
+import { optional } from "./helpers";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_MESSAGE = "Dates must be formatted as yyyy-MM-dd";
+
+const count = (label: string) =>
+  optional(
+    z.coerce
+      .number({ invalid_type_error: `${label} must be a number` })
+      .int(`${label} must be a whole number`)
+      .min(0, `${label} can't be negative`)
+  );
+
+export const PricingRuleFormSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required"),
+    type: z.nativeEnum(PricingRuleType, {
+      errorMap: () => ({ message: "Unknown rule type" }),
+    }),
+    adjustment_percent: z.coerce
+      .number({ invalid_type_error: "Adjustment must be a number" })
+      .int("Adjustment must be a whole number")
+      .min(
+        MIN_NIGHTLY_ADJUSTMENT_PERCENT,
+        `Adjustment must be at least ${MIN_NIGHTLY_ADJUSTMENT_PERCENT}%`
+      )
+      .max(
+        MAX_NIGHTLY_ADJUSTMENT_PERCENT,
+        `Adjustment must be at most ${MAX_NIGHTLY_ADJUSTMENT_PERCENT}%`
+      )
+      .refine((value) => value !== 0, "Adjustment can't be 0%"),
+    start_date: optional(z.string().regex(DATE_PATTERN, DATE_MESSAGE)),
+    end_date: optional(z.string().regex(DATE_PATTERN, DATE_MESSAGE)),
+    weekdays: z.array(z.enum(WEEKDAYS)),
+    /** Holiday dates, separated by commas or new lines */
+    dates: z.preprocess(
+      (value) =>
+        typeof value === "string" ?
+          value.split(/[\s,]+/).filter(Boolean)
+        : value,
+      z.array(z.string().regex(DATE_PATTERN, DATE_MESSAGE))
+    ),
+    min_lead_days: count("Minimum lead time"),
+    max_lead_days: count("Maximum lead time"),
+    min_rental_days: count("Minimum rental days"),
+    min_utilization_percent: optional(
+      z.coerce
+        .number({ invalid_type_error: "Utilization must be a number" })
+        .int("Utilization must be a whole number")
+        .min(0, "Utilization can't be negative")
+        .max(100, "Utilization must be at most 100%")
+    ),
+    /** Empty to apply at every location */
+    location_ids: z.array(z.string().uuid()),
+    enabled: z.boolean(),
+  })
+  .superRefine((rule, ctx) => {
+    const issue = (path: string, message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+    switch (rule.type) {
+      case PricingRuleType.DATE_RANGE:
+        if (rule.start_date === null && rule.end_date === null) {
+          issue("start_date", "A season needs a first or a last night");
+        } else if (
+          rule.start_date &&
+          rule.end_date &&
+          rule.start_date > rule.end_date
+        ) {
+          issue("end_date", "The season must end after it starts");
+        }
+        break;
+      case PricingRuleType.WEEKEND:
+        if (rule.weekdays.length === 0) {
+          issue("weekdays", "Select at least one weekday");
+        }
+        break;
+      case PricingRuleType.HOLIDAY:
+        if (rule.dates.length === 0) {
+          issue("dates", "Enter at least one date");
+        }
+        break;
+      case PricingRuleType.LEAD_TIME:
+        if (rule.min_lead_days === null && rule.max_lead_days === null) {
+          issue(
+            "min_lead_days",
+            "A lead time rule needs a minimum or a maximum"
+          );
+        } else if (
+          rule.min_lead_days !== null &&
+          rule.max_lead_days !== null &&
+          rule.min_lead_days > rule.max_lead_days
+        ) {
+          issue(
+            "max_lead_days",
+            "The maximum lead time must be above the minimum"
+          );
+        }
+        break;
+      case PricingRuleType.LENGTH_OF_STAY:
+        if (rule.min_rental_days === null) {
+          issue("min_rental_days", "Minimum rental days are required");
+        }
+        break;
+      case PricingRuleType.UTILIZATION:
+        if (rule.min_utilization_percent === null) {
+          issue("min_utilization_percent", "Minimum utilization is required");
+        }
+        break;
+    }
+  });
+
+export type PricingRuleFormValues = z.input<typeof PricingRuleFormSchema>;
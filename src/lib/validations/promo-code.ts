@@ -0,0 +1,94 @@
+import { z } from "zod";
+
+import { BodyStyle, PromoDiscountType } from "@/lib/enums";
+import { optional } from "./helpers";
+
+const limit = (label: string) =>
+  optional(
+    z.coerce
+      .number({ invalid_type_error: `${label} must be a number` })
+      .int(`${label} must be a whole number`)
+      .min(1, `${label} must be at least 1`)
+  );
+
+const day = optional(
+  z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be formatted as yyyy-MM-dd")
+);
+
+export const PromoCodeFormSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(
+        /^[A-Z0-9_-]{3,32}$/,
+        "Code must be 3 to 32 letters, digits, dashes or underscores"
+      ),
+    description: optional(z.string().trim()),
+    discount_type: z.nativeEnum(PromoDiscountType, {
+      errorMap: () => ({ message: "Discount must be a percentage or fixed" }),
+    }),
+    discount_value: z.coerce
+      .number({ invalid_type_error: "Discount must be a number" })
+      .int("Discount must be a whole number")
+      .min(1, "Discount must be at least 1"),
+    /** Currency of fixed discounts, percentages apply to any currency */
+    currency: optional(
+      z
+        .string()
+        .trim()
+        .toUpperCase()
+        .regex(/^[A-Z]{3}$/, "Currency must be a 3 letter ISO code")
+    ),
+    /** First and last days of the validity window, in the company's time zone */
+    valid_from: day,
+    valid_until: day,
+    max_redemptions: limit("Total redemptions"),
+    max_redemptions_per_user: limit("Redemptions per customer"),
+    min_rental_days: limit("Minimum rental days"),
+    /** Empty scopes apply to every car, location or body style */
+    car_ids: z.array(z.string().uuid()),
+    location_ids: z.array(z.string().uuid()),
+    body_styles: z.array(z.nativeEnum(BodyStyle)),
+    /** Retired codes can no longer be redeemed */
+    retired: z.boolean(),
+  })
+  .refine(
+    ({ discount_type, discount_value }) =>
+      discount_type !== PromoDiscountType.PERCENTAGE || discount_value <= 100,
+    {
+      message: "A percentage discount must be at most 100",
+      path: ["discount_value"],
+    }
+  )
+  .refine(
+    ({ discount_type, currency }) =>
+      discount_type !== PromoDiscountType.FIXED || currency !== null,
+    {
+      message: "A fixed discount requires a currency",
+      path: ["currency"],
+    }
+  )
+  .refine(
+    ({ valid_from, valid_until }) =>
+      !valid_from || !valid_until || valid_from <= valid_until,
+    {
+      message: "The validity window must end after it starts",
+      path: ["valid_until"],
+    }
+  )
+  .refine(
+    ({ max_redemptions, max_redemptions_per_user }) =>
+      max_redemptions === null ||
+      max_redemptions_per_user === null ||
+      max_redemptions_per_user <= max_redemptions,
+    {
+      message: "Redemptions per customer can't exceed the total redemptions",
+      path: ["max_redemptions_per_user"],
+    }
+  );
+
+export type PromoCodeFormValues = z.input<typeof PromoCodeFormSchema>;
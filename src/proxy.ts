@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+
+import type { NextRequest } from "next/server";
+
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  LOCALE_COOKIE,
+  LOCALE_HEADER,
+  splitLocalePrefix,
+} from "@/lib/i18n/config";
+
+const LOCALE_COOKIE_OPTIONS = {
+  path: "/",
+  maxAge: 60 * 60 * 24 * 365,
+  sameSite: "lax",
+} as const;
+
+/**
+ * Serves localized paths like `/hi/cars` from the same routes as `/cars`, passing the locale to
+ * the app in a request header. Paths without a prefix keep the locale of the last localized page,
+ * and the default locale is redirected to its unprefixed path.
+ */
+export function proxy(request: NextRequest) {
+  const { locale: prefixLocale, pathname } = splitLocalePrefix(
+    request.nextUrl.pathname
+  );
+
+  if (prefixLocale === DEFAULT_LOCALE) {
+    const url = request.nextUrl.clone();
+    url.pathname = pathname;
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(LOCALE_COOKIE, DEFAULT_LOCALE, LOCALE_COOKIE_OPTIONS);
+    return response;
+  }
+
+  const cookieLocale = request.cookies.get(LOCALE_COOKIE)?.value;
+  const locale =
+    prefixLocale ?? (isLocale(cookieLocale) ? cookieLocale : DEFAULT_LOCALE);
+
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(LOCALE_HEADER, locale);
+
+  if (!prefixLocale) {
+    return NextResponse.next({ request: { headers: requestHeaders } });
+  }
+
+  const url = request.nextUrl.clone();
+  url.pathname = pathname;
+
+  const response = NextResponse.rewrite(url, {
+    request: { headers: requestHeaders },
+  });
+  response.cookies.set(LOCALE_COOKIE, prefixLocale, LOCALE_COOKIE_OPTIONS);
+  return response;
+}
+
+export const config = {
+  // Pages only, not the auth routes, build assets or public files
+  matcher: ["/((?!api|_next|.*\\..*).*)"],
+};